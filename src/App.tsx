@@ -1,255 +1,137 @@
 import { ChangeEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import sampleTicketPayload from '../sample/sample.json';
-import { ticketTypes } from './ticketTypes';
-import { eventNameDic } from './pavilions';
-
-type GateType = 1 | 2;
-
-type UseStateType = 0 | 1 | 2 | 3 | 4 | 9;
-
-interface BaseSchedule {
-  id?: number;
-  schedule_name?: string;
-  entrance_date?: string;
-  start_time?: string;
-  end_time?: string;
-  use_state?: UseStateType;
-  admission_time?: string;
-  on_the_day?: boolean;
-}
-
-interface EntranceSchedule extends BaseSchedule {
-  user_visiting_reservation_id?: number;
-  gate_type?: GateType;
-}
-
-interface EventSchedule extends BaseSchedule {
-  program_code?: string;
-  event_name?: string;
-  event_summary?: string;
-  virtual_url?: string;
-  virtual_url_desc?: string;
-  portal_url?: string;
-  portal_url_desc?: string;
-  registered_channel?: number;
-}
-
-interface Ticket {
-  id?: number;
-  is_sample?: boolean;
-  ticket_id?: string;
-  item_name?: string;
-  item_group_name?: string;
-  item_summary?: string | null;
-  image_large_path?: string | null;
-  schedules?: EntranceSchedule[] | null;
-  event_schedules?: EventSchedule[] | null;
-  ticket_type_id?: string;
-}
-
-interface TicketPayload {
-  list: Ticket[];
-  is_sample?: boolean;
-}
-
-const gateLabels: Record<GateType, string> = {
-  1: '東ゲート',
-  2: '西ゲート'
-};
-
-const gateBadgeClasses: Record<GateType, string> = {
-  1: 'bg-[#E60012]/10 text-[#E60012]',
-  2: 'bg-[#0068B7]/10 text-[#0068B7]'
-};
-
-const useStateLabels: Record<UseStateType, string> = {
-  0: '未使用',
-  1: '利用済み',
-  2: 'キャンセル済み',
-  3: 'キャンセル手続き中',
-  4: '変更手続き中',
-  9: 'その他'
-};
-
-const useStateBadgeClasses: Record<UseStateType, string> = {
-  0: 'bg-[#D2D7DA] text-[#0B1F3B]',
-  1: 'bg-[#0068B7]/10 text-[#0068B7]',
-  2: 'bg-[#E60012]/10 text-[#E60012]',
-  3: 'bg-[#E60012]/20 text-[#E60012]',
-  4: 'bg-[#0068B7]/20 text-[#0068B7]',
-  9: 'bg-[#D2D7DA] text-[#0B1F3B]'
-};
-
-const themeColors = {
-  red: '#E60012',
-  blue: '#0068B7',
-  gray: '#D2D7DA',
-  darkBlue: '#0B1F3B',
-  textGray: '#4B5563'
-};
+import {
+  applyReservationFilter,
+  buildImagePdf,
+  buildImageUrl,
+  buildLotteryHistory,
+  buildParseDiagnostics,
+  buildQrCodeUrl,
+  buildVisitSummary,
+  checkReservationConflicts,
+  collapsePartyDuplicates,
+  collectFilterOptions,
+  compareSchedules,
+  countReservations,
+  createSnapshot,
+  describeVisitPeriod,
+  detectParties,
+  emptySummaryRedaction,
+  emptyPavilionMaster,
+  emptyReservationFilter,
+  enrichTicketEvents,
+  extractEmbeddedTicketJson,
+  filterTickets,
+  formatDate,
+  formatTime,
+  gateLabelsByLocale,
+  getTicketKey,
+  indexToLabel,
+  isTicketPayload,
+  layoutShareImage,
+  mergeTicketPayloads,
+  mergeTicketPayloadsWithReport,
+  paginateShareImage,
+  parseTicketJson,
+  parseTicketJsonWithRepairs,
+  planSharePdfPages,
+  resolvePavilionName,
+  resolveRegisteredChannel,
+  resolveTicketName,
+  shareLayoutMetrics,
+  shareSectionOrder,
+  shareTemplateOrder,
+  shareTemplates,
+  splitSchedulesByTime,
+  TicketParseError
+} from './core';
+import type {
+  EntranceSchedule,
+  EventSchedule,
+  GateType,
+  HistorySnapshot,
+  Locale,
+  MergeReport,
+  ParseDiagnosticsReport,
+  PavilionMaster,
+  PdfImagePage,
+  PdfPageSize,
+  ReservationFilter,
+  ShareImageLayout,
+  ShareSectionVisibility,
+  ShareTemplateId,
+  SummaryEntranceLine,
+  SummaryEntranceTable,
+  SummaryMonthlyCount,
+  SummaryRedaction,
+  Ticket,
+  TicketParseRepair,
+  TicketPayload
+} from './core';
+import {
+  deleteAllStoredData,
+  isHistoryStoreAvailable,
+  isPersistenceEnabled,
+  loadStoredHistory,
+  loadStoredSnapshots,
+  removeStoredHistory,
+  saveStoredHistory,
+  saveStoredSnapshots,
+  setPersistenceEnabled
+} from './historyStore';
+import { buildExportFileName, downloadBlob } from './download';
+import { loadPavilionMaster } from './pavilionCatalogue';
+import { LOCALE_QUERY_PARAM, messagesByLocale, useI18n } from './i18n';
+import type { Messages } from './i18n';
+import { instructionDefinitions, instructionOrder, MY_TICKET_URL, TICKET_API_URL } from './instructions';
+import type { InstructionMethod } from './instructions';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import ExportPanel from './components/ExportPanel';
+import FilterBar from './components/FilterBar';
+import MergeReportNotice from './components/MergeReportNotice';
+import ParseDiagnosticsPanel from './components/ParseDiagnosticsPanel';
+import TicketDetailPanel from './components/TicketDetailPanel';
+import ReservationCalendar from './components/ReservationCalendar';
+import DailyTimelineView from './components/DailyTimelineView';
+import SnapshotHistoryPanel from './components/SnapshotHistoryPanel';
+import StatsDashboard from './components/StatsDashboard';
+import LeadTimeAnalytics from './components/LeadTimeAnalytics';
+import PartyView from './components/PartyView';
+import LotteryEntryList from './components/LotteryEntryList';
+import LotteryHistoryView from './components/LotteryHistoryView';
+import PrintSheetView from './components/PrintSheetView';
+import NextVisitPanel from './components/NextVisitPanel';
+import ReservationWarningList from './components/ReservationWarningList';
+import ReservationWarningsPanel from './components/ReservationWarningsPanel';
+import { gateBadgeClasses, resolveUseState, shareThemes, themeColors } from './theme';
+import type { ShareTheme, ShareThemeId } from './theme';
 
 const MAX_CANVAS_PIXELS = 16777216; // 4096 x 4096
+const NOW_REFRESH_INTERVAL = 60 * 1000;
 
-const MY_TICKET_URL = 'https://ticket.expo2025.or.jp/myticket/';
-const TICKET_API_URL = 'https://ticket.expo2025.or.jp/api/d/my/tickets/';
 const DEFAULT_VIEWER_URL = 'https://www.nakayuki.net/expo-history-viewer/';
 
-type InstructionMethod = 'bookmarklet' | 'file' | 'copy';
-
-interface InstructionAction {
-  label: string;
-  href: string;
-  target: string;
-}
+type DataView = 'cards' | 'calendar' | 'timeline' | 'stats' | 'parties' | 'lotteries' | 'print';
 
-interface InstructionStep {
-  heading: string;
-  body?: string;
-  actions?: InstructionAction[];
-  showBookmarkletCode?: boolean;
-  showCopyShortcutBadges?: boolean;
-  showSaveShortcutBadges?: boolean;
-}
+const dataViewOrder: DataView[] = ['cards', 'calendar', 'timeline', 'stats', 'parties', 'lotteries', 'print'];
 
-interface InstructionDefinition {
-  label: string;
-  description: string;
-  steps: InstructionStep[];
-  notes?: string[];
-}
-
-const instructionDefinitions: Record<InstructionMethod, InstructionDefinition> = {
-  bookmarklet: {
-    label: 'ブックマークレット',
-    description: 'Android・PC向け(Safari不可)',
-    steps: [
-      {
-        heading: 'ブックマークレットをブラウザに登録',
-        body: 'このページをブラウザ(Chrome等)のブックマーク(お気に入り)に登録します。\n次に下のコードをコピーします。\nそして、ブックマーク一覧から先ほど登録したブックマークを編集し、名前を適当なもの(例えば「履歴読み込み」)に変え、URL欄に元のURLを消してコピーしたコードを貼り付けて保存します。\n一度保存したら次回からはこのステップは不要です\nAndroidの方は変更したブックマークの名前を覚えておいてください。',
-        showBookmarkletCode: true
-      },
-      {
-        heading: 'マイチケットにログイン',
-        body: '下の「マイチケットを開く」ボタンからページを開き、普段どおりログインします。',
-        actions: [
-          {
-            label: 'マイチケットを開く',
-            href: MY_TICKET_URL,
-            target: 'myticket'
-          }
-        ]
-      },
-      {
-        heading: 'ブックマークレットを実行',
-        body: 'ログイン後のマイチケットの画面で先ほど編集したブックマークを開くと、自動でこのビューアーに履歴データが読み込まれますので、このビューアーのタブに戻ってきてください。\nAndroidの場合はブックマーク一覧から開いても実行できません。マイチケットの画面でアドレスバーに編集時に変えたブックマークの名前を打ち込んで、候補に先ほど登録したブックマークが出てきたら開いてください。(閲覧履歴に基づくURLの候補と紛らわしい場合がありますので注意してください。ブックマーク名を変えていないと紛らわしいです。)',
-      }
-    ],
-    notes: [
-      'ブックマークレットは大きな JSON でもコピーせずに送信できます。',
-      'ポップアップがブロックされた場合は、ポップアップを許可してから再度ブックマークを実行してください。',
-      'Safari では動作しません。iPhone の方はファイルを読み込む方法をお試しください。',
-    ]
-  },
-  file: {
-    label: 'ファイルを読み込む',
-    description: '一度ファイルに保存する方法です。iPhoneもOK',
-    steps: [
-      {
-        heading: 'マイチケットにログイン',
-        body: '下の「マイチケットを開く」ボタンからログインページを開きます。',
-        actions: [
-          {
-            label: 'マイチケットを開く',
-            href: MY_TICKET_URL,
-            target: 'myticket'
-          }
-        ]
-      },
-      {
-        heading: 'チケット一覧APIを開く',
-        body: '下の「チケット一覧APIを開く」ボタンからページを表示し、画面いっぱいに文字の羅列によるコード(JSON)が表示されていることを確認します。',
-        actions: [
-          {
-            label: 'チケット一覧APIを開く',
-            href: TICKET_API_URL,
-            target: '_blank'
-          }
-        ]
-      },
-      {
-        heading: 'ファイルに保存',
-        body: 'コード(JSON)が表示されている画面をファイルに保存します。(PDFで保存は不可)\niPhone の場合はSafariの共有メニューを開き、オプションで「Webアーカイブ」を選択して完了を押します。そして、「"ファイル"に保存」を押して任意の場所に保存します。\nPCの場合は、下のショートカットキーを参考にしてください。',
-        showSaveShortcutBadges: true
-      },
-      {
-        heading: 'このページでファイルを選択',
-        body: '「ファイルから読み込む」エリアをクリックし、先ほど保存したファイルを選びます。'
-      },
-      {
-        heading: '解析完了を待つ',
-        body: '読み込みが終わるとデータが自動で解析され、一覧に追加されます。'
-      }
-    ],
-    notes: [
-      'PCでファイル名に拡張子が付いていない場合は .json を付けると読み込みやすくなります。',
-      'この方法では公式API側の仕様で言語指定ができないため、一部の情報は英語表記になります。',
-    ]
-  },
-  copy: {
-    label: 'JSONをコピペ',
-    description: 'PCなら手軽',
-    steps: [
-      {
-        heading: 'マイチケットにログイン',
-        body: '下の「マイチケットを開く」ボタンからログインページを開きます。',
-        actions: [
-          {
-            label: 'マイチケットを開く',
-            href: MY_TICKET_URL,
-            target: 'myticket'
-          }
-        ]
-      },
-      {
-        heading: 'チケット一覧APIを開く',
-        body: '下の「チケット一覧APIを開く」ボタンからページを表示し、画面いっぱいに文字の羅列によるコード(JSON)が表示されていることを確認します。',
-        actions: [
-          {
-            label: 'チケット一覧APIを開く',
-            href: TICKET_API_URL,
-            target: '_blank'
-          }
-        ]
-      },
-      {
-        heading: '全選択してコピー',
-        body: 'コード(JSON)を全選択してまるごとコピーします。下のショートカットキーを参考にしてください。',
-        showCopyShortcutBadges: true
-      },
-      {
-        heading: 'ビューアーに貼り付けて解析',
-        body: 'このページの「JSONを貼り付け」欄にペーストし、「この内容で解析する」を押します。'
-      }
-    ],
-    notes: [
-      'Android では JSON が長いと途中でコピーが途切れることがあります。うまくいかない場合はブックマークレットやファイル保存を利用してください。',
-      '貼り付け前に余計な文字が混ざっていないか確認してください。',
-      'この方法では公式API側の仕様で言語指定ができないため、一部の情報は英語表記になります。',
-    ]
-  }
-};
-
-const instructionOrder: InstructionMethod[] = ['file', 'bookmarklet', 'copy'];
-
-function createBookmarklet(viewerUrl: string, apiUrl: string): string {
+function createBookmarklet(viewerUrl: string, apiUrl: string, locale: Locale, texts: Messages['bookmarklet']): string {
   const escapeSingleQuote = (value: string) => value.replace(/'/g, "\\'");
   const escapedViewer = escapeSingleQuote(viewerUrl);
   const viewerOrigin = escapeSingleQuote(new URL(viewerUrl).origin);
   const escapedApi = escapeSingleQuote(apiUrl);
-  const script = `(async()=>{const viewerUrl='${escapedViewer}';const viewerOrigin='${viewerOrigin}';const apiUrl='${escapedApi}';const fileName=()=>{const now=new Date();const pad=(v)=>String(v).padStart(2,'0');return\`tickets-\${now.getFullYear()}\${pad(now.getMonth()+1)}\${pad(now.getDate())}-\${pad(now.getHours())}\${pad(now.getMinutes())}\${pad(now.getSeconds())}.json\`;};const send=(target,data)=>{target.postMessage({type:'expo-history-viewer:data',json:data,fileName:fileName()},viewerOrigin);};const notify=(message)=>window.alert(message);try{const response=await fetch(apiUrl,{credentials:'include',headers:{'x-api-lang':'ja','accept':'application/json'}});if(!response.ok){throw new Error('HTTP '+response.status);}const payload=await response.text();const tryOpener=()=>{if(!window.opener||window.opener.closed){return false;}try{send(window.opener,payload);notify('データを送信しました。ビューアーをご確認ください。');return true;}catch(error){console.warn(error);return false;}};if(tryOpener()){return;}const viewer=window.open(viewerUrl,'expo-history-viewer');if(!viewer){notify('ビューアーを開けませんでした。ポップアップを許可してください。');return;}let finished=false;const cleanup=()=>{if(finished){return;}finished=true;window.removeEventListener('message',onMessage);window.clearTimeout(initialTryId);window.clearTimeout(timeoutId);};const complete=()=>{cleanup();notify('データを送信しました。ビューアーをご確認ください。');};const sendToViewer=()=>{if(finished){return;}try{send(viewer,payload);complete();}catch(error){console.debug('postMessage retry',error);}};const onMessage=(event)=>{if(event.source===viewer&&event.data&&event.data.type==='expo-history-viewer:ready'){sendToViewer();}};window.addEventListener('message',onMessage);const initialTryId=window.setTimeout(sendToViewer,600);const timeoutId=window.setTimeout(()=>{if(!finished){cleanup();notify('データを送信できませんでした。ビューアーが開いているか確認してください。');}},10000);}catch(error){console.error(error);notify('データの取得に失敗しました。ログイン状態を確認してください。');}})();`;
+  const sent = escapeSingleQuote(texts.sent);
+  const script = `(async()=>{const viewerUrl='${escapedViewer}';const viewerOrigin='${viewerOrigin}';const apiUrl='${escapedApi}';const fileName=()=>{const now=new Date();const pad=(v)=>String(v).padStart(2,'0');return\`tickets-\${now.getFullYear()}\${pad(now.getMonth()+1)}\${pad(now.getDate())}-\${pad(now.getHours())}\${pad(now.getMinutes())}\${pad(now.getSeconds())}.json\`;};const send=(target,data)=>{target.postMessage({type:'expo-history-viewer:data',json:data,fileName:fileName()},viewerOrigin);};const notify=(message)=>window.alert(message);try{const response=await fetch(apiUrl,{credentials:'include',headers:{'x-api-lang':'${locale}','accept':'application/json'}});if(!response.ok){throw new Error('HTTP '+response.status);}const payload=await response.text();const tryOpener=()=>{if(!window.opener||window.opener.closed){return false;}try{send(window.opener,payload);notify('${sent}');return true;}catch(error){console.warn(error);return false;}};if(tryOpener()){return;}const viewer=window.open(viewerUrl,'expo-history-viewer');if(!viewer){notify('${escapeSingleQuote(texts.openFailed)}');return;}let finished=false;const cleanup=()=>{if(finished){return;}finished=true;window.removeEventListener('message',onMessage);window.clearTimeout(initialTryId);window.clearTimeout(timeoutId);};const complete=()=>{cleanup();notify('${sent}');};const sendToViewer=()=>{if(finished){return;}try{send(viewer,payload);complete();}catch(error){console.debug('postMessage retry',error);}};const onMessage=(event)=>{if(event.source===viewer&&event.data&&event.data.type==='expo-history-viewer:ready'){sendToViewer();}};window.addEventListener('message',onMessage);const initialTryId=window.setTimeout(sendToViewer,600);const timeoutId=window.setTimeout(()=>{if(!finished){cleanup();notify('${escapeSingleQuote(texts.sendFailed)}');}},10000);}catch(error){console.error(error);notify('${escapeSingleQuote(texts.fetchFailed)}');}})();`;
   return `javascript:${script.replace(/\s+/g, ' ')}`;
 }
 
+function describeParseError(error: unknown, messages: Messages, fallback = messages.errors.unknown): string {
+  if (error instanceof TicketParseError) {
+    return messages.errors.parse[error.code];
+  }
+  return error instanceof Error ? error.message : fallback;
+}
+
 function ShortcutBadge({ label }: { label: string }) {
   return (
     <span className="inline-flex items-center justify-center rounded-md border border-[#C5CCD0] bg-white px-2 py-1 text-xs font-semibold text-[#0B1F3B] shadow-sm">
@@ -259,6 +141,7 @@ function ShortcutBadge({ label }: { label: string }) {
 }
 
 function ShortcutBadges({ type }: { type: 'save' | 'copy' }) {
+  const { m } = useI18n();
   const [isMac, setIsMac] = useState<boolean | null>(null);
 
   useEffect(() => {
@@ -275,26 +158,26 @@ function ShortcutBadges({ type }: { type: 'save' | 'copy' }) {
 
   const shortcuts = type === 'copy' ? (isMac
     ? [
-        { label: '全選択', combo: ['⌘', 'A'] },
-        { label: 'コピー', combo: ['⌘', 'C'] }
+        { label: m.shortcuts.selectAll, combo: ['⌘', 'A'] },
+        { label: m.shortcuts.copy, combo: ['⌘', 'C'] }
       ]
     : [
-        { label: '全選択', combo: ['Ctrl', 'A'] },
-        { label: 'コピー', combo: ['Ctrl', 'C'] }
+        { label: m.shortcuts.selectAll, combo: ['Ctrl', 'A'] },
+        { label: m.shortcuts.copy, combo: ['Ctrl', 'C'] }
       ]
     ) : (isMac
     ? [
-        { label: '保存', combo: ['⌘', 'S'] },
+        { label: m.shortcuts.save, combo: ['⌘', 'S'] },
       ]
     : [
-        { label: '保存', combo: ['Ctrl', 'S'] },
+        { label: m.shortcuts.save, combo: ['Ctrl', 'S'] },
       ]
     );
 
   return (
     <div className="mt-3 space-y-2 rounded-xl border border-[#0068B7]/20 bg-white/80 p-3">
       <p className="text-xs font-semibold uppercase tracking-wide text-[#0068B7]">
-        {isMac === null ? 'ショートカット' : isMac ? 'Macショートカット' : 'Windows / その他'}
+        {isMac === null ? m.shortcuts.generic : isMac ? m.shortcuts.mac : m.shortcuts.other}
       </p>
       <div className="flex flex-wrap gap-3">
         {shortcuts.map((item) => (
@@ -310,361 +193,195 @@ function ShortcutBadges({ type }: { type: 'save' | 'copy' }) {
       </div>
       {isMac === null && (
         <p className="text-xs text-[#0B1F3B]/70">
-          ブラウザや端末によってショートカットが異なる場合があります。
+          {m.shortcuts.note}
         </p>
       )}
     </div>
   );
 }
 
-function resolveUseState(value?: number): { label: string; className: string } {
-  if (value === undefined || value === null) {
-    return { label: '状態不明', className: 'bg-[#D2D7DA] text-[#0B1F3B]' };
-  }
-  const key = value as UseStateType;
-  const label = useStateLabels[key];
-  const className = useStateBadgeClasses[key];
-  if (label && className) {
-    return { label, className };
-  }
-  return { label: `状態不明（${value}）`, className: 'bg-[#D2D7DA] text-[#0B1F3B]' };
-}
-
-const registeredChannelLabels: Record<number, string> = {
-  0: '当日登録端末・他',
-  1: '超早割特別抽選',
-  2: '2ヶ月前抽選',
-  3: '7日前抽選',
-  4: '3日前先着',
-  5: '当日予約'
-};
-
-function resolveRegisteredChannel(channel?: number): string {
-  if (channel === undefined || channel === null) {
-    return '不明';
-  }
-  const label = registeredChannelLabels[channel];
-  return label ? `${label}（${channel}）` : `不明（${channel}）`;
-}
-
-function resolveTicketName(ticket: Ticket): string {
-  return ticketTypes[ticket.ticket_type_id ?? ''] || ticket.item_name || '不明なチケット';
-}
-
-function resolvePavilionName(code: string, name: string|null|undefined): string {
-  const eventName = eventNameDic[code] || name || "不明なパビリオン";
-  return eventName
-    .trim()
-    .replace(/^シグネチャーパビリオン\s+/,'')
-    .replace(/\*車いす使用者は下記専用回にご予約下さい$/,'')
-    .replace(/\/年齢に関わらず全員予約が必要$/,'')
-    .replace(/※.+$/,'');
-}
-
-function formatDate(value?: string | null): string {
-  if (!value) return '未設定';
-  if (value.includes('-')) return value;
-  if (value.length !== 8) return value;
-  return `${value.slice(0, 4)}年${value.slice(4, 6)}月${value.slice(6, 8)}日`;
-}
-
-function formatTime(value?: string | null): string {
-  if (!value) return '未設定';
-  if (value.includes(':')) return value;
-  if (value.length === 4) return `${value.slice(0, 2)}:${value.slice(2)}`;
-  if (value.length === 6) {
-    return `${value.slice(0, 2)}:${value.slice(2, 4)}:${value.slice(4)}`;
-  }
-  return value;
-}
-
-function isTicketPayload(value: unknown): value is TicketPayload {
-  if (typeof value !== 'object' || value === null) return false;
-  const record = value as { list?: unknown };
-  return Array.isArray(record.list);
-}
-
-function tryParseTickets(text: string): TicketPayload | null {
-  try {
-    const parsed = JSON.parse(text);
-    if (isTicketPayload(parsed)) {
-      return parsed;
-    }
-    return null;
-  } catch (error) {
-    return null;
-  }
-}
-
-function extractEmbeddedTicketJson(source: string): string | null {
-  const cleaned = source.replace(/\u0000/g, '');
-  const startIndex = cleaned.indexOf('{"list"');
-  if (startIndex === -1) {
-    return null;
-  }
-
-  let depth = 0;
-  for (let index = startIndex; index < cleaned.length; index += 1) {
-    const char = cleaned[index];
-    if (char === '{') {
-      depth += 1;
-    } else if (char === '}') {
-      depth -= 1;
-      if (depth === 0) {
-        return cleaned.slice(startIndex, index + 1);
-      }
-    }
-  }
-
-  return null;
-}
-
-function extractDigits(value?: string | null): string {
-  return value ? value.replace(/\D/g, '') : '';
-}
-
-function scheduleSortKey(schedule: EntranceSchedule | EventSchedule): string {
-  const date = schedule.entrance_date && /\d{8}/.test(schedule.entrance_date)
-    ? schedule.entrance_date
-    : '99999999';
-  const startFromField = schedule.start_time && /\d{4}/.test(schedule.start_time)
-    ? schedule.start_time
-    : '';
-  const startFromName = extractDigits(schedule.schedule_name).slice(0, 4);
-  const time = (startFromField || startFromName || '9999').padEnd(4, '9');
-  return `${date}${time}`;
-}
-
-function getTicketKey(ticket: Ticket, index: number): string {
-  if (ticket.id !== undefined) {
-    return `id-${ticket.id}`;
-  }
-  if (ticket.ticket_id) {
-    return `ticket-${ticket.ticket_id}`;
-  }
-  return `index-${index}`;
-}
-
-function mergeTicketPayloads(existing: TicketPayload | null, incoming: TicketPayload): TicketPayload {
-  const merged: Ticket[] = [];
-  const seenIds = new Set<string>();
-  const isNotSample = incoming.is_sample !== true;
-
-  const addTicket = (ticket: Ticket) => {
-    if (isNotSample && ticket.is_sample === true) {
-      return;
-    }
-    const ticketId = ticket.ticket_id?.trim();
-    if (ticketId) {
-      if (seenIds.has(ticketId)) {
-        return;
-      }
-      seenIds.add(ticketId);
-    }
-    merged.push(ticket);
-  };
-
-  if (existing) {
-    existing.list.forEach(addTicket);
-  }
-
-  incoming.list.forEach(addTicket);
-
-  return { list: merged };
-}
-
-function parseTicketJson(rawText: string): TicketPayload {
-  const trimmed = rawText.trim();
-  if (!trimmed) {
-    const embedded = extractEmbeddedTicketJson(rawText);
-    if (embedded) {
-      const fallback = tryParseTickets(embedded);
-      if (fallback) {
-        return fallback;
-      }
-    }
-    throw new Error('JSONが空です。');
-  }
-
-  if (/"message"\s*:\s*"Unauthorized"/i.test(trimmed)) {
-    throw new Error('マイチケットにログインできていません。ログインしてからコード(JSON)の取得をやり直してください。');
-  }
-
-  const direct = tryParseTickets(trimmed);
-  if (direct) {
-    return direct;
-  }
-
-  const embedded = extractEmbeddedTicketJson(rawText);
-  if (embedded) {
-    const fallback = tryParseTickets(embedded);
-    if (fallback) {
-      return fallback;
-    }
-  }
-
-  throw new Error('JSONの解析に失敗しました。ファイルの形式を確認してください。');
-}
-
-function buildImageUrl(path?: string | null): string | null {
-  if (!path) return null;
-  if (path.startsWith('http')) return path;
-  return `https://ticket.expo2025.or.jp${path}`;
-}
-
 interface TicketSchedulesProps {
   title: string;
   schedules?: (EntranceSchedule | EventSchedule)[] | null;
   type: 'entrance' | 'event';
   ticketId?: string;
+  /** これから / 過去の振り分けに使う現在時刻 */
+  now: Date;
 }
 
-function TicketSchedules({ title, schedules, type, ticketId }: TicketSchedulesProps) {
+function TicketSchedules({ title, schedules, type, ticketId, now }: TicketSchedulesProps) {
+  const { m, locale } = useI18n();
   const orderedSchedules = useMemo(() => {
     if (!Array.isArray(schedules) || schedules.length === 0) {
       return [] as (EntranceSchedule | EventSchedule)[];
     }
-    if (type === 'event') {
-      return [...schedules].sort((a, b) => {
-        const keyA = scheduleSortKey(a);
-        const keyB = scheduleSortKey(b);
-        if (keyA < keyB) return -1;
-        if (keyA > keyB) return 1;
-        return 0;
-      });
-    }
-    return [...schedules];
-  }, [schedules, type]);
+    return [...schedules].sort(compareSchedules);
+  }, [schedules]);
+  const { upcoming, past } = useMemo(() => splitSchedulesByTime(orderedSchedules, type, now), [orderedSchedules, type, now]);
 
   if (orderedSchedules.length === 0) {
     return (
       <div className="rounded-lg border border-dashed border-[#0068B7]/30 bg-white/70 p-4 text-sm text-[#0B1F3B]">
-        {title}は見つかりませんでした。
+        {m.schedules.notFound(title)}
       </div>
     );
   }
 
-  return (
-    <div className="space-y-3">
-      {orderedSchedules.map((schedule, index) => {
-        const user_visiting_reservation_id = 'user_visiting_reservation_id' in schedule ? schedule.user_visiting_reservation_id : undefined;
-        const keySource = user_visiting_reservation_id || schedule.id;
-        const key = `${type}-${keySource ?? `schedule-${index}`}`;
-        const stateDisplay = resolveUseState(schedule.use_state);
-        const isEvent = type === 'event';
-        const entrance_date = schedule.entrance_date;
-        const dateLabel = formatDate(entrance_date);
-        const timeLabel = schedule.schedule_name || (schedule.start_time ? formatTime(schedule.start_time) : '');
-        const entranceTitle = dateLabel !== '未設定' ? dateLabel : '日付未設定';
-        const titleText = isEvent
-          ? (resolvePavilionName((schedule as EventSchedule).program_code ?? '', (schedule as EventSchedule).event_name) || timeLabel)
-          : entranceTitle;
-        const qrCodeUrl = (!isEvent && user_visiting_reservation_id && entrance_date) ? `https://ticket.expo2025.or.jp/publish_qrcode/?id=${ticketId}&reserve_id=${user_visiting_reservation_id}&entrance_date=${entrance_date}` : undefined;
-        const gateLabel = !isEvent && (schedule as EntranceSchedule).gate_type !== undefined
-          ? gateLabels[(schedule as EntranceSchedule).gate_type as GateType] ??
-            `ゲート種別: ${(schedule as EntranceSchedule).gate_type}`
-          : '';
-        const gateBadgeClass = !isEvent && (schedule as EntranceSchedule).gate_type !== undefined
-          ? gateBadgeClasses[(schedule as EntranceSchedule).gate_type as GateType] ??
-            'bg-[#D2D7DA] text-[#0068B7]'
-          : 'bg-[#D2D7DA] text-[#0068B7]';
+  const renderSchedule = (schedule: EntranceSchedule | EventSchedule, index: number) => {
+    const user_visiting_reservation_id = 'user_visiting_reservation_id' in schedule ? schedule.user_visiting_reservation_id : undefined;
+    const keySource = user_visiting_reservation_id || schedule.id;
+    const key = `${type}-${keySource ?? `schedule-${index}`}`;
+    const stateDisplay = resolveUseState(schedule.use_state, locale);
+    const isEvent = type === 'event';
+    const entrance_date = schedule.entrance_date;
+    const dateLabel = entrance_date ? formatDate(entrance_date, locale) : '';
+    const timeLabel = schedule.schedule_name || (schedule.start_time ? formatTime(schedule.start_time, locale) : '');
+    const entranceTitle = dateLabel || m.schedules.noDate;
+    const titleText = isEvent
+      ? (resolvePavilionName((schedule as EventSchedule).program_code ?? '', (schedule as EventSchedule).event_name, locale) || timeLabel)
+      : entranceTitle;
+    const qrCodeUrl = !isEvent ? buildQrCodeUrl(ticketId, user_visiting_reservation_id, entrance_date) : null;
+    const gateLabel = !isEvent && (schedule as EntranceSchedule).gate_type !== undefined
+      ? gateLabelsByLocale[locale][(schedule as EntranceSchedule).gate_type as GateType] ??
+        m.schedules.gateType(Number((schedule as EntranceSchedule).gate_type))
+      : '';
+    const gateBadgeClass = !isEvent && (schedule as EntranceSchedule).gate_type !== undefined
+      ? gateBadgeClasses[(schedule as EntranceSchedule).gate_type as GateType] ??
+        'bg-[#D2D7DA] text-[#0068B7]'
+      : 'bg-[#D2D7DA] text-[#0068B7]';
 
-        return (
-          <div key={key} className="rounded-lg border border-[#C5CCD0] bg-white p-4 shadow-sm">
-            <div className="flex flex-wrap items-center gap-2">
-              <span className="text-lg font-semibold text-[#0068B7]">{titleText}</span>
-              {isEvent && dateLabel !== '未設定' && (
-                <span className="rounded-full bg-[#D2D7DA] px-3 py-1 text-xs font-medium text-[#0068B7]">
-                  {dateLabel}
-                </span>
-              )}
-              {timeLabel && (
-                <span className="rounded-full bg-[#0068B7]/10 px-3 py-1 text-xs font-medium text-[#0068B7]">
-                  {timeLabel}
-                </span>
-              )}
-              {!isEvent && gateLabel && (
-                <span className={`rounded-full px-3 py-1 text-xs font-medium ${gateBadgeClass}`}>
-                  {gateLabel}
-                </span>
-              )}
-              {schedule.use_state !== undefined && (
-                <span className={`rounded-full px-3 py-1 text-xs font-semibold ${stateDisplay.className}`}>
-                  {stateDisplay.label}
-                </span>
-              )}
-              {schedule.on_the_day && (
-                <span className="rounded-full bg-[#E60012]/10 px-3 py-1 text-xs font-semibold text-[#E60012]">
-                  当日予約
-                </span>
-              )}
-            </div>
+    return (
+      <div key={key} className="rounded-lg border border-[#C5CCD0] bg-white p-4 shadow-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-lg font-semibold text-[#0068B7]">{titleText}</span>
+          {isEvent && dateLabel && (
+            <span className="rounded-full bg-[#D2D7DA] px-3 py-1 text-xs font-medium text-[#0068B7]">
+              {dateLabel}
+            </span>
+          )}
+          {timeLabel && (
+            <span className="rounded-full bg-[#0068B7]/10 px-3 py-1 text-xs font-medium text-[#0068B7]">
+              {timeLabel}
+            </span>
+          )}
+          {!isEvent && gateLabel && (
+            <span className={`rounded-full px-3 py-1 text-xs font-medium ${gateBadgeClass}`}>
+              {gateLabel}
+            </span>
+          )}
+          {schedule.use_state !== undefined && (
+            <span className={`rounded-full px-3 py-1 text-xs font-semibold ${stateDisplay.className}`}>
+              {stateDisplay.label}
+            </span>
+          )}
+          {schedule.on_the_day && (
+            <span className="rounded-full bg-[#E60012]/10 px-3 py-1 text-xs font-semibold text-[#E60012]">
+              {m.schedules.onTheDay}
+            </span>
+          )}
+        </div>
 
-            {isEvent && (schedule as EventSchedule).program_code && (
-              <div className="mt-2 text-sm text-[#0B1F3B]">
-                プログラムコード: {(schedule as EventSchedule).program_code}
-              </div>
-            )}
+        {isEvent && (schedule as EventSchedule).program_code && (
+          <div className="mt-2 text-sm text-[#0B1F3B]">
+            {m.schedules.programCode((schedule as EventSchedule).program_code ?? '')}
+          </div>
+        )}
 
-            <dl className="mt-3 grid gap-2 text-sm text-[#0B1F3B] grid-cols-2">
-              {schedule.admission_time && (
-                <div>
-                  <dt className="font-medium text-[#0068B7]">入場時刻</dt>
-                  <dd>{formatTime(schedule.admission_time)}</dd>
-                </div>
-              )}
-              {isEvent && (schedule as EventSchedule).registered_channel !== undefined && (
-                <div>
-                  <dt className="font-medium text-[#0068B7]">予約方法</dt>
-                  <dd>{resolveRegisteredChannel((schedule as EventSchedule).registered_channel)}</dd>
-                </div>
-              )}
-              {isEvent && schedule.start_time && (
-                <div className='col-start-1'>
-                  <dt className="font-medium text-[#0068B7]">開始時刻</dt>
-                  <dd>{formatTime(schedule.start_time)}</dd>
-                </div>
-              )}
-              {isEvent && schedule.end_time && (
-                <div>
-                  <dt className="font-medium text-[#0068B7]">終了時刻</dt>
-                  <dd>{formatTime(schedule.end_time)}</dd>
-                </div>
-              )}
-              {isEvent && (schedule as EventSchedule).portal_url && (
-                <div>
-                  <dt className="font-medium text-[#0068B7]">詳細ページ</dt>
-                  <dd>
-                    <a
-                      href={(schedule as EventSchedule).portal_url as string}
-                      target="_blank"
-                      rel="noreferrer"
-                      className="text-[#4B5563] hover:underline"
-                    >
-                      {(schedule as EventSchedule).portal_url_desc || '詳細を確認'}
-                    </a>
-                  </dd>
-                </div>
-              )}
-              {/* {qrCodeUrl && (
-                <div>
-                  <dt className="font-medium text-[#0068B7]">QRコード印刷</dt>
-                  <dd>
-                    <a
-                      href={qrCodeUrl}
-                      target="_blank"
-                      rel="noreferrer"
-                      className="text-[#4B5563] hover:underline"
-                    >
-                      印刷ページ
-                    </a>
-                  </dd>
-                </div>
-              )} */}
-            </dl>
+        {isEvent && (schedule as EventSchedule).event_summary && (
+          <details className="mt-2 text-sm text-[#0B1F3B]">
+            <summary className="cursor-pointer font-medium text-[#0068B7]">{m.schedules.showSummary}</summary>
+            <p className="mt-1 whitespace-pre-line text-[#4B5563]">{(schedule as EventSchedule).event_summary}</p>
+          </details>
+        )}
+
+        <dl className="mt-3 grid gap-2 text-sm text-[#0B1F3B] grid-cols-2">
+          {schedule.admission_time && (
+            <div>
+              <dt className="font-medium text-[#0068B7]">{m.schedules.admissionTime}</dt>
+              <dd>{formatTime(schedule.admission_time, locale)}</dd>
+            </div>
+          )}
+          {isEvent && (schedule as EventSchedule).registered_channel !== undefined && (
+            <div>
+              <dt className="font-medium text-[#0068B7]">{m.schedules.registeredChannel}</dt>
+              <dd>{resolveRegisteredChannel((schedule as EventSchedule).registered_channel, locale)}</dd>
+            </div>
+          )}
+          {isEvent && schedule.start_time && (
+            <div className='col-start-1'>
+              <dt className="font-medium text-[#0068B7]">{m.schedules.startTime}</dt>
+              <dd>{formatTime(schedule.start_time, locale)}</dd>
+            </div>
+          )}
+          {isEvent && schedule.end_time && (
+            <div>
+              <dt className="font-medium text-[#0068B7]">{m.schedules.endTime}</dt>
+              <dd>{formatTime(schedule.end_time, locale)}</dd>
+            </div>
+          )}
+          {isEvent && (schedule as EventSchedule).portal_url && (
+            <div>
+              <dt className="font-medium text-[#0068B7]">{m.schedules.portal}</dt>
+              <dd>
+                <a
+                  href={(schedule as EventSchedule).portal_url as string}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-[#4B5563] hover:underline"
+                >
+                  {(schedule as EventSchedule).portal_url_desc || m.schedules.portalFallback}
+                </a>
+              </dd>
+            </div>
+          )}
+          {isEvent && (schedule as EventSchedule).virtual_url && (
+            <div>
+              <dt className="font-medium text-[#0068B7]">{m.schedules.virtual}</dt>
+              <dd>
+                <a
+                  href={(schedule as EventSchedule).virtual_url as string}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-[#4B5563] hover:underline"
+                >
+                  {(schedule as EventSchedule).virtual_url_desc || m.schedules.virtualFallback}
+                </a>
+              </dd>
+            </div>
+          )}
+          {/* {qrCodeUrl && (
+            <div>
+              <dt className="font-medium text-[#0068B7]">QRコード印刷</dt>
+              <dd>
+                <a
+                  href={qrCodeUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-[#4B5563] hover:underline"
+                >
+                  印刷ページ
+                </a>
+              </dd>
+            </div>
+          )} */}
+        </dl>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {[
+        { id: 'upcoming', label: m.schedules.upcoming(upcoming.length), items: upcoming },
+        { id: 'past', label: m.schedules.past(past.length), items: past }
+      ]
+        .filter((group) => group.items.length > 0)
+        .map((group) => (
+          <div key={group.id} className="space-y-3">
+            <h4 className="text-sm font-semibold text-[#0B1F3B]/70">{group.label}</h4>
+            {group.items.map(renderSchedule)}
           </div>
-        );
-      })}
+        ))}
     </div>
   );
 }
@@ -674,11 +391,19 @@ interface TicketCardProps {
   ticketKey: string;
   isIncluded: boolean;
   onIncludedChange: (nextValue: boolean) => void;
+  now: Date;
 }
 
-function TicketCard({ ticket, ticketKey, isIncluded, onIncludedChange }: TicketCardProps) {
+function TicketCard({ ticket, ticketKey, isIncluded, onIncludedChange, now }: TicketCardProps) {
+  const { m, locale } = useI18n();
   const imageUrl = useMemo(() => buildImageUrl(ticket.image_large_path), [ticket.image_large_path]);
   const [isTicketIdVisible, setIsTicketIdVisible] = useState(false);
+  const [isDetailVisible, setIsDetailVisible] = useState(false);
+  const warnings = useMemo(() => checkReservationConflicts([ticket], locale), [ticket, locale]);
+  const lotteryHistory = useMemo(() => buildLotteryHistory([ticket], locale), [ticket, locale]);
+  const lotteryStats = lotteryHistory.stats.filter(
+    (stat) => stat.entryCount > 0 || stat.flaggedCount > 0 || stat.reservationCount > 0
+  );
   const checkboxId = useMemo(
     () => `include-${ticketKey.replace(/[^a-zA-Z0-9_-]/g, '-')}`,
     [ticketKey]
@@ -688,9 +413,9 @@ function TicketCard({ ticket, ticketKey, isIncluded, onIncludedChange }: TicketC
     <article className="space-y-4 rounded-2xl border border-[#C5CCD0] bg-white p-6 shadow-sm transition hover:shadow-md">
       <header className="flex flex-col gap-4 sm:flex-row sm:justify-between">
         <div className="space-y-1">
-          <h2 className="text-2xl font-semibold text-[#0068B7]">{resolveTicketName(ticket)}</h2>
+          <h2 className="text-2xl font-semibold text-[#0068B7]">{resolveTicketName(ticket, locale)}</h2>
           <p className="text-sm text-[#0B1F3B]">
-            {ticket.item_summary?.replace(/\\n/g, '\n') || '説明がありません。'}
+            {ticket.item_summary?.replace(/\\n/g, '\n') || m.card.noSummary}
           </p>
           <div className="flex flex-wrap gap-2 text-sm text-[#0B1F3B]">
             <button
@@ -700,20 +425,20 @@ function TicketCard({ ticket, ticketKey, isIncluded, onIncludedChange }: TicketC
               aria-pressed={isTicketIdVisible}
             >
               {isTicketIdVisible
-                ? `チケットID: ${ticket.ticket_id ?? '未登録'}`
-                : 'チケットID: タップで表示'}
+                ? m.card.ticketId(ticket.ticket_id ?? m.card.unregistered)
+                : m.card.ticketIdHidden}
             </button>
             <span className="rounded-full bg-[#D2D7DA] px-3 py-1 font-medium text-[#0068B7]">
-              種別: {ticket.item_group_name ?? '未登録'}
+              {m.card.group(ticket.item_group_name ?? m.card.unregistered)}
             </span>
             <span className="rounded-full bg-[#D2D7DA] px-3 py-1 font-medium text-[#0068B7]">
-              予約回数: {ticket.schedules?.length ?? 0}
+              {m.card.entranceCount(ticket.schedules?.length ?? 0)}
             </span>
             <span className="rounded-full bg-[#D2D7DA] px-3 py-1 font-medium text-[#0068B7]">
-              パビリオン予約: {ticket.event_schedules?.length ?? 0}
+              {m.card.eventCount(ticket.event_schedules?.length ?? 0)}
             </span>
             {ticket.is_sample && <span className="rounded-full bg-[#D2D7DA] px-3 py-1 font-medium text-[#E60012]">
-              サンプルデータ
+              {m.card.sample}
             </span>}
           </div>
         </div>
@@ -727,13 +452,13 @@ function TicketCard({ ticket, ticketKey, isIncluded, onIncludedChange }: TicketC
               className="h-4 w-4 rounded border-[#C5CCD0] focus:outline-none focus:ring-2 focus:ring-[#0068B7]/40"
               style={{ accentColor: themeColors.blue }}
             />
-            <span>集計する</span>
+            <span>{m.card.include}</span>
           </label>
           {imageUrl && (
             <div className="self-center sm:self-end">
               <img
                 src={imageUrl}
-                alt={ticket.item_name || 'チケット画像'}
+                alt={ticket.item_name || m.card.imageAlt}
                 className="h-24 max-w-48 rounded-xl border border-[#D2D7DA] object-contain shadow-sm"
                 referrerPolicy="no-referrer"
                 style={{ backgroundColor: themeColors.gray }}
@@ -745,19 +470,59 @@ function TicketCard({ ticket, ticketKey, isIncluded, onIncludedChange }: TicketC
 
       {isIncluded ? (
         <>
+          {warnings.length > 0 && (
+            <section>
+              <h3 className="text-sm font-semibold text-[#E60012]">{m.warnings.cardHeading(warnings.length)}</h3>
+              <div className="mt-2">
+                <ReservationWarningList warnings={warnings} />
+              </div>
+            </section>
+          )}
+
           <section>
-            <h3 className="text-lg font-semibold text-[#0068B7]">入場予約</h3>
-            <TicketSchedules title="入場予約" schedules={ticket.schedules ?? []} type="entrance" ticketId={ticket.ticket_id} />
+            <h3 className="text-lg font-semibold text-[#0068B7]">{m.card.entrances}</h3>
+            <TicketSchedules title={m.card.entrances} schedules={ticket.schedules ?? []} type="entrance" ticketId={ticket.ticket_id} now={now} />
           </section>
 
           <section>
-            <h3 className="text-lg font-semibold text-[#0068B7]">パビリオン予約</h3>
-            <TicketSchedules title="パビリオン予約" schedules={ticket.event_schedules ?? []} type="event" ticketId={ticket.ticket_id} />
+            <h3 className="text-lg font-semibold text-[#0068B7]">{m.card.events}</h3>
+            <TicketSchedules title={m.card.events} schedules={ticket.event_schedules ?? []} type="event" ticketId={ticket.ticket_id} now={now} />
+          </section>
+
+          {lotteryStats.length > 0 && (
+            <section>
+              <h3 className="text-lg font-semibold text-[#0068B7]">{m.lotteries.cardHeading}</h3>
+              <ul className="mt-2 flex flex-wrap gap-2 text-xs">
+                {lotteryStats.map((stat) => (
+                  <li key={stat.kind} className="rounded-full bg-[#D2D7DA] px-3 py-1 font-medium text-[#0068B7]">
+                    <span className="font-semibold">{m.lotteries.kinds[stat.kind]}</span>{' '}
+                    {m.lotteries.kindSummary(stat.won, stat.lost, stat.reservationCount)}
+                  </li>
+                ))}
+              </ul>
+              {lotteryHistory.entries.length > 0 && (
+                <div className="mt-2">
+                  <LotteryEntryList entries={lotteryHistory.entries} />
+                </div>
+              )}
+            </section>
+          )}
+
+          <section className="space-y-2">
+            <button
+              type="button"
+              onClick={() => setIsDetailVisible((prev) => !prev)}
+              className="rounded-full border border-[#C5CCD0] px-3 py-1 text-xs font-semibold text-[#0068B7] transition hover:brightness-110 focus:outline-none focus:ring-2 focus:ring-[#0068B7]/40"
+              aria-expanded={isDetailVisible}
+            >
+              {isDetailVisible ? m.ticketDetails.hide : m.ticketDetails.show}
+            </button>
+            {isDetailVisible && <TicketDetailPanel ticket={ticket} />}
           </section>
         </>
       ) : (
         <div className="rounded-lg border border-dashed border-[#0068B7]/30 bg-white/70 p-4 text-sm text-[#0B1F3B]">
-          このチケットは集計対象外です。チェックを入れると一覧が再表示されます。
+          {m.card.excluded}
         </div>
       )}
     </article>
@@ -770,68 +535,13 @@ interface ShareableSummaryCanvasProps {
   eventCount: number;
 }
 
-interface SummaryEventLine {
-  left: string;
-  right: string;
-}
-
-interface SummaryEntranceLine {
-  key: string;
-  text: string;
-  baseText: string;
-  gateLabel?: string;
-  gateColor?: string;
-  events: SummaryEventLine[];
-  month: number | null;
-}
-
-interface SummaryEntranceTableRow {
-  label: string;
-  east: number;
-  west: number;
-  total: number;
-}
-
-interface SummaryEntranceTable {
-  columns: string[];
-  rows: SummaryEntranceTableRow[];
-}
-
-interface SummaryLeftoverEvent {
-  key: string;
-  text: string;
-}
-
-interface SummarySections {
-  headerEnd: number;
-  listStart: number;
-  listEnd: number;
-  summaryStart: number;
-}
-
 interface SummaryData {
-  width: number;
-  height: number;
-  paddingTop: number;
-  paddingBottom: number;
-  lineHeight: number;
-  blankSpacing: number;
-  chartHeight: number;
-  innerPaddingX: number;
-  chartTopMargin: number;
-  chartLabelArea: number;
-  chartBottomMargin: number;
-  beforeStatsSpacing: number;
-  afterStatsSpacing: number;
+  layout: ShareImageLayout;
+  theme: ShareTheme;
   title: string;
   summaryLabel: string;
-  ticketLines: string[];
-  entranceLines: SummaryEntranceLine[];
-  leftoverEvents: SummaryLeftoverEvent[];
-  monthlyCounts: { month: number; label: string; count: number }[];
-  showDetailed: boolean;
+  monthlyCounts: SummaryMonthlyCount[];
   entranceTable: SummaryEntranceTable;
-  sections: SummarySections;
 }
 
 interface CanvasSegment {
@@ -840,27 +550,40 @@ interface CanvasSegment {
   height: number;
 }
 
-function renderSummaryContent(context: CanvasRenderingContext2D, summary: SummaryData) {
+interface ChartBar {
+  label: string;
+  count: number;
+}
+
+/**
+ * `layoutShareImage` が決めた位置にセクションを描く。座標は論理座標で、縮小は呼び出し側で行う。
+ */
+function renderSummaryContent(context: CanvasRenderingContext2D, summary: SummaryData, locale: Locale) {
+  const labels = messagesByLocale[locale].canvas;
+  const { layout, theme } = summary;
+  const { cardMargin, paddingX, lineHeight, blankSpacing, beforeStatsSpacing, chartTopMargin, chartHeight, chartLabelArea } =
+    shareLayoutMetrics;
+
   context.save();
   context.textBaseline = 'top';
-  context.fillStyle = themeColors.gray;
-  context.fillRect(0, 0, summary.width, summary.height);
+  context.fillStyle = theme.background;
+  context.fillRect(0, 0, layout.logicalWidth, layout.logicalHeight);
 
-  const cardX = 40;
-  const cardY = 40;
-  const cardWidth = summary.width - cardX * 2;
-  const cardHeight = summary.height - cardY * 2;
+  const cardX = cardMargin;
+  const cardY = cardMargin;
+  const cardWidth = layout.logicalWidth - cardX * 2;
+  const cardHeight = layout.logicalHeight - cardY * 2;
 
-  context.fillStyle = '#ffffff';
+  context.fillStyle = theme.card;
   context.shadowColor = 'rgba(15, 23, 42, 0.08)';
   context.shadowBlur = 32;
   context.shadowOffsetY = 24;
   context.fillRect(cardX, cardY, cardWidth, cardHeight);
   context.shadowColor = 'transparent';
 
-  let cursorY = summary.paddingTop;
-  const startX = summary.innerPaddingX;
-  const sectionWidth = summary.width - summary.innerPaddingX * 2;
+  let cursorY = 0;
+  const startX = paddingX;
+  const sectionWidth = layout.logicalWidth - paddingX * 2;
 
   const drawText = (
     text: string,
@@ -869,21 +592,25 @@ function renderSummaryContent(context: CanvasRenderingContext2D, summary: Summar
     if (!text) return;
     const xOffset = options?.xOffset ?? 0;
     context.font = options?.font ?? '28px "Noto Sans JP", "Yu Gothic", sans-serif';
-    context.fillStyle = options?.color ?? themeColors.darkBlue;
+    context.fillStyle = options?.color ?? theme.text;
     context.textAlign = 'left';
     const maxWidth = options?.maxWidth ?? Math.max(0, sectionWidth - xOffset);
     context.fillText(text, startX + xOffset, cursorY, maxWidth || undefined);
-    cursorY += summary.lineHeight;
+    cursorY += lineHeight;
+  };
+
+  const drawHeading = (text: string) => {
+    drawText(text, { font: 'bold 34px "Noto Sans JP", "Yu Gothic", sans-serif', color: theme.heading });
   };
 
   const drawEntranceLine = (line: SummaryEntranceLine) => {
     const baseText = line.baseText || '';
     const gateText = line.gateLabel || '';
-    const gateColor = line.gateColor ?? themeColors.red;
+    const gateColor = line.gateType === 2 ? theme.west : theme.east;
 
     context.font = '28px "Noto Sans JP", "Yu Gothic", sans-serif';
     context.textAlign = 'left';
-    context.fillStyle = themeColors.darkBlue;
+    context.fillStyle = theme.text;
 
     const measuredBaseWidth = baseText ? context.measureText(baseText).width : 0;
     const baseWidth = baseText ? Math.min(measuredBaseWidth, sectionWidth) : 0;
@@ -900,7 +627,7 @@ function renderSummaryContent(context: CanvasRenderingContext2D, summary: Summar
 
     if (baseText && gateText) {
       const delimiter = ' ｜ ';
-      context.fillStyle = themeColors.darkBlue;
+      context.fillStyle = theme.text;
       context.fillText(delimiter, currentX, cursorY);
       currentX += context.measureText(delimiter).width;
     }
@@ -910,7 +637,7 @@ function renderSummaryContent(context: CanvasRenderingContext2D, summary: Summar
       context.fillText(gateText, currentX, cursorY);
     }
 
-    cursorY += summary.lineHeight;
+    cursorY += lineHeight;
   };
 
   const drawSplitLine = (
@@ -931,17 +658,17 @@ function renderSummaryContent(context: CanvasRenderingContext2D, summary: Summar
     const createFont = (size: number) =>
       baseFont.replace(fontSizeRegex, `${Math.max(10, Math.round(size * 10) / 10)}px`);
     const twoLineFont = createFont(minFontSize);
-    const halfLineHeight = summary.lineHeight / 2;
+    const halfLineHeight = lineHeight / 2;
 
     context.font = baseFont;
     context.textAlign = 'left';
 
-    context.fillStyle = options?.leftColor ?? themeColors.textGray;
+    context.fillStyle = options?.leftColor ?? theme.subText;
     if (left) {
       context.fillText(left, startX + xOffset, cursorY, leftWidth || undefined);
     }
 
-    context.fillStyle = options?.rightColor ?? themeColors.textGray;
+    context.fillStyle = options?.rightColor ?? theme.subText;
     if (right) {
       let singleLineFont: string | null = null;
       context.font = baseFont;
@@ -1055,181 +782,238 @@ function renderSummaryContent(context: CanvasRenderingContext2D, summary: Summar
       }
     }
 
-    cursorY += summary.lineHeight;
+    cursorY += lineHeight;
   };
 
-  drawText(summary.title, {
-    font: 'bold 44px "Noto Sans JP", "Yu Gothic", sans-serif',
-    color: themeColors.blue
-  });
-  cursorY += summary.beforeStatsSpacing;
-  drawText(summary.summaryLabel, {
-    font: '32px "Noto Sans JP", "Yu Gothic", sans-serif',
-    color: themeColors.red
-  });
-  cursorY += summary.afterStatsSpacing;
-
-  cursorY += summary.blankSpacing;
-
-  if (summary.showDetailed) {
-    drawText('チケット一覧', { font: 'bold 34px "Noto Sans JP", "Yu Gothic", sans-serif', color: themeColors.blue });
-    summary.ticketLines.forEach((line) => {
-      drawText(line, { color: themeColors.darkBlue, font: '28px "Noto Sans JP", "Yu Gothic", sans-serif' });
-    });
-
-    cursorY += summary.blankSpacing;
-
-    drawText('来場スケジュール', { font: 'bold 34px "Noto Sans JP", "Yu Gothic", sans-serif', color: themeColors.blue });
-    summary.entranceLines.forEach((line) => {
-      drawEntranceLine(line);
-      line.events.forEach((eventLine) => {
-        drawSplitLine(eventLine.left, eventLine.right, {
-          font: '26px "Noto Sans JP", "Yu Gothic", sans-serif',
-          xOffset: 36,
-          leftColor: themeColors.textGray,
-          rightColor: themeColors.textGray
-        });
-      });
-    });
-
-    if (summary.leftoverEvents.length > 0) {
-      cursorY += summary.blankSpacing;
-      drawText('その他パビリオン予約', {
-        font: 'bold 32px "Noto Sans JP", "Yu Gothic", sans-serif',
-        color: themeColors.blue
-      });
-      summary.leftoverEvents.forEach((event) => {
-        drawText(event.text, {
-          color: themeColors.textGray,
-          font: '26px "Noto Sans JP", "Yu Gothic", sans-serif',
-          xOffset: 16
-        });
-      });
-    }
-
-    cursorY += summary.blankSpacing;
-  }
+  const drawBarChart = (bars: ChartBar[]) => {
+    const chartTop = cursorY + chartTopMargin;
+    const chartLeft = startX;
+    const chartRight = startX + sectionWidth;
+    const gap = 24;
+    const totalGap = gap * (bars.length - 1);
+    const barWidth = (sectionWidth - totalGap) / bars.length;
+    const maxCount = Math.max(...bars.map((item) => item.count), 1);
+    const baselineY = chartTop + chartHeight;
 
-  cursorY += summary.blankSpacing;
-  drawText('月別来場回数', { font: 'bold 34px "Noto Sans JP", "Yu Gothic", sans-serif', color: themeColors.blue });
-
-  const chartTop = cursorY + summary.chartTopMargin;
-  const chartBottom = chartTop + summary.chartHeight;
-  const chartLeft = startX;
-  const chartRight = startX + sectionWidth;
-  const availableHeight = summary.chartHeight;
-  const barCount = summary.monthlyCounts.length;
-  const gap = 24;
-  const totalGap = gap * (barCount - 1);
-  const barWidth = (sectionWidth - totalGap) / barCount;
-  const maxCount = Math.max(...summary.monthlyCounts.map((item) => item.count), 1);
-  const baselineY = chartBottom;
-
-  context.strokeStyle = themeColors.gray;
-  context.lineWidth = 2;
-  context.beginPath();
-  context.moveTo(chartLeft, baselineY);
-  context.lineTo(chartRight, baselineY);
-  context.stroke();
-
-  summary.monthlyCounts.forEach((item, index) => {
-    const barHeight = maxCount === 0 ? 0 : (item.count / maxCount) * availableHeight;
-    const barX = chartLeft + index * (barWidth + gap);
-    const barY = baselineY - barHeight;
-
-    context.fillStyle = themeColors.blue;
-    context.fillRect(barX, barY, barWidth, barHeight);
-
-    context.fillStyle = themeColors.textGray;
-    context.font = '26px "Noto Sans JP", "Yu Gothic", sans-serif';
-    context.textAlign = 'center';
-    context.fillText(String(item.count), barX + barWidth / 2, barY - 32, barWidth);
+    context.strokeStyle = theme.grid;
+    context.lineWidth = 2;
+    context.beginPath();
+    context.moveTo(chartLeft, baselineY);
+    context.lineTo(chartRight, baselineY);
+    context.stroke();
 
-    context.fillStyle = themeColors.darkBlue;
-    context.font = '28px "Noto Sans JP", "Yu Gothic", sans-serif';
-    context.fillText(item.label, barX + barWidth / 2, baselineY + 12, barWidth);
-  });
+    bars.forEach((item, index) => {
+      const barHeight = (item.count / maxCount) * chartHeight;
+      const barX = chartLeft + index * (barWidth + gap);
+      const barY = baselineY - barHeight;
 
-  const tableHeaderY = baselineY + summary.chartLabelArea + summary.chartBottomMargin + summary.blankSpacing / 2;
-  context.textAlign = 'left';
-  context.font = 'bold 34px "Noto Sans JP", "Yu Gothic", sans-serif';
-  context.fillStyle = themeColors.blue;
-  context.fillText('入場予約集計表', startX, tableHeaderY, sectionWidth);
+      context.fillStyle = theme.bar;
+      context.fillRect(barX, barY, barWidth, barHeight);
 
-  const columnCount = summary.entranceTable.columns.length + 1;
-  const columnWidth = sectionWidth / columnCount;
-  const rowHeight = summary.lineHeight;
-  const totalRows = summary.entranceTable.rows.length + 1;
-  const tableStartX = startX;
-  const tableTop = tableHeaderY + rowHeight;
-  const tableHeight = totalRows * rowHeight;
-  let tableRowY = tableTop;
+      context.fillStyle = theme.subText;
+      context.font = '26px "Noto Sans JP", "Yu Gothic", sans-serif';
+      context.textAlign = 'center';
+      context.fillText(String(item.count), barX + barWidth / 2, barY - 32, barWidth);
 
-  context.strokeStyle = themeColors.gray;
-  context.lineWidth = 1;
+      context.fillStyle = theme.text;
+      context.font = '28px "Noto Sans JP", "Yu Gothic", sans-serif';
+      context.fillText(item.label, barX + barWidth / 2, baselineY + 12, barWidth);
+    });
 
-  context.strokeRect(tableStartX, tableTop, sectionWidth, tableHeight);
+    cursorY = baselineY + chartLabelArea;
+  };
 
-  for (let rowIndex = 1; rowIndex < totalRows; rowIndex += 1) {
-    const y = tableTop + rowIndex * rowHeight;
-    context.beginPath();
-    context.moveTo(tableStartX, y);
-    context.lineTo(tableStartX + sectionWidth, y);
-    context.stroke();
-  }
+  const drawGateTable = () => {
+    const columnCount = summary.entranceTable.columns.length + 1;
+    const columnWidth = sectionWidth / columnCount;
+    const rowHeight = lineHeight;
+    const totalRows = summary.entranceTable.rows.length + 1;
+    const tableTop = cursorY;
+    const tableHeight = totalRows * rowHeight;
+    let tableRowY = tableTop;
 
-  for (let colIndex = 1; colIndex < columnCount; colIndex += 1) {
-    const x = tableStartX + colIndex * columnWidth;
-    context.beginPath();
-    context.moveTo(x, tableTop);
-    context.lineTo(x, tableTop + tableHeight);
-    context.stroke();
-  }
+    context.strokeStyle = theme.grid;
+    context.lineWidth = 1;
 
-  context.font = '26px "Noto Sans JP", "Yu Gothic", sans-serif';
-  context.fillStyle = themeColors.darkBlue;
-  context.textAlign = 'left';
-  context.fillText('時間', startX + columnWidth * 0.1, tableRowY + rowHeight * 0.2, columnWidth);
+    context.strokeRect(startX, tableTop, sectionWidth, tableHeight);
 
-  context.textAlign = 'center';
-  summary.entranceTable.columns.forEach((columnLabel, index) => {
-    const cellCenterX = startX + columnWidth * (index + 1) + columnWidth / 2;
-    context.fillText(columnLabel, cellCenterX, tableRowY + rowHeight * 0.2, columnWidth);
-  });
+    for (let rowIndex = 1; rowIndex < totalRows; rowIndex += 1) {
+      const y = tableTop + rowIndex * rowHeight;
+      context.beginPath();
+      context.moveTo(startX, y);
+      context.lineTo(startX + sectionWidth, y);
+      context.stroke();
+    }
 
-  tableRowY += rowHeight;
+    for (let colIndex = 1; colIndex < columnCount; colIndex += 1) {
+      const x = startX + colIndex * columnWidth;
+      context.beginPath();
+      context.moveTo(x, tableTop);
+      context.lineTo(x, tableTop + tableHeight);
+      context.stroke();
+    }
 
-  summary.entranceTable.rows.forEach((row) => {
+    context.font = '26px "Noto Sans JP", "Yu Gothic", sans-serif';
+    context.fillStyle = theme.text;
     context.textAlign = 'left';
-    context.fillStyle = themeColors.darkBlue;
-    context.fillText(row.label, startX + columnWidth * 0.1, tableRowY + rowHeight * 0.2, columnWidth);
+    context.fillText(labels.imageTimeColumn, startX + columnWidth * 0.1, tableRowY + rowHeight * 0.2, columnWidth);
 
-    const values = [row.east, row.west, row.total];
     context.textAlign = 'center';
-    context.fillStyle = themeColors.textGray;
-    values.forEach((value, index) => {
+    summary.entranceTable.columns.forEach((columnLabel, index) => {
       const cellCenterX = startX + columnWidth * (index + 1) + columnWidth / 2;
-      context.fillText(String(value), cellCenterX, tableRowY + rowHeight * 0.2, columnWidth);
+      context.fillText(columnLabel, cellCenterX, tableRowY + rowHeight * 0.2, columnWidth);
     });
 
     tableRowY += rowHeight;
-  });
 
-  cursorY = tableRowY + summary.blankSpacing;
-  context.textAlign = 'left';
-  context.font = '22px "Noto Sans JP", "Yu Gothic", sans-serif';
-  context.fillStyle = themeColors.blue;
-  context.fillText('作成: 万博予約入場履歴ビューアー（非公式）', startX, cursorY, sectionWidth);
+    summary.entranceTable.rows.forEach((row) => {
+      context.textAlign = 'left';
+      context.fillStyle = theme.text;
+      context.fillText(row.label, startX + columnWidth * 0.1, tableRowY + rowHeight * 0.2, columnWidth);
+
+      const values = [row.east, row.west, row.total];
+      context.textAlign = 'center';
+      context.fillStyle = theme.subText;
+      values.forEach((value, index) => {
+        const cellCenterX = startX + columnWidth * (index + 1) + columnWidth / 2;
+        context.fillText(String(value), cellCenterX, tableRowY + rowHeight * 0.2, columnWidth);
+      });
+
+      tableRowY += rowHeight;
+    });
+
+    cursorY = tableRowY;
+  };
+
+  const drawOmitted = (count: number) => {
+    if (count > 0) {
+      drawText(labels.imageOmitted(count), { color: theme.subText, font: '26px "Noto Sans JP", "Yu Gothic", sans-serif' });
+    }
+  };
+
+  layout.blocks.forEach((block) => {
+    cursorY = block.y;
+    switch (block.id) {
+      case 'header':
+        drawText(summary.title, {
+          font: 'bold 44px "Noto Sans JP", "Yu Gothic", sans-serif',
+          color: theme.title
+        });
+        cursorY += beforeStatsSpacing;
+        drawText(summary.summaryLabel, {
+          font: '32px "Noto Sans JP", "Yu Gothic", sans-serif',
+          color: theme.accent
+        });
+        break;
+      case 'tickets':
+        drawHeading(labels.sections.tickets);
+        layout.ticketLines.forEach((line) => {
+          drawText(line, { color: theme.text, font: '28px "Noto Sans JP", "Yu Gothic", sans-serif' });
+        });
+        drawOmitted(layout.omitted.tickets);
+        break;
+      case 'entrances':
+        drawHeading(labels.sections.entrances);
+        layout.entranceLines.forEach((line) => {
+          drawEntranceLine(line);
+          line.events.forEach((eventLine) => {
+            drawSplitLine(eventLine.left, eventLine.right, {
+              font: '26px "Noto Sans JP", "Yu Gothic", sans-serif',
+              xOffset: 36,
+              leftColor: theme.subText,
+              rightColor: theme.subText
+            });
+          });
+        });
+        drawOmitted(layout.omitted.entrances);
+        if (layout.leftoverEvents.length > 0) {
+          cursorY += blankSpacing;
+          drawText(labels.imageLeftovers, {
+            font: 'bold 32px "Noto Sans JP", "Yu Gothic", sans-serif',
+            color: theme.heading
+          });
+          layout.leftoverEvents.forEach((event) => {
+            drawText(event.text, {
+              color: theme.subText,
+              font: '26px "Noto Sans JP", "Yu Gothic", sans-serif',
+              xOffset: 16
+            });
+          });
+        }
+        break;
+      case 'hourChart':
+        drawHeading(labels.sections.hourChart);
+        // 最終行は合計なので除く
+        drawBarChart(summary.entranceTable.rows.slice(0, -1).map((row) => ({ label: row.label, count: row.total })));
+        break;
+      case 'monthlyChart':
+        drawHeading(labels.sections.monthlyChart);
+        drawBarChart(summary.monthlyCounts);
+        break;
+      case 'gateTable':
+        drawHeading(labels.sections.gateTable);
+        drawGateTable();
+        break;
+      case 'footer':
+        drawText(labels.imageFooter, { font: '22px "Noto Sans JP", "Yu Gothic", sans-serif', color: theme.heading });
+        break;
+    }
+  });
 
   context.restore();
 }
 
+/**
+ * 選択肢のボタン群。選んだものだけ塗りつぶす。
+ */
+function ChoiceChips<T extends string>({
+  label,
+  options,
+  value,
+  onChange
+}: {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="mr-1 text-xs font-semibold text-[#0B1F3B]">{label}</span>
+      {options.map((option) => {
+        const isActive = option.value === value;
+        return (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onChange(option.value)}
+            aria-pressed={isActive}
+            className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+              isActive
+                ? 'bg-[#0068B7] text-white'
+                : 'border border-[#0068B7]/30 bg-white text-[#0068B7] hover:border-[#0068B7]'
+            }`}
+          >
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
 function ShareableSummaryCanvas({ tickets, entranceCount, eventCount }: ShareableSummaryCanvasProps) {
+  const { m, locale } = useI18n();
   const canvasRefs = useRef<(HTMLCanvasElement | null)[]>([]);
   const [segments, setSegments] = useState<CanvasSegment[]>([]);
   const [displayPixelRatio, setDisplayPixelRatio] = useState<number>(1);
-  const [isDetailedView, setIsDetailedView] = useState<boolean>(true);
+  const [templateId, setTemplateId] = useState<ShareTemplateId>('long');
+  const [themeId, setThemeId] = useState<ShareThemeId>('light');
+  const [sections, setSections] = useState<ShareSectionVisibility>(shareTemplates.long.defaultSections);
+  const [redaction, setRedaction] = useState<SummaryRedaction>(emptySummaryRedaction);
   const [isSavingImage, setIsSavingImage] = useState(false);
+  const [pdfPageSize, setPdfPageSize] = useState<PdfPageSize>('a4');
+  const [isSavingPdf, setIsSavingPdf] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
   const [actionMessage, setActionMessage] = useState<string>('');
 
@@ -1238,355 +1022,22 @@ function ShareableSummaryCanvas({ tickets, entranceCount, eventCount }: Shareabl
       return null;
     }
 
-    const width = 1080;
-    const paddingTop = 96;
-    const paddingBottom = 96;
-    const lineHeight = 44;
-    const blankSpacing = Math.round(lineHeight * 0.7);
-    const chartHeight = 240;
-    const chartTopMargin = 24;
-    const chartLabelArea = 80;
-    const chartBottomMargin = 0;
-    const innerPaddingX = 120;
-    const beforeStatsSpacing = 8;
-    const afterStatsSpacing = 12;
-    const showDetailed = isDetailedView;
-
-    const bucketDefinitions = [
-      { key: '09', label: '9時' },
-      { key: '10', label: '10時' },
-      { key: '11', label: '11時' },
-      { key: '12', label: '12時' },
-      { key: '17', label: '17時' }
-    ];
-
-    const bucketCounts: Record<string, { east: number; west: number }> = {};
-    bucketDefinitions.forEach(({ key }) => {
-      bucketCounts[key] = { east: 0, west: 0 };
-    });
-    let totalEast = 0;
-    let totalWest = 0;
-
-    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-    const indexToLabel = (index: number) => {
-      let value = index;
-      let label = '';
-      do {
-        label = alphabet[value % alphabet.length] + label;
-        value = Math.floor(value / alphabet.length) - 1;
-      } while (value >= 0);
-      return label;
-    };
-
-    const weekdayLabels = ['日', '月', '火', '水', '木', '金', '土'];
-    const formatDateForCanvas = (raw?: string | null) => {
-      if (!raw || !/^\d{8}$/.test(raw)) {
-        return { label: raw ?? '日付未設定', month: null };
-      }
-      const year = Number(raw.slice(0, 4));
-      const month = Number(raw.slice(4, 6));
-      const day = Number(raw.slice(6, 8));
-      const date = new Date(year, month - 1, day);
-      const weekday = weekdayLabels[date.getDay()];
-      const label = `${year}/${month.toString().padStart(2, '0')}/${day.toString().padStart(2, '0')}(${weekday})`;
-      return { label, month };
-    };
-
-    const formatGateLabel = (gate?: GateType) => {
-      if (!gate) return '';
-      return gateLabels[gate] ?? `ゲート${gate}`;
-    };
-
-    const determineBucket = (schedule: EntranceSchedule): string | null => {
-      const name = schedule.schedule_name;
-      if (!name) return null;
-      const match = name.match(/(\d{1,2})[:：]/);
-      if (!match) {
-        return null;
-      }
-      const hour = match[1].padStart(2, '0');
-      return bucketCounts[hour] ? hour : null;
-    };
-
-    const ticketEntries = tickets.map((ticket, index) => ({
-      label: indexToLabel(index),
-      ticket
-    }));
-
-    const scheduleSort = (schedule: EntranceSchedule | EventSchedule) => scheduleSortKey(schedule);
-
-    const eventsByKey = new Map<string, EventSchedule[]>();
-    ticketEntries.forEach(({ label, ticket }, ticketIndex) => {
-      const ticketKey = ticket.ticket_id ?? `ticket-${ticket.id ?? ticketIndex}`;
-      (ticket.event_schedules ?? []).forEach((event) => {
-        const dateKey = event.entrance_date ?? 'unknown';
-        const mapKey = `${ticketKey}-${dateKey}`;
-        const list = eventsByKey.get(mapKey) ?? [];
-        list.push(event);
-        eventsByKey.set(mapKey, list);
-      });
-    });
-
-    eventsByKey.forEach((list, mapKey) => {
-      eventsByKey.set(
-        mapKey,
-        [...list].sort((a, b) => {
-          const keyA = scheduleSort(a);
-          const keyB = scheduleSort(b);
-          if (keyA < keyB) return -1;
-          if (keyA > keyB) return 1;
-          return 0;
-        })
-      );
-    });
-
-    const ticketLines = ticketEntries.map(({ label, ticket }) => {
-      const entranceTotal = ticket.schedules?.length ?? 0;
-      const eventTotal = ticket.event_schedules?.length ?? 0;
-      return `${label}. ${resolveTicketName(ticket)} ｜ 入場:${entranceTotal} ｜ パビリオン:${eventTotal}`;
-    });
-
-    const entranceLines: SummaryEntranceLine[] = [];
-    const monthCountMap = new Map<number, number>();
-
-    ticketEntries.forEach(({ label, ticket }, ticketIndex) => {
-      const ticketKey = ticket.ticket_id ?? `ticket-${ticket.id ?? ticketIndex}`;
-      (ticket.schedules ?? []).forEach((schedule, scheduleIndex) => {
-        const dateInfo = formatDateForCanvas(schedule.entrance_date);
-        const timeLabel = schedule.schedule_name || formatTime(schedule.start_time);
-        const gateLabel = formatGateLabel(schedule.gate_type as GateType | undefined);
-        const useStateInfo = schedule.use_state !== undefined ? resolveUseState(schedule.use_state) : null;
-        const useStateLabel = useStateInfo?.label;
-        const isStateUnknown = !!useStateLabel && useStateLabel.includes('状態不明');
-        let statusText = '';
-        if (schedule.use_state === 1) {
-          statusText = schedule.admission_time ? formatTime(schedule.admission_time) : '入場済み';
-        } else if (useStateInfo && !isStateUnknown && useStateLabel) {
-          statusText = useStateLabel;
-        }
-        const bucketKey = determineBucket(schedule as EntranceSchedule);
-        const gateType = (schedule as EntranceSchedule).gate_type;
-        if (gateType === 1) {
-          totalEast += 1;
-          if (bucketKey && bucketCounts[bucketKey]) {
-            bucketCounts[bucketKey].east += 1;
-          }
-        } else if (gateType === 2) {
-          totalWest += 1;
-          if (bucketKey && bucketCounts[bucketKey]) {
-            bucketCounts[bucketKey].west += 1;
-          }
-        }
-
-        const parts = [
-          dateInfo.label,
-          label,
-          timeLabel && timeLabel !== '未設定' ? timeLabel : '',
-          gateLabel,
-          statusText
-        ].filter(Boolean);
-        const gateIndex = gateLabel ? parts.indexOf(gateLabel) : -1;
-        const baseParts = gateIndex >= 0
-          ? [...parts.slice(0, gateIndex), ...parts.slice(gateIndex + 1)]
-          : [...parts];
-        const baseText = baseParts.join(' ｜ ');
-        const lineText = (gateLabel ? [...baseParts, gateLabel] : baseParts).join(' ｜ ');
-        const gateColor = gateLabel
-          ? ((schedule as EntranceSchedule).gate_type === 1 ? themeColors.red : themeColors.blue)
-          : undefined;
-
-        if (dateInfo.month) {
-          monthCountMap.set(dateInfo.month, (monthCountMap.get(dateInfo.month) ?? 0) + 1);
-        }
-
-        const mapKey = `${ticketKey}-${schedule.entrance_date ?? 'unknown'}`;
-        const relatedEvents = eventsByKey.get(mapKey) ?? [];
-        eventsByKey.delete(mapKey);
-
-        const eventLines: SummaryEventLine[] = relatedEvents.map((event) => {
-          const pavilionTime = event.schedule_name || formatTime(event.start_time);
-          const channelLabel =
-            event.registered_channel !== undefined ? resolveRegisteredChannel(event.registered_channel) : '';
-          const useStateInfo = event.use_state !== undefined ? resolveUseState(event.use_state) : null;
-          const useStateLabel = useStateInfo?.label;
-          const isStateUnknown = !!useStateLabel && useStateLabel.includes('状態不明');
-          let usageText = '';
-          if (event.use_state === 1) {
-            usageText = event.admission_time ? formatTime(event.admission_time) : '入場済み';
-          } else if (useStateInfo && !isStateUnknown && useStateLabel) {
-            usageText = useStateLabel;
-          }
-
-          const channelWithoutCode = channelLabel.replace(/（\d+）$/, '');
-          const leftParts = [
-            pavilionTime && pavilionTime !== '未設定' ? pavilionTime : '',
-            channelWithoutCode && channelWithoutCode !== '不明' ? channelWithoutCode : '',
-            usageText
-          ].filter(Boolean);
-          const leftText = leftParts.length > 0 ? `- ${leftParts.join(' ｜ ')}` : '-';
-          const rightText = resolvePavilionName(event.program_code ?? '', event.event_name);
-          return { left: leftText, right: rightText };
-        });
-
-        entranceLines.push({
-          key: `entrance-${label}-${schedule.user_visiting_reservation_id ?? schedule.id ?? scheduleIndex}`,
-          text: lineText,
-          baseText,
-          gateLabel: gateLabel || undefined,
-          gateColor,
-          events: eventLines,
-          month: dateInfo.month
-        });
-      });
-    });
-
-    entranceLines.sort((a, b) => {
-      const findSchedule = (line: SummaryEntranceLine) => {
-        const [datePart] = line.text.split(' ｜ ');
-        return datePart ?? '';
-      };
-      const scheduleA = findSchedule(a);
-      const scheduleB = findSchedule(b);
-      if (scheduleA < scheduleB) return -1;
-      if (scheduleA > scheduleB) return 1;
-      return 0;
-    });
-
-    const entranceTableRows: SummaryEntranceTableRow[] = bucketDefinitions.map(({ key, label }) => {
-      const counts = bucketCounts[key];
-      const east = counts?.east ?? 0;
-      const west = counts?.west ?? 0;
-      return {
-        label,
-        east,
-        west,
-        total: east + west
-      };
-    });
-    entranceTableRows.push({
-      label: '合計',
-      east: totalEast,
-      west: totalWest,
-      total: totalEast + totalWest
-    });
-
-    const entranceTable: SummaryEntranceTable = {
-      columns: ['東', '西', '合計'],
-      rows: entranceTableRows
-    };
-
-    const leftoverEvents = Array.from(eventsByKey.values())
-      .flat()
-      .sort((a, b) => {
-        const keyA = scheduleSort(a);
-        const keyB = scheduleSort(b);
-        if (keyA < keyB) return -1;
-        if (keyA > keyB) return 1;
-        return 0;
-      })
-      .map((event, index) => {
-        const dateInfo = formatDateForCanvas(event.entrance_date);
-        const pavilionTime = event.schedule_name || formatTime(event.start_time);
-        const parts = [
-          dateInfo.label,
-          event.event_name ?? '名称未登録',
-          pavilionTime && pavilionTime !== '未設定' ? pavilionTime : ''
-        ].filter(Boolean);
-        return {
-          key: `unassigned-${event.id ?? event.program_code ?? index}`,
-          text: parts.join(' ｜ ')
-        };
-      });
-
-    const months = [4, 5, 6, 7, 8, 9, 10];
-    const monthlyCounts = months.map((month) => ({
-      month,
-      label: `${month}月`,
-      count: monthCountMap.get(month) ?? 0
-    }));
-
-    const totalEventCount = entranceLines.reduce((acc, line) => acc + line.events.length, 0);
-    const leftoverCount = leftoverEvents.length;
-    const tableRowCount = entranceTable.rows.length + 1;
-
-    let cursorHeight = paddingTop;
-    cursorHeight += lineHeight; // title
-    cursorHeight += beforeStatsSpacing;
-    cursorHeight += lineHeight; // stats
-    cursorHeight += afterStatsSpacing;
-
-    const headerEnd = cursorHeight;
-
-    let listStart = headerEnd;
-    let listEnd = headerEnd;
-
-    if (showDetailed) {
-      cursorHeight += blankSpacing; // gap before tickets
-      listStart = cursorHeight;
-      cursorHeight += lineHeight; // ticket heading
-      cursorHeight += ticketLines.length * lineHeight;
-      cursorHeight += blankSpacing; // gap before schedules
-      cursorHeight += lineHeight; // schedule heading
-      cursorHeight += entranceLines.length * lineHeight;
-      cursorHeight += totalEventCount * lineHeight;
-
-      if (leftoverCount > 0) {
-        cursorHeight += blankSpacing;
-        cursorHeight += lineHeight; // leftover heading
-        cursorHeight += leftoverCount * lineHeight;
-      }
-
-      listEnd = cursorHeight;
-    }
-
-    cursorHeight += blankSpacing;
-    const summaryStart = cursorHeight;
-
-    cursorHeight += lineHeight; // chart heading
-    cursorHeight += chartTopMargin;
-    cursorHeight += chartHeight;
-    cursorHeight += chartLabelArea;
-    cursorHeight += chartBottomMargin;
-
-    cursorHeight += blankSpacing;
-    cursorHeight += lineHeight; // table heading
-    cursorHeight += tableRowCount * lineHeight;
-
-    cursorHeight += blankSpacing;
-    cursorHeight += lineHeight; // footer note
-
-    const height = cursorHeight + paddingBottom;
+    const visitSummary = buildVisitSummary(tickets, locale, redaction);
 
     return {
-      width,
-      height,
-      paddingTop,
-      paddingBottom,
-      lineHeight,
-      blankSpacing,
-      chartHeight,
-      innerPaddingX,
-      chartTopMargin,
-      chartLabelArea,
-      chartBottomMargin,
-      beforeStatsSpacing,
-      afterStatsSpacing,
-      title: 'Expo 2025 来場まとめ',
-      summaryLabel: `入場予約 ${entranceCount}回 ｜ パビリオン予約 ${eventCount}回`,
-      ticketLines,
-      entranceLines,
-      leftoverEvents,
-      monthlyCounts,
-      showDetailed,
-      entranceTable,
-      sections: {
-        headerEnd,
-        listStart,
-        listEnd,
-        summaryStart
-      }
+      layout: layoutShareImage(visitSummary, { template: templateId, sections }),
+      theme: shareThemes[themeId],
+      title: m.canvas.imageTitle,
+      summaryLabel: m.canvas.imageCounts(entranceCount, eventCount),
+      monthlyCounts: visitSummary.monthlyCounts,
+      entranceTable: visitSummary.entranceTable
     };
-  }, [tickets, entranceCount, eventCount, isDetailedView]);
+  }, [tickets, entranceCount, eventCount, templateId, themeId, sections, redaction, locale, m]);
+
+  const handleTemplateChange = (next: ShareTemplateId) => {
+    setTemplateId(next);
+    setSections(shareTemplates[next].defaultSections);
+  };
 
   useEffect(() => {
     if (!summary) {
@@ -1595,43 +1046,12 @@ function ShareableSummaryCanvas({ tickets, entranceCount, eventCount }: Shareabl
     }
 
     const ratio = 1;//Math.min(window.devicePixelRatio || 1, 2);
-    let maxSegmentHeight = Math.floor(MAX_CANVAS_PIXELS / (summary.width * ratio));
-    if (!Number.isFinite(maxSegmentHeight) || maxSegmentHeight < summary.lineHeight) {
-      maxSegmentHeight = summary.lineHeight;
-    }
-    const effectiveMaxHeight = Math.max(summary.lineHeight, maxSegmentHeight);
-
-    const newSegments: CanvasSegment[] = [];
-    const addSegment = (start: number, end: number, alignToLine: boolean) => {
-      if (end <= start) {
-        return;
-      }
-      let current = start;
-      while (current < end) {
-        const remaining = end - current;
-        let height = Math.min(remaining, effectiveMaxHeight);
-        if (alignToLine && height < remaining) {
-          const maxLines = Math.max(1, Math.floor(height / summary.lineHeight));
-          height = maxLines * summary.lineHeight;
-        }
-        if (height <= 0) {
-          height = Math.min(remaining, summary.lineHeight);
-        }
-        height = Math.min(height, remaining);
-        newSegments.push({
-          id: `segment-${newSegments.length}`,
-          start: current,
-          height
-        });
-        current += height;
-      }
-    };
-
-    addSegment(0, summary.sections.headerEnd, false);
-    if (summary.showDetailed && summary.sections.listEnd > summary.sections.listStart) {
-      addSegment(summary.sections.listStart, summary.sections.listEnd, true);
-    }
-    addSegment(summary.sections.summaryStart, summary.height, false);
+    const maxSegmentHeight = Math.floor(MAX_CANVAS_PIXELS / (summary.layout.width * ratio));
+    // 縦に長い画像はキャンバスの上限を超えないよう、セクションや一覧の行の境目で分割する
+    const newSegments: CanvasSegment[] = paginateShareImage(summary.layout, maxSegmentHeight).map((slice, index) => ({
+      id: `segment-${index}`,
+      ...slice
+    }));
 
     setDisplayPixelRatio(ratio);
     setSegments(newSegments);
@@ -1655,7 +1075,7 @@ function ShareableSummaryCanvas({ tickets, entranceCount, eventCount }: Shareabl
       }
 
       const ratio = displayPixelRatio;
-      const width = summary.width;
+      const width = summary.layout.width;
       const height = segment.height;
       const pixelWidth = Math.max(1, Math.floor(width * ratio));
       const pixelHeight = Math.max(1, Math.floor(height * ratio));
@@ -1678,15 +1098,22 @@ function ShareableSummaryCanvas({ tickets, entranceCount, eventCount }: Shareabl
       context.rect(0, 0, width, height);
       context.clip();
       context.translate(0, -segment.start);
-      renderSummaryContent(context, summary);
+      context.scale(summary.layout.scale, summary.layout.scale);
+      renderSummaryContent(context, summary, locale);
       context.restore();
     });
-  }, [summary, segments, displayPixelRatio]);
+  }, [summary, segments, displayPixelRatio, locale]);
 
-  const shareText = useMemo(
-    () => `Expo 2025 万博予約入場履歴まとめ\n入場予約 ${entranceCount}回 ｜ パビリオン予約 ${eventCount}回\nhttps://www.nakayuki.net/expo-history-viewer/`,
-    [entranceCount, eventCount]
-  );
+  const shareText = useMemo(() => {
+    const period = describeVisitPeriod(tickets, locale, redaction);
+    return `${m.canvas.shareText(entranceCount, eventCount, period)}\n${DEFAULT_VIEWER_URL}${locale === 'ja' ? '' : `?lang=${locale}`}`;
+  }, [tickets, entranceCount, eventCount, redaction, m, locale]);
+
+  const redactionToggles = [
+    { key: 'hideDates', label: m.canvas.hideDates },
+    { key: 'hideAdmissionTimes', label: m.canvas.hideAdmissionTimes },
+    { key: 'hideTicketTypes', label: m.canvas.hideTicketTypes }
+  ] as const;
 
   const canUseWebShare = useMemo(() => {
     if (typeof navigator === 'undefined' || typeof window === 'undefined') {
@@ -1709,27 +1136,28 @@ function ShareableSummaryCanvas({ tickets, entranceCount, eventCount }: Shareabl
 
   const getCanvasBlob = async (): Promise<Blob> => {
     if (!summary) {
-      throw new Error('画像が生成されていません。');
+      throw new Error(m.canvas.notGenerated);
     }
 
     const ratio = displayPixelRatio || 1;
     const offscreen = document.createElement('canvas');
-    offscreen.width = Math.max(1, Math.floor(summary.width * ratio));
-    offscreen.height = Math.max(1, Math.floor(summary.height * ratio));
+    offscreen.width = Math.max(1, Math.floor(summary.layout.width * ratio));
+    offscreen.height = Math.max(1, Math.floor(summary.layout.height * ratio));
     const context = offscreen.getContext('2d');
     if (!context) {
-      throw new Error('画像の生成に失敗しました。');
+      throw new Error(m.canvas.generateFailed);
     }
 
     context.setTransform(ratio, 0, 0, ratio, 0, 0);
-    renderSummaryContent(context, summary);
+    context.scale(summary.layout.scale, summary.layout.scale);
+    renderSummaryContent(context, summary, locale);
 
     return await new Promise<Blob>((resolve, reject) => {
       offscreen.toBlob((blob) => {
         if (blob) {
           resolve(blob);
         } else {
-          reject(new Error('画像の生成に失敗しました。'));
+          reject(new Error(m.canvas.generateFailed));
         }
       }, 'image/png');
     });
@@ -1748,18 +1176,67 @@ function ShareableSummaryCanvas({ tickets, entranceCount, eventCount }: Shareabl
         now.getDate()
       ).padStart(2, '0')}_${String(now.getHours()).padStart(2, '0')}${String(now.getMinutes()).padStart(2, '0')}`;
       link.href = url;
-      link.download = `expo-visit-summary_${timestamp}.png`;
+      link.download = `expo-visit-summary_${templateId}_${timestamp}.png`;
       link.click();
       URL.revokeObjectURL(url);
-      setActionMessage('画像をダウンロードしました。');
+      setActionMessage(m.canvas.saved);
     } catch (error) {
       console.error(error);
-      setActionMessage(error instanceof Error ? error.message : '画像の保存に失敗しました。');
+      setActionMessage(error instanceof Error ? error.message : m.canvas.saveFailed);
     } finally {
       setIsSavingImage(false);
     }
   };
 
+  const handleSavePdf = async () => {
+    if (!summary || isSavingPdf) return;
+    setActionMessage('');
+    setIsSavingPdf(true);
+    try {
+      const plans = planSharePdfPages(summary.layout, templateId, pdfPageSize);
+      const pages: PdfImagePage[] = [];
+      // 1ページずつ描画して JPEG にする（全体を 1 枚のキャンバスにすると上限を超えるため）
+      for (const plan of plans) {
+        const offscreen = document.createElement('canvas');
+        offscreen.width = summary.layout.width;
+        offscreen.height = Math.max(1, plan.slice.height);
+        const context = offscreen.getContext('2d');
+        if (!context) {
+          throw new Error(m.canvas.pdfFailed);
+        }
+        context.translate(0, -plan.slice.start);
+        context.scale(summary.layout.scale, summary.layout.scale);
+        renderSummaryContent(context, summary, locale);
+        const blob = await new Promise<Blob>((resolve, reject) => {
+          offscreen.toBlob((result) => {
+            if (result) {
+              resolve(result);
+            } else {
+              reject(new Error(m.canvas.pdfFailed));
+            }
+          }, 'image/jpeg', 0.92);
+        });
+        pages.push({
+          ...plan,
+          jpeg: new Uint8Array(await blob.arrayBuffer()),
+          pixelWidth: offscreen.width,
+          pixelHeight: offscreen.height
+        });
+      }
+      const pdf = buildImagePdf(pages, pdfPageSize, m.canvas.shareTitle);
+      downloadBlob(
+        new Blob([pdf], { type: 'application/pdf' }),
+        buildExportFileName(`expo-visit-summary_${templateId}_${pdfPageSize}`, 'pdf')
+      );
+      setActionMessage(m.canvas.pdfSaved(pages.length));
+    } catch (error) {
+      console.error(error);
+      setActionMessage(error instanceof Error ? error.message : m.canvas.pdfFailed);
+    } finally {
+      setIsSavingPdf(false);
+    }
+  };
+
   const handleShareImage = async () => {
     if (!canUseWebShare || isSharing) return;
     setActionMessage('');
@@ -1767,23 +1244,23 @@ function ShareableSummaryCanvas({ tickets, entranceCount, eventCount }: Shareabl
     try {
       const blob = await getCanvasBlob();
       if (typeof File === 'undefined') {
-        throw new Error('このブラウザでは共有に対応していません。');
+        throw new Error(m.canvas.shareUnsupported);
       }
-      const file = new File([blob], 'expo-visit-summary.png', { type: 'image/png' });
+      const file = new File([blob], `expo-visit-summary_${templateId}.png`, { type: 'image/png' });
       const data: ShareData = {
-        title: 'Expo 2025 万博予約入場履歴まとめ',
+        title: m.canvas.shareTitle,
         text: shareText,
         files: [file]
       };
       const nav = navigator as Navigator & { canShare?: (payload: ShareData) => boolean };
       if (nav.canShare && !nav.canShare({ files: data.files })) {
-        throw new Error('このデバイスは画像共有に対応していません。');
+        throw new Error(m.canvas.shareFilesUnsupported);
       }
       await navigator.share(data);
-      setActionMessage('共有メニューを開きました。');
+      setActionMessage(m.canvas.shared);
     } catch (error) {
       console.error(error);
-      setActionMessage(error instanceof Error ? error.message : '共有に失敗しました。');
+      setActionMessage(error instanceof Error ? error.message : m.canvas.shareFailed);
     } finally {
       setIsSharing(false);
     }
@@ -1798,30 +1275,86 @@ function ShareableSummaryCanvas({ tickets, entranceCount, eventCount }: Shareabl
 
   return (
     <div className="rounded-3xl border border-[#C5CCD0] bg-white p-6 shadow-sm">
-      <h3 className="text-lg font-semibold text-[#0068B7]">保存・SNS共有用画像</h3>
-      <p className="mt-1 text-sm text-[#0B1F3B]">
-        画像の保存{canUseWebShare ? 'や共有' : ''}は下のボタンから実行できます。
-      </p>
-      <div className="mt-4 flex items-center justify-end">
-        <label className="flex items-center gap-3 text-sm text-[#0B1F3B]">
-          <span>チケット・来場予約一覧を表示</span>
-          <button
-            type="button"
-            role="switch"
-            aria-checked={isDetailedView}
-            onClick={() => setIsDetailedView((prev) => !prev)}
-            className={`relative inline-flex h-6 w-11 items-center rounded-full transition ${
-              isDetailedView ? 'bg-[#0068B7]' : 'bg-[#C5CCD0]'
-            }`}
-          >
-            <span className="sr-only">チケット・来場予約一覧を表示</span>
-            <span
-              className={`pointer-events-none inline-block h-4 w-4 transform rounded-full bg-white transition ${
-                isDetailedView ? 'translate-x-5' : 'translate-x-1'
-              }`}
-            />
-          </button>
-        </label>
+      <h3 className="text-lg font-semibold text-[#0068B7]">{m.canvas.heading}</h3>
+      <p className="mt-1 text-sm text-[#0B1F3B]">{m.canvas.intro(canUseWebShare)}</p>
+      <div className="mt-4 space-y-2">
+        <ChoiceChips
+          label={m.canvas.templateLabel}
+          options={shareTemplateOrder.map((id) => ({ value: id, label: m.canvas.templates[id] }))}
+          value={templateId}
+          onChange={handleTemplateChange}
+        />
+        <ChoiceChips
+          label={m.canvas.themeLabel}
+          options={(['light', 'dark'] as const).map((id) => ({ value: id, label: m.canvas.themes[id] }))}
+          value={themeId}
+          onChange={setThemeId}
+        />
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1.5">
+          <span className="text-xs font-semibold text-[#0B1F3B]">{m.canvas.sectionsLabel}</span>
+          {shareSectionOrder.map((id) => (
+            <label key={id} className="flex items-center gap-2 text-sm text-[#0B1F3B]">
+              <input
+                type="checkbox"
+                checked={sections[id]}
+                onChange={(event) => setSections((previous) => ({ ...previous, [id]: event.target.checked }))}
+                className="h-4 w-4 rounded border-[#C5CCD0] focus:outline-none focus:ring-2 focus:ring-[#0068B7]/40"
+                style={{ accentColor: themeColors.blue }}
+              />
+              <span>{m.canvas.sections[id]}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1.5">
+          <span className="text-xs font-semibold text-[#0B1F3B]">{m.canvas.privacyLabel}</span>
+          {redactionToggles.map((toggle) => (
+            <label key={toggle.key} className="flex items-center gap-2 text-sm text-[#0B1F3B]">
+              <input
+                type="checkbox"
+                checked={redaction[toggle.key]}
+                onChange={(event) => setRedaction((previous) => ({ ...previous, [toggle.key]: event.target.checked }))}
+                className="h-4 w-4 rounded border-[#C5CCD0] focus:outline-none focus:ring-2 focus:ring-[#0068B7]/40"
+                style={{ accentColor: themeColors.blue }}
+              />
+              <span>{toggle.label}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1.5">
+          <span className="text-xs font-semibold text-[#0B1F3B]">{m.canvas.nicknamesLabel}</span>
+          {tickets.map((ticket, index) => {
+            const ticketKey = getTicketKey(ticket, index);
+            return (
+              <label key={ticketKey} className="flex items-center gap-1.5 text-sm text-[#0B1F3B]">
+                <span className="font-semibold text-[#0068B7]">{indexToLabel(index)}</span>
+                <input
+                  type="text"
+                  value={redaction.nicknames[ticketKey] ?? ''}
+                  onChange={(event) =>
+                    setRedaction((previous) => ({
+                      ...previous,
+                      nicknames: { ...previous.nicknames, [ticketKey]: event.target.value }
+                    }))
+                  }
+                  placeholder={resolveTicketName(ticket, locale)}
+                  maxLength={20}
+                  className="w-40 rounded-lg border border-[#C5CCD0] px-2 py-1 text-sm focus:border-[#0068B7] focus:outline-none"
+                />
+              </label>
+            );
+          })}
+        </div>
+        <p className="text-xs text-[#0B1F3B]/70">{m.canvas.privacyNote}</p>
+        {shareTemplates[templateId].height !== null && (
+          <p className="text-xs text-[#0B1F3B]/70">{m.canvas.fixedSizeNote}</p>
+        )}
+        <ChoiceChips
+          label={m.canvas.pdfLabel}
+          options={(['a4', 'letter'] as const).map((id) => ({ value: id, label: m.canvas.pageSizes[id] }))}
+          value={pdfPageSize}
+          onChange={setPdfPageSize}
+        />
+        <p className="text-xs text-[#0B1F3B]/70">{m.canvas.pdfNote}</p>
       </div>
       <div className="mt-4 overflow-x-auto">
         <div className="flex flex-col">
@@ -1844,7 +1377,15 @@ function ShareableSummaryCanvas({ tickets, entranceCount, eventCount }: Shareabl
           disabled={isSavingImage}
           className="inline-flex items-center justify-center gap-2 rounded-full bg-[#0068B7] px-4 py-2 text-sm font-semibold text-white shadow transition hover:brightness-110 disabled:cursor-not-allowed disabled:bg-[#0068B7]/40"
         >
-          {isSavingImage ? '保存中…' : '画像を保存'}
+          {isSavingImage ? m.canvas.saving : m.canvas.save}
+        </button>
+        <button
+          type="button"
+          onClick={handleSavePdf}
+          disabled={isSavingPdf}
+          className="inline-flex items-center justify-center gap-2 rounded-full border border-[#0068B7] px-4 py-2 text-sm font-semibold text-[#0068B7] transition hover:bg-[#0068B7]/10 disabled:cursor-not-allowed disabled:border-[#D2D7DA] disabled:text-[#D2D7DA]"
+        >
+          {isSavingPdf ? m.canvas.savingPdf : m.canvas.savePdf}
         </button>
         {canUseWebShare && (
           <button
@@ -1853,19 +1394,20 @@ function ShareableSummaryCanvas({ tickets, entranceCount, eventCount }: Shareabl
             disabled={isSharing}
             className="inline-flex items-center justify-center gap-2 rounded-full border border-[#E60012] px-4 py-2 text-sm font-semibold text-[#E60012] transition hover:bg-[#E60012]/10 disabled:cursor-not-allowed disabled:border-[#D2D7DA] disabled:text-[#D2D7DA]"
           >
-            {isSharing ? '共有準備中…' : '共有する'}
+            {isSharing ? m.canvas.sharing : m.canvas.share}
           </button>
         )}
       </div>
       {actionMessage && <p className="mt-3 text-xs text-[#0B1F3B]">{actionMessage}</p>}
       {canUseWebShare && <p className="mt-1 text-sm text-[#0B1F3B]">
-        iPhoneに画像を保存する場合、共有ボタンから保存できます。
+        {m.canvas.iphoneHint}
       </p>}
     </div>
   );
 }
 
 export default function App() {
+  const { m, locale } = useI18n();
   const [rawInput, setRawInput] = useState<string>('');
   const [fileName, setFileName] = useState<string>('');
   const [data, setData] = useState<TicketPayload | null>(null);
@@ -1873,6 +1415,25 @@ export default function App() {
   const [isLoadingFile, setIsLoadingFile] = useState<boolean>(false);
   const [includedTicketMap, setIncludedTicketMap] = useState<Record<string, boolean>>({});
   const [instructionMethod, setInstructionMethod] = useState<InstructionMethod>('file');
+  const [dataView, setDataView] = useState<DataView>('cards');
+  const [reservationFilter, setReservationFilter] = useState<ReservationFilter>(emptyReservationFilter);
+  const [pavilionMaster, setPavilionMaster] = useState<PavilionMaster>(emptyPavilionMaster);
+  const [sourceFileNames, setSourceFileNames] = useState<string[]>([]);
+  const [snapshots, setSnapshots] = useState<HistorySnapshot[]>([]);
+  const [mergeReport, setMergeReport] = useState<MergeReport | null>(null);
+  const [parseErrorDetail, setParseErrorDetail] = useState<TicketParseError | null>(null);
+  const [parseRepairs, setParseRepairs] = useState<TicketParseRepair[]>([]);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnosticsReport | null>(null);
+  const [now, setNow] = useState<Date>(() => new Date());
+  const [isPartyCollapsed, setIsPartyCollapsed] = useState<boolean>(false);
+  const dataRef = useRef<TicketPayload | null>(null);
+  const isStoreAvailable = useMemo(() => isHistoryStoreAvailable(), []);
+  const [isPersistEnabled, setIsPersistEnabled] = useState<boolean>(() => isStoreAvailable && isPersistenceEnabled());
+  const [isStoreRestored, setIsStoreRestored] = useState<boolean>(false);
+  const [storedAt, setStoredAt] = useState<string | null>(null);
+  const [storeMessage, setStoreMessage] = useState<string>('');
+  // 起動時の復元は一度きりなので、表示言語を切り替えても追従するよう文言ではなく失敗したことだけを持つ
+  const [isRestoreFailed, setIsRestoreFailed] = useState<boolean>(false);
   const viewerUrlForBookmarklet = useMemo(() => {
     if (typeof window === 'undefined') {
       return DEFAULT_VIEWER_URL;
@@ -1881,14 +1442,17 @@ export default function App() {
       const url = new URL(window.location.href);
       url.search = '';
       url.hash = '';
+      if (locale !== 'ja') {
+        url.searchParams.set(LOCALE_QUERY_PARAM, locale);
+      }
       return url.toString();
     } catch {
       return DEFAULT_VIEWER_URL;
     }
-  }, []);
+  }, [locale]);
   const bookmarkletCode = useMemo(
-    () => createBookmarklet(viewerUrlForBookmarklet, TICKET_API_URL),
-    [viewerUrlForBookmarklet]
+    () => createBookmarklet(viewerUrlForBookmarklet, TICKET_API_URL, locale, m.bookmarklet),
+    [viewerUrlForBookmarklet, locale, m]
   );
   const bookmarkletTextareaRef = useRef<HTMLTextAreaElement | null>(null);
   const bookmarkletCopyTimeoutRef = useRef<number | null>(null);
@@ -1897,6 +1461,13 @@ export default function App() {
   const dataSectionRef = useRef<HTMLDivElement | null>(null);
 
   useEffect(() => {
+    // これから / 過去の振り分けと次の来場までのカウントダウンを 1 分ごとに更新する
+    const timerId = window.setInterval(() => setNow(new Date()), NOW_REFRESH_INTERVAL);
+    return () => window.clearInterval(timerId);
+  }, []);
+
+  useEffect(() => {
+    dataRef.current = data;
     if (!data) {
       setIncludedTicketMap({});
       return;
@@ -1911,6 +1482,69 @@ export default function App() {
     });
   }, [data]);
 
+  useEffect(() => {
+    if (!isPersistEnabled) {
+      setIsStoreRestored(true);
+      return;
+    }
+    let isCancelled = false;
+    Promise.all([loadStoredHistory(), loadStoredSnapshots()])
+      .then(([stored, storedSnapshots]) => {
+        if (isCancelled) {
+          return;
+        }
+        setSnapshots((previous) => [...storedSnapshots, ...previous]);
+        if (!stored) {
+          return;
+        }
+        setIncludedTicketMap(stored.includedTicketMap);
+        setSourceFileNames(stored.fileNames);
+        setFileName(stored.fileNames[stored.fileNames.length - 1] ?? '');
+        setStoredAt(stored.savedAt);
+        setData((previous) => (previous ? mergeTicketPayloads(stored.payload, previous) : stored.payload));
+      })
+      .then(() => {
+        // 復元に失敗したときは保存を有効にしない（空の状態で上書きして保存データを消さないため）
+        if (!isCancelled) {
+          setIsStoreRestored(true);
+        }
+      })
+      .catch((storeError) => {
+        console.error(storeError);
+        setIsRestoreFailed(true);
+      });
+    return () => {
+      isCancelled = true;
+    };
+    // 起動時に一度だけ復元する
+  }, []);
+
+  useEffect(() => {
+    // 保存データの削除は「読み込んだデータを消去」などの操作でだけ行う
+    if (!isPersistEnabled || !isStoreRestored || !data) {
+      return;
+    }
+    saveStoredHistory({ payload: data, includedTicketMap, fileNames: sourceFileNames })
+      .then((record) => {
+        setStoredAt(record.savedAt);
+        setStoreMessage('');
+      })
+      .catch((storeError) => {
+        console.error(storeError);
+        setStoreMessage(m.persist.saveFailed);
+      });
+  }, [data, includedTicketMap, sourceFileNames, isPersistEnabled, isStoreRestored]);
+
+  useEffect(() => {
+    if (!isPersistEnabled || !isStoreRestored) {
+      return;
+    }
+    saveStoredSnapshots(snapshots).catch((storeError) => {
+      console.error(storeError);
+      setStoreMessage(m.persist.snapshotSaveFailed);
+    });
+  }, [snapshots, isPersistEnabled, isStoreRestored]);
+
   useEffect(() => () => {
     if (bookmarkletCopyTimeoutRef.current !== null) {
       window.clearTimeout(bookmarkletCopyTimeoutRef.current);
@@ -1928,17 +1562,59 @@ export default function App() {
     });
   }, [data, includedTicketMap]);
 
-  const ticketCount = includedTickets.length;
-  const entranceCount = includedTickets.reduce(
-    (accumulator, ticket) => accumulator + (ticket.schedules?.length ?? 0),
-    0
+  useEffect(() => {
+    if (!data) {
+      return;
+    }
+    let isCancelled = false;
+    loadPavilionMaster(locale)
+      .then((master) => {
+        if (!isCancelled) {
+          setPavilionMaster(master);
+        }
+      })
+      .catch((catalogueError) => {
+        // カタログがなくても API の情報だけで表示できる
+        console.error(catalogueError);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [data, locale]);
+
+  // 表示言語のカタログで名前を補ってから絞り込み、表示中の名前で検索できるようにする
+  const filteredTickets = useMemo(
+    () => filterTickets(includedTickets.map((ticket) => enrichTicketEvents(ticket, pavilionMaster)), reservationFilter),
+    [includedTickets, reservationFilter, pavilionMaster]
+  );
+
+  const filterOptions = useMemo(() => collectFilterOptions(data?.list ?? [], locale), [data, locale]);
+
+  const hasParties = useMemo(() => detectParties(filteredTickets, locale).length > 0, [filteredTickets, locale]);
+
+  // 同行分をまとめる場合は、件数と共有画像に重複を除いたチケットを使う
+  const countedTickets = useMemo(
+    () => (isPartyCollapsed ? collapsePartyDuplicates(filteredTickets) : filteredTickets),
+    [filteredTickets, isPartyCollapsed]
   );
-  const eventCount = includedTickets.reduce(
-    (accumulator, ticket) => accumulator + (ticket.event_schedules?.length ?? 0),
-    0
+
+  const { ticketCount, entranceCount, eventCount } = useMemo(
+    () => countReservations(countedTickets),
+    [countedTickets]
   );
 
-  const currentInstruction = instructionDefinitions[instructionMethod];
+  const matchedReservationCount = useMemo(() => {
+    const counts = countReservations(filteredTickets);
+    return counts.entranceCount + counts.eventCount;
+  }, [filteredTickets]);
+
+  const totalReservationCount = useMemo(() => {
+    const counts = countReservations(includedTickets);
+    return counts.entranceCount + counts.eventCount;
+  }, [includedTickets]);
+
+  const localizedInstructions = instructionDefinitions[locale];
+  const currentInstruction = localizedInstructions[instructionMethod];
 
   const handleTicketIncludedChange = useCallback((ticketKey: string, nextValue: boolean) => {
     setIncludedTicketMap((previous) => ({
@@ -1955,31 +1631,57 @@ export default function App() {
     setData(null);
     setIncludedTicketMap({});
     setFileName('');
+    setSourceFileNames([]);
+    setSnapshots([]);
+    setMergeReport(null);
+    setDiagnostics(null);
     setError('');
+    setParseErrorDetail(null);
+    setParseRepairs([]);
+    if (isPersistEnabled && isStoreRestored) {
+      removeStoredHistory()
+        .then(() => setStoredAt(null))
+        .catch((storeError) => console.error(storeError));
+    }
+  }, [isPersistEnabled, isStoreRestored]);
+
+  const handleDeleteSnapshot = useCallback((snapshotId: string) => {
+    setSnapshots((previous) => previous.filter((snapshot) => snapshot.id !== snapshotId));
   }, []);
 
-  const createExportFileName = useCallback(() => {
-    const now = new Date();
-    const pad = (value: number) => String(value).padStart(2, '0');
-    const timestamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
-    const baseName = fileName ? fileName.replace(/\.[^.]+$/, '') : 'expo-history';
-    return `${baseName || 'expo-history'}-${timestamp}.json`;
-  }, [fileName]);
+  const handlePersistChange = useCallback((nextValue: boolean) => {
+    setPersistenceEnabled(nextValue);
+    setIsPersistEnabled(nextValue);
+    setStoreMessage('');
+    if (!nextValue) {
+      removeStoredHistory()
+        .then(() => setStoredAt(null))
+        .catch((storeError) => console.error(storeError));
+    }
+  }, []);
+
+  const handleDeleteStoredData = useCallback(async () => {
+    if (!window.confirm(m.persist.deleteConfirm)) {
+      return;
+    }
+    try {
+      await deleteAllStoredData();
+      setIsPersistEnabled(false);
+      setStoredAt(null);
+      setStoreMessage(m.persist.deleted);
+    } catch (storeError) {
+      console.error(storeError);
+      setStoreMessage(m.persist.deleteFailed);
+    }
+  }, [m]);
 
   const handleSaveJson = useCallback(() => {
     if (!data) {
       return;
     }
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = createExportFileName();
-    document.body.appendChild(link);
-    link.click();
-    link.remove();
-    URL.revokeObjectURL(url);
-  }, [createExportFileName, data]);
+    downloadBlob(blob, buildExportFileName(fileName, 'json'));
+  }, [data, fileName]);
 
   const handleCopyBookmarklet = useCallback(async () => {
     const scheduleReset = () => {
@@ -2009,7 +1711,7 @@ export default function App() {
 
     const textarea = bookmarkletTextareaRef.current;
     if (!textarea) {
-      alert('コピーできませんでした。テキストを選択して手動でコピーしてください。');
+      alert(m.usage.copyFailed);
       return;
     }
 
@@ -2026,8 +1728,8 @@ export default function App() {
       console.warn('document.execCommand("copy") failed.', execError);
     }
 
-    alert('コピーできませんでした。テキストを選択して手動でコピーしてください。');
-  }, [bookmarkletCode]);
+    alert(m.usage.copyFailed);
+  }, [bookmarkletCode, m]);
 
   const parseAndSet = useCallback((raw: string, options?: { fileName?: string }) => {
     setRawInput(raw);
@@ -2036,21 +1738,35 @@ export default function App() {
     }
 
     try {
-      const parsed = parseTicketJson(raw);
-      if (!parsed.list || !Array.isArray(parsed.list)) {
-        throw new Error('list配列が見つかりませんでした。チケット一覧APIのデータか確認してください。');
+      const { payload: parsed, repairs } = parseTicketJsonWithRepairs(raw);
+      const previous = dataRef.current;
+      const { payload: merged, report } = mergeTicketPayloadsWithReport(previous, parsed);
+      dataRef.current = merged;
+      setData(merged);
+      setMergeReport(previous && previous.list.length > 0 && report.mergedTickets.length > 0 ? report : null);
+      const diagnosticsReport = buildParseDiagnostics(parsed);
+      setDiagnostics(diagnosticsReport.diagnostics.length > 0 ? diagnosticsReport : null);
+      if (parsed.is_sample !== true) {
+        setSnapshots((previous) => [...previous, createSnapshot(parsed, { fileName: options?.fileName })]);
+      }
+      const loadedFileName = options?.fileName;
+      if (loadedFileName) {
+        setSourceFileNames((previous) => (previous.includes(loadedFileName) ? previous : [...previous, loadedFileName]));
       }
-      setData((previous) => mergeTicketPayloads(previous, parsed));
       setError('');
+      setParseErrorDetail(null);
+      setParseRepairs(repairs);
       setTimeout(() => {
         if (dataSectionRef.current) {
           dataSectionRef.current.scrollIntoView({ behavior: 'smooth' });
         }
       }, 0);
     } catch (parsingError) {
-      setError(parsingError instanceof Error ? parsingError.message : '未知のエラーが発生しました。');
+      setError(describeParseError(parsingError, m));
+      setParseErrorDetail(parsingError instanceof TicketParseError ? parsingError : null);
+      setParseRepairs([]);
     }
-  }, []);
+  }, [m]);
 
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
@@ -2169,7 +1885,8 @@ export default function App() {
         const result = loadEvent.target?.result;
         if (!(result instanceof ArrayBuffer)) {
           setIsLoadingFile(false);
-          setError('WebArchiveファイルの読み込みに失敗しました。');
+          setError(m.errors.webArchiveRead);
+          setParseErrorDetail(null);
           inputEl.value = '';
           return;
         }
@@ -2178,17 +1895,14 @@ export default function App() {
           const decoded = new TextDecoder('utf-8', { fatal: false }).decode(new Uint8Array(result));
           const embeddedJson = extractEmbeddedTicketJson(decoded);
           if (!embeddedJson) {
-            throw new Error('WebArchive内にチケットJSONが見つかりませんでした。');
+            throw new Error(m.errors.webArchiveNoJson);
           }
 
           const parsed = parseTicketJson(embeddedJson);
-          parseAndSet(JSON.stringify(parsed, null, 2));
+          parseAndSet(JSON.stringify(parsed, null, 2), { fileName: file.name });
         } catch (parseError) {
-          setError(
-            parseError instanceof Error
-              ? parseError.message
-              : 'WebArchiveの解析中に未知のエラーが発生しました。'
-          );
+          setError(describeParseError(parseError, m, m.errors.webArchiveUnknown));
+          setParseErrorDetail(parseError instanceof TicketParseError ? parseError : null);
         } finally {
           setIsLoadingFile(false);
           inputEl.value = '';
@@ -2196,7 +1910,8 @@ export default function App() {
       };
       reader.onerror = () => {
         setIsLoadingFile(false);
-        setError('ファイルの読み込みに失敗しました。別のファイルでお試しください。');
+        setError(m.errors.fileRead);
+        setParseErrorDetail(null);
         inputEl.value = '';
       };
       reader.readAsArrayBuffer(file);
@@ -2208,12 +1923,13 @@ export default function App() {
       const result = loadEvent.target?.result;
       const text = typeof result === 'string' ? result : '';
       setIsLoadingFile(false);
-      parseAndSet(text);
+      parseAndSet(text, { fileName: file.name });
       inputEl.value = '';
     };
     reader.onerror = () => {
       setIsLoadingFile(false);
-      setError('ファイルの読み込みに失敗しました。別のファイルでお試しください。');
+      setError(m.errors.fileRead);
+      setParseErrorDetail(null);
       inputEl.value = '';
     };
     reader.readAsText(file, 'utf-8');
@@ -2229,55 +1945,55 @@ export default function App() {
         <header className="space-y-4 rounded-3xl bg-[#0068B7] p-8 text-white shadow-lg">
           <div className="flex flex-wrap items-center justify-between gap-4">
             <div>
-              <h1 className="text-3xl font-bold">万博予約入場履歴ビューアー</h1>
+              <h1 className="text-3xl font-bold">{m.header.title}</h1>
               <p className="mt-2 max-w-2xl text-sm leading-relaxed text-white/90">
-                マイチケットのチケット一覧APIから取得したJSONを読み込み、入場予約やパビリオン予約を見やすく整理して表示します。過去の入場履歴の確認に便利です。データはブラウザ内でのみ処理され、外部に送信されることはありません。
+                {m.header.description}
               </p>
               <p className="mt-2 text-xs text-white/80">
-                本ツールはCodexが一から実装し、Codexへの指示・修正依頼と主要な機能以外の修正のみ製作者が行いました。
+                {m.header.credit}
               </p>
             </div>
-            <div className="text-right text-sm text-white/90">
-              <p>初回公開: 2024年10月04日</p>
-              <p>最終更新: 2024年11月20日</p>
+            <div className="flex flex-col items-end gap-2 text-right text-sm text-white/90">
+              <LanguageSwitcher />
+              <p>{m.header.firstPublished}</p>
+              <p>{m.header.lastUpdated}</p>
               {/* <p>バージョン 0.1.0</p> */}
             </div>
           </div>
           <div className="flex flex-wrap gap-4 text-sm">
             <div className="flex items-center gap-2 rounded-full bg-white/20 px-4 py-2">
               <span className="inline-flex h-2 w-2 rounded-full bg-[#D2D7DA]" />
-              <span>データはローカル処理のみ</span>
+              <span>{m.header.localOnly}</span>
             </div>
             <div className="flex items-center gap-2 rounded-full bg-white/20 px-4 py-2">
               <span className="inline-flex h-2 w-2 rounded-full bg-[#E60012]" />
-              <span>JSON貼り付けとファイル読み込みに対応</span>
+              <span>{m.header.inputMethods}</span>
             </div>
           </div>
         </header>
         <div className="rounded-2xl border border-orange-400 bg-orange-200 px-4 py-4 text-sm text-orange-700">
-          <p className="font-semibold">利用可能なのは11月末までです！</p>
+          <p className="font-semibold">{m.notices.serviceEndTitle}</p>
           <p className="mt-1 leading-relaxed">
-            2025年11月末をもってマイチケットがサービス終了するため、本ツールも同時に利用できなくなります。まだの方はお早めにご利用ください。
+            {m.notices.serviceEndBody}
           </p>
         </div>
         <section className="space-y-6 rounded-3xl border border-[#C5CCD0] bg-white/95 p-6 shadow-sm">
           <div className="rounded-2xl border border-[#E60012]/40 bg-[#E60012]/10 px-4 py-4 text-sm text-[#E60012]">
-            <p className="font-semibold">ご利用にあたっての注意</p>
+            <p className="font-semibold">{m.notices.cautionTitle}</p>
             <p className="mt-1 leading-relaxed">
-              このツールは非公式に個人が作成したものです。ご利用に際していかなる責任も負いかねます。
-              また、このツールおよびこのツールで得た情報について公式窓口への問い合わせは絶対に行わないでください。
+              {m.notices.cautionBody}
             </p>
           </div>
-          <div className="text-sm text-[#0B1F3B]">下の方の「JSON貼り付け」欄にある「サンプルを読み込む」ボタンを押すとサンプル表示できます。ちなみに製作者個人の履歴です。</div>
+          <div className="text-sm text-[#0B1F3B]">{m.notices.sampleHint}</div>
 
           <div>
-            <h2 className="text-xl font-semibold text-[#0068B7]">使い方</h2>
+            <h2 className="text-xl font-semibold text-[#0068B7]">{m.usage.heading}</h2>
             <p className="mt-2 text-sm text-[#0B1F3B]">
-              ご自身の端末に合わせて、履歴データの取得方法を選んでください。もしうまくできなかったら、他の方法も試してみてください。
+              {m.usage.intro}
             </p>
             <div className="mt-4 flex flex-wrap gap-3">
               {instructionOrder.map((method) => {
-                const definition = instructionDefinitions[method];
+                const definition = localizedInstructions[method];
                 const isActive = method === instructionMethod;
                 return (
                   <button
@@ -2330,7 +2046,7 @@ export default function App() {
                     {step.showBookmarkletCode && (
                       <div className="mt-3 space-y-2 rounded-xl border border-[#0068B7]/20 bg-white/80 p-3">
                         <label htmlFor="bookmarklet-code" className="text-xs font-semibold uppercase tracking-wide text-[#0068B7]">
-                          ブックマークレットコード
+                          {m.usage.bookmarkletCode}
                         </label>
                         <textarea
                           id="bookmarklet-code"
@@ -2346,11 +2062,11 @@ export default function App() {
                             onClick={handleCopyBookmarklet}
                             className="inline-flex items-center gap-1 rounded-full bg-[#0068B7] px-3 py-1 text-xs font-semibold text-white transition hover:brightness-110 focus:outline-none focus:ring-2 focus:ring-[#0068B7]/40"
                           >
-                            コードをコピー
+                            {m.usage.copyCode}
                             <span aria-hidden="true">&gt;</span>
                           </button>
                           <span className="text-xs text-[#0B1F3B]/80">
-                            {isBookmarkletCopied ? 'コピーしました。ブックマークに貼り付けてください。' : ''}
+                            {isBookmarkletCopied ? m.usage.copied : ''}
                           </span>
                         </div>
                       </div>
@@ -2360,7 +2076,7 @@ export default function App() {
               </ol>
               {currentInstruction.notes && currentInstruction.notes.length > 0 && (
                 <div className="rounded-xl bg-white/80 p-4 text-xs text-[#0B1F3B]">
-                  <p className="font-semibold text-[#0068B7]">ワンポイント</p>
+                  <p className="font-semibold text-[#0068B7]">{m.usage.onePoint}</p>
                   <ul className="mt-2 list-disc space-y-1 pl-5">
                     {currentInstruction.notes.map((note, index) => (
                       <li key={`${instructionMethod}-note-${index}`}>{note}</li>
@@ -2370,38 +2086,39 @@ export default function App() {
               )}
             </div>
             <div className="mt-6">
-              <h3 className="text-base font-semibold text-[#0068B7]">共通のヒント</h3>
+              <h3 className="text-base font-semibold text-[#0068B7]">{m.usage.commonHintsHeading}</h3>
               <ul className="mt-2 list-disc space-y-1 pl-6 text-sm text-[#0B1F3B]">
-                <li>アプリ内ブラウザで開いているときは、外部ブラウザで開いてください。</li>
+                <li>{m.usage.inAppBrowserHint}</li>
                 <li>
                   <code>{`{"message":"Unauthorized"}`}</code>
-                  という短いJSONが表示された場合、マイチケットからログアウトしていますので再度ログインして開き直してください。
+                  {locale === 'ja' ? '' : ' '}
+                  {m.usage.unauthorizedHint}
                 </li>
-                <li>保存やSNSの共有に便利な1枚にまとめた画像も一番下に自動生成されます。</li>
-                <li>自分以外のチケットが含まれている場合は「集計する」チェックボックスを外して集計対象外にできます。</li>
+                <li>{m.usage.shareImageHint}</li>
+                <li>{m.usage.includeHint}</li>
                 <li>
-                  パスの併用等で複数の万博IDをお持ちの場合は、ログインとログアウトを繰り返してIDの分だけデータの読み込みを繰り返してください。読み込むたびに既存データと自動で統合されます。
+                  {m.usage.multipleIdsHint}
                 </li>
-                <li>マイチケットやチケット一覧APIの仕様変更により、正しく表示されなかったり機能が利用できなくなる場合があります。</li>
+                <li>{m.usage.apiChangeHint}</li>
               </ul>
             </div>
             <div className="mt-4 flex flex-wrap gap-3 text-sm">
               <a
-                href="https://ticket.expo2025.or.jp/myticket/"
+                href={MY_TICKET_URL}
                 target="_blank"
                 rel="noreferrer"
                 className="inline-flex items-center gap-1 rounded-full bg-[#E60012] px-4 py-2 font-semibold text-white shadow hover:brightness-110"
               >
-                マイチケットを開く
+                {m.usage.openMyTicket}
                 <span aria-hidden="true">&gt;</span>
               </a>
               <a
-                href="https://ticket.expo2025.or.jp/api/d/my/tickets/"
+                href={TICKET_API_URL}
                 target="_blank"
                 rel="noreferrer"
                 className="inline-flex items-center gap-1 rounded-full border border-[#0068B7] px-4 py-2 font-semibold text-[#0068B7] hover:bg-[#0068B7]/10"
               >
-                チケット一覧APIを開く
+                {m.usage.openTicketApi}
                 <span aria-hidden="true">&gt;</span>
               </a>
             </div>
@@ -2411,7 +2128,7 @@ export default function App() {
             <div className="space-y-3">
               <div className="flex flex-wrap items-center justify-between gap-2">
                 <label htmlFor="ticket-json-input" className="text-sm font-medium text-[#0B1F3B]">
-                  JSONを貼り付け
+                  {m.input.pasteLabel}
                 </label>
                 <div className="flex flex-wrap gap-2">
                   {(!data || data.list.length == 0) &&<button
@@ -2419,14 +2136,14 @@ export default function App() {
                     onClick={handleSample}
                     className="rounded-full border border-[#0068B7] px-3 py-1 text-xs font-semibold text-[#0068B7] transition hover:brightness-110"
                   >
-                    サンプルを読み込む
+                    {m.input.loadSample}
                   </button>}
                   <button
                     type="button"
                     onClick={handleClearInput}
                     className="rounded-full border border-[#C5CCD0] px-3 py-1 text-xs font-semibold text-[#0B1F3B] transition hover:brightness-110"
                   >
-                    貼り付け欄をクリア
+                    {m.input.clearInput}
                   </button>
                 </div>
               </div>
@@ -2435,7 +2152,7 @@ export default function App() {
                 value={rawInput}
                 onChange={(event) => setRawInput(event.target.value)}
                 rows={14}
-                placeholder="チケット一覧APIのJSONをここに貼り付けてください"
+                placeholder={m.input.placeholder}
                 className="w-full resize-y rounded-2xl border border-[#C5CCD0] bg-white px-4 py-3 text-sm text-[#0B1F3B] shadow-inner focus:border-[#0068B7] focus:outline-none focus:ring-2 focus:ring-[#0068B7]/40"
               />
               <div className="space-y-2">
@@ -2444,7 +2161,7 @@ export default function App() {
                   onClick={handleParse}
                   className="w-full rounded-full bg-[#0068B7] px-4 py-3 text-sm font-semibold text-white shadow transition hover:brightness-110 focus:outline-none focus:ring-2 focus:ring-[#0068B7]/50"
                 >
-                  この内容で解析する
+                  {m.input.parse}
                 </button>
                 {data && data.list.length > 0 && (
                   <button
@@ -2452,7 +2169,7 @@ export default function App() {
                     onClick={handleClearData}
                     className="w-full rounded-full border border-[#E60012] px-4 py-3 text-sm font-semibold text-[#E60012] transition hover:bg-[#E60012]/10 focus:outline-none focus:ring-2 focus:ring-[#E60012]/40"
                   >
-                    データをクリアする
+                    {m.input.clearData}
                   </button>
                 )}
               </div>
@@ -2460,21 +2177,21 @@ export default function App() {
 
             <div className="space-y-3">
               <div className="space-y-3">
-                <label className="text-sm font-medium text-[#0B1F3B]">ファイルから読み込む（JSON / HTML / WEBARCHIVE）</label>
+                <label className="text-sm font-medium text-[#0B1F3B]">{m.input.fileLabel}</label>
                 <label className="flex w-full min-h-[12rem] cursor-pointer flex-col items-center justify-center gap-3 rounded-2xl border-2 border-dashed border-[#0068B7]/40 bg-white p-6 text-center text-sm text-[#0B1F3B] transition hover:border-[#0068B7] hover:text-[#0068B7]">
                   <input type="file" accept=".json,.txt,.html,.htm,.webarchive" className="hidden" onChange={handleFileChange} />
-                  <span className="rounded-full bg-[#0068B7]/10 px-3 py-1 text-xs font-semibold text-[#0068B7]">クリック{/*またはドラッグ＆ドロップ*/}</span>
-                  <p>保存したJSONファイル、またはiPhoneのWeb Archiveファイルを読み込めます。</p>
-                  {fileName && <p className="font-medium text-[#0068B7]">選択中: {fileName}</p>}
-                  {isLoadingFile && <p className="text-[#E60012]">読み込み中...</p>}
+                  <span className="rounded-full bg-[#0068B7]/10 px-3 py-1 text-xs font-semibold text-[#0068B7]">{m.input.click}{/*またはドラッグ＆ドロップ*/}</span>
+                  <p>{m.input.fileHint}</p>
+                  {fileName && <p className="font-medium text-[#0068B7]">{m.input.selectedFile(fileName)}</p>}
+                  {isLoadingFile && <p className="text-[#E60012]">{m.input.loading}</p>}
                 </label>
               </div>
               <div className="space-y-3">
-                <label className="text-sm font-medium text-[#0B1F3B] mt-4">JSONを保存</label>
+                <label className="text-sm font-medium text-[#0B1F3B] mt-4">{m.input.saveJsonLabel}</label>
                 <div className="rounded-2xl border border-[#C5CCD0] bg-white p-4 shadow-inner">
                   <p className="text-sm text-[#0B1F3B]">
-                    今表示しているデータをJSONファイルとしてダウンロードし、あとで「ファイルから読み込む」から再利用できます。<br />
-                    JSONファイルに保存すればマイチケットのサービス終了後もいつでも読み込むことができますので、ついでに保存をおすすめします。
+                    {m.input.saveJsonBody}<br />
+                    {m.input.saveJsonRecommendation}
                   </p>
                   <button
                     type="button"
@@ -2482,16 +2199,82 @@ export default function App() {
                     disabled={!data}
                     className="mt-3 w-full rounded-full bg-[#0068B7] px-4 py-3 text-sm font-semibold text-white shadow transition hover:brightness-110 disabled:cursor-not-allowed disabled:bg-[#0068B7]/40"
                   >
-                    {data ? '現在のデータを保存する' : '保存できるデータがありません'}
+                    {data ? m.input.saveJson : m.input.noDataToSave}
                   </button>
                 </div>
               </div>
+              {isStoreAvailable && (
+                <div className="space-y-3">
+                  <label className="text-sm font-medium text-[#0B1F3B] mt-4">{m.persist.label}</label>
+                  <div className="rounded-2xl border border-[#C5CCD0] bg-white p-4 shadow-inner">
+                    <label htmlFor="persist-history" className="flex items-center gap-2 text-sm text-[#0B1F3B]">
+                      <input
+                        id="persist-history"
+                        type="checkbox"
+                        checked={isPersistEnabled}
+                        onChange={(event) => handlePersistChange(event.target.checked)}
+                        className="h-4 w-4 rounded border-[#C5CCD0] focus:outline-none focus:ring-2 focus:ring-[#0068B7]/40"
+                        style={{ accentColor: themeColors.blue }}
+                      />
+                      <span>{m.persist.toggle}</span>
+                    </label>
+                    <p className="mt-2 text-xs text-[#0B1F3B]/80">
+                      {m.persist.description}
+                    </p>
+                    {isPersistEnabled && (
+                      <p className="mt-2 text-xs text-[#0068B7]">
+                        {storedAt ? m.persist.lastSaved(new Date(storedAt).toLocaleString(m.dateLocale)) : m.persist.autoSave}
+                        {sourceFileNames.length > 0 && m.persist.files(sourceFileNames.join(', '))}
+                      </p>
+                    )}
+                    <button
+                      type="button"
+                      onClick={handleDeleteStoredData}
+                      className="mt-3 w-full rounded-full border border-[#E60012] px-4 py-3 text-sm font-semibold text-[#E60012] transition hover:bg-[#E60012]/10 focus:outline-none focus:ring-2 focus:ring-[#E60012]/40"
+                    >
+                      {m.persist.deleteAll}
+                    </button>
+                    {isRestoreFailed && <p className="mt-2 text-xs text-[#E60012]">{m.persist.restoreFailed}</p>}
+                    {storeMessage && <p className="mt-2 text-xs text-[#E60012]">{storeMessage}</p>}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
+          {mergeReport && <MergeReportNotice report={mergeReport} onDismiss={() => setMergeReport(null)} />}
+
+          {diagnostics && (
+            <ParseDiagnosticsPanel report={diagnostics} fileName={fileName} onDismiss={() => setDiagnostics(null)} />
+          )}
+
+          {parseRepairs.length > 0 && (
+            <div className="rounded-2xl border border-[#0068B7]/30 bg-[#0068B7]/5 px-4 py-3 text-sm text-[#0B1F3B]">
+              <p className="font-semibold text-[#0068B7]">{m.errors.repairedHeading}</p>
+              <ul className="mt-1 list-disc space-y-0.5 pl-5">
+                {parseRepairs.map((repair) => (
+                  <li key={repair}>{m.errors.repairs[repair]}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {error && (
             <div className="rounded-2xl border border-[#E60012]/40 bg-[#E60012]/10 px-4 py-3 text-sm text-[#E60012]">
               {error}
+              {parseErrorDetail?.location && (
+                <div className="mt-2">
+                  <p className="text-xs font-semibold">
+                    {m.errors.location(parseErrorDetail.location.line, parseErrorDetail.location.column)}
+                  </p>
+                  <pre className="mt-1 overflow-x-auto rounded-lg bg-white px-3 py-2 font-mono text-xs text-[#0B1F3B]">
+                    {parseErrorDetail.location.snippet}
+                  </pre>
+                </div>
+              )}
+              {parseErrorDetail && m.errors.hints[parseErrorDetail.code] && (
+                <p className="mt-2 text-[#0B1F3B]">{m.errors.hints[parseErrorDetail.code]}</p>
+              )}
             </div>
           )}
       </section>
@@ -2500,65 +2283,139 @@ export default function App() {
           <section className="space-y-6" ref={dataSectionRef}>
             <div className="grid gap-4 sm:grid-cols-3">
               <div className="rounded-3xl border border-[#0068B7]/15 bg-white p-5 text-center shadow-sm">
-                <p className="text-sm font-medium text-[#0068B7]">チケット数</p>
+                <p className="text-sm font-medium text-[#0068B7]">{m.overview.tickets}</p>
                 <p className="mt-2 text-3xl font-semibold text-[#E60012]">{ticketCount}</p>
               </div>
               <div className="rounded-3xl border border-[#0068B7]/15 bg-white p-5 text-center shadow-sm">
-                <p className="text-sm font-medium text-[#0068B7]">入場予約</p>
+                <p className="text-sm font-medium text-[#0068B7]">{m.overview.entrances}</p>
                 <p className="mt-2 text-3xl font-semibold text-[#E60012]">{entranceCount}</p>
               </div>
               <div className="rounded-3xl border border-[#0068B7]/15 bg-white p-5 text-center shadow-sm">
-                <p className="text-sm font-medium text-[#0068B7]">パビリオン予約</p>
+                <p className="text-sm font-medium text-[#0068B7]">{m.overview.events}</p>
                 <p className="mt-2 text-3xl font-semibold text-[#E60012]">{eventCount}</p>
               </div>
             </div>
+            {hasParties && (
+              <div className="rounded-3xl border border-[#0068B7]/15 bg-white px-5 py-3 shadow-sm">
+                <label className="flex items-center gap-2 text-sm font-medium text-[#0B1F3B]">
+                  <input
+                    type="checkbox"
+                    checked={isPartyCollapsed}
+                    onChange={(event) => setIsPartyCollapsed(event.target.checked)}
+                    className="h-4 w-4 rounded border-[#C5CCD0] focus:outline-none focus:ring-2 focus:ring-[#0068B7]/40"
+                    style={{ accentColor: themeColors.blue }}
+                  />
+                  <span>{m.parties.collapse}</span>
+                </label>
+                <p className="mt-1 text-xs text-[#0B1F3B]/70">{m.parties.collapseNote}</p>
+              </div>
+            )}
+
+            <NextVisitPanel tickets={filteredTickets} now={now} />
+
+            <ReservationWarningsPanel tickets={filteredTickets} />
+
+            <FilterBar
+              filter={reservationFilter}
+              options={filterOptions}
+              onChange={setReservationFilter}
+              matchedCount={matchedReservationCount}
+              totalCount={totalReservationCount}
+            />
+
+            <ExportPanel tickets={filteredTickets} sourceFileName={fileName} />
+
+            <div className="flex flex-wrap gap-2" role="tablist" aria-label={m.views.label}>
+              {dataViewOrder.map((view) => {
+                const isActive = view === dataView;
+                return (
+                  <button
+                    key={view}
+                    type="button"
+                    role="tab"
+                    aria-selected={isActive}
+                    onClick={() => setDataView(view)}
+                    className={`rounded-full px-4 py-2 text-sm font-semibold transition focus:outline-none focus:ring-2 focus:ring-[#0068B7]/40 ${
+                      isActive
+                        ? 'bg-[#0068B7] text-white shadow'
+                        : 'border border-[#0068B7]/30 bg-white text-[#0068B7] hover:border-[#0068B7]'
+                    }`}
+                  >
+                    {m.views[view]}
+                  </button>
+                );
+              })}
+            </div>
 
             <div className="space-y-6">
-              {data.list.map((ticket, index) => {
+              {dataView === 'cards' && data.list.map((ticket, index) => {
                 const ticketKey = getTicketKey(ticket, index);
                 const isIncluded = includedTicketMap[ticketKey] !== false;
+                // ほかの表示と同じく、名前を補ってから絞り込む
+                const visibleTicket = applyReservationFilter(enrichTicketEvents(ticket, pavilionMaster), reservationFilter);
+                if (!visibleTicket) {
+                  return null;
+                }
                 return (
                   <TicketCard
                     key={ticketKey}
-                    ticket={ticket}
+                    ticket={visibleTicket}
                     ticketKey={ticketKey}
                     isIncluded={isIncluded}
                     onIncludedChange={(nextValue) => handleTicketIncludedChange(ticketKey, nextValue)}
+                    now={now}
                   />
                 );
               })}
-              {includedTickets.length > 0 && (
+              {dataView === 'calendar' && <ReservationCalendar tickets={filteredTickets} />}
+              {dataView === 'timeline' && <DailyTimelineView tickets={filteredTickets} />}
+              {dataView === 'stats' && (
+                <>
+                  <StatsDashboard tickets={filteredTickets} pavilionMaster={pavilionMaster} />
+                  <LeadTimeAnalytics tickets={filteredTickets} />
+                </>
+              )}
+              {dataView === 'parties' && <PartyView tickets={filteredTickets} />}
+              {dataView === 'lotteries' && <LotteryHistoryView tickets={filteredTickets} />}
+              {dataView === 'print' && <PrintSheetView tickets={filteredTickets} />}
+              {filteredTickets.length > 0 && (
                 <ShareableSummaryCanvas
-                  tickets={includedTickets}
+                  tickets={countedTickets}
                   entranceCount={entranceCount}
                   eventCount={eventCount}
                 />
               )}
               {includedTickets.length === 0 && (
                 <div className="rounded-3xl border border-dashed border-[#0068B7]/30 bg-white/80 p-6 text-center text-sm text-[#0B1F3B]">
-                  現在、集計対象のチケットがありません。カードの「集計する」にチェックを入れてください。
+                  {m.emptyStates.noIncludedTickets}
+                </div>
+              )}
+              {includedTickets.length > 0 && filteredTickets.length === 0 && (
+                <div className="rounded-3xl border border-dashed border-[#0068B7]/30 bg-white/80 p-6 text-center text-sm text-[#0B1F3B]">
+                  {m.emptyStates.noMatches}
                 </div>
               )}
+              <SnapshotHistoryPanel snapshots={snapshots} onDeleteSnapshot={handleDeleteSnapshot} />
             </div>
           </section>
         )}
 
         {!data && !error && (
           <section className="rounded-3xl border border-dashed border-[#0068B7]/30 bg-white/80 p-6 text-center text-sm text-[#0B1F3B]">
-            JSONを解析するとここにチケットの一覧が表示されます。
+            {m.emptyStates.beforeParse}
           </section>
         )}
       </div>
       <footer className="mt-6 mx-auto w-full max-w-5xl px-4 text-xs text-[#0B1F3B] sm:px-6">
         <div className="rounded-2xl border border-[#C5CCD0] bg-white/90 px-4 py-4">
-          <p className="font-semibold text-[#0068B7]">製作者情報</p>
+          <p className="font-semibold text-[#0068B7]">{m.footer.heading}</p>
           <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
-            <span>製作者: Nakayuki</span>
+            <span>{m.footer.author}</span>
             <span>
-              連絡先: <span className="underline decoration-dotted">yuki [at] nakayuki.net</span>
+              {m.footer.contact} <span className="underline decoration-dotted">yuki [at] nakayuki.net</span>
             </span>
             <span>
-              X: <a href="https://x.com/nakayuki805" target="_blank" rel="noreferrer" className="text-[#0068B7] underline">
+              {m.footer.x} <a href="https://x.com/nakayuki805" target="_blank" rel="noreferrer" className="text-[#0068B7] underline">
                 @nakayuki805
               </a>
             </span>
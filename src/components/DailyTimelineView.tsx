@@ -0,0 +1,76 @@
+import { useEffect, useMemo, useState } from 'react';
+import { BACK_TO_BACK_MINUTES, formatDateWithWeekday, groupReservationsByDate } from '../core';
+import type { Ticket } from '../core';
+import { useI18n } from '../i18n';
+import DayTimeline from './DayTimeline';
+
+interface DailyTimelineViewProps {
+  tickets: Ticket[];
+}
+
+export default function DailyTimelineView({ tickets }: DailyTimelineViewProps) {
+  const { locale, m } = useI18n();
+  const days = useMemo(() => groupReservationsByDate(tickets, locale), [tickets, locale]);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  useEffect(() => {
+    // 選択中の日付がなくなった場合は最初の日に戻す
+    if (!selectedDate || !days.some((day) => day.date === selectedDate)) {
+      setSelectedDate(days[0]?.date ?? null);
+    }
+  }, [days, selectedDate]);
+
+  const currentIndex = days.findIndex((day) => day.date === selectedDate);
+  const current = currentIndex >= 0 ? days[currentIndex] : null;
+
+  const navButtonClass =
+    'rounded-full border border-[#0068B7]/30 px-3 py-1 text-xs font-semibold text-[#0068B7] transition hover:border-[#0068B7] disabled:cursor-not-allowed disabled:opacity-40';
+
+  return (
+    <div className="space-y-4 rounded-3xl border border-[#C5CCD0] bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-[#0068B7]">{m.daily.heading}</h3>
+        {days.length > 0 && (
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setSelectedDate(days[currentIndex - 1].date)}
+              disabled={currentIndex <= 0}
+              className={navButtonClass}
+            >
+              {m.daily.previous}
+            </button>
+            <select
+              value={selectedDate ?? ''}
+              onChange={(event) => setSelectedDate(event.target.value)}
+              className="rounded-lg border border-[#C5CCD0] px-2 py-1 text-sm text-[#0B1F3B]"
+              aria-label={m.daily.dateSelect}
+            >
+              {days.map((day) => (
+                <option key={day.date} value={day.date}>
+                  {m.daily.option(formatDateWithWeekday(day.date, locale).label, day.entrances.length + day.events.length)}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => setSelectedDate(days[currentIndex + 1].date)}
+              disabled={currentIndex < 0 || currentIndex >= days.length - 1}
+              className={navButtonClass}
+            >
+              {m.daily.next}
+            </button>
+          </div>
+        )}
+      </div>
+      {current ? (
+        <DayTimeline day={current} />
+      ) : (
+        <p className="text-sm text-[#0B1F3B]/70">{m.daily.empty}</p>
+      )}
+      <p className="text-xs text-[#0B1F3B]/70">
+        {m.daily.note(BACK_TO_BACK_MINUTES)}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useMemo } from 'react';
+import {
+  buildDayTimeline,
+  compareSchedules,
+  formatDateWithWeekday,
+  formatTime,
+  resolveGateLabel,
+  resolvePavilionName,
+  resolveRegisteredChannel
+} from '../core';
+import type { DailyReservations, EntranceSchedule, EventSchedule, TimelineEventBlock } from '../core';
+import { useI18n } from '../i18n';
+import { gateBadgeClasses, resolveUseState, themeColors } from '../theme';
+
+interface DayTimelineProps {
+  day: DailyReservations;
+  onClose?: () => void;
+}
+
+type TimelineItem =
+  | { kind: 'entrance'; key: string; ticketLabel: string; ticketName: string; schedule: EntranceSchedule }
+  | { kind: 'event'; key: string; ticketLabel: string; ticketName: string; schedule: EventSchedule };
+
+function eventBlockClass(block: TimelineEventBlock): string {
+  if (block.overlapsWith.length > 0) {
+    return 'border-[#E60012] bg-[#E60012]/20 text-[#E60012]';
+  }
+  if (block.backToBackWith.length > 0) {
+    return 'border-orange-400 bg-orange-100 text-orange-700';
+  }
+  return 'border-[#0068B7] bg-[#0068B7]/15 text-[#0068B7]';
+}
+
+export default function DayTimeline({ day, onClose }: DayTimelineProps) {
+  const { locale, m } = useI18n();
+  const layout = useMemo(() => buildDayTimeline(day), [day]);
+  const blockMap = useMemo(() => {
+    const map = new Map<string, TimelineEventBlock>();
+    layout.rows.forEach((row) => row.events.forEach((block) => map.set(block.entry.key, block)));
+    return map;
+  }, [layout]);
+
+  const items: TimelineItem[] = [
+    ...day.entrances.map((entry) => ({ kind: 'entrance' as const, ...entry })),
+    ...day.events.map((entry) => ({ kind: 'event' as const, ...entry }))
+  ].sort((a, b) => compareSchedules(a.schedule, b.schedule) || a.ticketLabel.localeCompare(b.ticketLabel));
+
+  const axisStart = layout.startHour * 60;
+  const axisLength = (layout.endHour - layout.startHour) * 60;
+  const toPercent = (minutes: number) => `${((minutes - axisStart) / axisLength) * 100}%`;
+  const hours = Array.from({ length: layout.endHour - layout.startHour + 1 }, (_, index) => layout.startHour + index);
+  const overlapCount = Array.from(blockMap.values()).filter((block) => block.overlapsWith.length > 0).length;
+  const backToBackCount = Array.from(blockMap.values()).filter(
+    (block) => block.overlapsWith.length === 0 && block.backToBackWith.length > 0
+  ).length;
+
+  return (
+    <div className="rounded-2xl border border-[#0068B7]/30 bg-white p-5 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-lg font-semibold text-[#0068B7]">{m.timeline.title(formatDateWithWeekday(day.date, locale).label)}</h4>
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-[#C5CCD0] px-3 py-1 text-xs font-semibold text-[#0B1F3B] transition hover:brightness-110"
+          >
+            {m.common.close}
+          </button>
+        )}
+      </div>
+      {items.length === 0 ? (
+        <p className="mt-3 text-sm text-[#0B1F3B]/70">{m.timeline.empty}</p>
+      ) : (
+        <>
+          {(overlapCount > 0 || backToBackCount > 0) && (
+            <div className="mt-3 flex flex-wrap gap-2 text-xs">
+              {overlapCount > 0 && (
+                <span className="rounded-full bg-[#E60012]/10 px-3 py-1 font-semibold text-[#E60012]">
+                  {m.timeline.overlapCount(overlapCount)}
+                </span>
+              )}
+              {backToBackCount > 0 && (
+                <span className="rounded-full bg-orange-100 px-3 py-1 font-semibold text-orange-700">
+                  {m.timeline.backToBackCount(backToBackCount)}
+                </span>
+              )}
+            </div>
+          )}
+
+          <div className="mt-4 overflow-x-auto">
+            <div className="min-w-[40rem] space-y-2 text-xs text-[#0B1F3B]">
+              <div className="grid grid-cols-[8rem_1fr] items-end gap-2">
+                <span />
+                <div className="relative h-5">
+                  {hours.map((hour) => (
+                    <span
+                      key={hour}
+                      className="absolute -translate-x-1/2 text-[#4B5563]"
+                      style={{ left: toPercent(hour * 60) }}
+                    >
+                      {hour}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              {layout.rows.map((row) => (
+                <div key={row.ticketKey} className="grid grid-cols-[8rem_1fr] items-center gap-2">
+                  <span className="truncate font-semibold text-[#0068B7]" title={row.ticketName}>
+                    {row.ticketLabel}. {row.ticketName}
+                  </span>
+                  <div className="relative h-10 rounded bg-[#F8FAFC]">
+                    {hours.map((hour) => (
+                      <span
+                        key={hour}
+                        className="absolute inset-y-0 border-l border-[#D2D7DA]"
+                        style={{ left: toPercent(hour * 60) }}
+                        aria-hidden="true"
+                      />
+                    ))}
+                    {row.entrances.map(({ entry, start }) =>
+                      start === null ? null : (
+                        <span
+                          key={entry.key}
+                          className="absolute inset-y-0 w-1 rounded"
+                          style={{
+                            left: toPercent(start),
+                            backgroundColor: entry.schedule.gate_type === 2 ? themeColors.blue : themeColors.red
+                          }}
+                          title={`${m.timeline.entrance} ${entry.schedule.schedule_name ?? ''} ${resolveGateLabel(entry.schedule.gate_type, locale)}`}
+                        />
+                      )
+                    )}
+                    {row.events.map((block) =>
+                      block.range ? (
+                        <span
+                          key={block.entry.key}
+                          className={`absolute top-1 bottom-1 truncate rounded border px-1 leading-8 ${eventBlockClass(block)}`}
+                          style={{
+                            left: toPercent(block.range.start),
+                            width: `max(0.5rem, ${((block.range.end - block.range.start) / axisLength) * 100}%)`
+                          }}
+                          title={resolvePavilionName(block.entry.schedule.program_code ?? '', block.entry.schedule.event_name, locale)}
+                        >
+                          {resolvePavilionName(block.entry.schedule.program_code ?? '', block.entry.schedule.event_name, locale)}
+                        </span>
+                      ) : null
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <ol className="mt-4 space-y-2 border-l-2 border-[#0068B7]/30 pl-4">
+            {items.map((item) => {
+              const stateDisplay = resolveUseState(item.schedule.use_state, locale);
+              const timeLabel = item.schedule.schedule_name || formatTime(item.schedule.start_time, locale);
+              const block = item.kind === 'event' ? blockMap.get(item.key) : undefined;
+              return (
+                <li key={item.key} className="relative text-sm text-[#0B1F3B]">
+                  <span className="absolute -left-[1.4rem] top-1.5 h-2.5 w-2.5 rounded-full bg-[#0068B7]" aria-hidden="true" />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold text-[#0068B7]">{timeLabel}</span>
+                    {item.kind === 'entrance' ? (
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                          item.schedule.gate_type ? gateBadgeClasses[item.schedule.gate_type] : 'bg-[#D2D7DA] text-[#0068B7]'
+                        }`}
+                      >
+                        {m.timeline.entrance} {resolveGateLabel(item.schedule.gate_type, locale)}
+                      </span>
+                    ) : (
+                      <span className="font-medium">
+                        {resolvePavilionName(item.schedule.program_code ?? '', item.schedule.event_name, locale)}
+                      </span>
+                    )}
+                    {item.schedule.use_state !== undefined && (
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${stateDisplay.className}`}>
+                        {stateDisplay.label}
+                      </span>
+                    )}
+                    {block && block.overlapsWith.length > 0 && (
+                      <span className="rounded-full bg-[#E60012]/10 px-2 py-0.5 text-xs font-semibold text-[#E60012]">{m.timeline.overlap}</span>
+                    )}
+                    {block && block.overlapsWith.length === 0 && block.backToBackWith.length > 0 && (
+                      <span className="rounded-full bg-orange-100 px-2 py-0.5 text-xs font-semibold text-orange-700">{m.timeline.backToBack}</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-[#4B5563]">
+                    {item.ticketLabel}. {item.ticketName}
+                    {item.schedule.admission_time && m.timeline.admission(formatTime(item.schedule.admission_time, locale))}
+                    {item.kind === 'event' && item.schedule.registered_channel !== undefined &&
+                      ` ｜ ${resolveRegisteredChannel(item.schedule.registered_channel, locale)}`}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
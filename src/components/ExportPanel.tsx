@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { buildIcsCalendar, formatReservationTable } from '../core';
+import type { TableFormat, Ticket } from '../core';
+import { buildExportFileName, downloadBlob } from '../download';
+import { useI18n } from '../i18n';
+
+interface ExportPanelProps {
+  tickets: Ticket[];
+  sourceFileName?: string | null;
+}
+
+export default function ExportPanel({ tickets, sourceFileName }: ExportPanelProps) {
+  const { locale, m } = useI18n();
+  const [message, setMessage] = useState('');
+  const isEmpty = tickets.length === 0;
+
+  const handleExportIcs = () => {
+    const blob = new Blob([buildIcsCalendar(tickets, { locale })], { type: 'text/calendar;charset=utf-8' });
+    downloadBlob(blob, buildExportFileName(sourceFileName, 'ics'));
+    setMessage(m.exportPanel.icsDone);
+  };
+
+  const handleExportTable = (format: TableFormat) => {
+    // Excel で文字化けしないよう BOM を付ける
+    const blob = new Blob(['\uFEFF', formatReservationTable(tickets, format, locale)], {
+      type: format === 'csv' ? 'text/csv;charset=utf-8' : 'text/tab-separated-values;charset=utf-8'
+    });
+    downloadBlob(blob, buildExportFileName(sourceFileName, format));
+    setMessage(m.exportPanel.tableDone(format.toUpperCase()));
+  };
+
+  return (
+    <div className="rounded-3xl border border-[#C5CCD0] bg-white p-5 shadow-sm">
+      <h3 className="text-base font-semibold text-[#0068B7]">{m.exportPanel.heading}</h3>
+      <p className="mt-1 text-xs text-[#0B1F3B]/70">
+        {m.exportPanel.scope}
+      </p>
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={handleExportIcs}
+          disabled={isEmpty}
+          className="rounded-full bg-[#0068B7] px-4 py-2 text-sm font-semibold text-white shadow transition hover:brightness-110 disabled:cursor-not-allowed disabled:bg-[#0068B7]/40"
+        >
+          {m.exportPanel.ics}
+        </button>
+        {(['csv', 'tsv'] as const).map((format) => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => handleExportTable(format)}
+            disabled={isEmpty}
+            className="rounded-full border border-[#0068B7]/30 bg-white px-4 py-2 text-sm font-semibold text-[#0068B7] transition hover:border-[#0068B7] disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            {m.exportPanel.table(format)}
+          </button>
+        ))}
+      </div>
+      <p className="mt-2 text-xs text-[#0B1F3B]/70">
+        {m.exportPanel.note}
+      </p>
+      {message && <p className="mt-2 text-xs font-medium text-[#0068B7]">{message}</p>}
+    </div>
+  );
+}
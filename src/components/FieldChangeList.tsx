@@ -0,0 +1,64 @@
+import {
+  formatApiDateTime,
+  formatDate,
+  formatTime,
+  resolveGateLabel,
+  resolveRegisteredChannel,
+  resolveUseStateLabel
+} from '../core';
+import type { Locale, ReservationFieldChange } from '../core';
+import { messagesByLocale, useI18n } from '../i18n';
+
+export function formatFieldValue(field: string, value: unknown, locale: Locale = 'ja'): string {
+  const messages = messagesByLocale[locale];
+  if (value === undefined || value === null || value === '') {
+    return messages.common.none;
+  }
+  if (typeof value === 'boolean' && field !== 'adult_type') {
+    return value ? messages.common.yes : messages.common.no;
+  }
+  switch (field) {
+    case 'entrance_date':
+      return formatDate(String(value), locale);
+    case 'start_time':
+    case 'end_time':
+    case 'admission_time':
+      return formatTime(String(value), locale);
+    case 'gate_type':
+      return resolveGateLabel(Number(value), locale);
+    case 'use_state':
+      return resolveUseStateLabel(Number(value), locale);
+    case 'registered_channel':
+      return resolveRegisteredChannel(Number(value), locale);
+    case 'received_at':
+    case 'created_at':
+    case 'updated_at':
+      return formatApiDateTime(String(value), locale);
+    case 'adult_type':
+      return value ? messages.ticketDetails.adult : messages.ticketDetails.child;
+    case 'lotteries': {
+      // 抽選の種類ごとの申込数を合計する
+      const entries = Object.values(value as Record<string, unknown>).filter(Array.isArray);
+      return messages.ticketDetails.lotteryCount(entries.reduce((total, list) => total + list.length, 0));
+    }
+    default:
+      return String(value);
+  }
+}
+
+export function FieldChangeList({ fields }: { fields: ReservationFieldChange[] }) {
+  const { locale, m } = useI18n();
+  if (fields.length === 0) {
+    return null;
+  }
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs text-[#4B5563]">
+      {fields.map((change) => (
+        <li key={change.field}>
+          {m.fields[change.field] ?? change.field}: {formatFieldValue(change.field, change.before, locale)} →{' '}
+          {formatFieldValue(change.field, change.after, locale)}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,151 @@
+import {
+  emptyReservationFilter,
+  gateLabelsByLocale,
+  isFilterActive,
+  resolveRegisteredChannel,
+  resolveRegisteredChannelName,
+  resolveUseStateLabel
+} from '../core';
+import type { GateType, ReservationFilter, ReservationFilterOptions } from '../core';
+import { useI18n } from '../i18n';
+
+interface FilterBarProps {
+  filter: ReservationFilter;
+  options: ReservationFilterOptions;
+  onChange: (next: ReservationFilter) => void;
+  /** 絞り込み後 / 全体の予約件数 */
+  matchedCount: number;
+  totalCount: number;
+}
+
+const gateOrder: GateType[] = [1, 2];
+
+function toggleValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+}
+
+interface ChipGroupProps<T> {
+  label: string;
+  items: { value: T; label: string }[];
+  selected: T[];
+  onToggle: (value: T) => void;
+}
+
+function ChipGroup<T extends string | number>({ label, items, selected, onToggle }: ChipGroupProps<T>) {
+  if (items.length === 0) {
+    return null;
+  }
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="mr-1 text-xs font-semibold text-[#0B1F3B]">{label}</span>
+      {items.map((item) => {
+        const isActive = selected.includes(item.value);
+        return (
+          <button
+            key={item.value}
+            type="button"
+            onClick={() => onToggle(item.value)}
+            aria-pressed={isActive}
+            className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+              isActive
+                ? 'bg-[#0068B7] text-white'
+                : 'border border-[#0068B7]/30 bg-white text-[#0068B7] hover:border-[#0068B7]'
+            }`}
+          >
+            {item.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function FilterBar({ filter, options, onChange, matchedCount, totalCount }: FilterBarProps) {
+  const { locale, m } = useI18n();
+  const isActive = isFilterActive(filter);
+  const update = (patch: Partial<ReservationFilter>) => onChange({ ...filter, ...patch });
+
+  return (
+    <div className="space-y-3 rounded-3xl border border-[#C5CCD0] bg-white p-5 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-base font-semibold text-[#0068B7]">{m.filter.heading}</h3>
+        <div className="flex items-center gap-2 text-xs text-[#0B1F3B]">
+          <span>
+            {isActive ? m.filter.matched(totalCount, matchedCount) : m.filter.total(totalCount)}
+          </span>
+          {isActive && (
+            <button
+              type="button"
+              onClick={() => onChange(emptyReservationFilter)}
+              className="rounded-full border border-[#C5CCD0] px-3 py-1 font-semibold transition hover:brightness-110"
+            >
+              {m.filter.clear}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-[2fr_1fr_1fr]">
+        <label className="flex flex-col gap-1 text-xs font-semibold text-[#0B1F3B]">
+          {m.filter.text}
+          <input
+            type="search"
+            value={filter.text}
+            onChange={(event) => update({ text: event.target.value })}
+            placeholder={m.filter.textPlaceholder}
+            className="rounded-lg border border-[#C5CCD0] px-3 py-2 text-sm font-normal focus:border-[#0068B7] focus:outline-none"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold text-[#0B1F3B]">
+          {m.filter.dateFrom}
+          <input
+            type="date"
+            value={filter.dateFrom}
+            onChange={(event) => update({ dateFrom: event.target.value })}
+            className="rounded-lg border border-[#C5CCD0] px-3 py-2 text-sm font-normal focus:border-[#0068B7] focus:outline-none"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold text-[#0B1F3B]">
+          {m.filter.dateTo}
+          <input
+            type="date"
+            value={filter.dateTo}
+            onChange={(event) => update({ dateTo: event.target.value })}
+            className="rounded-lg border border-[#C5CCD0] px-3 py-2 text-sm font-normal focus:border-[#0068B7] focus:outline-none"
+          />
+        </label>
+      </div>
+
+      <ChipGroup
+        label={m.filter.gates}
+        items={gateOrder.map((gate) => ({ value: gate, label: gateLabelsByLocale[locale][gate] }))}
+        selected={filter.gates}
+        onToggle={(gate) => update({ gates: toggleValue(filter.gates, gate) })}
+      />
+      <ChipGroup
+        label={m.filter.useStates}
+        items={options.useStates.map((state) => ({ value: state, label: resolveUseStateLabel(state, locale) }))}
+        selected={filter.useStates}
+        onToggle={(state) => update({ useStates: toggleValue(filter.useStates, state) })}
+      />
+      <ChipGroup
+        label={m.filter.registeredChannels}
+        items={options.registeredChannels.map((channel) => ({
+          value: channel,
+          label: resolveRegisteredChannelName(channel, locale) || resolveRegisteredChannel(channel, locale)
+        }))}
+        selected={filter.registeredChannels}
+        onToggle={(channel) => update({ registeredChannels: toggleValue(filter.registeredChannels, channel) })}
+      />
+      <ChipGroup
+        label={m.filter.ticketTypes}
+        items={options.ticketTypes}
+        selected={filter.ticketTypeIds}
+        onToggle={(id) => update({ ticketTypeIds: toggleValue(filter.ticketTypeIds, id) })}
+      />
+      <p className="text-xs text-[#0B1F3B]/70">
+        {m.filter.note}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { supportedLocales } from '../core';
+import { messagesByLocale, useI18n } from '../i18n';
+
+export default function LanguageSwitcher() {
+  const { locale, m, setLocale } = useI18n();
+
+  return (
+    <div className="inline-flex items-center gap-1 rounded-full bg-white/20 p-1 text-xs" role="group" aria-label={m.language.label}>
+      {supportedLocales.map((option) => {
+        const isActive = option === locale;
+        return (
+          <button
+            key={option}
+            type="button"
+            lang={option}
+            onClick={() => setLocale(option)}
+            aria-pressed={isActive}
+            className={`rounded-full px-3 py-1 font-semibold transition ${
+              isActive ? 'bg-white text-[#0068B7]' : 'text-white hover:bg-white/20'
+            }`}
+          >
+            {messagesByLocale[option].languageName}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
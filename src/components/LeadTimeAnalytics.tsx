@@ -0,0 +1,161 @@
+import { useMemo, useState } from 'react';
+import {
+  buildBookingActivity,
+  buildLeadTimeStatistics,
+  formatDate,
+  splitLeadTime
+} from '../core';
+import type { BookingActivityGranularity, Ticket } from '../core';
+import { useI18n } from '../i18n';
+
+interface LeadTimeAnalyticsProps {
+  tickets: Ticket[];
+}
+
+const granularities: BookingActivityGranularity[] = ['day', 'week'];
+
+/** 登録経路ごとのグラフの色。0〜5 以外は灰色 */
+const channelColors: Record<string, string> = {
+  0: '#6B7280',
+  1: '#7C3AED',
+  2: '#0068B7',
+  3: '#00A0E9',
+  4: '#E60012',
+  5: '#F39800'
+};
+const fallbackChannelColor = '#C5CCD0';
+
+export default function LeadTimeAnalytics({ tickets }: LeadTimeAnalyticsProps) {
+  const { locale, m } = useI18n();
+  const stats = useMemo(() => buildLeadTimeStatistics(tickets, locale), [tickets, locale]);
+  const [granularity, setGranularity] = useState<BookingActivityGranularity>('week');
+  const activity = useMemo(() => buildBookingActivity(stats.entries, granularity), [stats.entries, granularity]);
+
+  const formatLead = (minutes: number) => {
+    const { days, hours } = splitLeadTime(minutes);
+    return m.leadTime.duration(days, hours);
+  };
+  const maxAverage = Math.max(0, ...stats.channels.map((channel) => channel.averageMinutes));
+  const maxActivity = Math.max(0, ...activity.map((bucket) => bucket.count));
+  const channelKeys = stats.channels.map((channel) => String(channel.channel ?? 'unknown'));
+
+  return (
+    <div className="space-y-6 rounded-3xl border border-[#C5CCD0] bg-white p-6 shadow-sm">
+      <div>
+        <h3 className="text-lg font-semibold text-[#0068B7]">{m.leadTime.heading}</h3>
+        <p className="mt-1 text-sm text-[#0B1F3B]/70">{m.leadTime.intro}</p>
+      </div>
+
+      {stats.entries.length === 0 ? (
+        <p className="text-sm text-[#0B1F3B]/70">{stats.notBookingTimeCount > 0 ? m.leadTime.unavailable : m.leadTime.none}</p>
+      ) : (
+        <>
+          <div>
+            <h4 className="text-base font-semibold text-[#0B1F3B]">{m.leadTime.byChannel}</h4>
+            <div className="mt-2 overflow-x-auto">
+              <table className="min-w-full text-left text-sm text-[#0B1F3B]">
+                <thead className="text-xs text-[#4B5563]">
+                  <tr>
+                    <th className="py-1 pr-3 font-medium">{m.leadTime.channel}</th>
+                    <th className="py-1 pr-3 font-medium">{m.leadTime.count}</th>
+                    <th className="py-1 pr-3 font-medium">{m.leadTime.average}</th>
+                    <th className="py-1 pr-3 font-medium">{m.leadTime.median}</th>
+                    <th className="py-1 pr-3 font-medium">{m.leadTime.range}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.channels.map((channel) => (
+                    <tr key={channel.channel ?? 'unknown'} className="border-t border-[#D2D7DA]">
+                      <td className="py-2 pr-3">
+                        <span className="font-medium">{channel.label}</span>
+                        <div className="mt-1 h-2 w-full min-w-24 rounded-full bg-[#D2D7DA]/50">
+                          <div
+                            className="h-2 rounded-full"
+                            style={{
+                              width: `${maxAverage ? (channel.averageMinutes / maxAverage) * 100 : 0}%`,
+                              backgroundColor: channelColors[String(channel.channel)] ?? fallbackChannelColor
+                            }}
+                          />
+                        </div>
+                      </td>
+                      <td className="py-2 pr-3">{channel.count}</td>
+                      <td className="py-2 pr-3">{formatLead(channel.averageMinutes)}</td>
+                      <td className="py-2 pr-3">{formatLead(channel.medianMinutes)}</td>
+                      <td className="py-2 pr-3 text-xs text-[#4B5563]">
+                        {formatLead(channel.minMinutes)} 〜 {formatLead(channel.maxMinutes)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {stats.skippedCount > 0 && <p className="mt-1 text-xs text-[#4B5563]">{m.leadTime.skipped(stats.skippedCount)}</p>}
+            {stats.notBookingTimeCount > 0 && (
+              <p className="mt-1 text-xs text-[#4B5563]">{m.leadTime.notBookingTime(stats.notBookingTimeCount)}</p>
+            )}
+            {stats.entries.some((entry) => entry.isEstimated) && (
+              <p className="mt-1 text-xs text-[#4B5563]">{m.leadTime.estimated}</p>
+            )}
+          </div>
+
+          <div>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h4 className="text-base font-semibold text-[#0B1F3B]">{m.leadTime.activity}</h4>
+              <div className="flex gap-2">
+                {granularities.map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setGranularity(option)}
+                    aria-pressed={granularity === option}
+                    className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                      granularity === option ? 'bg-[#0068B7] text-white' : 'bg-[#D2D7DA] text-[#0068B7] hover:brightness-110'
+                    }`}
+                  >
+                    {m.leadTime.granularities[option]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="mt-2 flex h-40 items-end gap-px overflow-x-auto">
+              {activity.map((bucket) => (
+                <div
+                  key={bucket.date}
+                  className="flex h-32 min-w-1 flex-1 flex-col-reverse"
+                  title={`${formatDate(bucket.date, locale)} ${m.leadTime.activityCount(bucket.count)}`}
+                >
+                  {channelKeys.map((key) =>
+                    bucket.channels[key] ? (
+                      <div
+                        key={key}
+                        style={{
+                          height: `${(bucket.channels[key] / maxActivity) * 100}%`,
+                          backgroundColor: channelColors[key] ?? fallbackChannelColor
+                        }}
+                      />
+                    ) : null
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="mt-1 flex justify-between text-xs text-[#4B5563]">
+              <span>{formatDate(activity[0]?.date, locale)}</span>
+              <span>{formatDate(activity[activity.length - 1]?.date, locale)}</span>
+            </div>
+            <ul className="mt-2 flex flex-wrap gap-3 text-xs text-[#0B1F3B]">
+              {stats.channels.map((channel) => (
+                <li key={channel.channel ?? 'unknown'} className="flex items-center gap-1">
+                  <span
+                    className="inline-block h-3 w-3 rounded-sm"
+                    style={{ backgroundColor: channelColors[String(channel.channel)] ?? fallbackChannelColor }}
+                  />
+                  {channel.label}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
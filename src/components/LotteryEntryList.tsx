@@ -0,0 +1,61 @@
+import { formatDateWithWeekday, formatTime, resolvePavilionName } from '../core';
+import type { LotteryEntry, LotteryOutcome } from '../core';
+import { useI18n } from '../i18n';
+
+interface LotteryEntryListProps {
+  entries: LotteryEntry[];
+  /** チケットの A, B, C... を表示する（全チケットまとめての一覧） */
+  showTicket?: boolean;
+}
+
+const outcomeBadgeClasses: Record<LotteryOutcome, string> = {
+  won: 'bg-[#E60012]/10 text-[#E60012]',
+  lost: 'bg-[#D2D7DA] text-[#0B1F3B]/70',
+  pending: 'bg-[#0068B7]/10 text-[#0068B7]',
+  unknown: 'bg-[#D2D7DA] text-[#0B1F3B]/70'
+};
+
+export default function LotteryEntryList({ entries, showTicket = false }: LotteryEntryListProps) {
+  const { locale, m } = useI18n();
+
+  return (
+    <ul className="space-y-2">
+      {entries.map((entry) => (
+        <li key={entry.key} className="rounded-lg border border-[#C5CCD0] px-3 py-2 text-sm text-[#0B1F3B]">
+          <div className="flex flex-wrap items-center gap-2 text-xs font-semibold">
+            <span className="rounded-full bg-[#0068B7]/10 px-2 py-0.5 text-[#0068B7]">{m.lotteries.kinds[entry.kind]}</span>
+            {entry.date && <span className="text-[#0068B7]">{formatDateWithWeekday(entry.date, locale).label}</span>}
+            {showTicket && (
+              <span className="text-[#0B1F3B]/70">
+                {entry.ticketLabel} {entry.ticketName}
+              </span>
+            )}
+            <span className={`rounded-full px-2 py-0.5 ${outcomeBadgeClasses[entry.outcome]}`}>
+              {m.lotteries.outcomes[entry.outcome]}
+              {entry.isOutcomeInferred && m.lotteries.inferred}
+              {entry.rawOutcome && ` (${entry.rawOutcome})`}
+            </span>
+          </div>
+          {entry.choices.length > 0 ? (
+            <ol className="mt-1 space-y-0.5 text-xs">
+              {entry.choices.map((choice) => (
+                <li key={`${choice.order}-${choice.programCode ?? ''}`} className="flex flex-wrap gap-2">
+                  <span className="text-[#0B1F3B]/70">{m.lotteries.choice(choice.order)}</span>
+                  <span>
+                    {choice.programCode || choice.eventName
+                      ? resolvePavilionName(choice.programCode ?? '', choice.eventName, locale)
+                      : m.common.none}
+                  </span>
+                  {choice.startTime && <span>{formatTime(choice.startTime, locale)}</span>}
+                  {choice.won && <span className="font-semibold text-[#E60012]">{m.lotteries.choiceWon}</span>}
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="mt-1 text-xs text-[#0B1F3B]/70">{m.lotteries.noChoices}</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
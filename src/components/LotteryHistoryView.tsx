@@ -0,0 +1,73 @@
+import { useMemo } from 'react';
+import { buildLotteryHistory } from '../core';
+import type { LotteryKindStat, Ticket } from '../core';
+import { useI18n } from '../i18n';
+import LotteryEntryList from './LotteryEntryList';
+
+interface LotteryHistoryViewProps {
+  tickets: Ticket[];
+}
+
+function formatPercent(ratio: number | null): string {
+  return ratio === null ? '—' : `${Math.round(ratio * 1000) / 10}%`;
+}
+
+export function LotteryStatCard({ stat }: { stat: LotteryKindStat }) {
+  const { m } = useI18n();
+  const rows = [
+    { label: m.lotteries.outcomes.won, value: stat.won },
+    { label: m.lotteries.outcomes.lost, value: stat.lost },
+    { label: m.lotteries.outcomes.pending, value: stat.pending },
+    { label: m.lotteries.outcomes.unknown, value: stat.unknown }
+  ];
+  return (
+    <div className="rounded-2xl border border-[#0068B7]/15 p-4">
+      <p className="text-sm font-medium text-[#0068B7]">{m.lotteries.kinds[stat.kind]}</p>
+      <p className="mt-1 text-3xl font-semibold text-[#E60012]">{formatPercent(stat.winRate)}</p>
+      <p className="text-xs text-[#4B5563]">{m.lotteries.rateFormula}</p>
+      <dl className="mt-2 grid grid-cols-4 gap-1 text-center text-xs text-[#0B1F3B]">
+        {rows.map((row) => (
+          <div key={row.label}>
+            <dt className="text-[#4B5563]">{row.label}</dt>
+            <dd className="font-semibold">{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+      <p className="mt-2 text-xs text-[#0B1F3B]">
+        {m.lotteries.flagged(stat.flaggedCount)} ｜ {m.lotteries.reservations(stat.reservationCount)}
+      </p>
+    </div>
+  );
+}
+
+export default function LotteryHistoryView({ tickets }: LotteryHistoryViewProps) {
+  const { locale, m } = useI18n();
+  const history = useMemo(() => buildLotteryHistory(tickets, locale), [tickets, locale]);
+
+  return (
+    <div className="space-y-6 rounded-3xl border border-[#C5CCD0] bg-white p-6 shadow-sm">
+      <div>
+        <h3 className="text-lg font-semibold text-[#0068B7]">{m.lotteries.heading}</h3>
+        <p className="mt-1 text-sm text-[#0B1F3B]/70">{m.lotteries.intro}</p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        {history.stats.map((stat) => (
+          <LotteryStatCard key={stat.kind} stat={stat} />
+        ))}
+      </div>
+
+      <div>
+        <h4 className="text-base font-semibold text-[#0B1F3B]">{m.lotteries.entries(history.entries.length)}</h4>
+        {history.entries.length === 0 ? (
+          <p className="mt-2 text-sm text-[#0B1F3B]/70">{m.lotteries.none}</p>
+        ) : (
+          <div className="mt-2">
+            <LotteryEntryList entries={history.entries} showTicket />
+          </div>
+        )}
+        <p className="mt-2 text-xs text-[#4B5563]">{m.lotteries.note}</p>
+      </div>
+    </div>
+  );
+}
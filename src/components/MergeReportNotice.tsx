@@ -0,0 +1,61 @@
+import { formatDate, formatTime } from '../core';
+import type { MergeReport } from '../core';
+import { useI18n } from '../i18n';
+import { FieldChangeList } from './FieldChangeList';
+
+interface MergeReportNoticeProps {
+  report: MergeReport;
+  onDismiss: () => void;
+}
+
+export default function MergeReportNotice({ report, onDismiss }: MergeReportNoticeProps) {
+  const { locale, m } = useI18n();
+  const summaryParts = [
+    m.merge.addedTickets(report.addedTickets.length),
+    m.merge.mergedTickets(report.mergedTickets.length),
+    m.merge.addedReservations(report.addedReservations),
+    m.merge.updatedReservations(report.updatedReservations)
+  ];
+
+  return (
+    <div className="rounded-2xl border border-[#0068B7]/30 bg-[#0068B7]/5 px-4 py-3 text-sm text-[#0B1F3B]">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="font-semibold text-[#0068B7]">{m.merge.heading}</p>
+          <p className="mt-1">{summaryParts.join(' ｜ ')}</p>
+        </div>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="rounded-full border border-[#C5CCD0] px-3 py-1 text-xs font-semibold text-[#0B1F3B] transition hover:brightness-110"
+        >
+          {m.common.close}
+        </button>
+      </div>
+      {report.conflicts.length > 0 && (
+        <div className="mt-3 rounded-xl border border-[#E60012]/30 bg-white p-3">
+          <p className="font-semibold text-[#E60012]">
+            {m.merge.conflicts(report.conflicts.length)}
+          </p>
+          <ul className="mt-2 space-y-2">
+            {report.conflicts.map((conflict) => {
+              const timeLabel = conflict.incoming.schedule_name || formatTime(conflict.incoming.start_time, locale);
+              return (
+                <li key={conflict.key} className="rounded-lg border border-[#C5CCD0] p-2">
+                  <p className="text-xs">
+                    <span className="font-semibold text-[#0068B7]">{conflict.kind === 'entrance' ? m.merge.entrance : m.merge.event}</span>
+                    {' ｜ '}
+                    {formatDate(conflict.incoming.entrance_date, locale)} {timeLabel}
+                    {' ｜ '}
+                    {conflict.ticketName}
+                  </p>
+                  <FieldChangeList fields={conflict.fields} />
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
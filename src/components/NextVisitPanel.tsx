@@ -0,0 +1,109 @@
+import { useMemo } from 'react';
+import {
+  countdownTo,
+  findNextVisit,
+  formatDateWithWeekday,
+  formatTime,
+  resolveGateLabel,
+  resolvePavilionName,
+  splitVisitDaysByTime
+} from '../core';
+import type { DailyReservations, Ticket } from '../core';
+import { useI18n } from '../i18n';
+
+interface NextVisitPanelProps {
+  tickets: Ticket[];
+  now: Date;
+}
+
+export default function NextVisitPanel({ tickets, now }: NextVisitPanelProps) {
+  const { locale, m } = useI18n();
+  const nextVisit = useMemo(() => findNextVisit(tickets, now, locale), [tickets, now, locale]);
+  const visitDays = useMemo(() => splitVisitDaysByTime(tickets, now, locale), [tickets, now, locale]);
+
+  if (tickets.length === 0) {
+    return null;
+  }
+
+  const countdown = nextVisit ? countdownTo(nextVisit.startsAt, now) : null;
+
+  const renderDayList = (days: DailyReservations[]) => (
+    <ul className="mt-2 space-y-1">
+      {days.map((day) => (
+        <li key={day.date} className="flex flex-wrap gap-x-3">
+          <span className="font-medium">{formatDateWithWeekday(day.date, locale).label}</span>
+          <span className="text-[#0B1F3B]/70">{m.nextVisit.dayCounts(day.entrances.length, day.events.length)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="rounded-3xl border border-[#C5CCD0] bg-white p-6 shadow-sm">
+      <h3 className="text-lg font-semibold text-[#0068B7]">{m.nextVisit.heading}</h3>
+      {nextVisit ? (
+        <div className="mt-3 space-y-3">
+          <div className="flex flex-wrap items-baseline gap-3">
+            <span className="text-2xl font-semibold text-[#0B1F3B]">
+              {formatDateWithWeekday(nextVisit.date, locale).label}
+            </span>
+            <span className="rounded-full bg-[#E60012]/10 px-3 py-1 text-sm font-semibold text-[#E60012]">
+              {countdown ? m.nextVisit.countdown(countdown.days, countdown.hours, countdown.minutes) : m.nextVisit.inProgress}
+            </span>
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold text-[#0B1F3B]/70">{m.nextVisit.entrances}</h4>
+            <ul className="mt-1 space-y-1 text-sm text-[#0B1F3B]">
+              {nextVisit.entrances.map((entry) => (
+                <li key={entry.key} className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold text-[#0068B7]">{entry.ticketLabel}</span>
+                  <span>{entry.ticketName}</span>
+                  <span className="rounded-full bg-[#0068B7]/10 px-2 py-0.5 text-xs font-medium text-[#0068B7]">
+                    {entry.schedule.schedule_name || formatTime(entry.schedule.start_time, locale)}
+                  </span>
+                  <span className="rounded-full bg-[#D2D7DA] px-2 py-0.5 text-xs font-medium text-[#0068B7]">
+                    {resolveGateLabel(entry.schedule.gate_type, locale)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold text-[#0B1F3B]/70">{m.nextVisit.events}</h4>
+            {nextVisit.events.length > 0 ? (
+              <ul className="mt-1 space-y-1 text-sm text-[#0B1F3B]">
+                {nextVisit.events.map((entry) => (
+                  <li key={entry.key}>
+                    <span className="font-semibold text-[#0068B7]">{entry.ticketLabel}</span>{' '}
+                    {formatTime(entry.schedule.start_time, locale)}{' '}
+                    {resolvePavilionName(entry.schedule.program_code ?? '', entry.schedule.event_name, locale)}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-1 text-sm text-[#0B1F3B]/70">{m.nextVisit.noEvents}</p>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="mt-2 text-sm text-[#0B1F3B]">{m.nextVisit.none}</p>
+      )}
+      <div className="mt-4 grid gap-3 text-sm text-[#0B1F3B] sm:grid-cols-2">
+        {visitDays.upcoming.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold text-[#0B1F3B]/70">{m.nextVisit.upcomingDays(visitDays.upcoming.length)}</h4>
+            {renderDayList(visitDays.upcoming)}
+          </div>
+        )}
+        {visitDays.past.length > 0 && (
+          <details>
+            <summary className="cursor-pointer text-sm font-semibold text-[#0B1F3B]/70">
+              {m.nextVisit.pastDays(visitDays.past.length)}
+            </summary>
+            {renderDayList(visitDays.past)}
+          </details>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { formatDate, formatTime, parseDiagnosticCodes, resolvePavilionName, serializeParseDiagnostics } from '../core';
+import type { ParseDiagnostic, ParseDiagnosticsReport, UnknownCodeSummary } from '../core';
+import { buildExportFileName, downloadBlob } from '../download';
+import { useI18n } from '../i18n';
+
+/** 最初から開いておく件数。それ以上は折りたたむ */
+const PREVIEW_COUNT = 10;
+
+const unknownCodeGroups: (keyof UnknownCodeSummary)[] = ['ticketTypes', 'programCodes', 'useStates', 'registeredChannels', 'gateTypes'];
+
+interface ParseDiagnosticsPanelProps {
+  report: ParseDiagnosticsReport;
+  fileName?: string;
+  onDismiss: () => void;
+}
+
+export default function ParseDiagnosticsPanel({ report, fileName, onDismiss }: ParseDiagnosticsPanelProps) {
+  const { locale, m } = useI18n();
+  const [status, setStatus] = useState('');
+
+  const handleExport = () => {
+    const blob = new Blob([serializeParseDiagnostics(report)], { type: 'application/json' });
+    downloadBlob(blob, buildExportFileName(fileName ? `${fileName.replace(/\.[^.]+$/, '')}-diagnostics` : 'diagnostics', 'json'));
+    setStatus(m.diagnostics.exported);
+  };
+
+  const describeLocation = (diagnostic: ParseDiagnostic) => {
+    const parts: string[] = [];
+    if (diagnostic.ticketLabel) {
+      parts.push(m.diagnostics.ticket(diagnostic.ticketLabel, diagnostic.itemName ?? ''));
+    }
+    const reservation = diagnostic.reservation;
+    if (reservation) {
+      const time = reservation.scheduleName || formatTime(reservation.startTime, locale);
+      const name =
+        reservation.kind === 'event' ? resolvePavilionName(reservation.programCode ?? '', reservation.eventName, locale) : '';
+      parts.push([formatDate(reservation.date, locale), time, name].filter(Boolean).join(' '));
+    }
+    return parts.join(' ｜ ');
+  };
+
+  const renderDiagnostic = (diagnostic: ParseDiagnostic) => (
+    <li key={`${diagnostic.code}-${diagnostic.path}`} className="rounded-lg border border-[#C5CCD0] px-3 py-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="rounded-full bg-[#E60012]/10 px-2 py-0.5 font-semibold text-[#E60012]">
+          {m.diagnostics.codes[diagnostic.code]}
+        </span>
+        <code className="font-mono text-[#0B1F3B]">{diagnostic.path}</code>
+      </div>
+      <p className="mt-1">
+        {m.diagnostics.actual(diagnostic.actual)}
+        {diagnostic.expected && ` ／ ${m.diagnostics.expected(diagnostic.expected)}`}
+      </p>
+      {describeLocation(diagnostic) && <p className="mt-0.5 text-[#4B5563]">{describeLocation(diagnostic)}</p>}
+    </li>
+  );
+
+  const groups = unknownCodeGroups.filter((group) => report.unknownCodes[group].length > 0);
+
+  return (
+    <div className="rounded-2xl border border-[#E60012]/30 bg-white px-4 py-3 text-sm text-[#0B1F3B]">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="font-semibold text-[#E60012]">{m.diagnostics.heading(report.diagnostics.length)}</p>
+          <p className="mt-1">{m.diagnostics.description}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={handleExport}
+            className="rounded-full bg-[#0068B7] px-3 py-1 text-xs font-semibold text-white transition hover:brightness-110"
+          >
+            {m.diagnostics.export}
+          </button>
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="rounded-full border border-[#C5CCD0] px-3 py-1 text-xs font-semibold text-[#0B1F3B] transition hover:brightness-110"
+          >
+            {m.common.close}
+          </button>
+        </div>
+      </div>
+      {status && <p className="mt-1 text-xs text-[#0068B7]">{status}</p>}
+
+      <ul className="mt-2 flex flex-wrap gap-2 text-xs">
+        {parseDiagnosticCodes
+          .filter((code) => report.counts[code] > 0)
+          .map((code) => (
+            <li key={code} className="rounded-full bg-[#D2D7DA] px-3 py-1 font-medium text-[#0068B7]">
+              {m.diagnostics.codes[code]} {m.diagnostics.codeCount(report.counts[code])}
+            </li>
+          ))}
+      </ul>
+
+      {groups.length > 0 && (
+        <div className="mt-3">
+          <p className="text-xs font-semibold text-[#0B1F3B]/70">{m.diagnostics.unknownCodes}</p>
+          <dl className="mt-1 space-y-1 text-xs">
+            {groups.map((group) => (
+              <div key={group} className="flex flex-wrap gap-x-2">
+                <dt className="text-[#4B5563]">{m.diagnostics.unknownCodeGroups[group]}:</dt>
+                <dd>
+                  {report.unknownCodes[group]
+                    .map((code) => `${code.value}${code.name ? `（${code.name}）` : ''} ×${code.count}`)
+                    .join('、')}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
+      <ul className="mt-3 space-y-2 text-xs">{report.diagnostics.slice(0, PREVIEW_COUNT).map(renderDiagnostic)}</ul>
+      {report.diagnostics.length > PREVIEW_COUNT && (
+        <details className="mt-2 text-xs">
+          <summary className="cursor-pointer font-semibold text-[#0068B7]">
+            {m.diagnostics.more(report.diagnostics.length - PREVIEW_COUNT)}
+          </summary>
+          <ul className="mt-2 space-y-2">{report.diagnostics.slice(PREVIEW_COUNT).map(renderDiagnostic)}</ul>
+        </details>
+      )}
+    </div>
+  );
+}
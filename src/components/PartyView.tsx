@@ -0,0 +1,80 @@
+import { useMemo } from 'react';
+import { detectParties, formatDateWithWeekday, formatTime, resolveGateLabel, resolvePavilionName } from '../core';
+import type { Party, Ticket } from '../core';
+import { useI18n } from '../i18n';
+
+interface PartyViewProps {
+  tickets: Ticket[];
+}
+
+function PartyCard({ party }: { party: Party }) {
+  const { locale, m } = useI18n();
+  const labelByKey = new Map(party.members.map((member) => [member.ticketKey, member.ticketLabel]));
+
+  return (
+    <article className="rounded-2xl border border-[#C5CCD0] p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {party.members.map((member) => (
+          <span key={member.ticketKey} className="rounded-full bg-[#D2D7DA] px-3 py-1 text-xs font-medium text-[#0068B7]">
+            <span className="font-semibold">{member.ticketLabel}</span> {member.ticketName}
+          </span>
+        ))}
+      </div>
+      <p className="mt-2 text-sm font-semibold text-[#E60012]">
+        {m.parties.summary(party.visits.length, party.sharedEventCount)}
+      </p>
+      <ul className="mt-3 space-y-2 text-sm text-[#0B1F3B]">
+        {party.visits.map((visit) => (
+          <li key={`${visit.date}-${visit.scheduleName ?? ''}-${visit.gateType ?? ''}`}>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{formatDateWithWeekday(visit.date, locale).label}</span>
+              {visit.scheduleName && (
+                <span className="rounded-full bg-[#0068B7]/10 px-2 py-0.5 text-xs font-medium text-[#0068B7]">{visit.scheduleName}</span>
+              )}
+              <span className="rounded-full bg-[#D2D7DA] px-2 py-0.5 text-xs font-medium text-[#0068B7]">
+                {resolveGateLabel(visit.gateType, locale)}
+              </span>
+            </div>
+            {visit.sharedEvents.length > 0 && (
+              <ul className="mt-1 space-y-0.5 pl-4 text-xs text-[#0B1F3B]/80" aria-label={m.parties.sharedEvents}>
+                {visit.sharedEvents.map((event) => (
+                  <li key={`${event.programCode}-${event.startTime ?? event.scheduleName ?? ''}`}>
+                    {event.scheduleName || formatTime(event.startTime, locale)}{' '}
+                    {resolvePavilionName(event.programCode, event.eventName, locale)}{' '}
+                    <span className="text-[#0068B7]">
+                      ({event.ticketKeys.map((ticketKey) => labelByKey.get(ticketKey) ?? '?').join(', ')})
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+      {party.sharedEventCount === 0 && <p className="mt-2 text-xs text-[#0B1F3B]/70">{m.parties.noSharedEvents}</p>}
+    </article>
+  );
+}
+
+export default function PartyView({ tickets }: PartyViewProps) {
+  const { locale, m } = useI18n();
+  const parties = useMemo(() => detectParties(tickets, locale), [tickets, locale]);
+
+  return (
+    <div className="space-y-4 rounded-3xl border border-[#C5CCD0] bg-white p-6 shadow-sm">
+      <div>
+        <h3 className="text-lg font-semibold text-[#0068B7]">{m.parties.heading}</h3>
+        <p className="mt-1 text-sm text-[#0B1F3B]">{m.parties.intro}</p>
+      </div>
+      {parties.length === 0 ? (
+        <p className="rounded-2xl border border-dashed border-[#0068B7]/30 p-4 text-center text-sm text-[#0B1F3B]">{m.parties.none}</p>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {parties.map((party) => (
+            <PartyCard key={party.key} party={party} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
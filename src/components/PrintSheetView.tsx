@@ -0,0 +1,170 @@
+import { useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import {
+  buildPrintSheet,
+  formatDateWithWeekday,
+  formatTime,
+  resolveGateLabel,
+  resolvePavilionName,
+  toDateKey
+} from '../core';
+import type { PrintSheetDay, Ticket } from '../core';
+import { useI18n } from '../i18n';
+
+const PRINT_MODE_CLASS = 'print-sheet-mode';
+
+interface PrintSheetViewProps {
+  tickets: Ticket[];
+}
+
+function todayKey(): string {
+  const now = new Date();
+  return toDateKey(now.getFullYear(), now.getMonth() + 1, now.getDate());
+}
+
+/**
+ * 1日分のシート。画面のプレビューと印刷用の両方で使う。
+ */
+function PrintSheetDayPage({ day }: { day: PrintSheetDay }) {
+  const { locale, m } = useI18n();
+  const cellClass = 'border-b border-[#C5CCD0] px-2 py-2 text-left align-top';
+
+  return (
+    <section className="rounded-2xl border border-[#C5CCD0] bg-white p-5 print:rounded-none print:border-0 print:p-0">
+      <h4 className="text-xl font-semibold text-[#0B1F3B]">
+        {m.printSheet.dayTitle(formatDateWithWeekday(day.date, locale).label)}
+      </h4>
+      <table className="mt-3 w-full border-collapse text-sm text-[#0B1F3B]">
+        <thead>
+          <tr className="text-xs text-[#0B1F3B]/70">
+            <th className={cellClass}>{m.printSheet.ticket}</th>
+            <th className={cellClass}>{m.printSheet.time}</th>
+            <th className={cellClass}>{m.printSheet.gate}</th>
+            <th className={cellClass}>{m.printSheet.qrCode}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {day.entrances.map((entrance) => (
+            <tr key={entrance.key}>
+              <td className={cellClass}>
+                <span className="font-semibold text-[#0068B7]">{entrance.ticketLabel}</span> {entrance.ticketName}
+              </td>
+              <td className={cellClass}>
+                {entrance.schedule.schedule_name || formatTime(entrance.schedule.start_time, locale)}
+              </td>
+              <td className={cellClass}>{resolveGateLabel(entrance.schedule.gate_type, locale)}</td>
+              <td className={cellClass}>
+                {entrance.qrCodeUrl ? (
+                  <>
+                    <a href={entrance.qrCodeUrl} target="_blank" rel="noreferrer" className="text-[#0068B7] hover:underline print:hidden">
+                      {m.printSheet.qrLink}
+                    </a>
+                    <span className="hidden break-all text-[10px] print:inline">{entrance.qrCodeUrl}</span>
+                  </>
+                ) : (
+                  '—'
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {day.events.length > 0 && (
+        <div className="mt-4">
+          <h5 className="text-sm font-semibold text-[#0068B7]">{m.printSheet.events}</h5>
+          <ul className="mt-1 space-y-1 text-sm text-[#0B1F3B]">
+            {day.events.map((event) => (
+              <li key={event.key}>
+                <span className="font-semibold text-[#0068B7]">{event.ticketLabel}</span>{' '}
+                {formatTime(event.schedule.start_time, locale)}{' '}
+                {resolvePavilionName(event.schedule.program_code ?? '', event.schedule.event_name, locale)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default function PrintSheetView({ tickets }: PrintSheetViewProps) {
+  const { locale, m } = useI18n();
+  const today = todayKey();
+  const sheet = useMemo(() => buildPrintSheet(tickets, today, locale), [tickets, today, locale]);
+
+  useEffect(() => {
+    const handleAfterPrint = () => document.body.classList.remove(PRINT_MODE_CLASS);
+    window.addEventListener('afterprint', handleAfterPrint);
+    return () => {
+      window.removeEventListener('afterprint', handleAfterPrint);
+      handleAfterPrint();
+    };
+  }, []);
+
+  const handlePrint = () => {
+    // 印刷中だけアプリ本体を隠し、body 直下のシートを出力する（index.css の @media print）
+    document.body.classList.add(PRINT_MODE_CLASS);
+    window.print();
+  };
+
+  return (
+    <div className="space-y-4 rounded-3xl border border-[#C5CCD0] bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-[#0068B7]">{m.printSheet.heading}</h3>
+        <button
+          type="button"
+          onClick={handlePrint}
+          disabled={sheet.upcoming.length === 0}
+          className="rounded-full bg-[#0068B7] px-4 py-2 text-sm font-semibold text-white shadow transition hover:brightness-110 disabled:cursor-not-allowed disabled:bg-[#0068B7]/40"
+        >
+          {m.printSheet.print}
+        </button>
+      </div>
+      <p className="text-sm text-[#0B1F3B]">{m.printSheet.intro}</p>
+      <p className="text-xs text-[#0B1F3B]/70">{m.printSheet.note}</p>
+      {sheet.upcoming.length === 0 ? (
+        <p className="rounded-2xl border border-dashed border-[#0068B7]/30 p-4 text-center text-sm text-[#0B1F3B]">
+          {m.printSheet.noUpcoming}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {sheet.upcoming.map((day) => (
+            <PrintSheetDayPage key={day.date} day={day} />
+          ))}
+        </div>
+      )}
+      {sheet.past.length > 0 && (
+        <details className="rounded-2xl border border-[#C5CCD0] px-4 py-3 text-sm text-[#0B1F3B]">
+          <summary className="cursor-pointer font-semibold text-[#0068B7]">{m.printSheet.past(sheet.past.length)}</summary>
+          <ul className="mt-2 space-y-1">
+            {sheet.past.map((day) => (
+              <li key={day.date}>
+                {formatDateWithWeekday(day.date, locale).label}{' '}
+                <span className="text-[#0B1F3B]/70">
+                  {m.printSheet.pastTickets(Array.from(new Set(day.entrances.map((entrance) => entrance.ticketLabel))).join(', '))}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {createPortal(
+        <div className="print-sheet text-[#0B1F3B]">
+          {sheet.upcoming.map((day) => (
+            <div key={day.date} className="print-sheet-page">
+              <p className="mb-2 text-[10px] text-[#0B1F3B]/70">{m.printSheet.printedAt(formatDateWithWeekday(today, locale).label)}</p>
+              <PrintSheetDayPage day={day} />
+            </div>
+          ))}
+          {sheet.past.length > 0 && (
+            <p className="mt-6 border-t border-[#C5CCD0] pt-2 text-[10px] text-[#0B1F3B]/70">
+              {m.printSheet.past(sheet.past.length)}{' '}
+              {sheet.past.map((day) => formatDateWithWeekday(day.date, locale).label).join(' / ')}
+            </p>
+          )}
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect, useMemo, useState } from 'react';
+import { buildExpoCalendar, groupReservationsByDate, resolvePavilionName, weekdayLabelsByLocale } from '../core';
+import type { DailyReservations, Ticket } from '../core';
+import { useI18n } from '../i18n';
+import { gateBadgeClasses } from '../theme';
+import DayTimeline from './DayTimeline';
+
+interface ReservationCalendarProps {
+  tickets: Ticket[];
+}
+
+const MAX_EVENTS_PER_CELL = 2;
+
+export default function ReservationCalendar({ tickets }: ReservationCalendarProps) {
+  const { locale, m } = useI18n();
+  const calendar = useMemo(() => buildExpoCalendar(), []);
+  const days = useMemo(() => groupReservationsByDate(tickets, locale), [tickets, locale]);
+  const dayMap = useMemo(() => new Map(days.map((day) => [day.date, day])), [days]);
+  const [monthIndex, setMonthIndex] = useState<number>(0);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  useEffect(() => {
+    // 最初に予約がある月を表示する
+    const firstDate = days[0]?.date;
+    if (!firstDate) {
+      return;
+    }
+    const index = calendar.findIndex((month) => month.month === Number(firstDate.slice(4, 6)));
+    if (index >= 0) {
+      setMonthIndex(index);
+    }
+  }, [calendar, days]);
+
+  const current = calendar[monthIndex];
+  const selectedDay: DailyReservations | null = selectedDate
+    ? dayMap.get(selectedDate) ?? { date: selectedDate, entrances: [], events: [] }
+    : null;
+
+  return (
+    <div className="space-y-4 rounded-3xl border border-[#C5CCD0] bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-[#0068B7]">{m.calendar.heading}</h3>
+        <div className="flex flex-wrap gap-1">
+          {calendar.map((month, index) => {
+            const hasReservations = days.some((day) => Number(day.date.slice(4, 6)) === month.month);
+            return (
+              <button
+                key={month.month}
+                type="button"
+                onClick={() => setMonthIndex(index)}
+                aria-pressed={index === monthIndex}
+                className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                  index === monthIndex
+                    ? 'bg-[#0068B7] text-white'
+                    : `border border-[#0068B7]/30 text-[#0068B7] hover:border-[#0068B7] ${hasReservations ? '' : 'opacity-50'}`
+                }`}
+              >
+                {m.calendar.month(month.month)}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-[42rem] table-fixed border-collapse text-xs text-[#0B1F3B]">
+          <thead>
+            <tr>
+              {weekdayLabelsByLocale[locale].map((label, index) => (
+                <th
+                  key={label}
+                  className={`py-1 font-semibold ${index === 0 ? 'text-[#E60012]' : index === 6 ? 'text-[#0068B7]' : ''}`}
+                >
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {current.weeks.map((week, weekIndex) => (
+              <tr key={`${current.month}-${weekIndex}`}>
+                {week.map((date, dayIndex) => {
+                  if (!date) {
+                    return <td key={`empty-${dayIndex}`} className="h-24 border border-[#D2D7DA] bg-[#F8FAFC]" />;
+                  }
+                  const day = dayMap.get(date);
+                  const isSelected = date === selectedDate;
+                  const hiddenEventCount = Math.max(0, (day?.events.length ?? 0) - MAX_EVENTS_PER_CELL);
+                  return (
+                    <td key={date} className="h-24 border border-[#D2D7DA] align-top">
+                      <button
+                        type="button"
+                        onClick={() => setSelectedDate(isSelected ? null : date)}
+                        className={`flex h-full min-h-[6rem] w-full flex-col gap-1 p-1 text-left transition hover:bg-[#0068B7]/5 ${
+                          isSelected ? 'bg-[#0068B7]/10 ring-2 ring-inset ring-[#0068B7]' : ''
+                        }`}
+                      >
+                        <span className="font-semibold">{Number(date.slice(6, 8))}</span>
+                        {day?.entrances.map((entry) => (
+                          <span
+                            key={entry.key}
+                            className={`truncate rounded px-1 py-0.5 font-medium ${
+                              entry.schedule.gate_type ? gateBadgeClasses[entry.schedule.gate_type] : 'bg-[#D2D7DA] text-[#0068B7]'
+                            }`}
+                          >
+                            {entry.ticketLabel} {entry.schedule.schedule_name ?? m.calendar.entrance}
+                          </span>
+                        ))}
+                        {day?.events.slice(0, MAX_EVENTS_PER_CELL).map((entry) => (
+                          <span key={entry.key} className="truncate text-[#4B5563]">
+                            {resolvePavilionName(entry.schedule.program_code ?? '', entry.schedule.event_name, locale)}
+                          </span>
+                        ))}
+                        {hiddenEventCount > 0 && <span className="text-[#4B5563]">{m.calendar.more(hiddenEventCount)}</span>}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-[#0B1F3B]/70">
+        {m.calendar.note}
+      </p>
+
+      {selectedDay && <DayTimeline day={selectedDay} onClose={() => setSelectedDate(null)} />}
+    </div>
+  );
+}
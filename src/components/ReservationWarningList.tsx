@@ -0,0 +1,55 @@
+import { formatDateWithWeekday, formatTime, resolvePavilionName } from '../core';
+import type { EventSchedule, ReservationWarning } from '../core';
+import { useI18n } from '../i18n';
+
+interface ReservationWarningListProps {
+  warnings: ReservationWarning[];
+  /** チケットの A, B, C... を表示する（全チケットまとめての一覧） */
+  showTicket?: boolean;
+}
+
+export default function ReservationWarningList({ warnings, showTicket = false }: ReservationWarningListProps) {
+  const { locale, m } = useI18n();
+  const pavilionName = (event: EventSchedule) => resolvePavilionName(event.program_code ?? '', event.event_name, locale);
+  const slotLabel = (schedule: { schedule_name?: string; start_time?: string }) =>
+    schedule.schedule_name || formatTime(schedule.start_time, locale);
+
+  const describe = (warning: ReservationWarning): string => {
+    switch (warning.kind) {
+      case 'overlap':
+        return m.warnings.overlap(
+          pavilionName(warning.event),
+          slotLabel(warning.event),
+          warning.otherEvent ? pavilionName(warning.otherEvent) : '',
+          warning.otherEvent ? slotLabel(warning.otherEvent) : ''
+        );
+      case 'beforeEntrance':
+        return m.warnings.beforeEntrance(
+          pavilionName(warning.event),
+          slotLabel(warning.event),
+          warning.entrance ? slotLabel(warning.entrance) : ''
+        );
+      case 'noEntrance':
+        return m.warnings.noEntrance(pavilionName(warning.event), slotLabel(warning.event));
+    }
+  };
+
+  return (
+    <ul className="space-y-2">
+      {warnings.map((warning) => (
+        <li key={warning.key} className="rounded-lg border border-[#E60012]/30 bg-[#E60012]/5 px-3 py-2 text-sm text-[#0B1F3B]">
+          <div className="flex flex-wrap items-center gap-2 text-xs font-semibold">
+            <span className="rounded-full bg-[#E60012]/10 px-2 py-0.5 text-[#E60012]">{m.warnings.kinds[warning.kind]}</span>
+            <span className="text-[#0068B7]">{formatDateWithWeekday(warning.date, locale).label}</span>
+            {showTicket && (
+              <span className="text-[#0B1F3B]/70">
+                {warning.ticketLabel} {warning.ticketName}
+              </span>
+            )}
+          </div>
+          <p className="mt-1">{describe(warning)}</p>
+        </li>
+      ))}
+    </ul>
+  );
+}
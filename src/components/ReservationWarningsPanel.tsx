@@ -0,0 +1,42 @@
+import { useMemo } from 'react';
+import { checkReservationConflicts, reservationWarningKinds } from '../core';
+import type { Ticket } from '../core';
+import { useI18n } from '../i18n';
+import ReservationWarningList from './ReservationWarningList';
+
+interface ReservationWarningsPanelProps {
+  tickets: Ticket[];
+}
+
+export default function ReservationWarningsPanel({ tickets }: ReservationWarningsPanelProps) {
+  const { locale, m } = useI18n();
+  const warnings = useMemo(() => checkReservationConflicts(tickets, locale), [tickets, locale]);
+
+  return (
+    <div className="rounded-3xl border border-[#C5CCD0] bg-white p-5 shadow-sm">
+      <h3 className="text-base font-semibold text-[#0068B7]">{m.warnings.heading}</h3>
+      <p className="mt-1 text-xs text-[#0B1F3B]/70">{m.warnings.intro}</p>
+      {warnings.length === 0 ? (
+        <p className="mt-3 text-sm text-[#0B1F3B]">{m.warnings.none}</p>
+      ) : (
+        <>
+          <div className="mt-3 flex flex-wrap gap-2 text-xs font-semibold">
+            {reservationWarningKinds.map((kind) => (
+              <span key={kind} className="rounded-full bg-[#D2D7DA] px-3 py-1 text-[#0068B7]">
+                {m.warnings.kinds[kind]} {m.warnings.count(warnings.filter((warning) => warning.kind === kind).length)}
+              </span>
+            ))}
+          </div>
+          <details className="mt-3">
+            <summary className="cursor-pointer text-sm font-semibold text-[#E60012]">
+              {m.warnings.cardHeading(warnings.length)}
+            </summary>
+            <div className="mt-2">
+              <ReservationWarningList warnings={warnings} showTicket />
+            </div>
+          </details>
+        </>
+      )}
+    </div>
+  );
+}
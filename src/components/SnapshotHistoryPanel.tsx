@@ -0,0 +1,167 @@
+import { useEffect, useMemo, useState } from 'react';
+import { countReservations, diffSnapshots, formatDate, formatTime } from '../core';
+import type { HistorySnapshot, ReservationChange } from '../core';
+import { useI18n } from '../i18n';
+import type { Messages } from '../i18n';
+import { FieldChangeList } from './FieldChangeList';
+
+interface SnapshotHistoryPanelProps {
+  snapshots: HistorySnapshot[];
+  onDeleteSnapshot: (snapshotId: string) => void;
+}
+
+function formatImportedAt(value: string, dateLocale: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString(dateLocale);
+}
+
+function describeSnapshot(snapshot: HistorySnapshot, m: Messages): string {
+  const { ticketCount, entranceCount, eventCount } = countReservations(snapshot.payload.list);
+  const name = snapshot.fileName ? ` ｜ ${snapshot.fileName}` : '';
+  return `${formatImportedAt(snapshot.importedAt, m.dateLocale)}${name} ｜ ${m.snapshots.describe(ticketCount, entranceCount, eventCount)}`;
+}
+
+const changeSectionClasses: Record<ReservationChange['status'], string> = {
+  added: 'border-[#0068B7]/30 bg-[#0068B7]/5',
+  cancelled: 'border-[#E60012]/30 bg-[#E60012]/5',
+  changed: 'border-[#C5CCD0] bg-white'
+};
+
+function ChangeSection({ status, changes }: { status: ReservationChange['status']; changes: ReservationChange[] }) {
+  const { locale, m } = useI18n();
+  return (
+    <div className={`rounded-2xl border p-4 ${changeSectionClasses[status]}`}>
+      <p className="text-sm font-semibold text-[#0068B7]">
+        {m.snapshots.sectionCount(m.snapshots[status], changes.length)}
+      </p>
+      {changes.length === 0 ? (
+        <p className="mt-2 text-xs text-[#0B1F3B]/70">{m.snapshots.noChanges}</p>
+      ) : (
+        <ul className="mt-2 space-y-2">
+          {changes.map((change) => {
+            const schedule = change.after ?? change.before;
+            const timeLabel = schedule?.schedule_name || (schedule?.start_time ? formatTime(schedule.start_time, locale) : '');
+            return (
+              <li key={change.key} className="rounded-lg border border-[#C5CCD0] bg-white p-3 text-sm text-[#0B1F3B]">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="rounded-full bg-[#D2D7DA] px-2 py-0.5 text-xs font-medium text-[#0068B7]">
+                    {change.kind === 'entrance' ? m.snapshots.entrance : m.snapshots.event}
+                  </span>
+                  <span className="font-semibold text-[#0068B7]">{change.title}</span>
+                  <span className="text-xs">{formatDate(schedule?.entrance_date, locale)} {timeLabel}</span>
+                  <span className="text-xs text-[#4B5563]">{change.ticketName}</span>
+                </div>
+                <FieldChangeList fields={change.fields} />
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function SnapshotHistoryPanel({ snapshots, onDeleteSnapshot }: SnapshotHistoryPanelProps) {
+  const { locale, m } = useI18n();
+  const [beforeId, setBeforeId] = useState<string>('');
+  const [afterId, setAfterId] = useState<string>('');
+
+  useEffect(() => {
+    const ids = snapshots.map((snapshot) => snapshot.id);
+    if (snapshots.length < 2) {
+      setBeforeId('');
+      setAfterId('');
+      return;
+    }
+    setBeforeId((previous) => (ids.includes(previous) ? previous : ids[ids.length - 2]));
+    setAfterId((previous) => (ids.includes(previous) ? previous : ids[ids.length - 1]));
+  }, [snapshots]);
+
+  const diff = useMemo(() => {
+    const before = snapshots.find((snapshot) => snapshot.id === beforeId);
+    const after = snapshots.find((snapshot) => snapshot.id === afterId);
+    if (!before || !after || before.id === after.id) {
+      return null;
+    }
+    return diffSnapshots(before.payload, after.payload, locale);
+  }, [snapshots, beforeId, afterId, locale]);
+
+  if (snapshots.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-3xl border border-[#C5CCD0] bg-white p-6 shadow-sm">
+      <h3 className="text-lg font-semibold text-[#0068B7]">{m.snapshots.heading}</h3>
+      <p className="mt-1 text-sm text-[#0B1F3B]">
+        {m.snapshots.intro}
+      </p>
+      <ol className="mt-4 space-y-2 text-sm text-[#0B1F3B]">
+        {snapshots.map((snapshot, index) => (
+          <li
+            key={snapshot.id}
+            className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-[#C5CCD0] bg-[#F8FAFC] px-3 py-2"
+          >
+            <span>
+              <span className="mr-2 font-semibold text-[#0068B7]">#{index + 1}</span>
+              {describeSnapshot(snapshot, m)}
+            </span>
+            <button
+              type="button"
+              onClick={() => onDeleteSnapshot(snapshot.id)}
+              className="rounded-full border border-[#E60012] px-3 py-1 text-xs font-semibold text-[#E60012] transition hover:bg-[#E60012]/10"
+            >
+              {m.common.delete}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {snapshots.length >= 2 ? (
+        <div className="mt-5 space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="flex flex-col gap-1 text-sm text-[#0B1F3B]">
+              <span className="font-medium text-[#0068B7]">{m.snapshots.before}</span>
+              <select
+                value={beforeId}
+                onChange={(event) => setBeforeId(event.target.value)}
+                className="rounded-lg border border-[#C5CCD0] bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#0068B7]/40"
+              >
+                {snapshots.map((snapshot, index) => (
+                  <option key={snapshot.id} value={snapshot.id}>
+                    #{index + 1} {formatImportedAt(snapshot.importedAt, m.dateLocale)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-sm text-[#0B1F3B]">
+              <span className="font-medium text-[#0068B7]">{m.snapshots.after}</span>
+              <select
+                value={afterId}
+                onChange={(event) => setAfterId(event.target.value)}
+                className="rounded-lg border border-[#C5CCD0] bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#0068B7]/40"
+              >
+                {snapshots.map((snapshot, index) => (
+                  <option key={snapshot.id} value={snapshot.id}>
+                    #{index + 1} {formatImportedAt(snapshot.importedAt, m.dateLocale)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {diff ? (
+            <div className="space-y-3">
+              <ChangeSection status="added" changes={diff.added} />
+              <ChangeSection status="cancelled" changes={diff.cancelled} />
+              <ChangeSection status="changed" changes={diff.changed} />
+            </div>
+          ) : (
+            <p className="text-sm text-[#0B1F3B]/70">{m.snapshots.selectDifferent}</p>
+          )}
+        </div>
+      ) : (
+        <p className="mt-4 text-xs text-[#0B1F3B]/70">{m.snapshots.needMore}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useMemo, useState } from 'react';
+import { buildPavilionStatistics, weekdayLabelsByLocale } from '../core';
+import type { AttendanceStat, PavilionMaster, Ticket } from '../core';
+import { useI18n } from '../i18n';
+
+interface StatsDashboardProps {
+  tickets: Ticket[];
+  pavilionMaster?: PavilionMaster;
+}
+
+const PAVILION_PREVIEW_COUNT = 10;
+
+function formatPercent(ratio: number | null): string {
+  return ratio === null ? '—' : `${Math.round(ratio * 1000) / 10}%`;
+}
+
+function Bar({ ratio, className }: { ratio: number; className: string }) {
+  return (
+    <div className="h-2 w-full rounded-full bg-[#D2D7DA]/50">
+      <div className={`h-2 rounded-full ${className}`} style={{ width: `${Math.max(0, Math.min(1, ratio)) * 100}%` }} />
+    </div>
+  );
+}
+
+function AttendanceCard({ title, stat }: { title: string; stat: AttendanceStat }) {
+  const { m } = useI18n();
+  const rows = [
+    { label: m.stats.used, value: stat.used },
+    { label: m.stats.unused, value: stat.unused },
+    { label: m.stats.cancelled, value: stat.cancelled },
+    { label: m.stats.other, value: stat.other }
+  ];
+  return (
+    <div className="rounded-2xl border border-[#0068B7]/15 p-4">
+      <p className="text-sm font-medium text-[#0068B7]">{title}</p>
+      <p className="mt-1 text-3xl font-semibold text-[#E60012]">{formatPercent(stat.rate)}</p>
+      <p className="text-xs text-[#4B5563]">{m.stats.rateFormula}</p>
+      <dl className="mt-2 grid grid-cols-4 gap-1 text-center text-xs text-[#0B1F3B]">
+        {rows.map((row) => (
+          <div key={row.label}>
+            <dt className="text-[#4B5563]">{row.label}</dt>
+            <dd className="font-semibold">{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+export default function StatsDashboard({ tickets, pavilionMaster }: StatsDashboardProps) {
+  const { locale, m } = useI18n();
+  const stats = useMemo(
+    () => buildPavilionStatistics(tickets, pavilionMaster, locale),
+    [tickets, pavilionMaster, locale]
+  );
+  const [showAllPavilions, setShowAllPavilions] = useState(false);
+
+  const visiblePavilions = showAllPavilions ? stats.pavilions : stats.pavilions.slice(0, PAVILION_PREVIEW_COUNT);
+  const maxPavilionCount = stats.pavilions[0]?.reservationCount ?? 0;
+  const maxWeekdayCount = Math.max(0, ...stats.weekdays.map((day) => Math.max(day.entranceCount, day.eventCount)));
+
+  return (
+    <div className="space-y-6 rounded-3xl border border-[#C5CCD0] bg-white p-6 shadow-sm">
+      <h3 className="text-lg font-semibold text-[#0068B7]">{m.stats.heading}</h3>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <AttendanceCard title={m.stats.entranceRate} stat={stats.entranceAttendance} />
+        <AttendanceCard title={m.stats.eventRate} stat={stats.eventAttendance} />
+      </div>
+
+      <div>
+        <h4 className="text-base font-semibold text-[#0B1F3B]">{m.stats.topPavilions}</h4>
+        {stats.pavilions.length === 0 ? (
+          <p className="mt-2 text-sm text-[#0B1F3B]/70">{m.stats.noEvents}</p>
+        ) : (
+          <>
+            <ol className="mt-2 space-y-2">
+              {visiblePavilions.map((pavilion, index) => (
+                <li key={pavilion.key} className="text-sm text-[#0B1F3B]">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="truncate" title={pavilion.programCodes.join(' / ')}>
+                      <span className="mr-2 font-semibold text-[#0068B7]">{index + 1}</span>
+                      {pavilion.name}
+                    </span>
+                    <span className="shrink-0 text-xs text-[#4B5563]">
+                      {m.stats.pavilionCounts(pavilion.reservationCount, pavilion.visitCount)}
+                    </span>
+                  </div>
+                  <Bar ratio={maxPavilionCount ? pavilion.reservationCount / maxPavilionCount : 0} className="bg-[#0068B7]" />
+                </li>
+              ))}
+            </ol>
+            {stats.pavilions.length > PAVILION_PREVIEW_COUNT && (
+              <button
+                type="button"
+                onClick={() => setShowAllPavilions((previous) => !previous)}
+                className="mt-2 text-xs font-semibold text-[#0068B7] underline"
+              >
+                {showAllPavilions ? m.stats.showTop : m.stats.showAll(stats.pavilions.length)}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-base font-semibold text-[#0B1F3B]">{m.stats.repeatPavilions}</h4>
+        {stats.repeatPavilions.length === 0 ? (
+          <p className="mt-2 text-sm text-[#0B1F3B]/70">{m.stats.noRepeats}</p>
+        ) : (
+          <ul className="mt-2 flex flex-wrap gap-2">
+            {stats.repeatPavilions.map((pavilion) => (
+              <li key={pavilion.key} className="rounded-full bg-[#0068B7]/10 px-3 py-1 text-xs font-semibold text-[#0068B7]">
+                {pavilion.name} ×{pavilion.visitCount}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="grid gap-6 sm:grid-cols-2">
+        <div>
+          <h4 className="text-base font-semibold text-[#0B1F3B]">{m.stats.channels}</h4>
+          {stats.channels.length === 0 ? (
+            <p className="mt-2 text-sm text-[#0B1F3B]/70">{m.stats.noEvents}</p>
+          ) : (
+            <ul className="mt-2 space-y-2">
+              {stats.channels.map((channel) => (
+                <li key={channel.channel ?? 'unknown'} className="text-sm text-[#0B1F3B]">
+                  <div className="flex justify-between gap-2">
+                    <span>{channel.label}</span>
+                    <span className="text-xs text-[#4B5563]">
+                      {m.stats.channelCount(channel.count, formatPercent(channel.ratio))}
+                    </span>
+                  </div>
+                  <Bar ratio={channel.ratio} className="bg-[#E60012]" />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-base font-semibold text-[#0B1F3B]">{m.stats.weekdays}</h4>
+          <div className="mt-2 flex h-40 items-end gap-2">
+            {stats.weekdays.map((day) => (
+              <div key={day.weekday} className="flex flex-1 flex-col items-center gap-1">
+                <div className="flex h-32 w-full items-end justify-center gap-0.5">
+                  <div
+                    className="w-1/2 rounded-t bg-[#E60012]"
+                    style={{ height: `${maxWeekdayCount ? (day.entranceCount / maxWeekdayCount) * 100 : 0}%` }}
+                    title={m.stats.weekdayEntrances(day.entranceCount)}
+                  />
+                  <div
+                    className="w-1/2 rounded-t bg-[#0068B7]"
+                    style={{ height: `${maxWeekdayCount ? (day.eventCount / maxWeekdayCount) * 100 : 0}%` }}
+                    title={m.stats.weekdayEvents(day.eventCount)}
+                  />
+                </div>
+                <span
+                  className={`text-xs font-semibold ${
+                    day.weekday === 0 ? 'text-[#E60012]' : day.weekday === 6 ? 'text-[#0068B7]' : 'text-[#0B1F3B]'
+                  }`}
+                >
+                  {weekdayLabelsByLocale[locale][day.weekday]}
+                </span>
+              </div>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-[#4B5563]">{m.stats.weekdayLegend}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
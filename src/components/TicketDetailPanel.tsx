@@ -0,0 +1,106 @@
+import { formatDate, formatTime, resolvePavilionName } from '../core';
+import type { Ticket } from '../core';
+import { useI18n } from '../i18n';
+import { formatFieldValue } from './FieldChangeList';
+
+/** チケット全体の項目。チケット ID は別のボタンで隠しているので含めない */
+const ticketFields = [
+  'order_number',
+  'received_at',
+  'receive_type',
+  'adult_type',
+  'item_abb_name',
+  'item_code',
+  'item_group_code',
+  'agent_code',
+  'disp_status',
+  'disp_bid_status',
+  'change_reservation',
+  'fast_lottery',
+  'lotteries'
+] as const;
+
+const entranceFields = [
+  'on_the_day',
+  'empty_frame',
+  'month_lottery',
+  'day_lottery',
+  'lotteries',
+  'proxy_reserve',
+  'admission_buf_during',
+  'group_ticket_qr_divi'
+] as const;
+
+const eventFields = [
+  'schedule_code',
+  'created_at',
+  'updated_at',
+  'registered_channel',
+  'suspend_divi',
+  'program_ticket_state',
+  'proxy_reserve',
+  'admission_buf_during'
+] as const;
+
+interface TicketDetailPanelProps {
+  ticket: Ticket;
+}
+
+export default function TicketDetailPanel({ ticket }: TicketDetailPanelProps) {
+  const { locale, m } = useI18n();
+
+  const renderFields = <T extends object>(source: T, fields: readonly (keyof T & string)[]) => (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+      {fields.map((field) => (
+        <div key={field} className="contents">
+          <dt className="text-[#0B1F3B]/70">{m.fields[field] ?? field}</dt>
+          <dd className="font-medium text-[#0B1F3B]">{formatFieldValue(field, source[field], locale)}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+
+  const entrances = ticket.schedules ?? [];
+  const events = ticket.event_schedules ?? [];
+
+  return (
+    <div className="space-y-4 rounded-xl border border-[#C5CCD0] bg-[#D2D7DA]/20 p-4 text-sm text-[#0B1F3B]">
+      <p className="text-xs text-[#0B1F3B]/70">{m.ticketDetails.note}</p>
+      <section>
+        <h4 className="mb-2 text-sm font-semibold text-[#0068B7]">{m.ticketDetails.ticket}</h4>
+        {renderFields(ticket, ticketFields)}
+      </section>
+      {entrances.length > 0 && (
+        <section>
+          <h4 className="mb-2 text-sm font-semibold text-[#0068B7]">{m.ticketDetails.entrances}</h4>
+          <ul className="space-y-3">
+            {entrances.map((schedule, index) => (
+              <li key={schedule.user_visiting_reservation_id ?? index} className="rounded-lg border border-[#C5CCD0] bg-white p-3">
+                <p className="mb-2 text-xs font-semibold">
+                  {formatDate(schedule.entrance_date, locale)} {schedule.schedule_name || formatTime(schedule.start_time, locale)}
+                </p>
+                {renderFields(schedule, entranceFields)}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+      {events.length > 0 && (
+        <section>
+          <h4 className="mb-2 text-sm font-semibold text-[#0068B7]">{m.ticketDetails.events}</h4>
+          <ul className="space-y-3">
+            {events.map((schedule, index) => (
+              <li key={schedule.id ?? index} className="rounded-lg border border-[#C5CCD0] bg-white p-3">
+                <p className="mb-2 text-xs font-semibold">
+                  {formatDate(schedule.entrance_date, locale)} {formatTime(schedule.start_time, locale)}{' '}
+                  {resolvePavilionName(schedule.program_code ?? '', schedule.event_name, locale)}
+                </p>
+                {renderFields(schedule, eventFields)}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
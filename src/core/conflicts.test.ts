@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import sampleTicketPayload from '../../sample/sample.json';
+import { checkReservationConflicts } from './conflicts';
+import type { Ticket, TicketPayload } from './types';
+
+const ticket: Ticket = {
+  ticket_id: 'T1',
+  item_name: 'Adult',
+  schedules: [
+    { user_visiting_reservation_id: 1, entrance_date: '20250601', schedule_name: '11:00-', gate_type: 1, use_state: 0 },
+    { user_visiting_reservation_id: 2, entrance_date: '20250602', schedule_name: '09:00-', gate_type: 2, use_state: 2 }
+  ],
+  event_schedules: [
+    { id: 10, entrance_date: '20250601', program_code: 'AAA', event_name: 'Early', start_time: '1000', end_time: '1030' },
+    { id: 11, entrance_date: '20250601', program_code: 'BBB', event_name: 'First', start_time: '1300', end_time: '1330' },
+    { id: 12, entrance_date: '20250601', program_code: 'CCC', event_name: 'Second', start_time: '1315', end_time: '1345' },
+    { id: 13, entrance_date: '20250602', program_code: 'DDD', event_name: 'Orphan', start_time: '1200' },
+    { id: 14, entrance_date: '20250601', program_code: 'EEE', event_name: 'Cancelled', start_time: '1300', use_state: 2 }
+  ]
+};
+
+describe('checkReservationConflicts', () => {
+  const warnings = checkReservationConflicts([ticket]);
+
+  it('flags pavilion reservations that overlap on the same ticket', () => {
+    const overlaps = warnings.filter((warning) => warning.kind === 'overlap');
+    expect(overlaps).toHaveLength(1);
+    expect([overlaps[0].event.id, overlaps[0].otherEvent?.id]).toEqual([11, 12]);
+  });
+
+  it('flags pavilion slots that start before the entrance slot', () => {
+    const early = warnings.filter((warning) => warning.kind === 'beforeEntrance');
+    expect(early.map((warning) => warning.event.id)).toEqual([10]);
+    expect(early[0].entrance?.schedule_name).toBe('11:00-');
+  });
+
+  it('flags pavilion reservations on days without an active entrance reservation', () => {
+    const orphans = warnings.filter((warning) => warning.kind === 'noEntrance');
+    expect(orphans.map((warning) => [warning.date, warning.event.id])).toEqual([['20250602', 13]]);
+  });
+
+  it('ignores cancelled reservations and keeps tickets apart', () => {
+    expect(warnings.some((warning) => warning.event.id === 14 || warning.otherEvent?.id === 14)).toBe(false);
+    const other: Ticket = { ...ticket, ticket_id: 'T2', event_schedules: [{ id: 20, entrance_date: '20250601', start_time: '1300' }] };
+    const combined = checkReservationConflicts([ticket, other]);
+    expect(combined.filter((warning) => warning.kind === 'overlap')).toHaveLength(1);
+  });
+
+  it('compares the booked slot rather than the earlier start_time', () => {
+    const realistic: Ticket = {
+      ticket_id: 'T3',
+      schedules: [{ entrance_date: '20250601', schedule_name: '11:00-', start_time: '1000', use_state: 0 }],
+      event_schedules: [
+        { id: 30, entrance_date: '20250601', schedule_name: '11:00-11:30', start_time: '1045', end_time: '1130' },
+        { id: 31, entrance_date: '20250601', schedule_name: '11:30-12:00', start_time: '1115', end_time: '1200' },
+        { id: 32, entrance_date: '20250601', schedule_name: '10:30-11:00', start_time: '1015', end_time: '1100' }
+      ]
+    };
+    expect(checkReservationConflicts([realistic]).map((warning) => [warning.kind, warning.event.id])).toEqual([
+      ['beforeEntrance', 32]
+    ]);
+  });
+
+  it('finds nothing in the sample', () => {
+    expect(checkReservationConflicts((sampleTicketPayload as TicketPayload).list)).toEqual([]);
+  });
+});
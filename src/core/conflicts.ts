@@ -0,0 +1,83 @@
+import { groupReservationsByDate } from './daily';
+import type { DailyReservation } from './daily';
+import { isCancelledUseState } from './labels';
+import type { Locale } from './locale';
+import { classifyRanges, getEntranceStart, getEventSlotRange } from './timeline';
+import type { EntranceSchedule, EventSchedule, Ticket } from './types';
+
+/**
+ * - `overlap`: 同じチケット・同じ日のパビリオン予約どうしの予約枠が重なっている
+ * - `beforeEntrance`: パビリオン予約の予約枠の開始が、その日の入場予約の時間枠より前
+ * - `noEntrance`: パビリオン予約の日に、同じチケットの入場予約がない
+ */
+export type ReservationWarningKind = 'overlap' | 'beforeEntrance' | 'noEntrance';
+
+export const reservationWarningKinds: ReservationWarningKind[] = ['overlap', 'beforeEntrance', 'noEntrance'];
+
+export interface ReservationWarning {
+  key: string;
+  kind: ReservationWarningKind;
+  ticketKey: string;
+  ticketLabel: string;
+  ticketName: string;
+  /** `YYYYMMDD` */
+  date: string;
+  event: EventSchedule;
+  /** `overlap` の相手のパビリオン予約 */
+  otherEvent?: EventSchedule;
+  /** `beforeEntrance` で比べた入場予約 */
+  entrance?: EntranceSchedule;
+}
+
+/**
+ * パビリオン予約の重なりと、入場予約との食い違いを調べる。キャンセル済みの予約は対象外。
+ * `start_time` は予約枠より早いことが多いため、時刻は `schedule_name` の予約枠で比べる。
+ * 結果は日付順（同じ日はパビリオン予約の時刻順）に並ぶ。
+ */
+export function checkReservationConflicts(tickets: Ticket[], locale: Locale = 'ja'): ReservationWarning[] {
+  const warnings: ReservationWarning[] = [];
+  const isActive = (entry: DailyReservation<EntranceSchedule | EventSchedule>) => !isCancelledUseState(entry.schedule.use_state);
+
+  groupReservationsByDate(tickets, locale).forEach((day) => {
+    const entrances = day.entrances.filter(isActive);
+    const events = day.events.filter(isActive);
+
+    events.forEach((entry, index) => {
+      const base = {
+        ticketKey: entry.ticketKey,
+        ticketLabel: entry.ticketLabel,
+        ticketName: entry.ticketName,
+        date: day.date,
+        event: entry.schedule
+      };
+      const range = getEventSlotRange(entry.schedule);
+      const ticketEntrances = entrances.filter((entrance) => entrance.ticketKey === entry.ticketKey);
+
+      if (ticketEntrances.length === 0) {
+        warnings.push({ ...base, key: `${entry.key}-noEntrance`, kind: 'noEntrance' });
+      } else if (range) {
+        // 同じ日に入場予約が複数ある場合は最も早い時間枠と比べる
+        const earliest = ticketEntrances
+          .map((entrance) => ({ entrance, start: getEntranceStart(entrance.schedule) }))
+          .filter((candidate): candidate is { entrance: DailyReservation<EntranceSchedule>; start: number } => candidate.start !== null)
+          .sort((a, b) => a.start - b.start)[0];
+        if (earliest && range.start < earliest.start) {
+          warnings.push({ ...base, key: `${entry.key}-beforeEntrance`, kind: 'beforeEntrance', entrance: earliest.entrance.schedule });
+        }
+      }
+
+      if (!range) {
+        return;
+      }
+      events.slice(index + 1).forEach((other) => {
+        const otherRange = getEventSlotRange(other.schedule);
+        if (other.ticketKey !== entry.ticketKey || !otherRange || classifyRanges(range, otherRange) !== 'overlap') {
+          return;
+        }
+        warnings.push({ ...base, key: `${entry.key}-overlap-${other.key}`, kind: 'overlap', otherEvent: other.schedule });
+      });
+    });
+  });
+
+  return warnings;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import sampleTicketPayload from '../../sample/sample.json';
+import longDummyPayload from '../../sample/long-dummy.json';
+import { buildCalendarMonth, buildExpoCalendar, groupReservationsByDate } from './daily';
+import type { TicketPayload } from './types';
+
+const sample = sampleTicketPayload as TicketPayload;
+const longDummy = longDummyPayload as TicketPayload;
+
+describe('buildCalendarMonth', () => {
+  it('lays out April 2025 starting on a Tuesday', () => {
+    const april = buildCalendarMonth(2025, 4);
+    expect(april.weeks).toHaveLength(5);
+    expect(april.weeks[0]).toEqual([null, null, '20250401', '20250402', '20250403', '20250404', '20250405']);
+    expect(april.weeks[4]).toEqual(['20250427', '20250428', '20250429', '20250430', null, null, null]);
+  });
+
+  it('covers the Expo period from April to October', () => {
+    const calendar = buildExpoCalendar();
+    expect(calendar.map((month) => month.month)).toEqual([4, 5, 6, 7, 8, 9, 10]);
+    expect(calendar.every((month) => month.weeks.every((week) => week.length === 7))).toBe(true);
+  });
+});
+
+describe('groupReservationsByDate', () => {
+  it('groups the sample by visit day', () => {
+    const days = groupReservationsByDate(sample.list);
+    expect(days).toHaveLength(13);
+    expect(days[0].date).toBe('20250510');
+    expect(days[0].entrances[0].ticketLabel).toBe('A');
+
+    const june21 = days.find((day) => day.date === '20250621');
+    expect(june21?.entrances).toHaveLength(1);
+    expect(june21?.events.map((entry) => entry.schedule.program_code)).toEqual(['HSH0']);
+    expect(june21?.events[0].ticketLabel).toBe('B');
+  });
+
+  it('keeps every dated reservation of the long dummy', () => {
+    const days = groupReservationsByDate(longDummy.list);
+    const entranceTotal = days.reduce((acc, day) => acc + day.entrances.length, 0);
+    const eventTotal = days.reduce((acc, day) => acc + day.events.length, 0);
+    expect(entranceTotal).toBe(208);
+    expect(eventTotal).toBe(96);
+    expect(days.map((day) => day.date)).toEqual([...days.map((day) => day.date)].sort());
+  });
+
+  it('orders a shared day by time across tickets', () => {
+    const days = groupReservationsByDate([
+      { ticket_id: 'A', event_schedules: [{ id: 2, entrance_date: '20250801', start_time: '1500' }] },
+      { ticket_id: 'B', event_schedules: [{ id: 1, entrance_date: '20250801', start_time: '1000' }] },
+      { ticket_id: 'C', event_schedules: [{ id: 3, entrance_date: 'unknown' }] }
+    ]);
+    expect(days).toHaveLength(1);
+    expect(days[0].events.map((entry) => entry.ticketLabel)).toEqual(['B', 'A']);
+  });
+});
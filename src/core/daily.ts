@@ -0,0 +1,118 @@
+import { compareSchedules } from './format';
+import { resolveTicketName } from './labels';
+import type { Locale } from './locale';
+import { getTicketKey } from './merge';
+import { EXPO_MONTHS, indexToLabel } from './summary';
+import type { EntranceSchedule, EventSchedule, Ticket } from './types';
+
+export const EXPO_YEAR = 2025;
+
+export interface DailyReservation<T extends EntranceSchedule | EventSchedule> {
+  key: string;
+  ticketKey: string;
+  ticketLabel: string;
+  ticketName: string;
+  schedule: T;
+}
+
+export interface DailyReservations {
+  /** `YYYYMMDD` */
+  date: string;
+  entrances: DailyReservation<EntranceSchedule>[];
+  events: DailyReservation<EventSchedule>[];
+}
+
+export interface CalendarMonth {
+  year: number;
+  month: number;
+  /** 日曜始まりの週ごとの日付（`YYYYMMDD`）。月外のマスは null */
+  weeks: (string | null)[][];
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+export function toDateKey(year: number, month: number, day: number): string {
+  return `${year}${pad(month)}${pad(day)}`;
+}
+
+function compareDaily<T extends EntranceSchedule | EventSchedule>(a: DailyReservation<T>, b: DailyReservation<T>): number {
+  return compareSchedules(a.schedule, b.schedule) || a.ticketLabel.localeCompare(b.ticketLabel);
+}
+
+/**
+ * 全チケットの入場予約・パビリオン予約を日付ごとにまとめる。チケットには共有画像と同じ
+ * A, B, C... のラベルを振り、各日の予約は時刻順に並べる。日付が不正な予約は含めない。
+ */
+export function groupReservationsByDate(tickets: Ticket[], locale: Locale = 'ja'): DailyReservations[] {
+  const days = new Map<string, DailyReservations>();
+  const getDay = (date: string) => {
+    const existing = days.get(date);
+    if (existing) {
+      return existing;
+    }
+    const created: DailyReservations = { date, entrances: [], events: [] };
+    days.set(date, created);
+    return created;
+  };
+
+  tickets.forEach((ticket, ticketIndex) => {
+    const ticketKey = getTicketKey(ticket, ticketIndex);
+    const ticketLabel = indexToLabel(ticketIndex);
+    const ticketName = resolveTicketName(ticket, locale);
+    (ticket.schedules ?? []).forEach((schedule, index) => {
+      if (!schedule.entrance_date || !/^\d{8}$/.test(schedule.entrance_date)) {
+        return;
+      }
+      getDay(schedule.entrance_date).entrances.push({
+        key: `${ticketKey}-entrance-${schedule.user_visiting_reservation_id ?? index}`,
+        ticketKey,
+        ticketLabel,
+        ticketName,
+        schedule
+      });
+    });
+    (ticket.event_schedules ?? []).forEach((schedule, index) => {
+      if (!schedule.entrance_date || !/^\d{8}$/.test(schedule.entrance_date)) {
+        return;
+      }
+      getDay(schedule.entrance_date).events.push({
+        key: `${ticketKey}-event-${schedule.id ?? index}`,
+        ticketKey,
+        ticketLabel,
+        ticketName,
+        schedule
+      });
+    });
+  });
+
+  return Array.from(days.values())
+    .map((day) => ({
+      ...day,
+      entrances: day.entrances.sort(compareDaily),
+      events: day.events.sort(compareDaily)
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function buildCalendarMonth(year: number, month: number): CalendarMonth {
+  const firstWeekday = new Date(year, month - 1, 1).getDay();
+  const dayCount = new Date(year, month, 0).getDate();
+  const cells: (string | null)[] = [
+    ...Array.from({ length: firstWeekday }, () => null),
+    ...Array.from({ length: dayCount }, (_, index) => toDateKey(year, month, index + 1))
+  ];
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+  const weeks: (string | null)[][] = [];
+  for (let index = 0; index < cells.length; index += 7) {
+    weeks.push(cells.slice(index, index + 7));
+  }
+  return { year, month, weeks };
+}
+
+export function buildExpoCalendar(): CalendarMonth[] {
+  return EXPO_MONTHS.map((month) => buildCalendarMonth(EXPO_YEAR, month));
+}
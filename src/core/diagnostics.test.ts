@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import longDummyPayload from '../../sample/long-dummy.json';
+import sampleTicketPayload from '../../sample/sample.json';
+import { buildParseDiagnostics, serializeParseDiagnostics } from './diagnostics';
+
+describe('buildParseDiagnostics', () => {
+  it('finds nothing in the bundled samples', () => {
+    expect(buildParseDiagnostics(sampleTicketPayload).diagnostics).toEqual([]);
+    expect(buildParseDiagnostics(longDummyPayload).diagnostics).toEqual([]);
+  });
+
+  it('lists unknown codes, missing fields and type mismatches with their reservation', () => {
+    const report = buildParseDiagnostics({
+      list: [
+        {
+          ticket_id: 'T1',
+          ticket_type_id: '999',
+          item_name: '新しい券種',
+          schedules: [{ entrance_date: '20250601', schedule_name: '9:00-', use_state: 7, gate_type: 1 }],
+          event_schedules: [
+            { entrance_date: '20250601', start_time: '1000', program_code: 'ZZZ0', event_name: '新パビリオン', use_state: 0, registered_channel: 8 },
+            { entrance_date: '20250602', start_time: 1100, program_code: 'ZZZ0', use_state: 1 }
+          ]
+        },
+        { ticket_type_id: '41' }
+      ]
+    });
+
+    expect(report.ticketCount).toBe(2);
+    expect(report.diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.path, diagnostic.actual])).toEqual([
+      ['unknownTicketType', 'list[0].ticket_type_id', '999'],
+      ['unknownProgramCode', 'list[0].event_schedules[0].program_code', 'ZZZ0'],
+      ['unknownProgramCode', 'list[0].event_schedules[1].program_code', 'ZZZ0'],
+      ['unknownUseState', 'list[0].schedules[0].use_state', '7'],
+      ['unknownRegisteredChannel', 'list[0].event_schedules[0].registered_channel', '8'],
+      ['missingField', 'list[1].ticket_id', 'undefined'],
+      ['typeMismatch', 'list[0].event_schedules[1].start_time', 'number']
+    ]);
+    expect(report.diagnostics[3]).toMatchObject({
+      field: 'use_state',
+      ticketLabel: 'A',
+      itemName: '新しい券種',
+      reservation: { kind: 'entrance', date: '20250601', scheduleName: '9:00-' }
+    });
+    expect(report.counts.unknownProgramCode).toBe(2);
+    expect(report.unknownCodes.programCodes).toEqual([{ value: 'ZZZ0', name: '新パビリオン', count: 2 }]);
+    expect(report.unknownCodes.ticketTypes).toEqual([{ value: '999', name: '新しい券種', count: 1 }]);
+    expect(report.unknownCodes.useStates).toEqual([{ value: '7', name: undefined, count: 1 }]);
+  });
+
+  it('serializes the report with the unknown code summary', () => {
+    const report = buildParseDiagnostics({ list: [{ ticket_id: 'T1', ticket_type_id: '999' }] });
+    const json = JSON.parse(serializeParseDiagnostics(report, new Date('2025-10-01T00:00:00Z')));
+    expect(Object.keys(json)).toEqual(['generatedAt', 'ticketCount', 'counts', 'unknownCodes', 'diagnostics']);
+    expect(json.generatedAt).toBe('2025-10-01T00:00:00.000Z');
+    expect(json.unknownCodes.ticketTypes).toEqual([{ value: '999', count: 1 }]);
+  });
+});
@@ -0,0 +1,221 @@
+import { isKnownProgramCode, isKnownTicketType } from './labels';
+import { validateTicketPayload } from './schema';
+import type { SchemaIssue } from './schema';
+import { indexToLabel } from './summary';
+
+/**
+ * - `unknownTicketType`: 券種 ID が `ticketTypes.ts` にない
+ * - `unknownProgramCode`: プログラムコードが `pavilions.ts` の `eventNameDic` にない
+ * - `unknownUseState` / `unknownRegisteredChannel` / `unknownGateType`: 想定していないコード値
+ * - `unexpectedValue`: そのほかの想定していないコード値
+ * - `missingField`: 必須の項目がない
+ * - `typeMismatch`: 型が違う
+ * - `unknownField`: モデルにない項目
+ */
+export type ParseDiagnosticCode =
+  | 'unknownTicketType'
+  | 'unknownProgramCode'
+  | 'unknownUseState'
+  | 'unknownRegisteredChannel'
+  | 'unknownGateType'
+  | 'unexpectedValue'
+  | 'missingField'
+  | 'typeMismatch'
+  | 'unknownField';
+
+export const parseDiagnosticCodes: ParseDiagnosticCode[] = [
+  'unknownTicketType',
+  'unknownProgramCode',
+  'unknownUseState',
+  'unknownRegisteredChannel',
+  'unknownGateType',
+  'unexpectedValue',
+  'missingField',
+  'typeMismatch',
+  'unknownField'
+];
+
+export interface ParseDiagnosticReservation {
+  kind: 'entrance' | 'event';
+  /** `YYYYMMDD` */
+  date?: string;
+  startTime?: string;
+  scheduleName?: string;
+  programCode?: string;
+  eventName?: string;
+}
+
+export interface ParseDiagnostic {
+  code: ParseDiagnosticCode;
+  /** 例: `list[0].event_schedules[1].program_code` */
+  path: string;
+  field: string;
+  /** 実際の値（型の違いは実際の型） */
+  actual: string;
+  expected?: string;
+  ticketIndex?: number;
+  ticketLabel?: string;
+  /** API が返した券種名（`item_name`） */
+  itemName?: string;
+  reservation?: ParseDiagnosticReservation;
+}
+
+export interface UnknownCode {
+  value: string;
+  /** 辞書に追加するときの手がかりになる API 上の名前 */
+  name?: string;
+  count: number;
+}
+
+export interface UnknownCodeSummary {
+  ticketTypes: UnknownCode[];
+  programCodes: UnknownCode[];
+  useStates: UnknownCode[];
+  registeredChannels: UnknownCode[];
+  gateTypes: UnknownCode[];
+}
+
+export interface ParseDiagnosticsReport {
+  ticketCount: number;
+  diagnostics: ParseDiagnostic[];
+  counts: Record<ParseDiagnosticCode, number>;
+  unknownCodes: UnknownCodeSummary;
+}
+
+const valueCodeByField: Record<string, ParseDiagnosticCode> = {
+  use_state: 'unknownUseState',
+  registered_channel: 'unknownRegisteredChannel',
+  gate_type: 'unknownGateType'
+};
+
+const schemaCodeMap: Record<Exclude<SchemaIssue['code'], 'value'>, ParseDiagnosticCode> = {
+  type: 'typeMismatch',
+  missing: 'missingField',
+  unknownField: 'unknownField'
+};
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * パスからチケットと予約を探し、診断結果に付ける情報を作る。
+ */
+function locate(list: unknown[], path: string): Pick<ParseDiagnostic, 'ticketIndex' | 'ticketLabel' | 'itemName' | 'reservation'> {
+  const match = path.match(/^list\[(\d+)\](?:\.(schedules|event_schedules)\[(\d+)\])?/);
+  if (!match) {
+    return {};
+  }
+  const ticketIndex = Number(match[1]);
+  const ticket = asRecord(list[ticketIndex]);
+  const location = { ticketIndex, ticketLabel: indexToLabel(ticketIndex), itemName: asString(ticket?.item_name) };
+  if (!match[2] || !ticket) {
+    return location;
+  }
+  const schedules = ticket[match[2]];
+  const schedule = Array.isArray(schedules) ? asRecord(schedules[Number(match[3])]) : null;
+  if (!schedule) {
+    return location;
+  }
+  return {
+    ...location,
+    reservation: {
+      kind: match[2] === 'schedules' ? 'entrance' : 'event',
+      date: asString(schedule.entrance_date),
+      startTime: asString(schedule.start_time),
+      scheduleName: asString(schedule.schedule_name),
+      programCode: asString(schedule.program_code),
+      eventName: asString(schedule.event_name)
+    }
+  };
+}
+
+function summarize(diagnostics: ParseDiagnostic[], code: ParseDiagnosticCode, getName: (diagnostic: ParseDiagnostic) => string | undefined) {
+  const codes = new Map<string, UnknownCode>();
+  diagnostics
+    .filter((diagnostic) => diagnostic.code === code)
+    .forEach((diagnostic) => {
+      const existing = codes.get(diagnostic.actual);
+      codes.set(diagnostic.actual, {
+        value: diagnostic.actual,
+        name: existing?.name ?? getName(diagnostic),
+        count: (existing?.count ?? 0) + 1
+      });
+    });
+  return Array.from(codes.values()).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * 読み込んだ JSON を調べ、辞書にない券種・パビリオン、未知のコード値、必須項目の欠け、型の違いを一覧にする。
+ * 型と項目は `validateTicketPayload` で調べ、券種 ID とプログラムコードは表示用の辞書と突き合わせる。
+ */
+export function buildParseDiagnostics(payload: unknown): ParseDiagnosticsReport {
+  const list = Array.isArray(asRecord(payload)?.list) ? ((payload as { list: unknown[] }).list) : [];
+  const diagnostics: ParseDiagnostic[] = validateTicketPayload(payload).map((issue) => {
+    const field = issue.path.split('.').pop()?.replace(/\[\d+\]$/, '') ?? issue.path;
+    const code = issue.code === 'value' ? valueCodeByField[field] ?? 'unexpectedValue' : schemaCodeMap[issue.code];
+    return { code, path: issue.path, field, actual: issue.actual, expected: issue.expected, ...locate(list, issue.path) };
+  });
+
+  list.forEach((rawTicket, ticketIndex) => {
+    const ticket = asRecord(rawTicket);
+    if (!ticket) {
+      return;
+    }
+    const ticketTypeId = asString(ticket.ticket_type_id);
+    if (ticketTypeId && !isKnownTicketType(ticketTypeId)) {
+      const path = `list[${ticketIndex}].ticket_type_id`;
+      diagnostics.push({ code: 'unknownTicketType', path, field: 'ticket_type_id', actual: ticketTypeId, ...locate(list, path) });
+    }
+    const events = Array.isArray(ticket.event_schedules) ? ticket.event_schedules : [];
+    events.forEach((rawEvent, eventIndex) => {
+      const programCode = asString(asRecord(rawEvent)?.program_code);
+      if (programCode && !isKnownProgramCode(programCode)) {
+        const path = `list[${ticketIndex}].event_schedules[${eventIndex}].program_code`;
+        diagnostics.push({ code: 'unknownProgramCode', path, field: 'program_code', actual: programCode, ...locate(list, path) });
+      }
+    });
+  });
+
+  diagnostics.sort(
+    (a, b) => parseDiagnosticCodes.indexOf(a.code) - parseDiagnosticCodes.indexOf(b.code) || a.path.localeCompare(b.path, 'en', { numeric: true })
+  );
+  const counts = Object.fromEntries(parseDiagnosticCodes.map((code) => [code, 0])) as Record<ParseDiagnosticCode, number>;
+  diagnostics.forEach((diagnostic) => {
+    counts[diagnostic.code] += 1;
+  });
+
+  return {
+    ticketCount: list.length,
+    diagnostics,
+    counts,
+    unknownCodes: {
+      ticketTypes: summarize(diagnostics, 'unknownTicketType', (diagnostic) => diagnostic.itemName),
+      programCodes: summarize(diagnostics, 'unknownProgramCode', (diagnostic) => diagnostic.reservation?.eventName),
+      useStates: summarize(diagnostics, 'unknownUseState', () => undefined),
+      registeredChannels: summarize(diagnostics, 'unknownRegisteredChannel', () => undefined),
+      gateTypes: summarize(diagnostics, 'unknownGateType', () => undefined)
+    }
+  };
+}
+
+/**
+ * 診断結果を書き出し用の JSON 文字列にする。辞書の更新に使えるよう、未知のコードの一覧を先頭に置く。
+ */
+export function serializeParseDiagnostics(report: ParseDiagnosticsReport, generatedAt: Date = new Date()): string {
+  return JSON.stringify(
+    {
+      generatedAt: generatedAt.toISOString(),
+      ticketCount: report.ticketCount,
+      counts: report.counts,
+      unknownCodes: report.unknownCodes,
+      diagnostics: report.diagnostics
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import sampleTicketPayload from '../../sample/sample.json';
+import { countReservations } from './summary';
+import {
+  applyReservationFilter,
+  collectFilterOptions,
+  emptyReservationFilter,
+  filterTickets,
+  isFilterActive
+} from './filter';
+import type { TicketPayload } from './types';
+
+const sample = sampleTicketPayload as TicketPayload;
+
+describe('filterTickets', () => {
+  it('returns the tickets unchanged without conditions', () => {
+    expect(isFilterActive(emptyReservationFilter)).toBe(false);
+    expect(filterTickets(sample.list, emptyReservationFilter)).toEqual(sample.list);
+    expect(applyReservationFilter(sample.list[0], emptyReservationFilter)).toBe(sample.list[0]);
+  });
+
+  it('searches pavilion reservations by program code and drops entrances', () => {
+    const filtered = filterTickets(sample.list, { ...emptyReservationFilter, text: 'hsh0' });
+    expect(countReservations(filtered)).toMatchObject({ entranceCount: 0, eventCount: 1 });
+    expect(filtered[0].event_schedules?.[0].program_code).toBe('HSH0');
+  });
+
+  it('limits reservations to a date range', () => {
+    const filtered = filterTickets(sample.list, { ...emptyReservationFilter, dateFrom: '2025-05-01', dateTo: '2025-05-31' });
+    const dates = filtered.flatMap((ticket) => [...(ticket.schedules ?? []), ...(ticket.event_schedules ?? [])]).map(
+      (schedule) => schedule.entrance_date
+    );
+    expect(dates.length).toBe(2);
+    expect(dates.every((date) => date !== undefined && date >= '20250501' && date <= '20250531')).toBe(true);
+  });
+
+  it('filters entrances by gate and excludes pavilions', () => {
+    const filtered = filterTickets(sample.list, { ...emptyReservationFilter, gates: [2] });
+    const counts = countReservations(filtered);
+    expect(counts.eventCount).toBe(0);
+    expect(counts.entranceCount).toBeGreaterThan(0);
+    expect(filtered.every((ticket) => ticket.schedules?.every((schedule) => schedule.gate_type === 2))).toBe(true);
+  });
+
+  it('keeps whole tickets when only the ticket type is selected', () => {
+    const filtered = filterTickets(sample.list, { ...emptyReservationFilter, ticketTypeIds: ['21'] });
+    expect(filtered).toHaveLength(1);
+    expect(filtered[0].ticket_id).toBe('TICKET0002');
+    expect(filtered[0].schedules).toEqual(sample.list[1].schedules);
+  });
+
+  it('drops tickets without any matching reservation', () => {
+    expect(filterTickets(sample.list, { ...emptyReservationFilter, text: 'no such pavilion' })).toEqual([]);
+  });
+});
+
+describe('collectFilterOptions', () => {
+  it('lists ticket types, states and channels found in the data', () => {
+    const options = collectFilterOptions(sample.list);
+    expect(options.ticketTypes).toEqual([
+      { value: '21', label: '通期パス' },
+      { value: '43', label: '夜間券' }
+    ]);
+    expect(options.useStates.length).toBeGreaterThan(0);
+    expect(options.registeredChannels.length).toBeGreaterThan(0);
+  });
+});
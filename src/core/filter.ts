@@ -0,0 +1,146 @@
+import { isKnownUseState, resolvePavilionName, resolveTicketName } from './labels';
+import type { Locale } from './locale';
+import type { EntranceSchedule, EventSchedule, GateType, Ticket } from './types';
+
+export interface ReservationFilter {
+  /** パビリオン名・イベント名・プログラムコードの部分一致 */
+  text: string;
+  /** `YYYY-MM-DD`（`<input type="date">` の値）。空文字は指定なし */
+  dateFrom: string;
+  dateTo: string;
+  gates: GateType[];
+  useStates: number[];
+  registeredChannels: number[];
+  ticketTypeIds: string[];
+}
+
+export interface FilterOption<T> {
+  value: T;
+  label: string;
+}
+
+export interface ReservationFilterOptions {
+  ticketTypes: FilterOption<string>[];
+  useStates: number[];
+  registeredChannels: number[];
+}
+
+export const emptyReservationFilter: ReservationFilter = {
+  text: '',
+  dateFrom: '',
+  dateTo: '',
+  gates: [],
+  useStates: [],
+  registeredChannels: [],
+  ticketTypeIds: []
+};
+
+export function isFilterActive(filter: ReservationFilter): boolean {
+  return (
+    filter.text.trim() !== '' ||
+    filter.dateFrom !== '' ||
+    filter.dateTo !== '' ||
+    filter.gates.length > 0 ||
+    filter.useStates.length > 0 ||
+    filter.registeredChannels.length > 0 ||
+    filter.ticketTypeIds.length > 0
+  );
+}
+
+function normalizeText(value: string): string {
+  return value.normalize('NFKC').toLowerCase();
+}
+
+function matchesCommon(schedule: EntranceSchedule | EventSchedule, filter: ReservationFilter): boolean {
+  const from = filter.dateFrom.replace(/-/g, '');
+  const to = filter.dateTo.replace(/-/g, '');
+  const date = schedule.entrance_date ?? '';
+  if ((from || to) && !/^\d{8}$/.test(date)) return false;
+  if (from && date < from) return false;
+  if (to && date > to) return false;
+  if (filter.useStates.length > 0 && !filter.useStates.includes(schedule.use_state ?? -1)) return false;
+  return true;
+}
+
+function matchesEntrance(schedule: EntranceSchedule, filter: ReservationFilter): boolean {
+  // パビリオンにしかない項目で絞り込んでいるときは入場予約を対象外にする
+  if (filter.text.trim() || filter.registeredChannels.length > 0) return false;
+  if (filter.gates.length > 0 && !filter.gates.includes(schedule.gate_type as GateType)) return false;
+  return matchesCommon(schedule, filter);
+}
+
+function matchesEvent(schedule: EventSchedule, filter: ReservationFilter): boolean {
+  // ゲートは入場予約にしかないため、ゲートで絞り込んでいるときはパビリオン予約を対象外にする
+  if (filter.gates.length > 0) return false;
+  const query = normalizeText(filter.text.trim());
+  if (query) {
+    const haystack = normalizeText(
+      [schedule.program_code, schedule.event_name, resolvePavilionName(schedule.program_code ?? '', schedule.event_name)]
+        .filter(Boolean)
+        .join(' ')
+    );
+    if (!haystack.includes(query)) return false;
+  }
+  if (filter.registeredChannels.length > 0 && !filter.registeredChannels.includes(schedule.registered_channel ?? -1)) {
+    return false;
+  }
+  return matchesCommon(schedule, filter);
+}
+
+/**
+ * 条件に合う予約だけを残したチケットを返す。条件が指定されていて一致する予約がひとつもない場合は null。
+ */
+export function applyReservationFilter(ticket: Ticket, filter: ReservationFilter): Ticket | null {
+  if (!isFilterActive(filter)) {
+    return ticket;
+  }
+  if (filter.ticketTypeIds.length > 0 && !filter.ticketTypeIds.includes(ticket.ticket_type_id ?? '')) {
+    return null;
+  }
+  const schedules = (ticket.schedules ?? []).filter((schedule) => matchesEntrance(schedule, filter));
+  const eventSchedules = (ticket.event_schedules ?? []).filter((schedule) => matchesEvent(schedule, filter));
+  const onlyTicketType =
+    filter.ticketTypeIds.length > 0 && !isFilterActive({ ...filter, ticketTypeIds: [] });
+  if (!onlyTicketType && schedules.length === 0 && eventSchedules.length === 0) {
+    return null;
+  }
+  return { ...ticket, schedules, event_schedules: eventSchedules };
+}
+
+export function filterTickets(tickets: Ticket[], filter: ReservationFilter): Ticket[] {
+  return tickets.flatMap((ticket) => {
+    const filtered = applyReservationFilter(ticket, filter);
+    return filtered ? [filtered] : [];
+  });
+}
+
+/**
+ * 読み込んだデータに実際に含まれる券種・利用状況・登録経路を絞り込みの選択肢として集める。
+ */
+export function collectFilterOptions(tickets: Ticket[], locale: Locale = 'ja'): ReservationFilterOptions {
+  const ticketTypes = new Map<string, string>();
+  const useStates = new Set<number>();
+  const registeredChannels = new Set<number>();
+  tickets.forEach((ticket) => {
+    if (ticket.ticket_type_id) {
+      ticketTypes.set(ticket.ticket_type_id, resolveTicketName(ticket, locale));
+    }
+    [...(ticket.schedules ?? []), ...(ticket.event_schedules ?? [])].forEach((schedule) => {
+      if (isKnownUseState(schedule.use_state)) {
+        useStates.add(schedule.use_state);
+      }
+    });
+    (ticket.event_schedules ?? []).forEach((schedule) => {
+      if (schedule.registered_channel !== undefined && schedule.registered_channel !== null) {
+        registeredChannels.add(schedule.registered_channel);
+      }
+    });
+  });
+  return {
+    ticketTypes: Array.from(ticketTypes, ([value, label]) => ({ value, label })).sort(
+      (a, b) => Number(a.value) - Number(b.value)
+    ),
+    useStates: Array.from(useStates).sort((a, b) => a - b),
+    registeredChannels: Array.from(registeredChannels).sort((a, b) => a - b)
+  };
+}
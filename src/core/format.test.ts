@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { buildImageUrl, compareSchedules, formatApiDateTime, formatDate, formatTime, scheduleSortKey } from './format';
+import {
+  resolveGateLabel,
+  resolvePavilionName,
+  resolveRegisteredChannel,
+  resolveTicketName,
+  resolveUseStateLabel
+} from './labels';
+import { isLocale, resolveLocaleFromLanguage } from './locale';
+
+describe('formatDate / formatTime', () => {
+  it('formats API date and time strings', () => {
+    expect(formatDate('20250621')).toBe('2025年06月21日');
+    expect(formatDate('2025-06-21')).toBe('2025-06-21');
+    expect(formatDate(undefined)).toBe('未設定');
+    expect(formatTime('1345')).toBe('13:45');
+    expect(formatTime('140115')).toBe('14:01:15');
+    expect(formatTime('17:00-')).toBe('17:00-');
+    expect(formatTime(null)).toBe('未設定');
+  });
+
+  it('formats dates in English', () => {
+    expect(formatDate('20250621', 'en')).toBe('Jun 21, 2025');
+    expect(formatDate(undefined, 'en')).toBe('Not set');
+    expect(formatTime('1345', 'en')).toBe('13:45');
+  });
+
+  it('formats API timestamps to the minute', () => {
+    expect(formatApiDateTime('2025-05-10 16:37:09 +0900')).toBe('2025年05月10日 16:37');
+    expect(formatApiDateTime('2025-05-10 16:37:09 +0900', 'en')).toBe('May 10, 2025 16:37');
+    expect(formatApiDateTime('yesterday')).toBe('yesterday');
+  });
+});
+
+describe('scheduleSortKey', () => {
+  it('uses start_time, falling back to the schedule name', () => {
+    expect(scheduleSortKey({ entrance_date: '20250621', start_time: '1345' })).toBe('202506211345');
+    expect(scheduleSortKey({ entrance_date: '20250621', schedule_name: '11:00-' })).toBe('202506211100');
+    expect(scheduleSortKey({})).toBe('999999999999');
+  });
+
+  it('orders schedules chronologically', () => {
+    const schedules = [
+      { entrance_date: '20250712', start_time: '1720' },
+      { entrance_date: '20250621', start_time: '1345' },
+      { entrance_date: '20250621', schedule_name: '10:00-' }
+    ];
+    expect([...schedules].sort(compareSchedules).map(scheduleSortKey)).toEqual([
+      '202506211000',
+      '202506211345',
+      '202507121720'
+    ]);
+  });
+});
+
+describe('labels', () => {
+  it('resolves use states and channels', () => {
+    expect(resolveUseStateLabel(1)).toBe('利用済み');
+    expect(resolveUseStateLabel(7)).toBe('状態不明（7）');
+    expect(resolveUseStateLabel(undefined)).toBe('状態不明');
+    expect(resolveRegisteredChannel(3)).toBe('7日前抽選（3）');
+    expect(resolveRegisteredChannel(42)).toBe('不明（42）');
+  });
+
+  it('resolves ticket and pavilion names', () => {
+    expect(resolveTicketName({ ticket_type_id: '43', item_name: 'Night Ticket' })).toBe('夜間券');
+    expect(resolveTicketName({ ticket_type_id: '999', item_name: 'Night Ticket' })).toBe('Night Ticket');
+    expect(resolvePavilionName('C060', null)).toBe('アイルランド:生演奏含むツアー30分');
+    expect(resolvePavilionName('XXXX', 'Unknown Show')).toBe('Unknown Show');
+    expect(resolvePavilionName('XXXX', undefined)).toBe('不明なパビリオン');
+  });
+
+  it('resolves English labels', () => {
+    expect(resolveUseStateLabel(2, 'en')).toBe('Cancelled');
+    expect(resolveUseStateLabel(7, 'en')).toBe('Unknown status (7)');
+    expect(resolveRegisteredChannel(3, 'en')).toBe('7-day lottery (3)');
+    expect(resolveGateLabel(1, 'en')).toBe('East Gate');
+    expect(resolveTicketName({ ticket_type_id: '43', item_name: '夜間券' }, 'en')).toBe('Night Ticket');
+    expect(resolveTicketName({ ticket_type_id: '91', item_name: '一日券 ※インバウンド' }, 'en')).toBe('One-day Ticket (Inbound)');
+    expect(resolveTicketName({ ticket_type_id: '999', item_name: 'Kids Pass' }, 'en')).toBe('Kids Pass');
+    expect(resolvePavilionName('C060', 'Ireland Pavilion', 'en')).toBe('Ireland Pavilion');
+  });
+
+  it('builds absolute image URLs', () => {
+    expect(buildImageUrl('/tickethub_file/a.gif')).toBe('https://ticket.expo2025.or.jp/tickethub_file/a.gif');
+    expect(buildImageUrl('https://example.com/a.gif')).toBe('https://example.com/a.gif');
+    expect(buildImageUrl(null)).toBeNull();
+  });
+});
+
+describe('locale', () => {
+  it('accepts only supported locales', () => {
+    expect(isLocale('en')).toBe(true);
+    expect(isLocale('fr')).toBe(false);
+    expect(isLocale(null)).toBe(false);
+  });
+
+  it('falls back to English for non-Japanese browsers', () => {
+    expect(resolveLocaleFromLanguage('ja-JP')).toBe('ja');
+    expect(resolveLocaleFromLanguage('en-US')).toBe('en');
+    expect(resolveLocaleFromLanguage('zh-TW')).toBe('en');
+  });
+});
@@ -0,0 +1,70 @@
+import type { Locale } from './locale';
+import type { EntranceSchedule, EventSchedule } from './types';
+
+const notSetLabels: Record<Locale, string> = {
+  ja: '未設定',
+  en: 'Not set'
+};
+
+export const monthShortLabels = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export function formatDate(value?: string | null, locale: Locale = 'ja'): string {
+  if (!value) return notSetLabels[locale];
+  if (value.includes('-')) return value;
+  if (value.length !== 8) return value;
+  if (locale === 'en') {
+    return `${monthShortLabels[Number(value.slice(4, 6)) - 1] ?? value.slice(4, 6)} ${Number(value.slice(6, 8))}, ${value.slice(0, 4)}`;
+  }
+  return `${value.slice(0, 4)}年${value.slice(4, 6)}月${value.slice(6, 8)}日`;
+}
+
+export function formatTime(value?: string | null, locale: Locale = 'ja'): string {
+  if (!value) return notSetLabels[locale];
+  if (value.includes(':')) return value;
+  if (value.length === 4) return `${value.slice(0, 2)}:${value.slice(2)}`;
+  if (value.length === 6) {
+    return `${value.slice(0, 2)}:${value.slice(2, 4)}:${value.slice(4)}`;
+  }
+  return value;
+}
+
+/**
+ * API の日時（例: `2025-05-10 16:37:09 +0900`）を分まで表示する。形式が違う場合はそのまま返す。
+ */
+export function formatApiDateTime(value?: string | null, locale: Locale = 'ja'): string {
+  if (!value) return notSetLabels[locale];
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})/);
+  if (!match) return value;
+  const [, year, month, day, hours, minutes] = match;
+  return `${formatDate(`${year}${month}${day}`, locale)} ${hours}:${minutes}`;
+}
+
+export function extractDigits(value?: string | null): string {
+  return value ? value.replace(/\D/g, '') : '';
+}
+
+export function scheduleSortKey(schedule: EntranceSchedule | EventSchedule): string {
+  const date = schedule.entrance_date && /\d{8}/.test(schedule.entrance_date)
+    ? schedule.entrance_date
+    : '99999999';
+  const startFromField = schedule.start_time && /\d{4}/.test(schedule.start_time)
+    ? schedule.start_time
+    : '';
+  const startFromName = extractDigits(schedule.schedule_name).slice(0, 4);
+  const time = (startFromField || startFromName || '9999').padEnd(4, '9');
+  return `${date}${time}`;
+}
+
+export function compareSchedules(a: EntranceSchedule | EventSchedule, b: EntranceSchedule | EventSchedule): number {
+  const keyA = scheduleSortKey(a);
+  const keyB = scheduleSortKey(b);
+  if (keyA < keyB) return -1;
+  if (keyA > keyB) return 1;
+  return 0;
+}
+
+export function buildImageUrl(path?: string | null): string | null {
+  if (!path) return null;
+  if (path.startsWith('http')) return path;
+  return `https://ticket.expo2025.or.jp${path}`;
+}
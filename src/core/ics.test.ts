@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import sampleTicketPayload from '../../sample/sample.json';
+import { buildIcsCalendar } from './ics';
+import type { Ticket, TicketPayload } from './types';
+
+const sample = sampleTicketPayload as TicketPayload;
+const now = new Date('2025-10-14T00:00:00Z');
+
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('buildIcsCalendar', () => {
+  it('exports every non-cancelled reservation with stable UIDs', () => {
+    const lines = unfold(buildIcsCalendar(sample.list, { now }));
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(19);
+    expect(lines).toContain('UID:entrance-1000011@expo-history-viewer');
+    expect(lines).toContain('UID:event-1000101@expo-history-viewer');
+    expect(lines).toContain('DTSTAMP:20251014T000000Z');
+  });
+
+  it('uses the entrance slot and the pavilion start and end times', () => {
+    const lines = unfold(buildIcsCalendar(sample.list, { now }));
+    const entranceIndex = lines.indexOf('UID:entrance-1000011@expo-history-viewer');
+    expect(lines[entranceIndex + 2]).toBe('DTSTART;TZID=Asia/Tokyo:20250510T170000');
+    expect(lines[entranceIndex + 3]).toBe('DTEND;TZID=Asia/Tokyo:20250510T220000');
+    expect(lines[entranceIndex + 4]).toBe('SUMMARY:万博 入場（西ゲート）');
+
+    const eventIndex = lines.indexOf('UID:event-1000101@expo-history-viewer');
+    expect(lines[eventIndex + 2]).toBe('DTSTART;TZID=Asia/Tokyo:20250621T134500');
+    expect(lines[eventIndex + 3]).toBe('DTEND;TZID=Asia/Tokyo:20250621T143000');
+  });
+
+  it('moves late-night times past 24:00 to the next date', () => {
+    const tickets: Ticket[] = [
+      {
+        ticket_id: 'T1',
+        event_schedules: [{ id: 1, entrance_date: '20250630', start_time: '2330', end_time: '2530', program_code: 'CO70' }]
+      }
+    ];
+    const lines = unfold(buildIcsCalendar(tickets, { now }));
+    expect(lines).toContain('DTSTART;TZID=Asia/Tokyo:20250630T233000');
+    expect(lines).toContain('DTEND;TZID=Asia/Tokyo:20250701T013000');
+  });
+
+  it('writes English summaries', () => {
+    const lines = unfold(buildIcsCalendar(sample.list, { now, locale: 'en' }));
+    const entranceIndex = lines.indexOf('UID:entrance-1000011@expo-history-viewer');
+    expect(lines[entranceIndex + 4]).toMatch(/^SUMMARY:Expo .*West Gate/);
+  });
+
+  it('skips cancelled reservations and escapes text', () => {
+    const tickets: Ticket[] = [
+      {
+        ticket_id: 'T1',
+        item_name: 'テスト, チケット',
+        schedules: [{ user_visiting_reservation_id: 1, entrance_date: '20250601', schedule_name: '9:00-', use_state: 2 }],
+        event_schedules: [{ id: 2, entrance_date: '20250601', event_name: 'A;B', use_state: 0 }]
+      }
+    ];
+    const lines = unfold(buildIcsCalendar(tickets, { now }));
+    expect(lines.some((line) => line.startsWith('UID:entrance-1'))).toBe(false);
+    expect(lines).toContain('SUMMARY:A\\;B');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20250601');
+    expect(lines).toContain('DTEND;VALUE=DATE:20250602');
+    expect(lines).toContain('DESCRIPTION:A. テスト\\, チケット');
+  });
+
+  it('folds long lines at 75 octets', () => {
+    const ics = buildIcsCalendar(sample.list, { now });
+    const encoder = new TextEncoder();
+    expect(ics.split('\r\n').every((line) => encoder.encode(line).length <= 75)).toBe(true);
+  });
+});
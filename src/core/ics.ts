@@ -0,0 +1,182 @@
+import { isCancelledUseState, resolveGateLabel, resolvePavilionName, resolveTicketName } from './labels';
+import type { Locale } from './locale';
+import { getReservationKey, getTicketKey } from './merge';
+import { indexToLabel } from './summary';
+import { formatClock, getEntranceStart, getEventTimeRange } from './timeline';
+import type { Ticket } from './types';
+
+/** 入場予約の終了時刻として使う閉場時刻（時） */
+export const EXPO_CLOSING_HOUR = 22;
+
+const UID_DOMAIN = 'expo-history-viewer';
+const MINUTES_PER_DAY = 24 * 60;
+
+const icsLabels: Record<
+  Locale,
+  { location: string; calendarName: string; entrance: (gate: string) => string; entranceSlot: string; eventSlot: string }
+> = {
+  ja: {
+    location: '大阪・関西万博 夢洲会場',
+    calendarName: '大阪・関西万博の予約',
+    entrance: (gate) => `万博 入場${gate ? `（${gate}）` : ''}`,
+    entranceSlot: '入場枠',
+    eventSlot: '予約枠'
+  },
+  en: {
+    location: 'Expo 2025 Osaka, Kansai, Japan - Yumeshima',
+    calendarName: 'Expo 2025 reservations',
+    entrance: (gate) => `Expo 2025 entry${gate ? ` (${gate})` : ''}`,
+    entranceSlot: 'Entry slot',
+    eventSlot: 'Booked slot'
+  }
+};
+
+export interface IcsExportOptions {
+  /** DTSTAMP に使う日時。省略時は現在時刻 */
+  now?: Date;
+  calendarName?: string;
+  /** 件名・場所などの表示言語。省略時は日本語 */
+  locale?: Locale;
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * RFC 5545 に従い 75 オクテットごとに折り返す。マルチバイト文字の途中では切らない。
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let length = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (length + size > limit) {
+      parts.push(current);
+      current = '';
+      length = 0;
+    }
+    current += char;
+    length += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * `25:30` のような 24 時以降の時刻は翌日の時刻にする（iCalendar の時刻は 23:59 まで）。
+ */
+function formatLocalDateTime(date: string, minutes: number): string {
+  const dayOffset = Math.floor(minutes / MINUTES_PER_DAY);
+  return `${addDays(date, dayOffset)}T${formatClock(minutes - dayOffset * MINUTES_PER_DAY).replace(':', '')}00`;
+}
+
+function formatUtcDateTime(value: Date): string {
+  return value.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8)) + days);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${next.getFullYear()}${pad(next.getMonth() + 1)}${pad(next.getDate())}`;
+}
+
+/**
+ * 予約 ID がない予約はチケットをまたいで重複しないようチケットのキーを前に付ける。
+ */
+function buildUid(ticketKey: string, hasReservationId: boolean, reservationKey: string): string {
+  return `${hasReservationId ? reservationKey : `${ticketKey}-${reservationKey}`}@${UID_DOMAIN}`;
+}
+
+function timeProperties(date: string, start: number | null, end: number | null): string[] {
+  if (start === null) {
+    return [`DTSTART;VALUE=DATE:${date}`, `DTEND;VALUE=DATE:${addDays(date, 1)}`];
+  }
+  return [
+    `DTSTART;TZID=Asia/Tokyo:${formatLocalDateTime(date, start)}`,
+    `DTEND;TZID=Asia/Tokyo:${formatLocalDateTime(date, Math.max(end ?? start, start))}`
+  ];
+}
+
+/**
+ * 入場予約・パビリオン予約を iCalendar 形式に変換する。UID は予約 ID から作るため、
+ * 同じ予約を再度書き出してもカレンダーアプリ側で重複せず更新される。キャンセル済みの予約は含めない。
+ */
+export function buildIcsCalendar(tickets: Ticket[], options: IcsExportOptions = {}): string {
+  const dtstamp = formatUtcDateTime(options.now ?? new Date());
+  const locale = options.locale ?? 'ja';
+  const labels = icsLabels[locale];
+  const events: string[][] = [];
+
+  tickets.forEach((ticket, ticketIndex) => {
+    const ticketKey = getTicketKey(ticket, ticketIndex);
+    const ticketLine = `${indexToLabel(ticketIndex)}. ${resolveTicketName(ticket, locale)}`;
+
+    (ticket.schedules ?? []).forEach((schedule, index) => {
+      if (!schedule.entrance_date || !/^\d{8}$/.test(schedule.entrance_date) || isCancelledUseState(schedule.use_state)) {
+        return;
+      }
+      const uid = buildUid(ticketKey, schedule.user_visiting_reservation_id !== undefined, getReservationKey('entrance', schedule, index));
+      const start = getEntranceStart(schedule);
+      const gateLabel = resolveGateLabel(schedule.gate_type, locale);
+      events.push([
+        `UID:${uid}`,
+        `DTSTAMP:${dtstamp}`,
+        ...timeProperties(schedule.entrance_date, start, start === null ? null : EXPO_CLOSING_HOUR * 60),
+        `SUMMARY:${escapeText(labels.entrance(gateLabel))}`,
+        `LOCATION:${escapeText(gateLabel ? `${labels.location} ${gateLabel}` : labels.location)}`,
+        `DESCRIPTION:${escapeText([ticketLine, schedule.schedule_name ? `${labels.entranceSlot}: ${schedule.schedule_name}` : ''].filter(Boolean).join('\n'))}`
+      ]);
+    });
+
+    (ticket.event_schedules ?? []).forEach((schedule, index) => {
+      if (!schedule.entrance_date || !/^\d{8}$/.test(schedule.entrance_date) || isCancelledUseState(schedule.use_state)) {
+        return;
+      }
+      const uid = buildUid(ticketKey, schedule.id !== undefined, getReservationKey('event', schedule, index));
+      const range = getEventTimeRange(schedule);
+      const pavilionName = resolvePavilionName(schedule.program_code ?? '', schedule.event_name, locale);
+      events.push([
+        `UID:${uid}`,
+        `DTSTAMP:${dtstamp}`,
+        ...timeProperties(schedule.entrance_date, range?.start ?? null, range?.end ?? null),
+        `SUMMARY:${escapeText(pavilionName)}`,
+        `LOCATION:${escapeText(labels.location)}`,
+        `DESCRIPTION:${escapeText([ticketLine, schedule.schedule_name ? `${labels.eventSlot}: ${schedule.schedule_name}` : '', schedule.portal_url ?? ''].filter(Boolean).join('\n'))}`,
+        ...(schedule.portal_url ? [`URL:${schedule.portal_url}`] : [])
+      ]);
+    });
+  });
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${UID_DOMAIN}//${locale.toUpperCase()}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName ?? labels.calendarName)}`,
+    'X-WR-TIMEZONE:Asia/Tokyo',
+    'BEGIN:VTIMEZONE',
+    'TZID:Asia/Tokyo',
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    'TZOFFSETFROM:+0900',
+    'TZOFFSETTO:+0900',
+    'TZNAME:JST',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+    ...events.flatMap((properties) => ['BEGIN:VEVENT', ...properties, 'END:VEVENT']),
+    'END:VCALENDAR'
+  ];
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
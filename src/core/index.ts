@@ -0,0 +1,25 @@
+export * from './types';
+export * from './locale';
+export * from './labels';
+export * from './format';
+export * from './parse';
+export * from './merge';
+export * from './summary';
+export * from './snapshot';
+export * from './daily';
+export * from './timeline';
+export * from './ics';
+export * from './table';
+export * from './filter';
+export * from './stats';
+export * from './pavilionMaster';
+export * from './shareLayout';
+export * from './pdf';
+export * from './printSheet';
+export * from './upcoming';
+export * from './conflicts';
+export * from './party';
+export * from './schema';
+export * from './leadTime';
+export * from './lottery';
+export * from './diagnostics';
@@ -0,0 +1,158 @@
+import { ticketTypes, ticketTypesEn } from '../ticketTypes';
+import { eventNameDic } from '../pavilions';
+import type { Locale } from './locale';
+import type { GateType, Ticket, UseStateType } from './types';
+
+export const gateLabelsByLocale: Record<Locale, Record<GateType, string>> = {
+  ja: {
+    1: '東ゲート',
+    2: '西ゲート'
+  },
+  en: {
+    1: 'East Gate',
+    2: 'West Gate'
+  }
+};
+
+export const useStateLabelsByLocale: Record<Locale, Record<UseStateType, string>> = {
+  ja: {
+    0: '未使用',
+    1: '利用済み',
+    2: 'キャンセル済み',
+    3: 'キャンセル手続き中',
+    4: '変更手続き中',
+    9: 'その他'
+  },
+  en: {
+    0: 'Not used',
+    1: 'Used',
+    2: 'Cancelled',
+    3: 'Cancelling',
+    4: 'Changing',
+    9: 'Other'
+  }
+};
+
+export const registeredChannelLabelsByLocale: Record<Locale, Record<number, string>> = {
+  ja: {
+    0: '当日登録端末・他',
+    1: '超早割特別抽選',
+    2: '2ヶ月前抽選',
+    3: '7日前抽選',
+    4: '3日前先着',
+    5: '当日予約'
+  },
+  en: {
+    0: 'On-site terminal / other',
+    1: 'Super early-bird lottery',
+    2: '2-month lottery',
+    3: '7-day lottery',
+    4: '3-day first-come',
+    5: 'Same-day booking'
+  }
+};
+
+const fallbackLabels: Record<
+  Locale,
+  { unknown: string; unknownUseState: string; gate: string; ticket: string; pavilion: string }
+> = {
+  ja: { unknown: '不明', unknownUseState: '状態不明', gate: 'ゲート', ticket: '不明なチケット', pavilion: '不明なパビリオン' },
+  en: { unknown: 'Unknown', unknownUseState: 'Unknown status', gate: 'Gate ', ticket: 'Unknown ticket', pavilion: 'Unknown pavilion' }
+};
+
+export const gateLabels = gateLabelsByLocale.ja;
+
+export const useStateLabels = useStateLabelsByLocale.ja;
+
+export const registeredChannelLabels = registeredChannelLabelsByLocale.ja;
+
+function withCode(label: string, code: number, locale: Locale): string {
+  return locale === 'ja' ? `${label}（${code}）` : `${label} (${code})`;
+}
+
+/**
+ * 利用状況コードの表示名を返す。未知のコードは `状態不明（n）` になる。
+ */
+export function resolveUseStateLabel(value?: number | null, locale: Locale = 'ja'): string {
+  const fallback = fallbackLabels[locale].unknownUseState;
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+  const label = useStateLabelsByLocale[locale][value as UseStateType];
+  return label ?? withCode(fallback, value, locale);
+}
+
+export function isKnownUseState(value?: number | null): value is UseStateType {
+  return value !== undefined && value !== null && useStateLabels[value as UseStateType] !== undefined;
+}
+
+/**
+ * キャンセル済み・キャンセル手続き中の予約かどうか。
+ */
+export function isCancelledUseState(value?: number | null): boolean {
+  return value === 2 || value === 3;
+}
+
+/**
+ * 登録経路の表示名。コードを付けずに名前だけ返し、未知のコードは空文字にする。
+ */
+export function resolveRegisteredChannelName(channel?: number | null, locale: Locale = 'ja'): string {
+  if (channel === undefined || channel === null) {
+    return '';
+  }
+  return registeredChannelLabelsByLocale[locale][channel] ?? '';
+}
+
+export function resolveRegisteredChannel(channel?: number | null, locale: Locale = 'ja'): string {
+  const unknown = fallbackLabels[locale].unknown;
+  if (channel === undefined || channel === null) {
+    return unknown;
+  }
+  return withCode(resolveRegisteredChannelName(channel, locale) || unknown, channel, locale);
+}
+
+export function resolveGateLabel(gate?: number | null, locale: Locale = 'ja'): string {
+  if (!gate) return '';
+  return gateLabelsByLocale[locale][gate as GateType] ?? `${fallbackLabels[locale].gate}${gate}`;
+}
+
+const ticketTypesByLocale: Record<Locale, Record<string, string>> = {
+  ja: ticketTypes,
+  en: ticketTypesEn
+};
+
+/**
+ * 券種名。券種 ID の辞書を優先し、辞書にない券種はチケット API が返す `item_name` を使う。
+ * 英語の辞書には `※インバウンド` などの注記も訳して載せている。
+ */
+export function resolveTicketName(ticket: Ticket, locale: Locale = 'ja'): string {
+  const name = ticketTypesByLocale[locale][ticket.ticket_type_id ?? ''] || ticket.item_name;
+  return name || fallbackLabels[locale].ticket;
+}
+
+/**
+ * 券種 ID が日本語・英語の両方の辞書（`ticketTypes.ts`）に載っているか。
+ */
+export function isKnownTicketType(ticketTypeId?: string | null): boolean {
+  return Boolean(ticketTypeId && ticketTypes[ticketTypeId] && ticketTypesEn[ticketTypeId]);
+}
+
+/**
+ * プログラムコードが短縮名の辞書（`pavilions.ts`）に載っているか。
+ */
+export function isKnownProgramCode(code?: string | null): boolean {
+  return Boolean(code && eventNameDic[code]);
+}
+
+/**
+ * パビリオンの表示名。日本語では短縮名の辞書を優先し、英語ではイベント名をそのまま使う。
+ */
+export function resolvePavilionName(code: string, name: string|null|undefined, locale: Locale = 'ja'): string {
+  const eventName = (locale === 'ja' ? eventNameDic[code] : undefined) || name || fallbackLabels[locale].pavilion;
+  return eventName
+    .trim()
+    .replace(/^シグネチャーパビリオン\s+/,'')
+    .replace(/\*車いす使用者は下記専用回にご予約下さい$/,'')
+    .replace(/\/年齢に関わらず全員予約が必要$/,'')
+    .replace(/※.+$/,'');
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import longDummyPayload from '../../sample/long-dummy.json';
+import {
+  buildBookingActivity,
+  buildLeadTimeStatistics,
+  getSlotStart,
+  parseApiDateTime,
+  splitLeadTime
+} from './leadTime';
+import type { Ticket, TicketPayload } from './types';
+
+const longDummy = longDummyPayload as TicketPayload;
+
+describe('parseApiDateTime', () => {
+  it('reads the API date format with its offset', () => {
+    expect(parseApiDateTime('2025-05-10 16:37:09 +0900')?.toISOString()).toBe('2025-05-10T07:37:09.000Z');
+    expect(parseApiDateTime('2025-05-10T16:37:09+00:00')?.toISOString()).toBe('2025-05-10T16:37:09.000Z');
+  });
+
+  it('treats a missing offset as Japan time and rejects other formats', () => {
+    expect(parseApiDateTime('2025-05-10 16:37')?.toISOString()).toBe('2025-05-10T07:37:00.000Z');
+    expect(parseApiDateTime('20250510')).toBeNull();
+    expect(parseApiDateTime(undefined)).toBeNull();
+  });
+});
+
+describe('getSlotStart', () => {
+  it('uses the start time, then the schedule name', () => {
+    expect(getSlotStart({ entrance_date: '20250601', start_time: '1345' })?.toISOString()).toBe('2025-06-01T04:45:00.000Z');
+    expect(getSlotStart({ entrance_date: '20250601', schedule_name: '10:00-10:30' })?.toISOString()).toBe(
+      '2025-06-01T01:00:00.000Z'
+    );
+    expect(getSlotStart({ start_time: '1345' })).toBeNull();
+  });
+});
+
+describe('buildLeadTimeStatistics', () => {
+  const tickets: Ticket[] = [
+    {
+      event_schedules: [
+        { entrance_date: '20250601', start_time: '1000', created_at: '2025-04-01 10:00:00 +0900', registered_channel: 2, use_state: 1 },
+        { entrance_date: '20250601', start_time: '1400', created_at: '2025-05-29 14:00:00 +0900', registered_channel: 4, use_state: 0 },
+        { entrance_date: '20250602', start_time: '1200', updated_at: '2025-06-02 09:30:00 +0900', registered_channel: 5, use_state: 0 },
+        { entrance_date: '20250603', start_time: '1000', created_at: '2025-04-01 10:00:00 +0900', registered_channel: 2, use_state: 2 },
+        { entrance_date: '20250604', start_time: '1000', registered_channel: 3, use_state: 0 }
+      ]
+    }
+  ];
+
+  it('computes lead times per reservation and per channel', () => {
+    const stats = buildLeadTimeStatistics(tickets);
+    expect(stats.entries.map((entry) => entry.leadMinutes)).toEqual([61 * 24 * 60, 3 * 24 * 60, 150]);
+    expect(stats.entries[2].isEstimated).toBe(true);
+    expect(stats.skippedCount).toBe(1);
+    expect(stats.channels.map((channel) => channel.label)).toEqual(['2ヶ月前抽選', '3日前先着', '当日予約']);
+    expect(stats.channels[0]).toMatchObject({ count: 1, averageMinutes: 61 * 24 * 60, medianMinutes: 61 * 24 * 60 });
+  });
+
+  it('keeps booking times between receiving the ticket and the slot', () => {
+    const stats = buildLeadTimeStatistics([
+      {
+        received_at: '2025-05-10 16:37:09 +0900',
+        event_schedules: [
+          { entrance_date: '20250621', start_time: '1345', created_at: '2025-06-14 09:00:00 +0900', registered_channel: 3 },
+          { entrance_date: '20250621', start_time: '1500', created_at: '2025-06-21 10:45:00 +0900', registered_channel: 5 },
+          { entrance_date: '20250622', start_time: '1000', created_at: '2024-08-30 01:42:33 +0900', registered_channel: 3 },
+          { entrance_date: '20250623', start_time: '1000', updated_at: '2025-10-14 02:11:26 +0900', registered_channel: 5 }
+        ]
+      }
+    ]);
+    expect(stats.entries.map((entry) => [entry.channel, entry.leadMinutes])).toEqual([
+      [3, 7 * 24 * 60 + 285],
+      [5, 255]
+    ]);
+    expect(stats.notBookingTimeCount).toBe(2);
+    expect(buildBookingActivity(stats.entries, 'day').map((bucket) => bucket.date)).toHaveLength(8);
+  });
+
+  it('finds no booking times in the long dummy payload', () => {
+    // created_at はチケットの受け取り前、updated_at は閉幕後で、パビリオン情報の日時
+    const stats = buildLeadTimeStatistics(longDummy.list);
+    expect(stats.entries).toEqual([]);
+    expect(stats.skippedCount).toBe(0);
+    expect(stats.notBookingTimeCount).toBe(longDummy.list.flatMap((ticket) => ticket.event_schedules ?? []).length);
+  });
+});
+
+describe('buildBookingActivity', () => {
+  const entries = buildLeadTimeStatistics([
+    {
+      event_schedules: [
+        { entrance_date: '20250601', start_time: '1000', created_at: '2025-05-01 00:30:00 +0900', registered_channel: 2 },
+        { entrance_date: '20250601', start_time: '1100', created_at: '2025-05-01 23:30:00 +0900', registered_channel: 3 },
+        { entrance_date: '20250601', start_time: '1200', created_at: '2025-05-04 12:00:00 +0900', registered_channel: 3 },
+        { entrance_date: '20250601', start_time: '1300', created_at: '2025-05-05 12:00:00 +0900', registered_channel: 3 }
+      ]
+    }
+  ]).entries;
+
+  it('counts bookings per Japan day and fills empty days', () => {
+    const days = buildBookingActivity(entries, 'day');
+    expect(days.map((bucket) => [bucket.date, bucket.count])).toEqual([
+      ['20250501', 2],
+      ['20250502', 0],
+      ['20250503', 0],
+      ['20250504', 1],
+      ['20250505', 1]
+    ]);
+    expect(days[0].channels).toEqual({ 2: 1, 3: 1 });
+  });
+
+  it('groups weeks from Monday', () => {
+    expect(buildBookingActivity(entries, 'week').map((bucket) => [bucket.date, bucket.count])).toEqual([
+      ['20250428', 3],
+      ['20250505', 1]
+    ]);
+    expect(buildBookingActivity([], 'week')).toEqual([]);
+  });
+});
+
+describe('splitLeadTime', () => {
+  it('splits minutes into days and hours', () => {
+    expect(splitLeadTime(3 * 24 * 60 + 150)).toEqual({ days: 3, hours: 2 });
+    expect(splitLeadTime(-30)).toEqual({ days: 0, hours: 0 });
+  });
+});
@@ -0,0 +1,208 @@
+import { isCancelledUseState, resolveRegisteredChannel, resolveRegisteredChannelName } from './labels';
+import type { Locale } from './locale';
+import type { EventSchedule, Ticket } from './types';
+
+/** 予約枠の日時は日本時間（+09:00）で表されている */
+const SLOT_TIME_ZONE_OFFSET_MINUTES = 9 * 60;
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface LeadTimeEntry {
+  ticketIndex: number;
+  schedule: EventSchedule;
+  channel: number | null;
+  bookedAt: Date;
+  slotStart: Date;
+  /** 予約してから枠が始まるまでの分数 */
+  leadMinutes: number;
+  /** `created_at` がなく `updated_at` で代用した */
+  isEstimated: boolean;
+}
+
+export interface LeadTimeChannelStat {
+  channel: number | null;
+  label: string;
+  count: number;
+  averageMinutes: number;
+  medianMinutes: number;
+  minMinutes: number;
+  maxMinutes: number;
+}
+
+export type BookingActivityGranularity = 'day' | 'week';
+
+export interface BookingActivityBucket {
+  /** 期間の初日（`YYYYMMDD`、日本時間）。週単位のときは月曜日 */
+  date: string;
+  count: number;
+  /** 登録経路ごとの件数 */
+  channels: Record<string, number>;
+}
+
+export interface LeadTimeStatistics {
+  /** 予約日時の古い順 */
+  entries: LeadTimeEntry[];
+  /** 平均の長い順（早くから予約した経路が先） */
+  channels: LeadTimeChannelStat[];
+  /** 予約日時が分からず集計できなかったパビリオン予約の数 */
+  skippedCount: number;
+  /**
+   * 日時が枠の開始より後、またはチケットの受け取り（`received_at`）より前で、予約した日時ではないとして除いた
+   * パビリオン予約の数。公式 API の `created_at` / `updated_at` はパビリオン情報の作成・更新日時のため、ここに入る
+   */
+  notBookingTimeCount: number;
+}
+
+/**
+ * API の日時（例: `2025-05-10 16:37:09 +0900`）を Date にする。形式が違う場合は null。
+ */
+export function parseApiDateTime(value?: string | null): Date | null {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?\s*(?:([+-])(\d{2}):?(\d{2}))?$/);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hours, minutes, seconds = '0', sign, offsetHours, offsetMinutes] = match;
+  const offset = sign
+    ? (sign === '-' ? -1 : 1) * (Number(offsetHours) * 60 + Number(offsetMinutes))
+    : SLOT_TIME_ZONE_OFFSET_MINUTES;
+  const utc = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+  return new Date(utc - offset * 60000);
+}
+
+/**
+ * 来場日（`YYYYMMDD`）の 0 時（日本時間）から `minutes` 分後の日時。端末のタイムゾーンには左右されない。
+ * 日付の形式が違う場合は null。
+ */
+export function toSlotDate(date: string | undefined, minutes: number): Date | null {
+  if (!date || !/^\d{8}$/.test(date)) {
+    return null;
+  }
+  const utc = Date.UTC(Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8)), 0, minutes);
+  return new Date(utc - SLOT_TIME_ZONE_OFFSET_MINUTES * 60000);
+}
+
+/**
+ * パビリオン予約の枠が始まる日時（日本時間）。開始時刻がなければ時間枠名の数字、それもなければ 0 時とする。
+ */
+export function getSlotStart(schedule: EventSchedule): Date | null {
+  const clock = [schedule.start_time, schedule.schedule_name]
+    .map((value) => value?.replace(/\D/g, '').slice(0, 4) ?? '')
+    .find((digits) => digits.length === 4);
+  const minutes = clock ? Number(clock.slice(0, 2)) * 60 + Number(clock.slice(2)) : 0;
+  return toSlotDate(schedule.entrance_date, minutes);
+}
+
+function median(sorted: number[]): number {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * パビリオン予約ごとに、予約してから枠が始まるまでの時間（リードタイム）を求め、登録経路別に集計する。
+ * 予約日時は `created_at`、なければ `updated_at` を使う。キャンセル済みの予約は含めない。
+ * 枠の開始より後や、チケットを受け取る前の日時は予約できないため、予約日時ではないとみなして除く。
+ */
+export function buildLeadTimeStatistics(tickets: Ticket[], locale: Locale = 'ja'): LeadTimeStatistics {
+  const entries: LeadTimeEntry[] = [];
+  let skippedCount = 0;
+  let notBookingTimeCount = 0;
+
+  tickets.forEach((ticket, ticketIndex) => {
+    const receivedAt = parseApiDateTime(ticket.received_at);
+    (ticket.event_schedules ?? []).forEach((schedule) => {
+      if (isCancelledUseState(schedule.use_state)) {
+        return;
+      }
+      const createdAt = parseApiDateTime(schedule.created_at);
+      const bookedAt = createdAt ?? parseApiDateTime(schedule.updated_at);
+      const slotStart = getSlotStart(schedule);
+      if (!bookedAt || !slotStart) {
+        skippedCount += 1;
+        return;
+      }
+      const channel = schedule.registered_channel ?? null;
+      const leadMinutes = Math.round((slotStart.getTime() - bookedAt.getTime()) / 60000);
+      if (leadMinutes < 0 || (receivedAt && bookedAt < receivedAt)) {
+        notBookingTimeCount += 1;
+        return;
+      }
+      entries.push({ ticketIndex, schedule, channel, bookedAt, slotStart, leadMinutes, isEstimated: createdAt === null });
+    });
+  });
+  entries.sort((a, b) => a.bookedAt.getTime() - b.bookedAt.getTime());
+
+  const byChannel = new Map<number | null, number[]>();
+  entries.forEach((entry) => {
+    byChannel.set(entry.channel, [...(byChannel.get(entry.channel) ?? []), entry.leadMinutes]);
+  });
+  const channels = Array.from(byChannel, ([channel, values]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+      channel,
+      label: resolveRegisteredChannelName(channel, locale) || resolveRegisteredChannel(channel, locale),
+      count: sorted.length,
+      averageMinutes: Math.round(sorted.reduce((total, value) => total + value, 0) / sorted.length),
+      medianMinutes: Math.round(median(sorted)),
+      minMinutes: sorted[0],
+      maxMinutes: sorted[sorted.length - 1]
+    };
+  }).sort((a, b) => b.averageMinutes - a.averageMinutes || (a.channel ?? 99) - (b.channel ?? 99));
+
+  return { entries, channels, skippedCount, notBookingTimeCount };
+}
+
+function toSlotDateKey(time: number): string {
+  const local = new Date(time + SLOT_TIME_ZONE_OFFSET_MINUTES * 60000);
+  return [local.getUTCFullYear(), local.getUTCMonth() + 1, local.getUTCDate()]
+    .map((part, index) => String(part).padStart(index === 0 ? 4 : 2, '0'))
+    .join('');
+}
+
+/**
+ * 予約した日（日本時間）ごと、または週ごと（月曜始まり）の予約件数。件数のない期間も 0 件として埋める。
+ */
+export function buildBookingActivity(
+  entries: LeadTimeEntry[],
+  granularity: BookingActivityGranularity = 'day'
+): BookingActivityBucket[] {
+  if (entries.length === 0) {
+    return [];
+  }
+  const dayMs = MINUTES_PER_DAY * 60000;
+  const bucketStart = (time: number) => {
+    // 日本時間の 0 時に切り下げる
+    const offsetMs = SLOT_TIME_ZONE_OFFSET_MINUTES * 60000;
+    const dayStart = Math.floor((time + offsetMs) / dayMs) * dayMs - offsetMs;
+    if (granularity === 'day') {
+      return dayStart;
+    }
+    const weekday = new Date(dayStart + offsetMs).getUTCDay();
+    return dayStart - ((weekday + 6) % 7) * dayMs;
+  };
+  const step = granularity === 'day' ? dayMs : dayMs * 7;
+
+  const buckets = new Map<number, BookingActivityBucket>();
+  const times = entries.map((entry) => entry.bookedAt.getTime());
+  const first = bucketStart(Math.min(...times));
+  const last = bucketStart(Math.max(...times));
+  for (let start = first; start <= last; start += step) {
+    buckets.set(start, { date: toSlotDateKey(start), count: 0, channels: {} });
+  }
+  entries.forEach((entry) => {
+    const bucket = buckets.get(bucketStart(entry.bookedAt.getTime()));
+    if (!bucket) {
+      return;
+    }
+    const channelKey = String(entry.channel ?? 'unknown');
+    bucket.count += 1;
+    bucket.channels[channelKey] = (bucket.channels[channelKey] ?? 0) + 1;
+  });
+  return Array.from(buckets.values());
+}
+
+/**
+ * リードタイムを日数と時間に分ける。負の値は 0 とする。
+ */
+export function splitLeadTime(minutes: number): { days: number; hours: number } {
+  const clamped = Math.max(0, minutes);
+  return { days: Math.floor(clamped / MINUTES_PER_DAY), hours: Math.floor((clamped % MINUTES_PER_DAY) / 60) };
+}
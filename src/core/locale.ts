@@ -0,0 +1,19 @@
+export type Locale = 'ja' | 'en';
+
+export const supportedLocales: Locale[] = ['ja', 'en'];
+
+export const DEFAULT_LOCALE: Locale = 'ja';
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (supportedLocales as string[]).includes(value);
+}
+
+/**
+ * `ja-JP` や `en-US` のような言語タグを対応する表示言語に丸める。日本語以外はすべて英語にする。
+ */
+export function resolveLocaleFromLanguage(language?: string | null): Locale {
+  if (!language) {
+    return DEFAULT_LOCALE;
+  }
+  return language.toLowerCase().startsWith('ja') ? 'ja' : 'en';
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import sampleTicketPayload from '../../sample/sample.json';
+import { buildLotteryHistory } from './lottery';
+import type { Ticket, TicketPayload } from './types';
+
+const sample = sampleTicketPayload as TicketPayload;
+
+describe('buildLotteryHistory', () => {
+  it('returns empty entries but counts lottery reservations for the sample', () => {
+    const history = buildLotteryHistory(sample.list);
+    expect(history.entries).toEqual([]);
+    expect(history.stats.map((stat) => stat.kind)).toEqual(['fast', 'month', 'day']);
+    expect(history.stats.every((stat) => stat.winRate === null)).toBe(true);
+    const reservationCount = history.stats.reduce((total, stat) => total + stat.reservationCount, 0);
+    const lotteryEvents = sample.list
+      .flatMap((ticket) => ticket.event_schedules ?? [])
+      .filter((schedule) => [1, 2, 3].includes(schedule.registered_channel ?? 0) && ![2, 3].includes(schedule.use_state ?? 0));
+    expect(reservationCount).toBe(lotteryEvents.length);
+  });
+
+  it('reads choices and outcomes from the entries', () => {
+    const tickets: Ticket[] = [
+      {
+        ticket_id: 'T1',
+        fast_lottery: true,
+        lotteries: { fast: [{ entrance_date: '2025-06-01', result: '落選', choices: [{ program_code: 'C930' }] }] },
+        schedules: [
+          {
+            entrance_date: '20250601',
+            month_lottery: true,
+            day_lottery: true,
+            lotteries: {
+              month: [
+                {
+                  status: 'won',
+                  choices: [
+                    { priority: 2, program_code: 'HDH0', start_time: '1100' },
+                    { priority: 1, program_code: 'C930', start_time: '1000' }
+                  ]
+                }
+              ],
+              day: [{ program_code: 'CO70' }, { state: 7 }]
+            }
+          }
+        ],
+        event_schedules: [
+          { entrance_date: '20250601', program_code: 'C930', registered_channel: 2, use_state: 1 },
+          { entrance_date: '20250601', program_code: 'CO70', registered_channel: 3, use_state: 0 },
+          { entrance_date: '20250602', program_code: 'CO70', registered_channel: 3, use_state: 2 }
+        ]
+      }
+    ];
+    const history = buildLotteryHistory(tickets);
+
+    expect(history.entries.map((entry) => [entry.kind, entry.outcome, entry.isOutcomeInferred])).toEqual([
+      ['fast', 'lost', false],
+      ['month', 'won', false],
+      ['day', 'won', true],
+      ['day', 'unknown', false]
+    ]);
+    expect(history.entries[1].choices).toEqual([
+      { order: 1, programCode: 'C930', eventName: undefined, startTime: '1000', won: true },
+      { order: 2, programCode: 'HDH0', eventName: undefined, startTime: '1100', won: false }
+    ]);
+    expect(history.entries[0]).toMatchObject({ date: '20250601', ticketLabel: 'A' });
+    expect(history.entries[2].choices).toEqual([
+      { order: 1, programCode: 'CO70', eventName: undefined, startTime: undefined, won: true }
+    ]);
+    expect(history.entries[3].rawOutcome).toBe('state=7');
+
+    const [fast, month, day] = history.stats;
+    expect(fast).toMatchObject({ entryCount: 1, lost: 1, winRate: 0, flaggedCount: 1, reservationCount: 0 });
+    expect(month).toMatchObject({ entryCount: 1, won: 1, winRate: 1, flaggedCount: 1, reservationCount: 1 });
+    expect(day).toMatchObject({ entryCount: 2, won: 1, unknown: 1, flaggedCount: 1, reservationCount: 1 });
+  });
+
+  it('infers at most one win per reservation and never reads 未当選 as a win', () => {
+    const history = buildLotteryHistory([
+      {
+        schedules: [
+          {
+            entrance_date: '20250601',
+            lotteries: {
+              month: [{ result: '未当選' }, { result: '落選' }, { result: '当選' }],
+              day: [{ program_code: 'C930' }, { program_code: 'CO70' }]
+            }
+          },
+          { entrance_date: '20250602', lotteries: { day: [{}, {}] } }
+        ],
+        event_schedules: [
+          { entrance_date: '20250601', program_code: 'CO70', registered_channel: 3, use_state: 0 },
+          { entrance_date: '20250602', program_code: 'HDH0', registered_channel: 3, use_state: 0 }
+        ]
+      }
+    ]);
+    expect(history.entries.map((entry) => [entry.kind, entry.outcome, entry.isOutcomeInferred])).toEqual([
+      ['month', 'lost', false],
+      ['month', 'lost', false],
+      ['month', 'won', false],
+      ['day', 'unknown', false],
+      ['day', 'won', true],
+      ['day', 'won', true],
+      ['day', 'unknown', false]
+    ]);
+    expect(history.stats[2]).toMatchObject({ won: 2, unknown: 2, reservationCount: 2 });
+  });
+
+  it('keeps outcomes unknown when nothing matches', () => {
+    const history = buildLotteryHistory([
+      { schedules: [{ entrance_date: '20250601', lotteries: { month: [{ state: 1 }], day: ['x'] } }] }
+    ]);
+    expect(history.entries.map((entry) => entry.outcome)).toEqual(['unknown', 'unknown']);
+    expect(history.stats[1]).toMatchObject({ unknown: 1, winRate: null });
+  });
+});
@@ -0,0 +1,231 @@
+import { isCancelledUseState, resolveTicketName } from './labels';
+import type { Locale } from './locale';
+import { getTicketKey } from './merge';
+import { indexToLabel } from './summary';
+import type { EventSchedule, Ticket } from './types';
+
+/**
+ * - `fast`: 超早割特別抽選（チケット単位）
+ * - `month`: 2ヶ月前抽選（入場予約単位）
+ * - `day`: 7日前抽選（入場予約単位）
+ */
+export type LotteryKind = 'fast' | 'month' | 'day';
+
+export const lotteryKinds: LotteryKind[] = ['fast', 'month', 'day'];
+
+/** 抽選で取れたパビリオン予約の `registered_channel` */
+export const lotteryChannelByKind: Record<LotteryKind, number> = {
+  fast: 1,
+  month: 2,
+  day: 3
+};
+
+/**
+ * - `won` / `lost`: 当選 / 落選
+ * - `pending`: 抽選待ち
+ * - `unknown`: 結果を読み取れなかった
+ */
+export type LotteryOutcome = 'won' | 'lost' | 'pending' | 'unknown';
+
+export interface LotteryChoice {
+  /** 第 n 希望 */
+  order: number;
+  programCode?: string;
+  eventName?: string;
+  startTime?: string;
+  /** 同じ日・同じパビリオンを抽選の経路で予約できていれば true。判断できなければ null */
+  won: boolean | null;
+}
+
+export interface LotteryEntry {
+  key: string;
+  kind: LotteryKind;
+  ticketKey: string;
+  ticketLabel: string;
+  ticketName: string;
+  /** `YYYYMMDD`。入場予約の抽選はその入場日 */
+  date?: string;
+  choices: LotteryChoice[];
+  outcome: LotteryOutcome;
+  /** 結果を申込履歴ではなく予約の登録経路から推定した */
+  isOutcomeInferred: boolean;
+  /** 結果として読み取れなかったコード値など */
+  rawOutcome?: string;
+  raw: unknown;
+}
+
+export interface LotteryKindStat {
+  kind: LotteryKind;
+  entryCount: number;
+  won: number;
+  lost: number;
+  pending: number;
+  unknown: number;
+  /** 当選 /（当選 + 落選）。対象がなければ null */
+  winRate: number | null;
+  /** `fast_lottery` / `month_lottery` / `day_lottery` が true のチケット・入場予約の数 */
+  flaggedCount: number;
+  /** その抽選の経路で取れたパビリオン予約の数（キャンセルを除く） */
+  reservationCount: number;
+}
+
+export interface LotteryHistory {
+  /** 種類（fast → month → day）、日付の順 */
+  entries: LotteryEntry[];
+  stats: LotteryKindStat[];
+}
+
+const choiceListKeys = ['choices', 'wishes', 'applies', 'entries', 'programs', 'event_schedules'];
+const outcomeKeys = ['result', 'lottery_result', 'lottery_state', 'state', 'status'];
+const wonFlagKeys = ['is_win', 'won', 'is_elected', 'elected'];
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function readString(record: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string' && value) return value;
+    if (typeof value === 'number') return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * 申込履歴の結果の項目を読む。文字列と真偽値だけを解釈し、意味の分からないコード値は `rawOutcome` に残す。
+ * 文字列は値全体で照合し、`未当選` のように語の一部が一致するだけのものを当選としない。
+ */
+function readOutcome(record: Record<string, unknown>): { outcome: LotteryOutcome; rawOutcome?: string } {
+  for (const key of wonFlagKeys) {
+    if (typeof record[key] === 'boolean') {
+      return { outcome: record[key] ? 'won' : 'lost' };
+    }
+  }
+  for (const key of outcomeKeys) {
+    const value = record[key];
+    if (typeof value === 'string') {
+      const text = value.trim();
+      if (/^(当選|win|won|elected)$/i.test(text)) return { outcome: 'won' };
+      if (/^(未当選|落選|lose|lost|fail|failed)$/i.test(text)) return { outcome: 'lost' };
+      if (/^(抽選待ち?|申込済み?|申込中|pending|waiting|applied)$/i.test(text)) return { outcome: 'pending' };
+      return { outcome: 'unknown', rawOutcome: value };
+    }
+    if (typeof value === 'number') {
+      return { outcome: 'unknown', rawOutcome: `${key}=${value}` };
+    }
+  }
+  return { outcome: 'unknown' };
+}
+
+function readChoices(record: Record<string, unknown>): Omit<LotteryChoice, 'won'>[] {
+  const list = choiceListKeys.map((key) => record[key]).find(Array.isArray) as unknown[] | undefined;
+  const items = list ?? (readString(record, ['program_code', 'event_code']) ? [record] : []);
+  return items
+    .map(asRecord)
+    .filter((item): item is Record<string, unknown> => item !== null)
+    .map((item, index) => ({
+      order: Number(readString(item, ['priority', 'wish_no', 'choice_no', 'order'])) || index + 1,
+      programCode: readString(item, ['program_code', 'event_code']),
+      eventName: readString(item, ['event_name', 'program_name']),
+      startTime: readString(item, ['start_time', 'schedule_name'])
+    }))
+    .sort((a, b) => a.order - b.order);
+}
+
+function normalizeDate(value?: string): string | undefined {
+  const digits = value?.replace(/\D/g, '').slice(0, 8);
+  return digits && digits.length === 8 ? digits : undefined;
+}
+
+/**
+ * 読み込んだチケットの抽選の申込履歴（`lotteries.fast` / `month` / `day`）を一覧にし、抽選の種類ごとに当選率を求める。
+ * 申込履歴の要素の形は公開されていないため、よく使われる項目名だけを読み取る。結果の項目がない申込は、
+ * 同じ日に同じ抽選の経路で取れた希望のパビリオンの予約があれば当選と推定する。推定に使った予約は 1 件の申込にだけ
+ * 割り当て、コード値など読み取れなかった結果は推定せずに不明のままにする。
+ */
+export function buildLotteryHistory(tickets: Ticket[], locale: Locale = 'ja'): LotteryHistory {
+  const entries: LotteryEntry[] = [];
+  const stats = new Map<LotteryKind, LotteryKindStat>(
+    lotteryKinds.map((kind) => [
+      kind,
+      { kind, entryCount: 0, won: 0, lost: 0, pending: 0, unknown: 0, winRate: null, flaggedCount: 0, reservationCount: 0 }
+    ])
+  );
+
+  tickets.forEach((ticket, ticketIndex) => {
+    const ticketKey = getTicketKey(ticket, ticketIndex);
+    const base = { ticketKey, ticketLabel: indexToLabel(ticketIndex), ticketName: resolveTicketName(ticket, locale) };
+    // 当選の推定に使ったパビリオン予約
+    const usedEvents = new Set<EventSchedule>();
+    const lotteryEvents = (kind: LotteryKind, date?: string): EventSchedule[] =>
+      (ticket.event_schedules ?? []).filter(
+        (schedule) =>
+          schedule.registered_channel === lotteryChannelByKind[kind] &&
+          !isCancelledUseState(schedule.use_state) &&
+          (date === undefined || schedule.entrance_date === date)
+      );
+
+    const addEntries = (kind: LotteryKind, list: unknown[] | undefined, keyPrefix: string, scheduleDate?: string) => {
+      (list ?? []).forEach((raw, index) => {
+        const record = asRecord(raw) ?? {};
+        const date = normalizeDate(readString(record, ['entrance_date', 'date'])) ?? scheduleDate;
+        const wonEvents = kind === 'fast' && date === undefined ? [] : lotteryEvents(kind, date);
+        const choices = readChoices(record).map((choice) => ({
+          ...choice,
+          won: choice.programCode ? wonEvents.some((schedule) => schedule.program_code === choice.programCode) : null
+        }));
+        const read = readOutcome(record);
+        let outcome = read.outcome;
+        const rawOutcome = read.rawOutcome;
+        let inferredEvent: EventSchedule | undefined;
+        if (outcome === 'unknown' && rawOutcome === undefined) {
+          // 希望のパビリオンが分かる申込は、そのパビリオンの予約だけを当選の根拠にする
+          const programCodes = choices.map((choice) => choice.programCode).filter(Boolean);
+          inferredEvent = wonEvents.find(
+            (schedule) =>
+              !usedEvents.has(schedule) && (programCodes.length === 0 || programCodes.includes(schedule.program_code))
+          );
+        }
+        const isOutcomeInferred = inferredEvent !== undefined;
+        if (inferredEvent) {
+          usedEvents.add(inferredEvent);
+          outcome = 'won';
+        }
+        entries.push({ ...base, key: `${keyPrefix}-${index}`, kind, date, choices, outcome, isOutcomeInferred, rawOutcome, raw });
+      });
+    };
+
+    if (ticket.fast_lottery) {
+      (stats.get('fast') as LotteryKindStat).flaggedCount += 1;
+    }
+    addEntries('fast', ticket.lotteries?.fast, `${ticketKey}-fast`);
+    (ticket.schedules ?? []).forEach((schedule, scheduleIndex) => {
+      const scheduleKey = `${ticketKey}-${schedule.user_visiting_reservation_id ?? scheduleIndex}`;
+      if (schedule.month_lottery) {
+        (stats.get('month') as LotteryKindStat).flaggedCount += 1;
+      }
+      if (schedule.day_lottery) {
+        (stats.get('day') as LotteryKindStat).flaggedCount += 1;
+      }
+      addEntries('month', schedule.lotteries?.month, `${scheduleKey}-month`, normalizeDate(schedule.entrance_date));
+      addEntries('day', schedule.lotteries?.day, `${scheduleKey}-day`, normalizeDate(schedule.entrance_date));
+    });
+    lotteryKinds.forEach((kind) => {
+      (stats.get(kind) as LotteryKindStat).reservationCount += lotteryEvents(kind).length;
+    });
+  });
+
+  entries.forEach((entry) => {
+    const stat = stats.get(entry.kind) as LotteryKindStat;
+    stat.entryCount += 1;
+    stat[entry.outcome] += 1;
+  });
+  stats.forEach((stat) => {
+    stat.winRate = stat.won + stat.lost > 0 ? stat.won / (stat.won + stat.lost) : null;
+  });
+
+  const kindOrder = (kind: LotteryKind) => lotteryKinds.indexOf(kind);
+  entries.sort((a, b) => kindOrder(a.kind) - kindOrder(b.kind) || (a.date ?? '').localeCompare(b.date ?? ''));
+  return { entries, stats: Array.from(stats.values()) };
+}
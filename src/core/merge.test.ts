@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import sampleTicketPayload from '../../sample/sample.json';
+import longDummyPayload from '../../sample/long-dummy.json';
+import { getTicketKey, mergeTicketPayloads, mergeTicketPayloadsWithReport } from './merge';
+import type { TicketPayload } from './types';
+
+const sample = sampleTicketPayload as TicketPayload;
+const longDummy = longDummyPayload as TicketPayload;
+
+describe('getTicketKey', () => {
+  it('prefers id, then ticket_id, then the index', () => {
+    expect(getTicketKey({ id: 5, ticket_id: 'A' }, 0)).toBe('id-5');
+    expect(getTicketKey({ ticket_id: 'A' }, 0)).toBe('ticket-A');
+    expect(getTicketKey({}, 3)).toBe('index-3');
+  });
+});
+
+describe('mergeTicketPayloads', () => {
+  it('keeps the incoming payload when nothing is loaded yet', () => {
+    const merged = mergeTicketPayloads(null, longDummy);
+    expect(merged.list).toHaveLength(longDummy.list.length);
+  });
+
+  it('merges tickets with the same ticket_id instead of duplicating them', () => {
+    const first = mergeTicketPayloads(null, longDummy);
+    const changed: TicketPayload = {
+      list: [{ ...longDummy.list[0], item_name: 'changed' }]
+    };
+    const merged = mergeTicketPayloads(first, changed);
+    expect(merged.list).toHaveLength(longDummy.list.length);
+    expect(merged.list[0].item_name).toBe('changed');
+    expect(merged.list[0].schedules).toEqual(longDummy.list[0].schedules);
+  });
+
+  it('drops sample tickets once real data is merged in', () => {
+    const withSample = mergeTicketPayloads(null, sample);
+    expect(withSample.list).toHaveLength(2);
+    const merged = mergeTicketPayloads(withSample, longDummy);
+    expect(merged.list.some((ticket) => ticket.is_sample)).toBe(false);
+    expect(merged.list).toHaveLength(longDummy.list.length);
+  });
+
+  it('keeps tickets without a ticket_id', () => {
+    const merged = mergeTicketPayloads({ list: [{ id: 1 }] }, { list: [{ id: 2 }] });
+    expect(merged.list).toHaveLength(2);
+  });
+});
+
+describe('mergeTicketPayloadsWithReport', () => {
+  const existing: TicketPayload = {
+    list: [
+      {
+        id: 1,
+        ticket_id: 'T1',
+        ticket_type_id: '21',
+        schedules: [
+          { user_visiting_reservation_id: 10, entrance_date: '20250801', schedule_name: '10:00-', use_state: 0 },
+          { user_visiting_reservation_id: 11, entrance_date: '20250802', schedule_name: '11:00-', use_state: 1, admission_time: '110203' }
+        ],
+        event_schedules: [{ id: 100, entrance_date: '20250801', start_time: '1300', use_state: 0 }]
+      }
+    ]
+  };
+
+  it('unions reservations and prefers the fresher state', () => {
+    const incoming: TicketPayload = {
+      list: [
+        {
+          id: 1,
+          ticket_id: 'T1',
+          ticket_type_id: '21',
+          schedules: [
+            { user_visiting_reservation_id: 10, entrance_date: '20250801', schedule_name: '10:00-', use_state: 1, admission_time: '100512' },
+            { user_visiting_reservation_id: 11, entrance_date: '20250802', schedule_name: '11:00-', use_state: 0 }
+          ],
+          event_schedules: [{ id: 101, entrance_date: '20250801', start_time: '1500', use_state: 0 }]
+        }
+      ]
+    };
+    const { payload, report } = mergeTicketPayloadsWithReport(existing, incoming);
+    const [ticket] = payload.list;
+    expect(payload.list).toHaveLength(1);
+    expect(ticket.schedules?.map((schedule) => schedule.use_state)).toEqual([1, 1]);
+    expect(ticket.schedules?.[1].admission_time).toBe('110203');
+    expect(ticket.event_schedules?.map((event) => event.id)).toEqual([100, 101]);
+    expect(report).toEqual({
+      addedTickets: [],
+      mergedTickets: ['T1'],
+      addedReservations: 1,
+      updatedReservations: 1,
+      conflicts: []
+    });
+  });
+
+  it('uses updated_at to break ties and reports undecidable conflicts', () => {
+    const base = existing.list[0];
+    const incoming: TicketPayload = {
+      list: [
+        { ...base, schedules: [{ ...base.schedules![0], gate_type: 2 }], event_schedules: [] },
+        { ticket_id: 'T2', schedules: [] }
+      ]
+    };
+    const withUpdatedAt: TicketPayload = {
+      list: [{ ...base, event_schedules: [{ ...base.event_schedules![0], updated_at: '2025-07-01 10:00:00 +0900' }] }]
+    };
+    const newerEvent: TicketPayload = {
+      list: [{ ...base, event_schedules: [{ ...base.event_schedules![0], start_time: '1400', updated_at: '2025-07-02 10:00:00 +0900' }] }]
+    };
+
+    const { payload, report } = mergeTicketPayloadsWithReport(existing, incoming);
+    expect(payload.list[0].schedules?.[0].gate_type).toBe(2);
+    expect(payload.list[0].schedules).toHaveLength(2);
+    expect(report.addedTickets).toEqual(['T2']);
+    expect(report.conflicts).toHaveLength(1);
+    expect(report.conflicts[0].key).toBe('T1:entrance-10');
+    expect(report.conflicts[0].fields.map((field) => field.field)).toEqual(['gate_type']);
+
+    const byUpdatedAt = mergeTicketPayloadsWithReport(withUpdatedAt, newerEvent);
+    expect(byUpdatedAt.payload.list[0].event_schedules?.[0].start_time).toBe('1400');
+    expect(byUpdatedAt.report.updatedReservations).toBe(1);
+    expect(byUpdatedAt.report.conflicts).toEqual([]);
+  });
+});
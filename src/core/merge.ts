@@ -0,0 +1,228 @@
+import { resolveTicketName } from './labels';
+import type { EntranceSchedule, EventSchedule, Ticket, TicketPayload } from './types';
+
+export type ReservationKind = 'entrance' | 'event';
+
+export interface ReservationFieldChange {
+  field: keyof EntranceSchedule | keyof EventSchedule;
+  before: unknown;
+  after: unknown;
+}
+
+export interface MergeConflict {
+  key: string;
+  kind: ReservationKind;
+  ticketId: string;
+  ticketName: string;
+  existing: EntranceSchedule | EventSchedule;
+  incoming: EntranceSchedule | EventSchedule;
+  fields: ReservationFieldChange[];
+}
+
+export interface MergeReport {
+  /** 新しく追加されたチケットの `ticket_id`（未設定ならチケット名） */
+  addedTickets: string[];
+  /** 既存チケットと予約単位で統合されたチケットの `ticket_id` */
+  mergedTickets: string[];
+  addedReservations: number;
+  updatedReservations: number;
+  conflicts: MergeConflict[];
+}
+
+export interface MergeResult {
+  payload: TicketPayload;
+  report: MergeReport;
+}
+
+export const comparableReservationFields: Record<ReservationKind, (keyof EntranceSchedule | keyof EventSchedule)[]> = {
+  entrance: ['entrance_date', 'schedule_name', 'start_time', 'gate_type', 'use_state', 'admission_time'],
+  event: ['entrance_date', 'schedule_name', 'start_time', 'end_time', 'use_state', 'admission_time', 'registered_channel']
+};
+
+/**
+ * 利用状況の「新しさ」。未使用 → 手続き中 → 確定（利用済み・キャンセル済み）の順に進むので、
+ * 値が大きい方を新しいデータとみなす。
+ */
+const useStateFreshness: Record<number, number> = {
+  0: 0,
+  3: 1,
+  4: 1,
+  9: 2,
+  1: 3,
+  2: 3
+};
+
+export function getTicketKey(ticket: Ticket, index: number): string {
+  if (ticket.id !== undefined) {
+    return `id-${ticket.id}`;
+  }
+  if (ticket.ticket_id) {
+    return `ticket-${ticket.ticket_id}`;
+  }
+  return `index-${index}`;
+}
+
+export function getReservationKey(kind: ReservationKind, schedule: EntranceSchedule | EventSchedule, index: number): string {
+  if (kind === 'entrance') {
+    const reservationId = (schedule as EntranceSchedule).user_visiting_reservation_id;
+    if (reservationId !== undefined) {
+      return `entrance-${reservationId}`;
+    }
+  } else if (schedule.id !== undefined) {
+    return `event-${schedule.id}`;
+  }
+  return `${kind}-${schedule.entrance_date ?? 'unknown'}-${schedule.start_time ?? schedule.schedule_name ?? index}`;
+}
+
+export function diffReservationFields(
+  kind: ReservationKind,
+  before: EntranceSchedule | EventSchedule,
+  after: EntranceSchedule | EventSchedule
+): ReservationFieldChange[] {
+  return comparableReservationFields[kind]
+    .filter((field) => {
+      const beforeValue = (before as Record<string, unknown>)[field];
+      const afterValue = (after as Record<string, unknown>)[field];
+      return (beforeValue ?? null) !== (afterValue ?? null);
+    })
+    .map((field) => ({
+      field,
+      before: (before as Record<string, unknown>)[field],
+      after: (after as Record<string, unknown>)[field]
+    }));
+}
+
+function createEmptyReport(): MergeReport {
+  return {
+    addedTickets: [],
+    mergedTickets: [],
+    addedReservations: 0,
+    updatedReservations: 0,
+    conflicts: []
+  };
+}
+
+function freshnessOf(schedule: EntranceSchedule | EventSchedule): number {
+  const stateRank = schedule.use_state !== undefined ? useStateFreshness[schedule.use_state] ?? 0 : -1;
+  return stateRank * 2 + (schedule.admission_time ? 1 : 0);
+}
+
+type ReservationResolution = 'same' | 'existing' | 'incoming' | 'conflict';
+
+function resolveReservation(
+  kind: ReservationKind,
+  existing: EntranceSchedule | EventSchedule,
+  incoming: EntranceSchedule | EventSchedule
+): { resolution: ReservationResolution; fields: ReservationFieldChange[] } {
+  const fields = diffReservationFields(kind, existing, incoming);
+  if (fields.length === 0) {
+    return { resolution: 'same', fields };
+  }
+  const existingFreshness = freshnessOf(existing);
+  const incomingFreshness = freshnessOf(incoming);
+  if (existingFreshness !== incomingFreshness) {
+    return { resolution: existingFreshness > incomingFreshness ? 'existing' : 'incoming', fields };
+  }
+  const existingUpdatedAt = (existing as EventSchedule).updated_at;
+  const incomingUpdatedAt = (incoming as EventSchedule).updated_at;
+  if (existingUpdatedAt && incomingUpdatedAt && existingUpdatedAt !== incomingUpdatedAt) {
+    return { resolution: existingUpdatedAt > incomingUpdatedAt ? 'existing' : 'incoming', fields };
+  }
+  return { resolution: 'conflict', fields };
+}
+
+function mergeTicket(existing: Ticket, incoming: Ticket, report: MergeReport): Ticket {
+  const ticketId = incoming.ticket_id?.trim() ?? '';
+  const ticketName = resolveTicketName(incoming);
+
+  const mergeList = <T extends EntranceSchedule | EventSchedule>(
+    kind: ReservationKind,
+    existingList: T[] | null | undefined,
+    incomingList: T[] | null | undefined
+  ): T[] | null => {
+    if (!existingList && !incomingList) {
+      return null;
+    }
+    const merged: T[] = [...(existingList ?? [])];
+    const indexByKey = new Map<string, number>();
+    merged.forEach((schedule, index) => {
+      indexByKey.set(getReservationKey(kind, schedule, index), index);
+    });
+    (incomingList ?? []).forEach((schedule, index) => {
+      const key = getReservationKey(kind, schedule, index);
+      const existingIndex = indexByKey.get(key);
+      if (existingIndex === undefined) {
+        indexByKey.set(key, merged.length);
+        merged.push(schedule);
+        report.addedReservations += 1;
+        return;
+      }
+      const current = merged[existingIndex];
+      const { resolution, fields } = resolveReservation(kind, current, schedule);
+      if (resolution === 'incoming') {
+        merged[existingIndex] = schedule;
+        report.updatedReservations += 1;
+      } else if (resolution === 'conflict') {
+        // どちらが新しいか判断できない場合は後から読み込んだデータを採用する
+        merged[existingIndex] = schedule;
+        report.conflicts.push({ key: `${ticketId}:${key}`, kind, ticketId, ticketName, existing: current, incoming: schedule, fields });
+      }
+    });
+    return merged;
+  };
+
+  return {
+    ...existing,
+    ...incoming,
+    id: existing.id ?? incoming.id,
+    schedules: mergeList('entrance', existing.schedules, incoming.schedules),
+    event_schedules: mergeList('event', existing.event_schedules, incoming.event_schedules)
+  };
+}
+
+/**
+ * 既存データに新しく読み込んだデータを統合する。同じ `ticket_id` のチケットは捨てずに、
+ * 入場予約は `user_visiting_reservation_id`、パビリオン予約は `id` 単位で和集合を取り、
+ * 同じ予約が両方にある場合は利用状況がより進んでいる方を採用する。
+ */
+export function mergeTicketPayloadsWithReport(existing: TicketPayload | null, incoming: TicketPayload): MergeResult {
+  const merged: Ticket[] = [];
+  const indexByTicketId = new Map<string, number>();
+  const isNotSample = incoming.is_sample !== true;
+  const report = createEmptyReport();
+
+  const addTicket = (ticket: Ticket, isIncoming: boolean) => {
+    if (isNotSample && ticket.is_sample === true) {
+      return;
+    }
+    const ticketId = ticket.ticket_id?.trim();
+    if (ticketId) {
+      const existingIndex = indexByTicketId.get(ticketId);
+      if (existingIndex !== undefined) {
+        // 既存データ内の重複は統合するだけで、今回の読み込み結果には含めない
+        merged[existingIndex] = mergeTicket(merged[existingIndex], ticket, isIncoming ? report : createEmptyReport());
+        if (isIncoming && !report.mergedTickets.includes(ticketId)) {
+          report.mergedTickets.push(ticketId);
+        }
+        return;
+      }
+      indexByTicketId.set(ticketId, merged.length);
+    }
+    merged.push(ticket);
+    if (isIncoming) {
+      report.addedTickets.push(ticketId || resolveTicketName(ticket));
+    }
+  };
+
+  if (existing) {
+    existing.list.forEach((ticket) => addTicket(ticket, false));
+  }
+
+  incoming.list.forEach((ticket) => addTicket(ticket, true));
+
+  return { payload: { list: merged }, report };
+}
+
+export function mergeTicketPayloads(existing: TicketPayload | null, incoming: TicketPayload): TicketPayload {
+  return mergeTicketPayloadsWithReport(existing, incoming).payload;
+}
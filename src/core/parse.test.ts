@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import sampleTicketPayload from '../../sample/sample.json';
+import {
+  extractEmbeddedTicketJson,
+  isTicketPayload,
+  locateJsonSyntaxError,
+  parseTicketJson,
+  parseTicketJsonWithRepairs,
+  removeTrailingCommas,
+  TicketParseError,
+  tryParseTickets
+} from './parse';
+
+const sampleText = JSON.stringify(sampleTicketPayload);
+
+describe('isTicketPayload', () => {
+  it('accepts objects with a list array', () => {
+    expect(isTicketPayload({ list: [] })).toBe(true);
+    expect(isTicketPayload(sampleTicketPayload)).toBe(true);
+  });
+
+  it('rejects other values', () => {
+    expect(isTicketPayload(null)).toBe(false);
+    expect(isTicketPayload([])).toBe(false);
+    expect(isTicketPayload({ list: {} })).toBe(false);
+    expect(isTicketPayload('{"list":[]}')).toBe(false);
+  });
+});
+
+describe('tryParseTickets', () => {
+  it('returns null for invalid JSON or other shapes', () => {
+    expect(tryParseTickets('{')).toBeNull();
+    expect(tryParseTickets('[1, 2]')).toBeNull();
+  });
+});
+
+describe('extractEmbeddedTicketJson', () => {
+  it('finds the ticket JSON inside surrounding markup', () => {
+    const html = `<html><body><pre>${sampleText}</pre></body></html>`;
+    expect(extractEmbeddedTicketJson(html)).toBe(sampleText);
+  });
+
+  it('ignores NUL bytes from binary web archives', () => {
+    const archive = `bplist00\u0000\u0000${sampleText}\u0000trailer`;
+    expect(extractEmbeddedTicketJson(archive)).toBe(sampleText);
+  });
+
+  it('returns null when the object is not closed', () => {
+    expect(extractEmbeddedTicketJson('{"list":[{"id":1}')).toBeNull();
+    expect(extractEmbeddedTicketJson('no json here')).toBeNull();
+  });
+});
+
+describe('parseTicketJson', () => {
+  it('parses the bundled sample', () => {
+    const payload = parseTicketJson(sampleText);
+    expect(payload.list).toHaveLength(2);
+    expect(payload.is_sample).toBe(true);
+  });
+
+  it('parses JSON embedded in an HTML page', () => {
+    const payload = parseTicketJson(`<!DOCTYPE html><pre>${sampleText}</pre>`);
+    expect(payload.list.map((ticket) => ticket.ticket_id)).toEqual(['TICKET0001', 'TICKET0002']);
+  });
+
+  it('reports empty input', () => {
+    expect(() => parseTicketJson('   \n')).toThrow('JSONが空です。');
+  });
+
+  it('tags errors with a code for localized messages', () => {
+    const codeOf = (text: string) => {
+      try {
+        parseTicketJson(text);
+      } catch (error) {
+        return error instanceof TicketParseError ? error.code : null;
+      }
+      return null;
+    };
+    expect(codeOf('')).toBe('empty');
+    expect(codeOf('{"message":"Unauthorized"}')).toBe('unauthorized');
+    expect(codeOf('{"foo":1}')).toBe('invalid');
+  });
+
+  it('reports an expired login', () => {
+    expect(() => parseTicketJson('{"message":"Unauthorized"}')).toThrow(/ログインできていません/);
+  });
+
+  it('reports anything else as a generic failure', () => {
+    expect(() => parseTicketJson('{"foo":1}')).toThrow('JSONの解析に失敗しました。ファイルの形式を確認してください。');
+  });
+});
+
+describe('locateJsonSyntaxError', () => {
+  it('returns null for valid JSON', () => {
+    expect(locateJsonSyntaxError(sampleText)).toBeNull();
+    expect(locateJsonSyntaxError('[1, -2.5e3, "a\\n\\u3042", true, null, {}]')).toBeNull();
+  });
+
+  it('points at the first error with its line, column and snippet', () => {
+    expect(locateJsonSyntaxError('{\n  "list": [\n    {"id": 1,, "x": 2}\n  ]\n}')).toEqual({
+      offset: 27,
+      line: 3,
+      column: 14,
+      isAtEnd: false,
+      snippet: '    {"id": 1,, "x": 2}\n             ^'
+    });
+  });
+
+  it('marks input that ends too early', () => {
+    const text = '{"list": [{"id": 1}, {"id"';
+    expect(locateJsonSyntaxError(text)).toMatchObject({ offset: text.length, isAtEnd: true, line: 1 });
+  });
+
+  it('shortens long lines around the error', () => {
+    const text = `{"a": "${'x'.repeat(100)}" "b": 1}`;
+    const location = locateJsonSyntaxError(text);
+    expect(location?.column).toBe(110);
+    const [excerpt, caret] = (location?.snippet ?? '').split('\n');
+    expect(excerpt.startsWith('…')).toBe(true);
+    expect(excerpt[caret.indexOf('^')]).toBe('"');
+    expect(caret.trim()).toBe('^');
+  });
+
+  it('scans deeply nested input without overflowing the stack', () => {
+    const depth = 200000;
+    expect(locateJsonSyntaxError('['.repeat(depth) + ']'.repeat(depth))).toBeNull();
+    expect(locateJsonSyntaxError(`{"a": ${'['.repeat(depth)}`)).toMatchObject({ isAtEnd: true });
+    expect(locateJsonSyntaxError(`[{"a": [1, {"b": 2}]}, 3}`)).toMatchObject({ offset: 24 });
+  });
+});
+
+describe('removeTrailingCommas', () => {
+  it('drops commas before closing brackets outside strings', () => {
+    expect(removeTrailingCommas('{"a": [1, 2, ], "b": ",]", }')).toBe('{"a": [1, 2 ], "b": ",]" }');
+  });
+});
+
+describe('parseTicketJsonWithRepairs', () => {
+  const ticket = { ticket_id: 'T1', schedules: [] };
+  const codeOf = (text: string) => {
+    try {
+      parseTicketJsonWithRepairs(text);
+    } catch (error) {
+      return error instanceof TicketParseError ? error.code : null;
+    }
+    return null;
+  };
+
+  it('wraps a single ticket or an array of tickets', () => {
+    expect(parseTicketJsonWithRepairs(JSON.stringify(ticket))).toEqual({
+      payload: { list: [ticket] },
+      repairs: ['wrappedSingleTicket']
+    });
+    expect(parseTicketJsonWithRepairs(JSON.stringify([ticket, ticket])).repairs).toEqual(['wrappedTicketArray']);
+    expect(parseTicketJsonWithRepairs(sampleText).repairs).toEqual([]);
+  });
+
+  it('removes trailing commas', () => {
+    expect(parseTicketJsonWithRepairs('{"list": [{"ticket_id": "T1",},],}')).toEqual({
+      payload: { list: [{ ticket_id: 'T1' }] },
+      repairs: ['removedTrailingCommas']
+    });
+  });
+
+  it('recognises common wrong inputs', () => {
+    expect(codeOf('<!DOCTYPE html><form><input type="password"></form>')).toBe('loginPage');
+    expect(codeOf('<html><body>メンテナンス中</body></html>')).toBe('html');
+    expect(codeOf('[{"id": 1, "event_code": "C060", "program_code": "C060"}]')).toBe('eventCatalogue');
+    expect(codeOf(sampleText.slice(0, 200))).toBe('truncated');
+    expect(codeOf('{"list": [} ]')).toBe('syntax');
+    expect(codeOf('[]')).toBe('invalid');
+  });
+
+  it('attaches the location to syntax errors', () => {
+    try {
+      parseTicketJsonWithRepairs('{"list": [\n  {"ticket_id": T1}\n]}');
+    } catch (error) {
+      expect(error).toBeInstanceOf(TicketParseError);
+      expect((error as TicketParseError).location).toMatchObject({ line: 2, column: 17 });
+      return;
+    }
+    throw new Error('expected a parse error');
+  });
+});
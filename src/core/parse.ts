@@ -0,0 +1,352 @@
+import type { Ticket, TicketPayload } from './types';
+
+/**
+ * - `empty`: 入力が空
+ * - `unauthorized`: API が `Unauthorized` を返した（ログイン切れ）
+ * - `loginPage`: ログイン画面の HTML
+ * - `html`: チケットの JSON を含まない HTML
+ * - `truncated`: JSON が途中で切れている
+ * - `syntax`: JSON の書式の誤り（`location` に位置）
+ * - `eventCatalogue`: チケット一覧ではなくイベント一覧の JSON
+ * - `invalid`: JSON としては読めるがチケット一覧の形ではない
+ */
+export type TicketParseErrorCode =
+  | 'empty'
+  | 'unauthorized'
+  | 'loginPage'
+  | 'html'
+  | 'truncated'
+  | 'syntax'
+  | 'eventCatalogue'
+  | 'invalid';
+
+/**
+ * 自動で直して読み込んだ内容。
+ * - `wrappedSingleTicket`: チケット 1 枚分のオブジェクトを `{ list: [...] }` で包んだ
+ * - `wrappedTicketArray`: チケットの配列を `{ list: [...] }` で包んだ
+ * - `removedTrailingCommas`: 閉じ括弧の直前の余分なカンマを消した
+ */
+export type TicketParseRepair = 'wrappedSingleTicket' | 'wrappedTicketArray' | 'removedTrailingCommas';
+
+export interface JsonSyntaxErrorLocation {
+  /** 0 始まりの文字位置 */
+  offset: number;
+  /** 1 始まり */
+  line: number;
+  /** 1 始まり */
+  column: number;
+  /** 入力の終わりで途切れている */
+  isAtEnd: boolean;
+  /** 誤りのある行の抜粋と、位置を示す `^` の 2 行 */
+  snippet: string;
+}
+
+export interface TicketParseResult {
+  payload: TicketPayload;
+  repairs: TicketParseRepair[];
+}
+
+const defaultParseErrorMessages: Record<TicketParseErrorCode, string> = {
+  empty: 'JSONが空です。',
+  unauthorized: 'マイチケットにログインできていません。ログインしてからコード(JSON)の取得をやり直してください。',
+  loginPage: 'ログイン画面のページが読み込まれました。マイチケットにログインしてからコード(JSON)の取得をやり直してください。',
+  html: 'Webページの HTML が読み込まれましたが、チケットの JSON が見つかりませんでした。',
+  truncated: 'JSONが途中で切れています。',
+  syntax: 'JSONの書式に誤りがあります。',
+  eventCatalogue: 'チケット一覧ではなく、イベント一覧の JSON のようです。',
+  invalid: 'JSONの解析に失敗しました。ファイルの形式を確認してください。'
+};
+
+/**
+ * 解析エラー。画面側は `code` から表示言語に合わせたメッセージを引く。`message` は日本語の既定文言。
+ * JSON の書式の誤りは `location` に位置と抜粋を持つ。
+ */
+export class TicketParseError extends Error {
+  readonly code: TicketParseErrorCode;
+  readonly location?: JsonSyntaxErrorLocation;
+
+  constructor(code: TicketParseErrorCode, location?: JsonSyntaxErrorLocation) {
+    super(defaultParseErrorMessages[code]);
+    this.name = 'TicketParseError';
+    this.code = code;
+    this.location = location;
+  }
+}
+
+export function isTicketPayload(value: unknown): value is TicketPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const record = value as { list?: unknown };
+  return Array.isArray(record.list);
+}
+
+export function tryParseTickets(text: string): TicketPayload | null {
+  try {
+    const parsed = JSON.parse(text);
+    if (isTicketPayload(parsed)) {
+      return parsed;
+    }
+    return null;
+  } catch (error) {
+    return null;
+  }
+}
+
+export function extractEmbeddedTicketJson(source: string): string | null {
+  const cleaned = source.replace(/\u0000/g, '');
+  const startIndex = cleaned.indexOf('{"list"');
+  if (startIndex === -1) {
+    return null;
+  }
+
+  let depth = 0;
+  for (let index = startIndex; index < cleaned.length; index += 1) {
+    const char = cleaned[index];
+    if (char === '{') {
+      depth += 1;
+    } else if (char === '}') {
+      depth -= 1;
+      if (depth === 0) {
+        return cleaned.slice(startIndex, index + 1);
+      }
+    }
+  }
+
+  return null;
+}
+
+/** 抜粋で誤りの位置の前後に残す文字数 */
+const SNIPPET_RADIUS = 30;
+
+function buildSnippet(text: string, offset: number): { line: number; column: number; snippet: string } {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length;
+  const lineStart = before.lastIndexOf('\n') + 1;
+  const lineEnd = text.indexOf('\n', offset);
+  const lineText = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd).replace(/\r$/, '');
+  const column = offset - lineStart + 1;
+  const from = Math.max(0, column - 1 - SNIPPET_RADIUS);
+  const excerpt = `${from > 0 ? '…' : ''}${lineText.slice(from, column - 1 + SNIPPET_RADIUS)}${
+    column - 1 + SNIPPET_RADIUS < lineText.length ? '…' : ''
+  }`;
+  const caret = ' '.repeat(column - 1 - from + (from > 0 ? 1 : 0));
+  return { line, column, snippet: `${excerpt}\n${caret}^` };
+}
+
+/**
+ * JSON の書式の誤りがある最初の位置を返す。正しい JSON なら null。
+ * `JSON.parse` のエラーメッセージはブラウザごとに形式が違い位置を含まないこともあるため、自前で走査する。
+ */
+export function locateJsonSyntaxError(text: string): JsonSyntaxErrorLocation | null {
+  let index = 0;
+  const fail = (): never => {
+    throw index;
+  };
+  const skipWhitespace = () => {
+    while (index < text.length && ' \t\n\r'.includes(text[index])) index += 1;
+  };
+  // 長い入力でも部分文字列を作らないよう、位置を指定できる `y` フラグの正規表現を使う
+  const expect = (pattern: RegExp) => {
+    pattern.lastIndex = index;
+    const match = pattern.exec(text);
+    if (!match) fail();
+    index += (match as RegExpExecArray)[0].length;
+  };
+  const parseString = () => {
+    index += 1;
+    while (index < text.length) {
+      const char = text[index];
+      if (char === '"') {
+        index += 1;
+        return;
+      }
+      if (char === '\\') {
+        index += 1;
+        if (text[index] === 'u') {
+          index += 1;
+          expect(/[0-9a-fA-F]{4}/y);
+          continue;
+        }
+        if (index >= text.length || !'"\\/bfnrt'.includes(text[index])) fail();
+      } else if (char < ' ') {
+        fail();
+      }
+      index += 1;
+    }
+    fail();
+  };
+  const parseKey = () => {
+    skipWhitespace();
+    if (text[index] !== '"') fail();
+    parseString();
+    skipWhitespace();
+    if (text[index] !== ':') fail();
+    index += 1;
+  };
+  // 入れ子が深い入力でもスタックがあふれないよう、再帰せずに開いている括弧を配列に積んで走査する
+  const parseValue = (): void => {
+    const closers: string[] = [];
+    for (;;) {
+      skipWhitespace();
+      const char = text[index];
+      if (char === '{' || char === '[') {
+        const close = char === '{' ? '}' : ']';
+        index += 1;
+        skipWhitespace();
+        if (text[index] !== close) {
+          closers.push(close);
+          if (close === '}') parseKey();
+          continue;
+        }
+        index += 1;
+      } else if (char === '"') {
+        parseString();
+      } else if (char === '-' || (char >= '0' && char <= '9')) {
+        expect(/-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y);
+      } else {
+        expect(/true|false|null/y);
+      }
+
+      // 値の後は、カンマで次の要素に進むか、閉じ括弧で 1 段戻る
+      for (;;) {
+        if (closers.length === 0) return;
+        skipWhitespace();
+        const close = closers[closers.length - 1];
+        if (text[index] === ',') {
+          index += 1;
+          if (close === '}') parseKey();
+          break;
+        }
+        if (text[index] !== close) fail();
+        index += 1;
+        closers.pop();
+      }
+    }
+  };
+
+  try {
+    parseValue();
+    skipWhitespace();
+    if (index < text.length) fail();
+    return null;
+  } catch (offset) {
+    if (typeof offset !== 'number') throw offset;
+    const position = Math.min(offset, text.length);
+    return { offset: position, isAtEnd: position >= text.length, ...buildSnippet(text, position) };
+  }
+}
+
+/**
+ * 文字列の外にある、閉じ括弧の直前の余分なカンマを消す。
+ */
+export function removeTrailingCommas(text: string): string {
+  let result = '';
+  let inString = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inString) {
+      if (char === '\\') {
+        result += char + (text[index + 1] ?? '');
+        index += 1;
+        continue;
+      }
+      inString = char !== '"';
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ',') {
+      let next = index + 1;
+      while (next < text.length && ' \t\n\r'.includes(text[next])) next += 1;
+      if (text[next] === '}' || text[next] === ']') {
+        continue;
+      }
+    }
+    result += char;
+  }
+  return result;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function looksLikeTicket(value: unknown): boolean {
+  return isRecord(value) && ('ticket_id' in value || 'schedules' in value || 'event_schedules' in value);
+}
+
+function looksLikeCatalogueEvent(value: unknown): boolean {
+  return isRecord(value) && 'event_code' in value && 'program_code' in value && !('ticket_id' in value);
+}
+
+/**
+ * JSON として読めた値をチケット一覧として解釈する。チケット 1 枚分やチケットの配列は包んで読み込む。
+ */
+function interpretParsedValue(value: unknown, repairs: TicketParseRepair[]): TicketParseResult {
+  if (isTicketPayload(value)) {
+    return { payload: value, repairs };
+  }
+  if (Array.isArray(value) && value.length > 0) {
+    if (value.every(looksLikeTicket)) {
+      return { payload: { list: value }, repairs: [...repairs, 'wrappedTicketArray'] };
+    }
+    if (value.some(looksLikeCatalogueEvent)) {
+      throw new TicketParseError('eventCatalogue');
+    }
+  }
+  if (looksLikeTicket(value)) {
+    return { payload: { list: [value as Ticket] }, repairs: [...repairs, 'wrappedSingleTicket'] };
+  }
+  throw new TicketParseError('invalid');
+}
+
+/**
+ * `parseTicketJson` と同じ解析を行い、自動で直した内容も返す。
+ * 直せるのは失われる情報がない場合だけで、途中で切れた JSON などはエラーの種類と位置を返す。
+ */
+export function parseTicketJsonWithRepairs(rawText: string): TicketParseResult {
+  const trimmed = rawText.trim();
+  if (!trimmed) {
+    const embedded = extractEmbeddedTicketJson(rawText);
+    if (embedded) {
+      const fallback = tryParseTickets(embedded);
+      if (fallback) {
+        return { payload: fallback, repairs: [] };
+      }
+    }
+    throw new TicketParseError('empty');
+  }
+
+  if (/"message"\s*:\s*"Unauthorized"/i.test(trimmed)) {
+    throw new TicketParseError('unauthorized');
+  }
+
+  const direct = tryParseTickets(trimmed);
+  if (direct) {
+    return { payload: direct, repairs: [] };
+  }
+
+  const embedded = extractEmbeddedTicketJson(rawText);
+  if (embedded) {
+    const fallback = tryParseTickets(embedded);
+    if (fallback) {
+      return { payload: fallback, repairs: [] };
+    }
+  }
+
+  if (/^<|<html[\s>]|<!doctype html/i.test(trimmed)) {
+    const isLoginPage = /type=["']?password|ログイン|log ?in|sign ?in/i.test(trimmed);
+    throw new TicketParseError(isLoginPage ? 'loginPage' : 'html');
+  }
+
+  const location = locateJsonSyntaxError(trimmed);
+  if (!location) {
+    return interpretParsedValue(JSON.parse(trimmed), []);
+  }
+  const withoutTrailingCommas = removeTrailingCommas(trimmed);
+  if (withoutTrailingCommas !== trimmed && !locateJsonSyntaxError(withoutTrailingCommas)) {
+    return interpretParsedValue(JSON.parse(withoutTrailingCommas), ['removedTrailingCommas']);
+  }
+  throw new TicketParseError(location.isAtEnd ? 'truncated' : 'syntax', location);
+}
+
+export function parseTicketJson(rawText: string): TicketPayload {
+  return parseTicketJsonWithRepairs(rawText).payload;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import longDummyPayload from '../../sample/long-dummy.json';
+import sampleTicketPayload from '../../sample/sample.json';
+import { collapsePartyDuplicates, detectParties } from './party';
+import { countReservations } from './summary';
+import type { Ticket, TicketPayload } from './types';
+
+const sample = sampleTicketPayload as TicketPayload;
+const longDummy = longDummyPayload as TicketPayload;
+
+const makeTicket = (id: string, extra: Partial<Ticket> = {}): Ticket => ({
+  ticket_id: id,
+  item_name: 'Adult',
+  schedules: [{ user_visiting_reservation_id: Number(id.slice(1)), entrance_date: '20250601', schedule_name: '10:00-', gate_type: 1 }],
+  event_schedules: [{ id: Number(id.slice(1)) * 10, entrance_date: '20250601', program_code: 'HSH0', event_name: 'Pavilion', start_time: '1300' }],
+  ...extra
+});
+
+describe('detectParties', () => {
+  it('groups tickets that entered together and lists their shared pavilions', () => {
+    const solo = makeTicket('T3', {
+      schedules: [{ user_visiting_reservation_id: 3, entrance_date: '20250601', schedule_name: '10:00-', gate_type: 2 }]
+    });
+    const parties = detectParties([makeTicket('T1'), makeTicket('T2'), solo]);
+    expect(parties).toHaveLength(1);
+    expect(parties[0].members.map((member) => member.ticketLabel)).toEqual(['A', 'B']);
+    expect(parties[0].visits).toHaveLength(1);
+    expect(parties[0].visits[0].sharedEvents).toEqual([
+      expect.objectContaining({ programCode: 'HSH0', ticketKeys: ['ticket-T1', 'ticket-T2'] })
+    ]);
+    expect(parties[0].sharedEventCount).toBe(1);
+  });
+
+  it('finds no party when every ticket visits on its own', () => {
+    expect(detectParties(sample.list)).toEqual([]);
+  });
+
+  it('collects repeated visits of the same group', () => {
+    const parties = detectParties(longDummy.list);
+    expect(parties.length).toBeGreaterThan(0);
+    parties.forEach((party) => {
+      expect(party.members.length).toBeGreaterThanOrEqual(2);
+      party.visits.forEach((visit) => expect(visit.ticketKeys).toHaveLength(party.members.length));
+    });
+    expect(parties[0].visits.length).toBeGreaterThanOrEqual(parties[parties.length - 1].visits.length);
+  });
+});
+
+describe('collapsePartyDuplicates', () => {
+  it('keeps shared reservations only on the first ticket', () => {
+    const collapsed = collapsePartyDuplicates([makeTicket('T1'), makeTicket('T2')]);
+    expect(countReservations(collapsed)).toEqual({ ticketCount: 2, entranceCount: 1, eventCount: 1 });
+    expect(collapsed[1].schedules).toEqual([]);
+  });
+
+  it('keeps cancelled reservations and reduces the long dummy counts', () => {
+    const cancelled = makeTicket('T2', {
+      schedules: [{ user_visiting_reservation_id: 2, entrance_date: '20250601', schedule_name: '10:00-', gate_type: 1, use_state: 2 }]
+    });
+    expect(collapsePartyDuplicates([makeTicket('T1'), cancelled])[1].schedules).toHaveLength(1);
+
+    const before = countReservations(longDummy.list);
+    const after = countReservations(collapsePartyDuplicates(longDummy.list));
+    expect(after.entranceCount).toBeLessThan(before.entranceCount);
+  });
+});
@@ -0,0 +1,164 @@
+import { groupReservationsByDate } from './daily';
+import { isCancelledUseState } from './labels';
+import type { Locale } from './locale';
+import type { EntranceSchedule, EventSchedule, GateType, Ticket } from './types';
+
+export interface PartyMember {
+  ticketKey: string;
+  ticketLabel: string;
+  ticketName: string;
+}
+
+export interface PartyEvent {
+  programCode: string;
+  eventName?: string;
+  startTime?: string;
+  scheduleName?: string;
+  ticketKeys: string[];
+}
+
+export interface PartyVisit {
+  /** `YYYYMMDD` */
+  date: string;
+  scheduleName?: string;
+  gateType?: GateType;
+  ticketKeys: string[];
+  /** 同じパビリオン・同じ時刻に 2 枚以上で予約していたもの */
+  sharedEvents: PartyEvent[];
+}
+
+export interface Party {
+  /** 参加チケットの key を並べたもの */
+  key: string;
+  members: PartyMember[];
+  /** 日付順 */
+  visits: PartyVisit[];
+  sharedEventCount: number;
+}
+
+/**
+ * 同じ来場とみなす入場予約のキー（日付・時間枠・ゲート）。日付がなければ null。
+ */
+function entranceVisitKey(schedule: EntranceSchedule): string | null {
+  if (!schedule.entrance_date) {
+    return null;
+  }
+  return [schedule.entrance_date, schedule.schedule_name ?? '', schedule.gate_type ?? ''].join('|');
+}
+
+/**
+ * 同じ予約とみなすパビリオン予約のキー（日付・プログラムコード・時刻）。日付かコードがなければ null。
+ */
+function eventVisitKey(schedule: EventSchedule): string | null {
+  if (!schedule.entrance_date || !schedule.program_code) {
+    return null;
+  }
+  return [schedule.entrance_date, schedule.program_code, schedule.start_time || schedule.schedule_name || ''].join('|');
+}
+
+function groupBy<T>(items: T[], getKey: (item: T) => string | null): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  items.forEach((item) => {
+    const key = getKey(item);
+    if (key === null) {
+      return;
+    }
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+  return groups;
+}
+
+function uniqueKeys(entries: { ticketKey: string }[]): string[] {
+  return Array.from(new Set(entries.map((entry) => entry.ticketKey)));
+}
+
+/**
+ * 一緒に来場したチケットをグループ（同行グループ）にまとめる。同じ日付・時間枠・ゲートの入場予約を
+ * 2 枚以上が持っていれば一緒に来場したとみなし、同じ顔ぶれの来場を 1 つのグループに集める。
+ * キャンセル済みの予約は含めない。来場回数の多い順に並ぶ。
+ */
+export function detectParties(tickets: Ticket[], locale: Locale = 'ja'): Party[] {
+  const members = new Map<string, PartyMember>();
+  const parties = new Map<string, Party>();
+
+  groupReservationsByDate(tickets, locale).forEach((day) => {
+    const entrances = day.entrances.filter((entry) => !isCancelledUseState(entry.schedule.use_state));
+    const events = day.events.filter((entry) => !isCancelledUseState(entry.schedule.use_state));
+
+    groupBy(entrances, (entry) => entranceVisitKey(entry.schedule)).forEach((group) => {
+      const ticketKeys = uniqueKeys(group);
+      if (ticketKeys.length < 2) {
+        return;
+      }
+      group.forEach(({ ticketKey, ticketLabel, ticketName }) => members.set(ticketKey, { ticketKey, ticketLabel, ticketName }));
+
+      const partyEvents = events.filter((entry) => ticketKeys.includes(entry.ticketKey));
+      const sharedEvents: PartyEvent[] = [];
+      groupBy(partyEvents, (entry) => eventVisitKey(entry.schedule)).forEach((eventGroup) => {
+        const eventTicketKeys = uniqueKeys(eventGroup);
+        if (eventTicketKeys.length < 2) {
+          return;
+        }
+        const { schedule } = eventGroup[0];
+        sharedEvents.push({
+          programCode: schedule.program_code ?? '',
+          eventName: schedule.event_name,
+          startTime: schedule.start_time,
+          scheduleName: schedule.schedule_name,
+          ticketKeys: eventTicketKeys
+        });
+      });
+
+      const partyKey = [...ticketKeys].sort().join('+');
+      const party = parties.get(partyKey) ?? { key: partyKey, members: [], visits: [], sharedEventCount: 0 };
+      const { schedule } = group[0];
+      party.visits.push({
+        date: day.date,
+        scheduleName: schedule.schedule_name,
+        gateType: schedule.gate_type,
+        ticketKeys,
+        sharedEvents
+      });
+      party.sharedEventCount += sharedEvents.length;
+      parties.set(partyKey, party);
+    });
+  });
+
+  return Array.from(parties.values())
+    .map((party) => ({
+      ...party,
+      members: party.visits[0].ticketKeys
+        .map((ticketKey) => members.get(ticketKey))
+        .filter((member): member is PartyMember => member !== undefined)
+        .sort((a, b) => a.ticketLabel.length - b.ticketLabel.length || a.ticketLabel.localeCompare(b.ticketLabel))
+    }))
+    .sort((a, b) => b.visits.length - a.visits.length || a.key.localeCompare(b.key));
+}
+
+/**
+ * 同行分の重複を除いたチケット一覧。同じ日付・時間枠・ゲートの入場予約と、同じ日付・パビリオン・時刻の
+ * パビリオン予約は最初のチケットにだけ残す。件数や共有画像を「1 組として」数えるときに使う。
+ * キャンセル済みの予約は重複とみなさずそのまま残す。
+ */
+export function collapsePartyDuplicates(tickets: Ticket[]): Ticket[] {
+  const seenEntrances = new Set<string>();
+  const seenEvents = new Set<string>();
+  const keep = <T extends EntranceSchedule | EventSchedule>(schedule: T, key: string | null, seen: Set<string>) => {
+    if (key === null || isCancelledUseState(schedule.use_state)) {
+      return true;
+    }
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  };
+
+  return tickets.map((ticket) => ({
+    ...ticket,
+    schedules: ticket.schedules?.filter((schedule) => keep(schedule, entranceVisitKey(schedule), seenEntrances)) ?? ticket.schedules,
+    event_schedules:
+      ticket.event_schedules?.filter((schedule) => keep(schedule, eventVisitKey(schedule), seenEvents)) ??
+      ticket.event_schedules
+  }));
+}
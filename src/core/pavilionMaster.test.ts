@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import eventsEn from '../../sample/events_en.json';
+import eventsJa from '../../sample/events_ja.json';
+import { buildPavilionMaster, emptyPavilionMaster, enrichEventSchedule, resolvePavilionGroup } from './pavilionMaster';
+import type { CatalogueEvent } from './pavilionMaster';
+
+const master = buildPavilionMaster(eventsJa as CatalogueEvent[]);
+
+describe('buildPavilionMaster', () => {
+  it('indexes every program code in the catalogue', () => {
+    expect(Object.keys(master.entries)).toHaveLength(972);
+    expect(master.entries.C060.portalUrl).toMatch(/^https:\/\/www\.expovisitors\.expo2025\.or\.jp\//);
+    expect(master.entries.C060.summary).not.toBe('');
+  });
+
+  it('groups variants of the same pavilion', () => {
+    expect(resolvePavilionGroup(master, 'CO73')).toEqual({ key: 'CO70', name: 'タイパビリオン', programCodes: ['CO70', 'CO73'] });
+    expect(resolvePavilionGroup(master, 'C2N3').programCodes).toEqual(['C2N0', 'C2N3']);
+    expect(resolvePavilionGroup(master, 'C063').name).toBe('アイルランド');
+  });
+
+  it('names groups from the English catalogue', () => {
+    const englishMaster = buildPavilionMaster(eventsEn as CatalogueEvent[], 'en');
+    expect(resolvePavilionGroup(englishMaster, 'CO73', undefined, 'en')).toEqual({
+      key: 'CO70',
+      name: 'Thailand Pavilion',
+      programCodes: ['CO70', 'CO73']
+    });
+  });
+
+  it('keeps unrelated events in the same code range apart', () => {
+    expect(resolvePavilionGroup(master, 'M1AA').programCodes).not.toContain('M1A1');
+  });
+});
+
+describe('resolvePavilionGroup', () => {
+  it('falls back to the code itself for unknown codes', () => {
+    expect(resolvePavilionGroup(emptyPavilionMaster, 'ZZZ0', 'Unknown Pavilion')).toEqual({
+      key: 'ZZZ0',
+      name: 'Unknown Pavilion',
+      programCodes: ['ZZZ0']
+    });
+  });
+});
+
+describe('enrichEventSchedule', () => {
+  it('fills missing links and summaries but keeps API values', () => {
+    const enriched = enrichEventSchedule({ program_code: 'CO70', portal_url: 'https://example.com/' }, master);
+    expect(enriched.portal_url).toBe('https://example.com/');
+    expect(enriched.virtual_url).toMatch(/SpaceId=SS-864141/);
+    expect(enriched.event_summary).toBeTruthy();
+  });
+
+  it('returns the schedule unchanged for unknown codes', () => {
+    const schedule = { program_code: 'ZZZ0' };
+    expect(enrichEventSchedule(schedule, master)).toBe(schedule);
+  });
+});
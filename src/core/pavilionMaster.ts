@@ -0,0 +1,186 @@
+import { resolvePavilionName } from './labels';
+import type { Locale } from './locale';
+import type { EventSchedule, Ticket } from './types';
+
+/** `sample/events_ja.json` / `events_en.json` の1件 */
+export interface CatalogueEvent {
+  id?: number;
+  event_code?: string;
+  event_name?: string;
+  program_code?: string;
+  event_summary?: string | null;
+  virtual_url?: string | null;
+  virtual_url_desc?: string | null;
+  portal_url?: string | null;
+  portal_url_desc?: string | null;
+}
+
+export interface PavilionEntry {
+  programCode: string;
+  name: string;
+  summary: string;
+  portalUrl: string;
+  portalUrlDesc: string;
+  virtualUrl: string;
+  virtualUrlDesc: string;
+  /** 同じパビリオンの別枠（例: `CO70` と `CO73`）で共通のキー */
+  groupKey: string;
+}
+
+export interface PavilionGroup {
+  key: string;
+  name: string;
+  programCodes: string[];
+}
+
+export interface PavilionMaster {
+  entries: Record<string, PavilionEntry>;
+  groups: Record<string, PavilionGroup>;
+}
+
+export const emptyPavilionMaster: PavilionMaster = { entries: {}, groups: {} };
+
+function extractVirtualSpaceId(url: string): string | null {
+  const match = url.match(/SpaceId=([\w-]+)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * グループ内の名前の共通部分をパビリオン名にする。共通部分が短すぎる場合は最も短い名前を使う。
+ */
+function deriveGroupName(names: string[]): string {
+  const shortest = names.reduce((current, name) => (name.length < current.length ? name : current), names[0]);
+  if (names.every((name) => name.startsWith(shortest))) {
+    return shortest;
+  }
+  let prefix = names[0];
+  names.slice(1).forEach((name) => {
+    let index = 0;
+    while (index < prefix.length && index < name.length && prefix[index] === name[index]) {
+      index += 1;
+    }
+    prefix = prefix.slice(0, index);
+  });
+  const trimmed = prefix.replace(/[\s:：（(／/・\-~～「【[]+$/, '');
+  return trimmed.length >= 3 ? trimmed : shortest;
+}
+
+/**
+ * イベントカタログからプログラムコードごとの説明・リンクと、同じパビリオンの別枠コードのグループを作る。
+ * 先頭3文字が同じコードのうち、バーチャル万博の SpaceId か公式ページの URL が一致するものを同じグループにする。
+ * `locale` はカタログの言語で、パビリオン名の決め方（日本語のみ短縮名の辞書を使う）に影響する。
+ */
+export function buildPavilionMaster(events: CatalogueEvent[], locale: Locale = 'ja'): PavilionMaster {
+  const entries: Record<string, PavilionEntry> = {};
+  events.forEach((event) => {
+    const programCode = event.program_code || event.event_code;
+    if (!programCode || entries[programCode]) {
+      return;
+    }
+    entries[programCode] = {
+      programCode,
+      name: resolvePavilionName(programCode, event.event_name, locale),
+      summary: event.event_summary?.trim() ?? '',
+      portalUrl: event.portal_url?.trim() ?? '',
+      portalUrlDesc: event.portal_url_desc?.trim() ?? '',
+      virtualUrl: event.virtual_url?.trim() ?? '',
+      virtualUrlDesc: event.virtual_url_desc?.trim() ?? '',
+      groupKey: programCode
+    };
+  });
+
+  const parent = new Map<string, string>();
+  const find = (code: string): string => {
+    let current = code;
+    while (parent.has(current) && parent.get(current) !== current) {
+      current = parent.get(current) as string;
+    }
+    return current;
+  };
+
+  const byPrefix = new Map<string, PavilionEntry[]>();
+  Object.values(entries).forEach((entry) => {
+    const prefix = entry.programCode.slice(0, 3);
+    byPrefix.set(prefix, [...(byPrefix.get(prefix) ?? []), entry]);
+  });
+  byPrefix.forEach((candidates) => {
+    candidates.forEach((entry, index) => {
+      const spaceId = extractVirtualSpaceId(entry.virtualUrl);
+      candidates.slice(index + 1).forEach((other) => {
+        const sameSpace = spaceId !== null && spaceId === extractVirtualSpaceId(other.virtualUrl);
+        const samePortal = entry.portalUrl !== '' && entry.portalUrl === other.portalUrl;
+        if (sameSpace || samePortal) {
+          const rootA = find(entry.programCode);
+          const rootB = find(other.programCode);
+          if (rootA !== rootB) {
+            // 小さいコードを代表にする
+            parent.set(rootA < rootB ? rootB : rootA, rootA < rootB ? rootA : rootB);
+          }
+        }
+      });
+    });
+  });
+
+  const members = new Map<string, string[]>();
+  Object.values(entries).forEach((entry) => {
+    entry.groupKey = find(entry.programCode);
+    members.set(entry.groupKey, [...(members.get(entry.groupKey) ?? []), entry.programCode]);
+  });
+
+  const groups: Record<string, PavilionGroup> = {};
+  members.forEach((codes, key) => {
+    const sortedCodes = [...codes].sort();
+    groups[key] = {
+      key,
+      name: deriveGroupName(sortedCodes.map((code) => entries[code].name)),
+      programCodes: sortedCodes
+    };
+  });
+
+  return { entries, groups };
+}
+
+/**
+ * プログラムコードが属するパビリオンのグループ。カタログにないコードはそのコード単独で扱う。
+ */
+export function resolvePavilionGroup(
+  master: PavilionMaster,
+  code: string | null | undefined,
+  fallbackName?: string | null,
+  locale: Locale = 'ja'
+): PavilionGroup {
+  const entry = code ? master.entries[code] : undefined;
+  const group = entry ? master.groups[entry.groupKey] : undefined;
+  if (group) {
+    return group;
+  }
+  const name = resolvePavilionName(code ?? '', fallbackName, locale);
+  return { key: code || name, name, programCodes: code ? [code] : [] };
+}
+
+/**
+ * チケット API が省略した説明・公式ページ・バーチャル万博のリンクをカタログで補う。
+ * カタログは表示言語に合わせて読み込むため、名前・説明などの文言はカタログを、URL は API の値を優先する。
+ */
+export function enrichEventSchedule(schedule: EventSchedule, master: PavilionMaster): EventSchedule {
+  const entry = schedule.program_code ? master.entries[schedule.program_code] : undefined;
+  if (!entry) {
+    return schedule;
+  }
+  return {
+    ...schedule,
+    event_name: entry.name || schedule.event_name,
+    event_summary: entry.summary || schedule.event_summary || undefined,
+    portal_url: schedule.portal_url || entry.portalUrl || undefined,
+    portal_url_desc: entry.portalUrlDesc || schedule.portal_url_desc || undefined,
+    virtual_url: schedule.virtual_url || entry.virtualUrl || undefined,
+    virtual_url_desc: entry.virtualUrlDesc || schedule.virtual_url_desc || undefined
+  };
+}
+
+export function enrichTicketEvents(ticket: Ticket, master: PavilionMaster): Ticket {
+  if (!ticket.event_schedules || ticket.event_schedules.length === 0) {
+    return ticket;
+  }
+  return { ...ticket, event_schedules: ticket.event_schedules.map((schedule) => enrichEventSchedule(schedule, master)) };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import longDummyPayload from '../../sample/long-dummy.json';
+import sampleTicketPayload from '../../sample/sample.json';
+import { buildImagePdf, PDF_PAGE_MARGIN, pdfPageSizes, planSharePdfPages } from './pdf';
+import { layoutShareImage, shareTemplates } from './shareLayout';
+import { buildVisitSummary } from './summary';
+import type { TicketPayload } from './types';
+
+const decoder = new TextDecoder('latin1');
+
+describe('planSharePdfPages', () => {
+  it('splits the tall template into pages that fit the paper', () => {
+    const summary = buildVisitSummary((longDummyPayload as TicketPayload).list);
+    const layout = layoutShareImage(summary, { template: 'long', sections: shareTemplates.long.defaultSections });
+    const pages = planSharePdfPages(layout, 'long', 'a4');
+    expect(pages.length).toBeGreaterThan(1);
+    pages.forEach((page) => {
+      expect(page.width).toBeCloseTo(pdfPageSizes.a4.width - PDF_PAGE_MARGIN * 2);
+      expect(page.height).toBeLessThanOrEqual(pdfPageSizes.a4.height - PDF_PAGE_MARGIN * 2 + 0.01);
+    });
+    expect(pages.reduce((total, page) => total + page.slice.height, 0)).toBe(layout.height);
+  });
+
+  it('shrinks fixed templates onto a single page', () => {
+    const summary = buildVisitSummary((sampleTicketPayload as TicketPayload).list);
+    const layout = layoutShareImage(summary, { template: 'story', sections: shareTemplates.story.defaultSections });
+    const [page, ...rest] = planSharePdfPages(layout, 'story', 'letter');
+    expect(rest).toHaveLength(0);
+    expect(page.slice).toEqual({ start: 0, height: 1920 });
+    expect(page.height).toBeCloseTo(pdfPageSizes.letter.height - PDF_PAGE_MARGIN * 2);
+    expect(page.x + page.width / 2).toBeCloseTo(pdfPageSizes.letter.width / 2);
+  });
+});
+
+describe('buildImagePdf', () => {
+  it('writes one page per image with a valid cross-reference table', () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+    const image = { jpeg, pixelWidth: 2, pixelHeight: 2, x: 36, y: 36, width: 100, height: 100 };
+    const text = decoder.decode(buildImagePdf([image, image], 'a4', '万博'));
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(text).toContain('/Count 2');
+    expect(text).toContain('/Title <FEFF4E07535A>');
+    expect(text.match(/\/Type \/Page /g)).toHaveLength(2);
+
+    const startxref = Number(/startxref\n(\d+)/.exec(text)?.[1]);
+    expect(text.slice(startxref, startxref + 4)).toBe('xref');
+    const offsets = Array.from(text.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm), (match) => Number(match[1]));
+    offsets.forEach((offset, index) => {
+      expect(text.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+});
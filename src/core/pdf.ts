@@ -0,0 +1,163 @@
+import { paginateShareImage, shareTemplates } from './shareLayout';
+import type { ShareImageLayout, ShareImageSlice, ShareTemplateId } from './shareLayout';
+
+export type PdfPageSize = 'a4' | 'letter';
+
+/** 用紙サイズ（pt） */
+export const pdfPageSizes: Record<PdfPageSize, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 }
+};
+
+export const PDF_PAGE_MARGIN = 36;
+
+export interface PdfPagePlan {
+  /** 画像から切り出す区間（px） */
+  slice: ShareImageSlice;
+  /** 用紙上に置く位置と大きさ（pt、左上原点） */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfImagePage {
+  /** JPEG のバイト列 */
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 共有画像を用紙に割り付ける。縦に伸びるテンプレートは用紙の幅に合わせて行の境目でページを分け、
+ * サイズが決まっているテンプレートは 1 ページに収まるよう縮小する。
+ */
+export function planSharePdfPages(
+  layout: ShareImageLayout,
+  template: ShareTemplateId,
+  pageSize: PdfPageSize
+): PdfPagePlan[] {
+  const page = pdfPageSizes[pageSize];
+  const areaWidth = page.width - PDF_PAGE_MARGIN * 2;
+  const areaHeight = page.height - PDF_PAGE_MARGIN * 2;
+
+  if (shareTemplates[template].height !== null) {
+    const ratio = Math.min(areaWidth / layout.width, areaHeight / layout.height);
+    const width = layout.width * ratio;
+    return [
+      {
+        slice: { start: 0, height: layout.height },
+        x: (page.width - width) / 2,
+        y: PDF_PAGE_MARGIN,
+        width,
+        height: layout.height * ratio
+      }
+    ];
+  }
+
+  const ratio = areaWidth / layout.width;
+  return paginateShareImage(layout, areaHeight / ratio).map((slice) => ({
+    slice,
+    x: PDF_PAGE_MARGIN,
+    y: PDF_PAGE_MARGIN,
+    width: areaWidth,
+    height: slice.height * ratio
+  }));
+}
+
+const encoder = new TextEncoder();
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * PDF の文字列。日本語を含められるよう UTF-16BE の 16 進文字列にする。
+ */
+function encodePdfText(text: string): string {
+  let hex = 'FEFF';
+  for (let index = 0; index < text.length; index += 1) {
+    hex += text.charCodeAt(index).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+}
+
+/**
+ * JPEG 画像を 1 ページに 1 枚ずつ貼った PDF を作る。
+ */
+export function buildImagePdf(pages: PdfImagePage[], pageSize: PdfPageSize, title = '') {
+  const page = pdfPageSizes[pageSize];
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // 1: Catalog, 2: Pages, 3: Info, 以降はページごとに Page / Contents / Image の 3 つ
+  const firstPageId = 4;
+  const pageIds = pages.map((_, index) => firstPageId + index * 3);
+  const objectCount = firstPageId + pages.length * 3;
+
+  write('%PDF-1.4\n%âãÏÓ\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  beginObject(3);
+  write(`<< /Title ${encodePdfText(title)} /Producer (expo-history-viewer) >>\nendobj\n`);
+
+  pages.forEach((image, index) => {
+    const pageId = pageIds[index];
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+    const bottom = page.height - image.y - image.height;
+    const content = `q ${formatNumber(image.width)} 0 0 ${formatNumber(image.height)} ${formatNumber(image.x)} ${formatNumber(bottom)} cm /Im0 Do Q`;
+
+    beginObject(pageId);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}] ` +
+        `/Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`
+    );
+
+    beginObject(contentId);
+    write(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    beginObject(imageId);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${image.pixelWidth} /Height ${image.pixelHeight} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>\nstream\n`
+    );
+    write(image.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id += 1) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const result = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach((chunk) => {
+    result.set(chunk, position);
+    position += chunk.length;
+  });
+  return result;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import sampleTicketPayload from '../../sample/sample.json';
+import { buildPrintSheet, buildQrCodeUrl } from './printSheet';
+import type { TicketPayload } from './types';
+
+const sample = sampleTicketPayload as TicketPayload;
+
+describe('buildQrCodeUrl', () => {
+  it('points at the official QR code print page', () => {
+    expect(buildQrCodeUrl('TICKET0001', 1000011, '20250510')).toBe(
+      'https://ticket.expo2025.or.jp/publish_qrcode/?id=TICKET0001&reserve_id=1000011&entrance_date=20250510'
+    );
+  });
+
+  it('returns null when an id is missing', () => {
+    expect(buildQrCodeUrl(undefined, 1000011, '20250510')).toBeNull();
+    expect(buildQrCodeUrl('TICKET0001', undefined, '20250510')).toBeNull();
+  });
+});
+
+describe('buildPrintSheet', () => {
+  it('splits visit days around today', () => {
+    const all = buildPrintSheet(sample.list, '20250101');
+    expect(all.past).toHaveLength(0);
+    expect(all.upcoming.length).toBeGreaterThan(1);
+
+    const middle = all.upcoming[1].date;
+    const sheet = buildPrintSheet(sample.list, middle);
+    expect(sheet.upcoming[0].date).toBe(middle);
+    expect(sheet.past.map((day) => day.date)).toEqual([all.upcoming[0].date]);
+  });
+
+  it('lists entrances with their QR links and leaves out cancelled reservations', () => {
+    const { upcoming } = buildPrintSheet(sample.list, '20250101');
+    const first = upcoming[0].entrances[0];
+    expect(first.ticketLabel).toBe('A');
+    expect(first.qrCodeUrl).toContain('reserve_id=1000011');
+    upcoming.forEach((day) => {
+      expect(day.entrances.length).toBeGreaterThan(0);
+      [...day.entrances, ...day.events].forEach((reservation) => {
+        expect([2, 3]).not.toContain(reservation.schedule.use_state);
+      });
+    });
+  });
+});
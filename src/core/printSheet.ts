@@ -0,0 +1,67 @@
+import { groupReservationsByDate } from './daily';
+import type { DailyReservation, DailyReservations } from './daily';
+import { isCancelledUseState } from './labels';
+import type { Locale } from './locale';
+import type { EntranceSchedule, Ticket } from './types';
+
+export const QR_CODE_PAGE_URL = 'https://ticket.expo2025.or.jp/publish_qrcode/';
+
+export interface PrintSheetEntrance extends DailyReservation<EntranceSchedule> {
+  /** 公式サイトの QR コード印刷ページ。チケット ID・予約 ID・日付がそろわない場合は null */
+  qrCodeUrl: string | null;
+}
+
+export interface PrintSheetDay extends Omit<DailyReservations, 'entrances'> {
+  entrances: PrintSheetEntrance[];
+}
+
+export interface PrintSheet {
+  /** 今日以降の来場日。1日 1 ページで印刷する */
+  upcoming: PrintSheetDay[];
+  /** 過ぎた来場日（新しい順） */
+  past: PrintSheetDay[];
+}
+
+/**
+ * 入場予約の QR コード印刷ページの URL。
+ */
+export function buildQrCodeUrl(ticketId?: string | null, reservationId?: number | null, entranceDate?: string | null): string | null {
+  if (!ticketId || !reservationId || !entranceDate) {
+    return null;
+  }
+  const params = new URLSearchParams({ id: ticketId, reserve_id: String(reservationId), entrance_date: entranceDate });
+  return `${QR_CODE_PAGE_URL}?${params.toString()}`;
+}
+
+/**
+ * 印刷用の予約シートを作る。キャンセル済みを除いた入場予約がある日だけを来場日とし、
+ * `today`（`YYYYMMDD`）以降をこれからの来場、それより前を過去の来場に分ける。
+ */
+export function buildPrintSheet(tickets: Ticket[], today: string, locale: Locale = 'ja'): PrintSheet {
+  const ticketIdBySchedule = new Map<EntranceSchedule, string | undefined>();
+  tickets.forEach((ticket) => {
+    (ticket.schedules ?? []).forEach((schedule) => ticketIdBySchedule.set(schedule, ticket.ticket_id));
+  });
+
+  const days: PrintSheetDay[] = groupReservationsByDate(tickets, locale)
+    .map((day) => ({
+      ...day,
+      entrances: day.entrances
+        .filter((entrance) => !isCancelledUseState(entrance.schedule.use_state))
+        .map((entrance) => ({
+          ...entrance,
+          qrCodeUrl: buildQrCodeUrl(
+            ticketIdBySchedule.get(entrance.schedule),
+            entrance.schedule.user_visiting_reservation_id,
+            entrance.schedule.entrance_date
+          )
+        })),
+      events: day.events.filter((event) => !isCancelledUseState(event.schedule.use_state))
+    }))
+    .filter((day) => day.entrances.length > 0);
+
+  return {
+    upcoming: days.filter((day) => day.date >= today),
+    past: days.filter((day) => day.date < today).reverse()
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import longDummyPayload from '../../sample/long-dummy.json';
+import sampleTicketPayload from '../../sample/sample.json';
+import { validateTicketPayload } from './schema';
+
+describe('validateTicketPayload', () => {
+  it('accepts the bundled samples without issues', () => {
+    expect(validateTicketPayload(sampleTicketPayload)).toEqual([]);
+    expect(validateTicketPayload(longDummyPayload)).toEqual([]);
+  });
+
+  it('reports a missing list', () => {
+    expect(validateTicketPayload({ items: [] })).toEqual([{ path: 'list', code: 'type', expected: 'array', actual: 'undefined' }]);
+  });
+
+  it('reports wrong types, unknown codes and new fields with their paths', () => {
+    const issues = validateTicketPayload({
+      list: [
+        {
+          ticket_id: 123,
+          received_at: null,
+          new_field: true,
+          lotteries: { fast: {} },
+          schedules: [{ gate_type: 3, entrance_date: '20250601' }],
+          event_schedules: [null]
+        }
+      ]
+    });
+    expect(issues).toEqual([
+      { path: 'list[0].ticket_type_id', code: 'missing', actual: 'undefined' },
+      { path: 'list[0].ticket_id', code: 'type', expected: 'string', actual: 'number' },
+      { path: 'list[0].new_field', code: 'unknownField', actual: 'boolean' },
+      { path: 'list[0].lotteries.fast', code: 'type', expected: 'array', actual: 'object' },
+      { path: 'list[0].schedules[0].use_state', code: 'missing', actual: 'undefined' },
+      { path: 'list[0].schedules[0].gate_type', code: 'value', expected: '1 | 2', actual: '3' },
+      { path: 'list[0].event_schedules[0]', code: 'type', expected: 'object', actual: 'null' }
+    ]);
+  });
+
+  it('reports required fields that are missing, null or empty', () => {
+    const issues = validateTicketPayload({
+      list: [
+        {
+          ticket_id: 'T1',
+          ticket_type_id: '41',
+          event_schedules: [{ entrance_date: '', program_code: null, use_state: 0, start_time: '1000', registered_channel: 6 }]
+        }
+      ]
+    });
+    expect(issues).toEqual([
+      { path: 'list[0].event_schedules[0].entrance_date', code: 'missing', actual: '""' },
+      { path: 'list[0].event_schedules[0].program_code', code: 'missing', actual: 'null' },
+      { path: 'list[0].event_schedules[0].registered_channel', code: 'value', expected: '0 | 1 | 2 | 3 | 4 | 5', actual: '6' }
+    ]);
+  });
+});
@@ -0,0 +1,188 @@
+import type { EntranceSchedule, EventSchedule, Ticket } from './types';
+
+export type SchemaFieldKind = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+export interface SchemaFieldSpec {
+  kind: SchemaFieldKind;
+  nullable?: boolean;
+  /** 表示や集計に欠かせない項目。ない場合は `missing` になる */
+  required?: boolean;
+  /** 取りうる値（コード値の項目だけ） */
+  values?: readonly number[];
+  /** `object` の中身 */
+  children?: Record<string, SchemaFieldSpec>;
+}
+
+/**
+ * - `type`: 型が違う
+ * - `value`: 想定していないコード値
+ * - `missing`: 必須の項目がない（null・空文字を含む）
+ * - `unknownField`: モデルにない項目（API に項目が増えた可能性）
+ */
+export type SchemaIssueCode = 'type' | 'value' | 'missing' | 'unknownField';
+
+export interface SchemaIssue {
+  /** 例: `list[0].schedules[1].gate_type` */
+  path: string;
+  code: SchemaIssueCode;
+  /** `type` は想定した型、`value` は取りうる値 */
+  expected?: string;
+  /** 実際の型または値 */
+  actual: string;
+}
+
+const lotteryEntries: SchemaFieldSpec = { kind: 'array' };
+
+const baseScheduleFieldSpecs = {
+  id: { kind: 'number' },
+  schedule_name: { kind: 'string' },
+  entrance_date: { kind: 'string', required: true },
+  start_time: { kind: 'string' },
+  end_time: { kind: 'string' },
+  use_state: { kind: 'number', values: [0, 1, 2, 3, 4, 9], required: true },
+  admission_time: { kind: 'string', nullable: true },
+  on_the_day: { kind: 'boolean' },
+  proxy_reserve: { kind: 'boolean' },
+  group_ticket_qr_divi: { kind: 'number' },
+  admission_buf_during: { kind: 'boolean' }
+} as const satisfies Record<string, SchemaFieldSpec>;
+
+export const entranceFieldSpecs: Record<keyof EntranceSchedule, SchemaFieldSpec> = {
+  ...baseScheduleFieldSpecs,
+  user_visiting_reservation_id: { kind: 'number' },
+  gate_type: { kind: 'number', values: [1, 2], required: true },
+  empty_frame: { kind: 'boolean' },
+  month_lottery: { kind: 'boolean' },
+  day_lottery: { kind: 'boolean' },
+  lotteries: { kind: 'object', children: { month: lotteryEntries, day: lotteryEntries } }
+};
+
+export const eventFieldSpecs: Record<keyof EventSchedule, SchemaFieldSpec> = {
+  ...baseScheduleFieldSpecs,
+  start_time: { kind: 'string', required: true },
+  schedule_code: { kind: 'string' },
+  schedule_no: { kind: 'string' },
+  program_code: { kind: 'string', required: true },
+  event_code: { kind: 'string' },
+  event_name: { kind: 'string' },
+  event_summary: { kind: 'string', nullable: true },
+  virtual_url: { kind: 'string', nullable: true },
+  virtual_url_desc: { kind: 'string', nullable: true },
+  portal_url: { kind: 'string', nullable: true },
+  portal_url_desc: { kind: 'string', nullable: true },
+  ticket_id: { kind: 'string' },
+  registered_channel: { kind: 'number', values: [0, 1, 2, 3, 4, 5] },
+  suspend_divi: { kind: 'number' },
+  program_ticket_state: { kind: 'number' },
+  created_at: { kind: 'string' },
+  updated_at: { kind: 'string' }
+};
+
+export const ticketFieldSpecs: Record<keyof Ticket, SchemaFieldSpec> = {
+  id: { kind: 'number' },
+  is_sample: { kind: 'boolean' },
+  ticket_id: { kind: 'string', required: true },
+  simple_ticket_id: { kind: 'string' },
+  agent_code: { kind: 'string' },
+  item_group_code: { kind: 'string' },
+  item_code: { kind: 'string' },
+  item_group_order: { kind: 'number' },
+  item_order: { kind: 'number' },
+  item_name: { kind: 'string' },
+  item_abb_name: { kind: 'string', nullable: true },
+  item_group_name: { kind: 'string' },
+  item_summary: { kind: 'string', nullable: true },
+  image_large_path: { kind: 'string', nullable: true },
+  order_number: { kind: 'string' },
+  receive_type: { kind: 'number' },
+  received_at: { kind: 'string', nullable: true },
+  disp_status: { kind: 'number' },
+  disp_bid_status: { kind: 'number', nullable: true },
+  adult_type: { kind: 'boolean' },
+  change_reservation: { kind: 'number' },
+  fast_lottery: { kind: 'boolean' },
+  lotteries: { kind: 'object', children: { fast: lotteryEntries } },
+  schedules: { kind: 'array', nullable: true },
+  event_schedules: { kind: 'array', nullable: true },
+  ticket_type_id: { kind: 'string', required: true }
+};
+
+function describeKind(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function validateRecord(
+  value: unknown,
+  specs: Record<string, SchemaFieldSpec>,
+  path: string,
+  issues: SchemaIssue[]
+): value is Record<string, unknown> {
+  if (describeKind(value) !== 'object') {
+    issues.push({ path, code: 'type', expected: 'object', actual: describeKind(value) });
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  Object.entries(specs).forEach(([field, spec]) => {
+    const fieldValue = record[field];
+    if (spec.required && (fieldValue === undefined || fieldValue === null || fieldValue === '')) {
+      issues.push({ path: `${path}.${field}`, code: 'missing', actual: fieldValue === '' ? '""' : describeKind(fieldValue) });
+    }
+  });
+  Object.entries(record).forEach(([field, fieldValue]) => {
+    const fieldPath = `${path}.${field}`;
+    const spec = specs[field];
+    if (!spec) {
+      issues.push({ path: fieldPath, code: 'unknownField', actual: describeKind(fieldValue) });
+      return;
+    }
+    if (fieldValue === undefined || (fieldValue === null && (spec.nullable || spec.required))) {
+      return;
+    }
+    const kind = describeKind(fieldValue);
+    if (kind !== spec.kind) {
+      issues.push({ path: fieldPath, code: 'type', expected: spec.nullable ? `${spec.kind} | null` : spec.kind, actual: kind });
+      return;
+    }
+    if (spec.values && !spec.values.includes(fieldValue as number)) {
+      issues.push({ path: fieldPath, code: 'value', expected: spec.values.join(' | '), actual: String(fieldValue) });
+    }
+    if (spec.children) {
+      validateRecord(fieldValue, spec.children, fieldPath, issues);
+    }
+  });
+  return true;
+}
+
+/**
+ * チケット一覧 API の JSON を型定義と突き合わせ、食い違う項目を返す。
+ * 解析自体は続けられる程度の違い（項目の追加・型の違い・未知のコード値）を知らせるためのもので、
+ * `list` がない場合は `parseTicketJson` 側でエラーになる。
+ */
+export function validateTicketPayload(value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const list = describeKind(value) === 'object' ? (value as { list?: unknown }).list : undefined;
+  if (!Array.isArray(list)) {
+    issues.push({ path: 'list', code: 'type', expected: 'array', actual: describeKind(list) });
+    return issues;
+  }
+
+  list.forEach((ticket, ticketIndex) => {
+    const ticketPath = `list[${ticketIndex}]`;
+    if (!validateRecord(ticket, ticketFieldSpecs, ticketPath, issues)) {
+      return;
+    }
+    const nested: [string, Record<string, SchemaFieldSpec>][] = [
+      ['schedules', entranceFieldSpecs],
+      ['event_schedules', eventFieldSpecs]
+    ];
+    nested.forEach(([field, specs]) => {
+      const schedules = ticket[field];
+      if (Array.isArray(schedules)) {
+        schedules.forEach((schedule, index) => validateRecord(schedule, specs, `${ticketPath}.${field}[${index}]`, issues));
+      }
+    });
+  });
+  return issues;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import sampleTicketPayload from '../../sample/sample.json';
+import longDummyPayload from '../../sample/long-dummy.json';
+import { layoutShareImage, MIN_SHARE_SCALE, paginateShareImage, shareLayoutMetrics, shareTemplates } from './shareLayout';
+import type { ShareSectionVisibility } from './shareLayout';
+import { buildVisitSummary } from './summary';
+import type { TicketPayload } from './types';
+
+const sample = buildVisitSummary((sampleTicketPayload as TicketPayload).list);
+const longDummy = buildVisitSummary((longDummyPayload as TicketPayload).list);
+
+const allSections: ShareSectionVisibility = {
+  tickets: true,
+  entrances: true,
+  hourChart: true,
+  monthlyChart: true,
+  gateTable: true
+};
+
+describe('layoutShareImage', () => {
+  it('grows the tall template to fit every line', () => {
+    const layout = layoutShareImage(longDummy, { template: 'long', sections: shareTemplates.long.defaultSections });
+    expect(layout.width).toBe(1080);
+    expect(layout.scale).toBe(1);
+    expect(layout.entranceLines).toHaveLength(longDummy.entranceLines.length);
+    expect(layout.omitted).toEqual({ tickets: 0, entrances: 0 });
+    expect(layout.blocks.map((block) => block.id)).toEqual(['header', 'tickets', 'entrances', 'monthlyChart', 'gateTable', 'footer']);
+    const footer = layout.blocks[layout.blocks.length - 1];
+    expect(footer.y + footer.height + shareLayoutMetrics.paddingBottom).toBe(layout.height);
+  });
+
+  it('recomputes the height when sections are hidden', () => {
+    const full = layoutShareImage(sample, { template: 'long', sections: allSections });
+    const chartsOnly = layoutShareImage(sample, {
+      template: 'long',
+      sections: { ...allSections, tickets: false, entrances: false }
+    });
+    expect(chartsOnly.height).toBeLessThan(full.height);
+    expect(chartsOnly.blocks.some((block) => block.id === 'entrances')).toBe(false);
+  });
+
+  it('keeps fixed templates at their size and stacks blocks without overlap', () => {
+    const layout = layoutShareImage(sample, { template: 'ogp', sections: allSections });
+    expect([layout.width, layout.height]).toEqual([1200, 630]);
+    expect(layout.logicalHeight * layout.scale).toBeCloseTo(630);
+    layout.blocks.slice(1).forEach((block, index) => {
+      const previous = layout.blocks[index];
+      expect(block.y).toBeGreaterThanOrEqual(previous.y + previous.height);
+    });
+  });
+
+  it('cuts off long lists instead of shrinking below the minimum scale', () => {
+    const layout = layoutShareImage(longDummy, { template: 'story', sections: shareTemplates.story.defaultSections });
+    expect(layout.height).toBe(1920);
+    expect(layout.scale).toBeGreaterThanOrEqual(MIN_SHARE_SCALE);
+    expect(layout.omitted.entrances).toBeGreaterThan(0);
+    expect(layout.entranceLines.length + layout.omitted.entrances).toBe(
+      longDummy.entranceLines.length + longDummy.leftoverEvents.length - layout.leftoverEvents.length
+    );
+  });
+
+  it('centers short content in fixed templates', () => {
+    const layout = layoutShareImage(sample, {
+      template: 'story',
+      sections: { ...allSections, tickets: false, entrances: false, hourChart: false, gateTable: false }
+    });
+    expect(layout.scale).toBe(1);
+    expect(layout.blocks[0].y).toBeGreaterThan(shareLayoutMetrics.paddingTop);
+  });
+});
+
+describe('paginateShareImage', () => {
+  const layout = layoutShareImage(longDummy, { template: 'long', sections: shareTemplates.long.defaultSections });
+
+  it('returns contiguous slices that cover the whole image', () => {
+    const slices = paginateShareImage(layout, 1200);
+    expect(slices.length).toBeGreaterThan(1);
+    let position = 0;
+    slices.forEach((slice) => {
+      expect(slice.start).toBe(position);
+      expect(slice.height).toBeLessThanOrEqual(1200);
+      position += slice.height;
+    });
+    expect(position).toBe(layout.height);
+  });
+
+  it('cuts only between blocks or rows', () => {
+    const boundaries = new Set(
+      layout.blocks.flatMap((block) => [block.y, ...block.breakOffsets.map((offset) => block.y + offset)])
+    );
+    paginateShareImage(layout, 1200)
+      .slice(1)
+      .forEach((slice) => {
+        expect(boundaries.has(slice.start)).toBe(true);
+      });
+  });
+
+  it('returns a single slice when the image already fits', () => {
+    expect(paginateShareImage(layout, layout.height)).toEqual([{ start: 0, height: layout.height }]);
+  });
+});
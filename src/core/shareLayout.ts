@@ -0,0 +1,288 @@
+import type { SummaryEntranceLine, SummaryLeftoverEvent, VisitSummary } from './summary';
+
+export type ShareTemplateId = 'long' | 'square' | 'ogp' | 'story';
+
+export type ShareSectionId = 'tickets' | 'entrances' | 'hourChart' | 'monthlyChart' | 'gateTable';
+
+export type ShareSectionVisibility = Record<ShareSectionId, boolean>;
+
+export interface ShareTemplate {
+  /** 出力する画像の幅（px） */
+  width: number;
+  /** 出力する画像の高さ（px）。null は内容に合わせて縦に伸ばす */
+  height: number | null;
+  /** テンプレートを選んだときに表示するセクションの初期値 */
+  defaultSections: ShareSectionVisibility;
+}
+
+export const shareTemplates: Record<ShareTemplateId, ShareTemplate> = {
+  long: {
+    width: 1080,
+    height: null,
+    defaultSections: { tickets: true, entrances: true, hourChart: false, monthlyChart: true, gateTable: true }
+  },
+  square: {
+    width: 1080,
+    height: 1080,
+    defaultSections: { tickets: false, entrances: false, hourChart: false, monthlyChart: true, gateTable: true }
+  },
+  ogp: {
+    width: 1200,
+    height: 630,
+    defaultSections: { tickets: false, entrances: false, hourChart: false, monthlyChart: true, gateTable: false }
+  },
+  story: {
+    width: 1080,
+    height: 1920,
+    defaultSections: { tickets: true, entrances: true, hourChart: false, monthlyChart: true, gateTable: false }
+  }
+};
+
+export const shareTemplateOrder: ShareTemplateId[] = ['long', 'square', 'ogp', 'story'];
+
+export const shareSectionOrder: ShareSectionId[] = ['tickets', 'entrances', 'hourChart', 'monthlyChart', 'gateTable'];
+
+/**
+ * 共有画像の寸法（縮小前の論理座標）。
+ */
+export const shareLayoutMetrics = {
+  cardMargin: 40,
+  paddingTop: 96,
+  paddingBottom: 96,
+  paddingX: 120,
+  lineHeight: 44,
+  blankSpacing: 31,
+  beforeStatsSpacing: 8,
+  afterStatsSpacing: 12,
+  chartTopMargin: 24,
+  chartHeight: 240,
+  chartLabelArea: 80
+};
+
+/**
+ * 固定サイズのテンプレートで全体を縮小する下限。これより小さくなる場合は一覧の末尾を省略する。
+ */
+export const MIN_SHARE_SCALE = 0.6;
+
+export type ShareBlockId = 'header' | ShareSectionId | 'footer';
+
+export interface ShareLayoutBlock {
+  id: ShareBlockId;
+  /** 論理座標での上端 */
+  y: number;
+  height: number;
+  /** ブロック内で分割してよい位置（上端からの距離）。一覧や表の行の境目 */
+  breakOffsets: number[];
+}
+
+export interface ShareImageSlice {
+  /** 出力画像での上端（px） */
+  start: number;
+  height: number;
+}
+
+export interface ShareLayoutOptions {
+  template: ShareTemplateId;
+  sections: ShareSectionVisibility;
+}
+
+export interface ShareImageLayout {
+  /** 出力する画像のサイズ（px） */
+  width: number;
+  height: number;
+  /** 論理座標から出力画像への縮小率（1 以下） */
+  scale: number;
+  /** 描画に使う論理座標のサイズ（出力サイズ ÷ scale） */
+  logicalWidth: number;
+  logicalHeight: number;
+  blocks: ShareLayoutBlock[];
+  /** 枠に収めるために末尾を省略した後の一覧 */
+  ticketLines: string[];
+  entranceLines: SummaryEntranceLine[];
+  leftoverEvents: SummaryLeftoverEvent[];
+  /** 省略した行の数（チケット一覧 / 来場スケジュール） */
+  omitted: { tickets: number; entrances: number };
+}
+
+interface ListSelection {
+  ticketCount: number;
+  entranceCount: number;
+  leftoverCount: number;
+}
+
+function lines(count: number): number {
+  return count * shareLayoutMetrics.lineHeight;
+}
+
+/**
+ * 見出し（と表の列見出し）の直後では切らないよう、`from` 行目から `to` 行目までの行の境目を返す。
+ */
+function lineBreaks(from: number, to: number, base = 0): number[] {
+  const offsets: number[] = [];
+  for (let line = from; line <= to; line += 1) {
+    offsets.push(base + lines(line));
+  }
+  return offsets;
+}
+
+function measureBlocks(
+  summary: VisitSummary,
+  sections: ShareSectionVisibility,
+  selection: ListSelection
+): Omit<ShareLayoutBlock, 'y'>[] {
+  const { blankSpacing, beforeStatsSpacing, afterStatsSpacing, chartTopMargin, chartHeight, chartLabelArea } =
+    shareLayoutMetrics;
+  const chartBlockHeight = lines(1) + chartTopMargin + chartHeight + chartLabelArea;
+  const blocks: Omit<ShareLayoutBlock, 'y'>[] = [
+    { id: 'header', height: lines(2) + beforeStatsSpacing + afterStatsSpacing, breakOffsets: [] }
+  ];
+
+  if (sections.tickets) {
+    const ticketLineCount = 1 + selection.ticketCount + (summary.ticketLines.length > selection.ticketCount ? 1 : 0);
+    blocks.push({ id: 'tickets', height: lines(ticketLineCount), breakOffsets: lineBreaks(2, ticketLineCount - 1) });
+  }
+  if (sections.entrances) {
+    const entranceRows = summary.entranceLines
+      .slice(0, selection.entranceCount)
+      .reduce((total, line) => total + 1 + line.events.length, 0);
+    const isTruncated =
+      summary.entranceLines.length > selection.entranceCount || summary.leftoverEvents.length > selection.leftoverCount;
+    const entranceLineCount = 1 + entranceRows + (isTruncated ? 1 : 0);
+    const breakOffsets = lineBreaks(2, entranceLineCount - 1);
+    let height = lines(entranceLineCount);
+    if (selection.leftoverCount > 0) {
+      breakOffsets.push(height);
+      height += blankSpacing;
+      breakOffsets.push(...lineBreaks(2, selection.leftoverCount, height));
+      height += lines(1 + selection.leftoverCount);
+    }
+    blocks.push({ id: 'entrances', height, breakOffsets });
+  }
+  if (sections.hourChart) {
+    blocks.push({ id: 'hourChart', height: chartBlockHeight, breakOffsets: [] });
+  }
+  if (sections.monthlyChart) {
+    blocks.push({ id: 'monthlyChart', height: chartBlockHeight, breakOffsets: [] });
+  }
+  if (sections.gateTable) {
+    // 見出し + 列見出しの行 + 時間帯ごとの行
+    const tableLineCount = 2 + summary.entranceTable.rows.length;
+    blocks.push({ id: 'gateTable', height: lines(tableLineCount), breakOffsets: lineBreaks(3, tableLineCount - 1) });
+  }
+  blocks.push({ id: 'footer', height: lines(1), breakOffsets: [] });
+  return blocks;
+}
+
+function measureContentHeight(blocks: { height: number }[]): number {
+  const { paddingTop, paddingBottom, blankSpacing } = shareLayoutMetrics;
+  const blockHeight = blocks.reduce((total, block) => total + block.height, 0);
+  return paddingTop + blockHeight + blankSpacing * (blocks.length - 1) + paddingBottom;
+}
+
+/**
+ * 一覧の末尾から 1 行（入場予約はぶら下がるパビリオン予約ごと）ずつ省略する。
+ * その他パビリオン予約 → 来場スケジュール → チケット一覧の順に削る。省略できなければ null。
+ */
+function shrinkSelection(selection: ListSelection, sections: ShareSectionVisibility): ListSelection | null {
+  if (sections.entrances && selection.leftoverCount > 0) {
+    return { ...selection, leftoverCount: selection.leftoverCount - 1 };
+  }
+  if (sections.entrances && selection.entranceCount > 0) {
+    return { ...selection, entranceCount: selection.entranceCount - 1 };
+  }
+  if (sections.tickets && selection.ticketCount > 0) {
+    return { ...selection, ticketCount: selection.ticketCount - 1 };
+  }
+  return null;
+}
+
+/**
+ * 共有画像のレイアウトを決める。選んだセクションだけを縦に並べ、
+ * 高さ固定のテンプレートでは全体を縮小して収める（縮小が {@link MIN_SHARE_SCALE} を下回る場合は一覧を省略する）。
+ * 内容が枠より低い場合は縦方向の中央に配置する。
+ */
+export function layoutShareImage(summary: VisitSummary, options: ShareLayoutOptions): ShareImageLayout {
+  const template = shareTemplates[options.template];
+  const { sections } = options;
+
+  let selection: ListSelection = {
+    ticketCount: summary.ticketLines.length,
+    entranceCount: summary.entranceLines.length,
+    leftoverCount: summary.leftoverEvents.length
+  };
+  let measured = measureBlocks(summary, sections, selection);
+  let contentHeight = measureContentHeight(measured);
+
+  if (template.height !== null) {
+    const maxContentHeight = template.height / MIN_SHARE_SCALE;
+    while (contentHeight > maxContentHeight) {
+      const next = shrinkSelection(selection, sections);
+      if (!next) {
+        break;
+      }
+      selection = next;
+      measured = measureBlocks(summary, sections, selection);
+      contentHeight = measureContentHeight(measured);
+    }
+  }
+
+  const width = template.width;
+  const height = template.height ?? contentHeight;
+  const scale = Math.min(1, height / contentHeight);
+  const logicalWidth = width / scale;
+  const logicalHeight = height / scale;
+
+  let cursorY = shareLayoutMetrics.paddingTop + Math.max(0, (logicalHeight - contentHeight) / 2);
+  const blocks = measured.map((block) => {
+    const positioned = { ...block, y: cursorY };
+    cursorY += block.height + shareLayoutMetrics.blankSpacing;
+    return positioned;
+  });
+
+  return {
+    width,
+    height,
+    scale,
+    logicalWidth,
+    logicalHeight,
+    blocks,
+    ticketLines: summary.ticketLines.slice(0, selection.ticketCount),
+    entranceLines: summary.entranceLines.slice(0, selection.entranceCount),
+    leftoverEvents: summary.leftoverEvents.slice(0, selection.leftoverCount),
+    omitted: {
+      tickets: summary.ticketLines.length - selection.ticketCount,
+      entrances:
+        summary.entranceLines.length -
+        selection.entranceCount +
+        summary.leftoverEvents.length -
+        selection.leftoverCount
+    }
+  };
+}
+
+/**
+ * 画像を高さ `maxHeight`（出力 px）以下の区間に分ける。セクションの境目と一覧・表の行の境目でだけ切り、
+ * 1つのセクションがどうしても収まらない場合に限り途中で切る。キャンバスの分割と PDF のページ分けに使う。
+ */
+export function paginateShareImage(layout: ShareImageLayout, maxHeight: number): ShareImageSlice[] {
+  const limit = Math.max(1, Math.floor(maxHeight));
+  const toOutput = (logicalY: number) => Math.round(logicalY * layout.scale);
+  const candidates = Array.from(
+    new Set([
+      ...layout.blocks.flatMap((block) => [block.y, ...block.breakOffsets.map((offset) => block.y + offset)].map(toOutput)),
+      layout.height
+    ])
+  )
+    .filter((position) => position > 0 && position <= layout.height)
+    .sort((a, b) => a - b);
+
+  const slices: ShareImageSlice[] = [];
+  let start = 0;
+  while (start < layout.height) {
+    const fitting = candidates.filter((position) => position > start && position - start <= limit);
+    const end = fitting.length > 0 ? fitting[fitting.length - 1] : Math.min(layout.height, start + limit);
+    slices.push({ start, height: end - start });
+    start = end;
+  }
+  return slices;
+}
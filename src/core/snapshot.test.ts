@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import sampleTicketPayload from '../../sample/sample.json';
+import { createSnapshot, diffSnapshots } from './snapshot';
+import type { Ticket, TicketPayload } from './types';
+
+const sample = sampleTicketPayload as TicketPayload;
+
+function cloneSample(): TicketPayload {
+  return JSON.parse(JSON.stringify(sample)) as TicketPayload;
+}
+
+function findSeasonPass(payload: TicketPayload): Ticket {
+  const ticket = payload.list.find((item) => item.ticket_id === 'TICKET0002');
+  if (!ticket) {
+    throw new Error('TICKET0002 is missing from the sample');
+  }
+  return ticket;
+}
+
+describe('createSnapshot', () => {
+  it('stamps the import time and file name', () => {
+    const snapshot = createSnapshot(sample, { fileName: 'tickets.json', importedAt: new Date('2025-08-01T00:00:00Z') });
+    expect(snapshot.importedAt).toBe('2025-08-01T00:00:00.000Z');
+    expect(snapshot.fileName).toBe('tickets.json');
+    expect(snapshot.id).toMatch(/^snapshot-2025-08-01T00:00:00.000Z-/);
+    expect(snapshot.payload).toBe(sample);
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('reports nothing for identical payloads', () => {
+    expect(diffSnapshots(sample, cloneSample())).toEqual({ added: [], cancelled: [], changed: [] });
+  });
+
+  it('detects added pavilion reservations and state changes', () => {
+    const before = cloneSample();
+    const seasonPass = findSeasonPass(before);
+    const lastEvent = seasonPass.event_schedules?.pop();
+    seasonPass.schedules![0].use_state = 0;
+    delete seasonPass.schedules![0].admission_time;
+
+    const diff = diffSnapshots(before, sample);
+    expect(diff.added).toHaveLength(1);
+    expect(diff.added[0].kind).toBe('event');
+    expect(diff.added[0].after).toEqual(lastEvent);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].kind).toBe('entrance');
+    expect(diff.changed[0].fields.map((field) => field.field)).toEqual(['use_state', 'admission_time']);
+    expect(diff.cancelled).toEqual([]);
+  });
+
+  it('treats removed or cancelled reservations as cancelled', () => {
+    const after = cloneSample();
+    const seasonPass = findSeasonPass(after);
+    seasonPass.schedules!.pop();
+    seasonPass.event_schedules![0].use_state = 2;
+
+    const diff = diffSnapshots(sample, after);
+    expect(diff.cancelled.map((change) => change.kind).sort()).toEqual(['entrance', 'event']);
+    expect(diff.cancelled.find((change) => change.kind === 'entrance')?.after).toBeUndefined();
+    expect(diff.added).toEqual([]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it('does not cancel reservations of tickets missing from the newer export', () => {
+    const after: TicketPayload = { list: [sample.list[0]] };
+    expect(diffSnapshots(sample, after).cancelled).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+import { compareSchedules } from './format';
+import { isCancelledUseState, resolvePavilionName, resolveTicketName } from './labels';
+import type { Locale } from './locale';
+import { diffReservationFields, getReservationKey, getTicketKey } from './merge';
+import type { ReservationFieldChange, ReservationKind } from './merge';
+import type { EntranceSchedule, EventSchedule, Ticket, TicketPayload } from './types';
+
+export interface HistorySnapshot {
+  id: string;
+  importedAt: string;
+  fileName?: string;
+  payload: TicketPayload;
+}
+
+export type ReservationChangeStatus = 'added' | 'cancelled' | 'changed';
+
+export interface ReservationChange {
+  key: string;
+  kind: ReservationKind;
+  status: ReservationChangeStatus;
+  ticketKey: string;
+  ticketName: string;
+  title: string;
+  before?: EntranceSchedule | EventSchedule;
+  after?: EntranceSchedule | EventSchedule;
+  fields: ReservationFieldChange[];
+}
+
+export interface SnapshotDiff {
+  added: ReservationChange[];
+  cancelled: ReservationChange[];
+  changed: ReservationChange[];
+}
+
+interface FlatReservation {
+  key: string;
+  kind: ReservationKind;
+  ticketKey: string;
+  ticketName: string;
+  schedule: EntranceSchedule | EventSchedule;
+}
+
+export function createSnapshot(
+  payload: TicketPayload,
+  options?: { fileName?: string; importedAt?: Date }
+): HistorySnapshot {
+  const importedAt = (options?.importedAt ?? new Date()).toISOString();
+  const random = Math.random().toString(36).slice(2, 8);
+  return {
+    id: `snapshot-${importedAt}-${random}`,
+    importedAt,
+    fileName: options?.fileName,
+    payload
+  };
+}
+
+function getSnapshotTicketKey(ticket: Ticket, index: number): string {
+  const ticketId = ticket.ticket_id?.trim();
+  return ticketId ? `ticket-${ticketId}` : getTicketKey(ticket, index);
+}
+
+function flattenReservations(payload: TicketPayload, locale: Locale): Map<string, FlatReservation> {
+  const result = new Map<string, FlatReservation>();
+  payload.list.forEach((ticket, ticketIndex) => {
+    const ticketKey = getSnapshotTicketKey(ticket, ticketIndex);
+    const ticketName = resolveTicketName(ticket, locale);
+    const add = (kind: ReservationKind, schedule: EntranceSchedule | EventSchedule, index: number) => {
+      const key = `${ticketKey}:${getReservationKey(kind, schedule, index)}`;
+      if (!result.has(key)) {
+        result.set(key, { key, kind, ticketKey, ticketName, schedule });
+      }
+    };
+    (ticket.schedules ?? []).forEach((schedule, index) => add('entrance', schedule, index));
+    (ticket.event_schedules ?? []).forEach((schedule, index) => add('event', schedule, index));
+  });
+  return result;
+}
+
+function describeReservation(reservation: FlatReservation, locale: Locale): string {
+  if (reservation.kind === 'event') {
+    const event = reservation.schedule as EventSchedule;
+    return resolvePavilionName(event.program_code ?? '', event.event_name, locale);
+  }
+  return locale === 'ja' ? '入場予約' : 'Entry reservation';
+}
+
+function sortChanges(changes: ReservationChange[]): ReservationChange[] {
+  return changes.sort((a, b) => {
+    const scheduleA = a.after ?? a.before ?? {};
+    const scheduleB = b.after ?? b.before ?? {};
+    return compareSchedules(scheduleA, scheduleB);
+  });
+}
+
+/**
+ * 2つのスナップショット間で入場予約・パビリオン予約の差分を求める。
+ * 新しい側にしかない予約は追加、同じチケットで古い側にしかない予約やキャンセル状態に変わった予約は取消、
+ * それ以外で日時・ゲート・利用状況などが変わったものは変更として扱う。
+ */
+export function diffSnapshots(before: TicketPayload, after: TicketPayload, locale: Locale = 'ja'): SnapshotDiff {
+  const beforeMap = flattenReservations(before, locale);
+  const afterMap = flattenReservations(after, locale);
+  const diff: SnapshotDiff = { added: [], cancelled: [], changed: [] };
+  const afterTicketKeys = new Set(after.list.map(getSnapshotTicketKey));
+
+  afterMap.forEach((current, key) => {
+    const previous = beforeMap.get(key);
+    const base = {
+      key,
+      kind: current.kind,
+      ticketKey: current.ticketKey,
+      ticketName: current.ticketName,
+      title: describeReservation(current, locale)
+    };
+    if (!previous) {
+      diff.added.push({ ...base, status: 'added', after: current.schedule, fields: [] });
+      return;
+    }
+    const fields = diffReservationFields(current.kind, previous.schedule, current.schedule);
+    if (fields.length === 0) {
+      return;
+    }
+    const status: ReservationChangeStatus =
+      isCancelledUseState(current.schedule.use_state) && !isCancelledUseState(previous.schedule.use_state)
+        ? 'cancelled'
+        : 'changed';
+    diff[status].push({ ...base, status, before: previous.schedule, after: current.schedule, fields });
+  });
+
+  beforeMap.forEach((previous, key) => {
+    // 別アカウントのデータなど、新しい側にチケット自体がない場合は取消とみなさない
+    if (afterMap.has(key) || !afterTicketKeys.has(previous.ticketKey)) {
+      return;
+    }
+    diff.cancelled.push({
+      key,
+      kind: previous.kind,
+      status: 'cancelled',
+      ticketKey: previous.ticketKey,
+      ticketName: previous.ticketName,
+      title: describeReservation(previous, locale),
+      before: previous.schedule,
+      fields: []
+    });
+  });
+
+  sortChanges(diff.added);
+  sortChanges(diff.cancelled);
+  sortChanges(diff.changed);
+  return diff;
+}
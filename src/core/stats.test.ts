@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import sampleTicketPayload from '../../sample/sample.json';
+import longDummyPayload from '../../sample/long-dummy.json';
+import eventsJa from '../../sample/events_ja.json';
+import { buildPavilionMaster } from './pavilionMaster';
+import type { CatalogueEvent } from './pavilionMaster';
+import { buildPavilionStatistics } from './stats';
+import type { Ticket, TicketPayload } from './types';
+
+const sample = sampleTicketPayload as TicketPayload;
+const longDummy = longDummyPayload as TicketPayload;
+
+describe('buildPavilionStatistics', () => {
+  it('counts pavilions, channels and weekdays for the sample', () => {
+    const stats = buildPavilionStatistics(sample.list);
+    expect(stats.pavilions).toHaveLength(6);
+    expect(stats.repeatPavilions).toEqual([]);
+    expect(stats.channels.reduce((total, channel) => total + channel.count, 0)).toBe(6);
+    expect(stats.channels.reduce((total, channel) => total + channel.ratio, 0)).toBeCloseTo(1);
+    expect(stats.weekdays.reduce((total, day) => total + day.entranceCount, 0)).toBe(13);
+    expect(stats.weekdays.reduce((total, day) => total + day.eventCount, 0)).toBe(6);
+  });
+
+  it('lists only pavilions visited more than once as repeats', () => {
+    const tickets: Ticket[] = [
+      {
+        event_schedules: [
+          { program_code: 'CO70', entrance_date: '20250601', use_state: 1, registered_channel: 2 },
+          { program_code: 'CO70', entrance_date: '20250602', use_state: 1, registered_channel: 5 },
+          { program_code: 'C930', entrance_date: '20250603', use_state: 1, registered_channel: 5 },
+          { program_code: 'C930', entrance_date: '20250604', use_state: 0, registered_channel: 5 }
+        ]
+      }
+    ];
+    const stats = buildPavilionStatistics(tickets);
+    expect(stats.repeatPavilions.map((stat) => [stat.programCodes, stat.visitCount])).toEqual([[['CO70'], 2]]);
+  });
+
+  it('collapses reservations of the same pavilion', () => {
+    const tickets: Ticket[] = [
+      {
+        event_schedules: [
+          { program_code: 'CO70', entrance_date: '20250601', use_state: 1, registered_channel: 2 },
+          { program_code: 'CO70', entrance_date: '20250602', use_state: 0, registered_channel: 5 },
+          { program_code: 'C930', entrance_date: '20250603', use_state: 2, registered_channel: 5 }
+        ]
+      }
+    ];
+    const stats = buildPavilionStatistics(tickets);
+    expect(stats.pavilions).toHaveLength(1);
+    expect(stats.pavilions[0]).toMatchObject({ reservationCount: 2, visitCount: 1, programCodes: ['CO70'] });
+    expect(stats.repeatPavilions).toEqual([]);
+    expect(stats.eventAttendance).toEqual({ used: 1, unused: 1, cancelled: 1, other: 0, rate: 0.5 });
+    expect(stats.weekdays[0].eventCount).toBe(1);
+  });
+
+  it('groups program code variants with the pavilion master', () => {
+    const master = buildPavilionMaster(eventsJa as CatalogueEvent[]);
+    const tickets: Ticket[] = [
+      {
+        event_schedules: [
+          { program_code: 'CO70', entrance_date: '20250601', use_state: 1 },
+          { program_code: 'CO73', entrance_date: '20250602', use_state: 0 }
+        ]
+      }
+    ];
+    const stats = buildPavilionStatistics(tickets, master);
+    expect(stats.pavilions).toHaveLength(1);
+    expect(stats.pavilions[0]).toMatchObject({ name: 'タイパビリオン', reservationCount: 2, programCodes: ['CO70', 'CO73'] });
+  });
+
+  it('keeps the totals consistent on the long dummy data', () => {
+    const stats = buildPavilionStatistics(longDummy.list);
+    const attendance = stats.entranceAttendance;
+    expect(attendance.used + attendance.unused + attendance.cancelled + attendance.other).toBe(208);
+    expect(stats.pavilions[0].reservationCount).toBeGreaterThanOrEqual(stats.pavilions[stats.pavilions.length - 1].reservationCount);
+  });
+});
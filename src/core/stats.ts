@@ -0,0 +1,139 @@
+import { isCancelledUseState, resolveRegisteredChannel, resolveRegisteredChannelName } from './labels';
+import type { Locale } from './locale';
+import { emptyPavilionMaster, resolvePavilionGroup } from './pavilionMaster';
+import type { PavilionMaster } from './pavilionMaster';
+import type { EntranceSchedule, EventSchedule, Ticket } from './types';
+
+export interface PavilionStat {
+  /** パビリオンマスターのグループ（なければ `resolvePavilionName` の表示名）のキー */
+  key: string;
+  name: string;
+  programCodes: string[];
+  /** キャンセルを除いた予約数 */
+  reservationCount: number;
+  /** 利用済みの回数 */
+  visitCount: number;
+}
+
+export interface ChannelStat {
+  channel: number | null;
+  label: string;
+  count: number;
+  ratio: number;
+}
+
+export interface AttendanceStat {
+  used: number;
+  unused: number;
+  cancelled: number;
+  other: number;
+  /** 利用済み /（利用済み + 未使用）。対象がなければ null */
+  rate: number | null;
+}
+
+export interface WeekdayStat {
+  weekday: number;
+  entranceCount: number;
+  eventCount: number;
+}
+
+export interface PavilionStatistics {
+  pavilions: PavilionStat[];
+  repeatPavilions: PavilionStat[];
+  channels: ChannelStat[];
+  entranceAttendance: AttendanceStat;
+  eventAttendance: AttendanceStat;
+  weekdays: WeekdayStat[];
+}
+
+function weekdayOf(date?: string): number | null {
+  if (!date || !/^\d{8}$/.test(date)) return null;
+  return new Date(Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8))).getDay();
+}
+
+function buildAttendance(schedules: (EntranceSchedule | EventSchedule)[]): AttendanceStat {
+  const stat: AttendanceStat = { used: 0, unused: 0, cancelled: 0, other: 0, rate: null };
+  schedules.forEach((schedule) => {
+    if (schedule.use_state === 1) {
+      stat.used += 1;
+    } else if (schedule.use_state === 0) {
+      stat.unused += 1;
+    } else if (isCancelledUseState(schedule.use_state)) {
+      stat.cancelled += 1;
+    } else {
+      stat.other += 1;
+    }
+  });
+  const denominator = stat.used + stat.unused;
+  stat.rate = denominator > 0 ? stat.used / denominator : null;
+  return stat;
+}
+
+/**
+ * 集計対象のチケットからパビリオン別の予約数・再訪、登録経路の内訳、利用率、曜日別の件数を求める。
+ * パビリオンはパビリオンマスターのグループでまとめるため、同じパビリオンの別枠コードは1つに数える。
+ */
+export function buildPavilionStatistics(
+  tickets: Ticket[],
+  master: PavilionMaster = emptyPavilionMaster,
+  locale: Locale = 'ja'
+): PavilionStatistics {
+  const entrances = tickets.flatMap((ticket) => ticket.schedules ?? []);
+  const events = tickets.flatMap((ticket) => ticket.event_schedules ?? []);
+  const activeEvents = events.filter((schedule) => !isCancelledUseState(schedule.use_state));
+
+  const pavilionMap = new Map<string, PavilionStat>();
+  activeEvents.forEach((schedule) => {
+    const group = resolvePavilionGroup(master, schedule.program_code, schedule.event_name, locale);
+    const stat = pavilionMap.get(group.key) ?? { key: group.key, name: group.name, programCodes: [], reservationCount: 0, visitCount: 0 };
+    if (schedule.program_code && !stat.programCodes.includes(schedule.program_code)) {
+      stat.programCodes.push(schedule.program_code);
+    }
+    stat.reservationCount += 1;
+    if (schedule.use_state === 1) {
+      stat.visitCount += 1;
+    }
+    pavilionMap.set(group.key, stat);
+  });
+  const pavilions = Array.from(pavilionMap.values()).sort(
+    (a, b) => b.reservationCount - a.reservationCount || b.visitCount - a.visitCount || a.name.localeCompare(b.name, locale)
+  );
+
+  const channelMap = new Map<number | null, number>();
+  activeEvents.forEach((schedule) => {
+    const channel = schedule.registered_channel ?? null;
+    channelMap.set(channel, (channelMap.get(channel) ?? 0) + 1);
+  });
+  const channels = Array.from(channelMap, ([channel, count]) => ({
+    channel,
+    label: resolveRegisteredChannelName(channel, locale) || resolveRegisteredChannel(channel, locale),
+    count,
+    ratio: activeEvents.length > 0 ? count / activeEvents.length : 0
+  })).sort((a, b) => b.count - a.count || (a.channel ?? 99) - (b.channel ?? 99));
+
+  const weekdays: WeekdayStat[] = Array.from({ length: 7 }, (_, weekday) => ({ weekday, entranceCount: 0, eventCount: 0 }));
+  entrances.forEach((schedule) => {
+    const weekday = weekdayOf(schedule.entrance_date);
+    if (weekday !== null && !isCancelledUseState(schedule.use_state)) {
+      weekdays[weekday].entranceCount += 1;
+    }
+  });
+  activeEvents.forEach((schedule) => {
+    const weekday = weekdayOf(schedule.entrance_date);
+    if (weekday !== null) {
+      weekdays[weekday].eventCount += 1;
+    }
+  });
+
+  return {
+    pavilions,
+    // 予約しただけで未使用のものは数えず、実際に2回以上利用したパビリオンだけを挙げる
+    repeatPavilions: pavilions
+      .filter((stat) => stat.visitCount > 1)
+      .sort((a, b) => b.visitCount - a.visitCount || a.name.localeCompare(b.name, locale)),
+    channels,
+    entranceAttendance: buildAttendance(entrances),
+    eventAttendance: buildAttendance(events),
+    weekdays
+  };
+}
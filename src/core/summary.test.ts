@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import sampleTicketPayload from '../../sample/sample.json';
+import longDummyPayload from '../../sample/long-dummy.json';
+import {
+  buildVisitSummary,
+  countReservations,
+  describeVisitPeriod,
+  determineEntranceBucket,
+  emptySummaryRedaction,
+  indexToLabel
+} from './summary';
+import type { TicketPayload } from './types';
+
+const sample = sampleTicketPayload as TicketPayload;
+const longDummy = longDummyPayload as TicketPayload;
+
+describe('indexToLabel', () => {
+  it('produces spreadsheet-style labels', () => {
+    expect(indexToLabel(0)).toBe('A');
+    expect(indexToLabel(25)).toBe('Z');
+    expect(indexToLabel(26)).toBe('AA');
+    expect(indexToLabel(27)).toBe('AB');
+  });
+});
+
+describe('determineEntranceBucket', () => {
+  it('maps schedule names to hour buckets', () => {
+    expect(determineEntranceBucket({ schedule_name: '9:00-' })).toBe('09');
+    expect(determineEntranceBucket({ schedule_name: '17:00-' })).toBe('17');
+    expect(determineEntranceBucket({ schedule_name: '13:00-' })).toBeNull();
+    expect(determineEntranceBucket({})).toBeNull();
+  });
+});
+
+describe('countReservations', () => {
+  it('counts the sample', () => {
+    expect(countReservations(sample.list)).toEqual({ ticketCount: 2, entranceCount: 13, eventCount: 6 });
+  });
+
+  it('counts the long dummy', () => {
+    expect(countReservations(longDummy.list)).toEqual({ ticketCount: 32, entranceCount: 208, eventCount: 96 });
+  });
+});
+
+describe('buildVisitSummary', () => {
+  it('summarizes the sample', () => {
+    const summary = buildVisitSummary(sample.list);
+    expect(summary.ticketLines).toEqual([
+      'A. 夜間券 ｜ 入場:1 ｜ パビリオン:0',
+      'B. 通期パス ｜ 入場:12 ｜ パビリオン:6'
+    ]);
+    expect(summary.entranceLines).toHaveLength(13);
+    expect(summary.entranceLines[0].baseText).toBe('2025/05/10(土) ｜ A ｜ 17:00- ｜ 17:57:55');
+    expect(summary.entranceLines[0].gateLabel).toBe('西ゲート');
+    expect(summary.entranceLines[0].gateType).toBe(2);
+    expect(summary.leftoverEvents).toEqual([]);
+    expect(summary.monthlyCounts.map((item) => item.count)).toEqual([0, 2, 3, 2, 2, 3, 1]);
+
+    const australia = summary.entranceLines.find((line) => line.text.startsWith('2025/09/25'));
+    expect(australia?.events).toEqual([
+      { left: '- 19:30-19:45 ｜ 7日前抽選 ｜ 未使用', right: 'オーストラリアパビリオン 「Chasing the Sun ― 太陽の大地へ」' }
+    ]);
+  });
+
+  it('summarizes the sample in English', () => {
+    const summary = buildVisitSummary(sample.list, 'en');
+    expect(summary.entranceLines[0].gateLabel).toBe('West Gate');
+    expect(summary.entranceLines[0].baseText).toBe('Sat, May 10, 2025 ｜ A ｜ 17:00- ｜ 17:57:55');
+    expect(summary.entranceLines.map((line) => line.date)).toEqual(
+      buildVisitSummary(sample.list).entranceLines.map((line) => line.date)
+    );
+    expect(summary.ticketLines[0]).toBe('A. Night Ticket ｜ Entries: 1 ｜ Pavilions: 0');
+    expect(summary.monthlyCounts[0].label).toBe('Apr');
+    expect(summary.entranceTable.rows[summary.entranceTable.rows.length - 1].label).toBe('Total');
+  });
+
+  it('tallies entrances per hour and gate', () => {
+    const { entranceTable } = buildVisitSummary(sample.list);
+    expect(entranceTable.columns).toEqual(['東', '西', '合計']);
+    expect(entranceTable.rows).toEqual([
+      { label: '9時', east: 0, west: 0, total: 0 },
+      { label: '10時', east: 1, west: 1, total: 2 },
+      { label: '11時', east: 2, west: 1, total: 3 },
+      { label: '12時', east: 4, west: 3, total: 7 },
+      { label: '17時', east: 0, west: 1, total: 1 },
+      { label: '合計', east: 7, west: 6, total: 13 }
+    ]);
+  });
+
+  it('keeps every reservation of the long dummy', () => {
+    const summary = buildVisitSummary(longDummy.list);
+    const attachedEvents = summary.entranceLines.reduce((acc, line) => acc + line.events.length, 0);
+    expect(summary.entranceLines).toHaveLength(208);
+    expect(attachedEvents + summary.leftoverEvents.length).toBe(96);
+    expect(summary.monthlyCounts.reduce((acc, item) => acc + item.count, 0)).toBe(208);
+    expect(summary.entranceTable.rows[summary.entranceTable.rows.length - 1].total).toBe(208);
+  });
+
+  it('moves pavilion reservations without an entrance to leftovers', () => {
+    const summary = buildVisitSummary([
+      {
+        ticket_id: 'T1',
+        schedules: [],
+        event_schedules: [{ id: 1, entrance_date: '20250801', start_time: '1000', event_name: 'Show' }]
+      }
+    ]);
+    expect(summary.leftoverEvents).toEqual([{ key: 'unassigned-1', text: '2025/08/01(金) ｜ Show ｜ 10:00' }]);
+  });
+});
+
+describe('redaction', () => {
+  const redaction = {
+    hideDates: true,
+    hideAdmissionTimes: true,
+    hideTicketTypes: true,
+    nicknames: { 'id-1000002': ' Mine ' }
+  };
+
+  it('hides dates, admission times and ticket types', () => {
+    const summary = buildVisitSummary(sample.list, 'ja', redaction);
+    expect(summary.ticketLines).toEqual(['A ｜ 入場:1 ｜ パビリオン:0', 'Mine ｜ 入場:12 ｜ パビリオン:6']);
+    expect(summary.entranceLines[0].baseText).toBe('5月 ｜ A ｜ 17:00- ｜ 入場済み');
+    expect(summary.entranceLines.map((line) => line.text).join('\n')).not.toMatch(/2025|\d{2}:\d{2}:\d{2}/);
+    expect(summary.monthlyCounts).toEqual(buildVisitSummary(sample.list).monthlyCounts);
+  });
+
+  it('describes the visit period for the share text', () => {
+    expect(describeVisitPeriod(sample.list)).toBe('2025年05月10日〜2025年10月13日');
+    expect(describeVisitPeriod(sample.list, 'ja', redaction)).toBe('5月〜10月');
+    expect(describeVisitPeriod(sample.list, 'en', { ...emptySummaryRedaction, hideDates: true })).toBe('May – Oct');
+    expect(describeVisitPeriod([])).toBe('');
+  });
+});
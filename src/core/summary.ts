@@ -0,0 +1,429 @@
+import { compareSchedules, formatDate, formatTime, monthShortLabels } from './format';
+import {
+  isKnownUseState,
+  resolveGateLabel,
+  resolvePavilionName,
+  resolveRegisteredChannelName,
+  resolveTicketName,
+  resolveUseStateLabel
+} from './labels';
+import type { Locale } from './locale';
+import { getTicketKey } from './merge';
+import type { EntranceSchedule, EventSchedule, GateType, Ticket } from './types';
+
+export interface SummaryEventLine {
+  left: string;
+  right: string;
+}
+
+export interface SummaryEntranceLine {
+  key: string;
+  text: string;
+  baseText: string;
+  gateLabel?: string;
+  gateType?: GateType;
+  events: SummaryEventLine[];
+  month: number | null;
+  /** 並べ替え用の `entrance_date`（YYYYMMDD）。表示用の日付は言語ごとに書式が異なるため別に持つ。 */
+  date: string | null;
+}
+
+export interface SummaryEntranceTableRow {
+  label: string;
+  east: number;
+  west: number;
+  total: number;
+}
+
+export interface SummaryEntranceTable {
+  columns: string[];
+  rows: SummaryEntranceTableRow[];
+}
+
+export interface SummaryLeftoverEvent {
+  key: string;
+  text: string;
+}
+
+export interface SummaryMonthlyCount {
+  month: number;
+  label: string;
+  count: number;
+}
+
+export interface ReservationCounts {
+  ticketCount: number;
+  entranceCount: number;
+  eventCount: number;
+}
+
+export interface VisitSummary {
+  ticketLines: string[];
+  entranceLines: SummaryEntranceLine[];
+  leftoverEvents: SummaryLeftoverEvent[];
+  monthlyCounts: SummaryMonthlyCount[];
+  entranceTable: SummaryEntranceTable;
+}
+
+/**
+ * 共有画像・共有テキストから伏せる情報。
+ */
+export interface SummaryRedaction {
+  /** 日付を月だけにする */
+  hideDates: boolean;
+  /** 入場時刻を「入場済み」にする */
+  hideAdmissionTimes: boolean;
+  /** チケット一覧から券種名を外す */
+  hideTicketTypes: boolean;
+  /** A, B, … の代わりに使うチケットの呼び名。キーは `getTicketKey`、空欄のチケットは元のラベルのまま */
+  nicknames: Record<string, string>;
+}
+
+export const emptySummaryRedaction: SummaryRedaction = {
+  hideDates: false,
+  hideAdmissionTimes: false,
+  hideTicketTypes: false,
+  nicknames: {}
+};
+
+export const EXPO_MONTHS = [4, 5, 6, 7, 8, 9, 10];
+
+export const entranceBucketDefinitions = [
+  { key: '09', label: '9時' },
+  { key: '10', label: '10時' },
+  { key: '11', label: '11時' },
+  { key: '12', label: '12時' },
+  { key: '17', label: '17時' }
+];
+
+export const weekdayLabelsByLocale: Record<Locale, string[]> = {
+  ja: ['日', '月', '火', '水', '木', '金', '土'],
+  en: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+};
+
+export const weekdayLabels = weekdayLabelsByLocale.ja;
+
+const summaryLabels: Record<
+  Locale,
+  {
+    noDate: string;
+    entered: string;
+    untitled: string;
+    total: string;
+    columns: string[];
+    bucket: (hour: number) => string;
+    month: (month: number) => string;
+    ticketLine: (label: string, name: string, entrances: number, events: number) => string;
+    period: (first: string, last: string) => string;
+  }
+> = {
+  ja: {
+    noDate: '日付未設定',
+    entered: '入場済み',
+    untitled: '名称未登録',
+    total: '合計',
+    columns: ['東', '西', '合計'],
+    bucket: (hour) => `${hour}時`,
+    month: (month) => `${month}月`,
+    ticketLine: (label, name, entrances, events) =>
+      `${name ? `${label}. ${name}` : label} ｜ 入場:${entrances} ｜ パビリオン:${events}`,
+    period: (first, last) => `${first}〜${last}`
+  },
+  en: {
+    noDate: 'No date',
+    entered: 'Entered',
+    untitled: 'Untitled',
+    total: 'Total',
+    columns: ['East', 'West', 'Total'],
+    bucket: (hour) => `${hour}:00`,
+    month: (month) => monthShortLabels[month - 1] ?? String(month),
+    ticketLine: (label, name, entrances, events) =>
+      `${name ? `${label}. ${name}` : label} ｜ Entries: ${entrances} ｜ Pavilions: ${events}`,
+    period: (first, last) => `${first} – ${last}`
+  }
+};
+
+const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * 0, 1, ..., 25, 26 を A, B, ..., Z, AA のようなチケットラベルに変換する。
+ */
+export function indexToLabel(index: number): string {
+  let value = index;
+  let label = '';
+  do {
+    label = alphabet[value % alphabet.length] + label;
+    value = Math.floor(value / alphabet.length) - 1;
+  } while (value >= 0);
+  return label;
+}
+
+export function formatDateWithWeekday(raw?: string | null, locale: Locale = 'ja'): { label: string; month: number | null } {
+  if (!raw || !/^\d{8}$/.test(raw)) {
+    return { label: raw ?? summaryLabels[locale].noDate, month: null };
+  }
+  const year = Number(raw.slice(0, 4));
+  const month = Number(raw.slice(4, 6));
+  const day = Number(raw.slice(6, 8));
+  const date = new Date(year, month - 1, day);
+  const weekday = weekdayLabelsByLocale[locale][date.getDay()];
+  const label =
+    locale === 'ja'
+      ? `${year}/${month.toString().padStart(2, '0')}/${day.toString().padStart(2, '0')}(${weekday})`
+      : `${weekday}, ${formatDate(raw, locale)}`;
+  return { label, month };
+}
+
+/**
+ * 入場予約の `schedule_name`（例: `11:00-`）から時間帯の集計キーを求める。
+ */
+export function determineEntranceBucket(schedule: EntranceSchedule): string | null {
+  const name = schedule.schedule_name;
+  if (!name) return null;
+  const match = name.match(/(\d{1,2})[:：]/);
+  if (!match) {
+    return null;
+  }
+  const hour = match[1].padStart(2, '0');
+  return entranceBucketDefinitions.some(({ key }) => key === hour) ? hour : null;
+}
+
+export function countReservations(tickets: Ticket[]): ReservationCounts {
+  return {
+    ticketCount: tickets.length,
+    entranceCount: tickets.reduce((accumulator, ticket) => accumulator + (ticket.schedules?.length ?? 0), 0),
+    eventCount: tickets.reduce((accumulator, ticket) => accumulator + (ticket.event_schedules?.length ?? 0), 0)
+  };
+}
+
+function describeUsage(schedule: EntranceSchedule | EventSchedule, locale: Locale, hideAdmissionTime: boolean): string {
+  if (schedule.use_state === undefined) {
+    return '';
+  }
+  if (schedule.use_state === 1) {
+    return schedule.admission_time && !hideAdmissionTime
+      ? formatTime(schedule.admission_time)
+      : summaryLabels[locale].entered;
+  }
+  return isKnownUseState(schedule.use_state) ? resolveUseStateLabel(schedule.use_state, locale) : '';
+}
+
+function getSummaryTicketKey(ticket: Ticket, ticketIndex: number): string {
+  return ticket.ticket_id ?? `ticket-${ticket.id ?? ticketIndex}`;
+}
+
+/**
+ * 日付の表示。`hideDates` のときは月だけにする。
+ */
+function formatRedactedDate(raw: string | null | undefined, locale: Locale, hideDates: boolean) {
+  const dateInfo = formatDateWithWeekday(raw, locale);
+  if (!hideDates || dateInfo.month === null) {
+    return dateInfo;
+  }
+  return { label: summaryLabels[locale].month(dateInfo.month), month: dateInfo.month };
+}
+
+/**
+ * 共有画像に載せるチケットのラベル。呼び名が設定されていればそれを使う。
+ */
+export function resolveSummaryTicketLabel(ticket: Ticket, index: number, redaction: SummaryRedaction): string {
+  return redaction.nicknames[getTicketKey(ticket, index)]?.trim() || indexToLabel(index);
+}
+
+/**
+ * 入場予約の期間（最初と最後の来場日）。共有テキスト用で、入場予約がなければ空文字。
+ */
+export function describeVisitPeriod(
+  tickets: Ticket[],
+  locale: Locale = 'ja',
+  redaction: SummaryRedaction = emptySummaryRedaction
+): string {
+  const dates = tickets
+    .flatMap((ticket) => ticket.schedules ?? [])
+    .map((schedule) => schedule.entrance_date)
+    .filter((date): date is string => Boolean(date && /^\d{8}$/.test(date)))
+    .sort();
+  if (dates.length === 0) {
+    return '';
+  }
+  const format = (date: string) =>
+    redaction.hideDates ? summaryLabels[locale].month(Number(date.slice(4, 6))) : formatDate(date, locale);
+  const first = format(dates[0]);
+  const last = format(dates[dates.length - 1]);
+  return first === last ? first : summaryLabels[locale].period(first, last);
+}
+
+/**
+ * 共有画像に載せる集計（チケット一覧・来場スケジュール・時間帯別/月別の入場回数）を計算する。
+ * パビリオン予約は同じチケット・同じ日付の入場予約の下にぶら下げ、対応する入場予約がないものは
+ * `leftoverEvents` に回す。`redaction` で伏せた項目は文字列に含めない。
+ */
+export function buildVisitSummary(
+  tickets: Ticket[],
+  locale: Locale = 'ja',
+  redaction: SummaryRedaction = emptySummaryRedaction
+): VisitSummary {
+  const labels = summaryLabels[locale];
+  const bucketCounts: Record<string, { east: number; west: number }> = {};
+  entranceBucketDefinitions.forEach(({ key }) => {
+    bucketCounts[key] = { east: 0, west: 0 };
+  });
+  let totalEast = 0;
+  let totalWest = 0;
+
+  const ticketEntries = tickets.map((ticket, index) => ({
+    label: resolveSummaryTicketLabel(ticket, index, redaction),
+    ticket
+  }));
+
+  const eventsByKey = new Map<string, EventSchedule[]>();
+  ticketEntries.forEach(({ ticket }, ticketIndex) => {
+    const ticketKey = getSummaryTicketKey(ticket, ticketIndex);
+    (ticket.event_schedules ?? []).forEach((event) => {
+      const dateKey = event.entrance_date ?? 'unknown';
+      const mapKey = `${ticketKey}-${dateKey}`;
+      const list = eventsByKey.get(mapKey) ?? [];
+      list.push(event);
+      eventsByKey.set(mapKey, list);
+    });
+  });
+
+  eventsByKey.forEach((list, mapKey) => {
+    eventsByKey.set(mapKey, [...list].sort(compareSchedules));
+  });
+
+  const ticketLines = ticketEntries.map(({ label, ticket }) => {
+    const entranceTotal = ticket.schedules?.length ?? 0;
+    const eventTotal = ticket.event_schedules?.length ?? 0;
+    const name = redaction.hideTicketTypes ? '' : resolveTicketName(ticket, locale);
+    return labels.ticketLine(label, name, entranceTotal, eventTotal);
+  });
+
+  const entranceLines: SummaryEntranceLine[] = [];
+  const monthCountMap = new Map<number, number>();
+
+  ticketEntries.forEach(({ label, ticket }, ticketIndex) => {
+    const ticketKey = getSummaryTicketKey(ticket, ticketIndex);
+    (ticket.schedules ?? []).forEach((schedule, scheduleIndex) => {
+      const dateInfo = formatRedactedDate(schedule.entrance_date, locale, redaction.hideDates);
+      const timeLabel = schedule.schedule_name || (schedule.start_time ? formatTime(schedule.start_time) : '');
+      const gateLabel = resolveGateLabel(schedule.gate_type, locale);
+      const statusText = describeUsage(schedule, locale, redaction.hideAdmissionTimes);
+      const bucketKey = determineEntranceBucket(schedule);
+      const gateType = schedule.gate_type;
+      if (gateType === 1) {
+        totalEast += 1;
+        if (bucketKey && bucketCounts[bucketKey]) {
+          bucketCounts[bucketKey].east += 1;
+        }
+      } else if (gateType === 2) {
+        totalWest += 1;
+        if (bucketKey && bucketCounts[bucketKey]) {
+          bucketCounts[bucketKey].west += 1;
+        }
+      }
+
+      const parts = [
+        dateInfo.label,
+        label,
+        timeLabel,
+        gateLabel,
+        statusText
+      ].filter(Boolean);
+      const gateIndex = gateLabel ? parts.indexOf(gateLabel) : -1;
+      const baseParts = gateIndex >= 0
+        ? [...parts.slice(0, gateIndex), ...parts.slice(gateIndex + 1)]
+        : [...parts];
+      const baseText = baseParts.join(' ｜ ');
+      const lineText = (gateLabel ? [...baseParts, gateLabel] : baseParts).join(' ｜ ');
+
+      if (dateInfo.month) {
+        monthCountMap.set(dateInfo.month, (monthCountMap.get(dateInfo.month) ?? 0) + 1);
+      }
+
+      const mapKey = `${ticketKey}-${schedule.entrance_date ?? 'unknown'}`;
+      const relatedEvents = eventsByKey.get(mapKey) ?? [];
+      eventsByKey.delete(mapKey);
+
+      const eventLines: SummaryEventLine[] = relatedEvents.map((event) => {
+        const pavilionTime = event.schedule_name || (event.start_time ? formatTime(event.start_time) : '');
+        const leftParts = [
+          pavilionTime,
+          resolveRegisteredChannelName(event.registered_channel, locale),
+          describeUsage(event, locale, redaction.hideAdmissionTimes)
+        ].filter(Boolean);
+        const leftText = leftParts.length > 0 ? `- ${leftParts.join(' ｜ ')}` : '-';
+        const rightText = resolvePavilionName(event.program_code ?? '', event.event_name, locale);
+        return { left: leftText, right: rightText };
+      });
+
+      entranceLines.push({
+        key: `entrance-${label}-${schedule.user_visiting_reservation_id ?? schedule.id ?? scheduleIndex}`,
+        text: lineText,
+        baseText,
+        gateLabel: gateLabel || undefined,
+        gateType: gateLabel ? gateType : undefined,
+        events: eventLines,
+        month: dateInfo.month,
+        date: schedule.entrance_date ?? null
+      });
+    });
+  });
+
+  // 日付のない入場予約は末尾に回す
+  entranceLines.sort((a, b) => {
+    const dateA = a.date ?? '99999999';
+    const dateB = b.date ?? '99999999';
+    if (dateA < dateB) return -1;
+    if (dateA > dateB) return 1;
+    return 0;
+  });
+
+  const entranceTableRows: SummaryEntranceTableRow[] = entranceBucketDefinitions.map(({ key }) => {
+    const counts = bucketCounts[key];
+    const east = counts?.east ?? 0;
+    const west = counts?.west ?? 0;
+    return {
+      label: labels.bucket(Number(key)),
+      east,
+      west,
+      total: east + west
+    };
+  });
+  entranceTableRows.push({
+    label: labels.total,
+    east: totalEast,
+    west: totalWest,
+    total: totalEast + totalWest
+  });
+
+  const leftoverEvents = Array.from(eventsByKey.values())
+    .flat()
+    .sort(compareSchedules)
+    .map((event, index) => {
+      const dateInfo = formatRedactedDate(event.entrance_date, locale, redaction.hideDates);
+      const pavilionTime = event.schedule_name || (event.start_time ? formatTime(event.start_time) : '');
+      const parts = [dateInfo.label, event.event_name ?? labels.untitled, pavilionTime].filter(Boolean);
+      return {
+        key: `unassigned-${event.id ?? event.program_code ?? index}`,
+        text: parts.join(' ｜ ')
+      };
+    });
+
+  const monthlyCounts = EXPO_MONTHS.map((month) => ({
+    month,
+    label: labels.month(month),
+    count: monthCountMap.get(month) ?? 0
+  }));
+
+  return {
+    ticketLines,
+    entranceLines,
+    leftoverEvents,
+    monthlyCounts,
+    entranceTable: {
+      columns: labels.columns,
+      rows: entranceTableRows
+    }
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import sampleTicketPayload from '../../sample/sample.json';
+import {
+  buildReservationTable,
+  formatReservationTable,
+  reservationTableHeaders,
+  reservationTableHeadersByLocale
+} from './table';
+import type { Ticket, TicketPayload } from './types';
+
+const sample = sampleTicketPayload as TicketPayload;
+
+describe('buildReservationTable', () => {
+  it('creates one row per reservation in date order', () => {
+    const rows = buildReservationTable(sample.list);
+    expect(rows).toHaveLength(19);
+    expect(rows.every((row) => row.length === reservationTableHeaders.length)).toBe(true);
+    expect(rows[0].slice(0, 8)).toEqual(['A', '夜間券', '入場', '2025-05-10', '17:00-', '西ゲート', '利用済み', '17:57:55']);
+  });
+
+  it('uses English labels', () => {
+    const rows = buildReservationTable(sample.list, 'en');
+    expect(rows[0].slice(0, 7)).toEqual(['A', 'Night Ticket', 'Entry', '2025-05-10', '17:00-', 'West Gate', 'Used']);
+    expect(formatReservationTable(sample.list, 'csv', 'en').split('\r\n')[0]).toBe(reservationTableHeadersByLocale.en.join(','));
+  });
+
+  it('fills pavilion columns for event reservations', () => {
+    const row = buildReservationTable(sample.list).find((cells) => cells[9] === 'HSH0');
+    expect(row?.[2]).toBe('パビリオン');
+    expect(row?.[3]).toBe('2025-06-21');
+    expect(row?.[4]).toBe('14:00-14:30');
+    expect(row?.[5]).toBe('');
+    expect(row?.[10]).not.toBe('');
+  });
+});
+
+describe('formatReservationTable', () => {
+  const tickets: Ticket[] = [
+    {
+      item_name: 'Ticket "A", special',
+      event_schedules: [{ id: 1, entrance_date: '20250601', schedule_name: '10:00-10:30', event_name: 'Line\tOne', use_state: 0 }]
+    }
+  ];
+
+  it('quotes CSV cells that need it', () => {
+    const lines = formatReservationTable(tickets, 'csv').split('\r\n');
+    expect(lines[0]).toBe(reservationTableHeaders.join(','));
+    expect(lines[1].startsWith('A,"Ticket ""A"", special",パビリオン,2025-06-01,10:00-10:30,')).toBe(true);
+  });
+
+  it('replaces tabs inside TSV cells', () => {
+    const lines = formatReservationTable(tickets, 'tsv').split('\r\n');
+    expect(lines[1].split('\t')).toHaveLength(reservationTableHeaders.length);
+    expect(lines[1].endsWith('Line One')).toBe(true);
+  });
+});
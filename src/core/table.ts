@@ -0,0 +1,114 @@
+import { compareSchedules, formatTime } from './format';
+import {
+  resolveGateLabel,
+  resolvePavilionName,
+  resolveRegisteredChannel,
+  resolveTicketName,
+  resolveUseStateLabel
+} from './labels';
+import type { Locale } from './locale';
+import { indexToLabel } from './summary';
+import type { EntranceSchedule, EventSchedule, Ticket } from './types';
+
+export type TableFormat = 'csv' | 'tsv';
+
+export const reservationTableHeadersByLocale: Record<Locale, readonly string[]> = {
+  ja: ['チケット', '券種', '予約種別', '日付', '時間枠', 'ゲート', '利用状況', '入場時刻', '登録経路', 'プログラムコード', 'パビリオン名'],
+  en: ['Ticket', 'Ticket type', 'Kind', 'Date', 'Slot', 'Gate', 'Status', 'Admission time', 'Channel', 'Program code', 'Pavilion']
+};
+
+export const reservationTableHeaders = reservationTableHeadersByLocale.ja;
+
+const reservationKindLabels: Record<Locale, { entrance: string; event: string }> = {
+  ja: { entrance: '入場', event: 'パビリオン' },
+  en: { entrance: 'Entry', event: 'Pavilion' }
+};
+
+export type ReservationTableRow = string[];
+
+function formatIsoDate(value?: string): string {
+  if (!value || !/^\d{8}$/.test(value)) {
+    return value ?? '';
+  }
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+}
+
+function formatSlot(schedule: EntranceSchedule | EventSchedule): string {
+  if (schedule.schedule_name) return schedule.schedule_name;
+  return schedule.start_time ? formatTime(schedule.start_time) : '';
+}
+
+/**
+ * 入場予約・パビリオン予約を 1 予約 1 行の表にする。行は日時順、同じ日時ではチケット順に並べる。
+ */
+export function buildReservationTable(tickets: Ticket[], locale: Locale = 'ja'): ReservationTableRow[] {
+  const kindLabels = reservationKindLabels[locale];
+  const rows: { schedule: EntranceSchedule | EventSchedule; ticketIndex: number; cells: string[] }[] = [];
+
+  tickets.forEach((ticket, ticketIndex) => {
+    const ticketLabel = indexToLabel(ticketIndex);
+    const ticketName = resolveTicketName(ticket, locale);
+    (ticket.schedules ?? []).forEach((schedule) => {
+      rows.push({
+        schedule,
+        ticketIndex,
+        cells: [
+          ticketLabel,
+          ticketName,
+          kindLabels.entrance,
+          formatIsoDate(schedule.entrance_date),
+          formatSlot(schedule),
+          resolveGateLabel(schedule.gate_type, locale),
+          resolveUseStateLabel(schedule.use_state, locale),
+          schedule.admission_time ? formatTime(schedule.admission_time) : '',
+          '',
+          '',
+          ''
+        ]
+      });
+    });
+    (ticket.event_schedules ?? []).forEach((schedule) => {
+      rows.push({
+        schedule,
+        ticketIndex,
+        cells: [
+          ticketLabel,
+          ticketName,
+          kindLabels.event,
+          formatIsoDate(schedule.entrance_date),
+          formatSlot(schedule),
+          '',
+          resolveUseStateLabel(schedule.use_state, locale),
+          schedule.admission_time ? formatTime(schedule.admission_time) : '',
+          schedule.registered_channel === undefined ? '' : resolveRegisteredChannel(schedule.registered_channel, locale),
+          schedule.program_code ?? '',
+          resolvePavilionName(schedule.program_code ?? '', schedule.event_name, locale)
+        ]
+      });
+    });
+  });
+
+  return rows
+    .sort((a, b) => compareSchedules(a.schedule, b.schedule) || a.ticketIndex - b.ticketIndex)
+    .map((row) => row.cells);
+}
+
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeTsvCell(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ');
+}
+
+/**
+ * 見出し行付きの CSV / TSV 文字列を作る。改行は Excel に合わせて CRLF。
+ */
+export function formatReservationTable(tickets: Ticket[], format: TableFormat, locale: Locale = 'ja'): string {
+  const escape = format === 'csv' ? escapeCsvCell : escapeTsvCell;
+  const separator = format === 'csv' ? ',' : '\t';
+  const lines = [[...reservationTableHeadersByLocale[locale]], ...buildReservationTable(tickets, locale)].map((cells) =>
+    cells.map(escape).join(separator)
+  );
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import sampleTicketPayload from '../../sample/sample.json';
+import { groupReservationsByDate } from './daily';
+import type { DailyReservation, DailyReservations } from './daily';
+import { buildDayTimeline, classifyRanges, getEntranceStart, getEventSlotRange, getEventTimeRange, parseClock } from './timeline';
+import type { EventSchedule, TicketPayload } from './types';
+
+const sample = sampleTicketPayload as TicketPayload;
+
+function eventEntry(key: string, ticketKey: string, schedule: EventSchedule): DailyReservation<EventSchedule> {
+  return { key, ticketKey, ticketLabel: ticketKey, ticketName: `チケット${ticketKey}`, schedule };
+}
+
+describe('parseClock', () => {
+  it('accepts HHMM, HHMMSS and HH:MM', () => {
+    expect(parseClock('1030')).toBe(630);
+    expect(parseClock('103000')).toBe(630);
+    expect(parseClock('9:05')).toBe(545);
+  });
+
+  it('returns null for empty or invalid input', () => {
+    expect(parseClock(undefined)).toBeNull();
+    expect(parseClock('')).toBeNull();
+    expect(parseClock('1090')).toBeNull();
+  });
+});
+
+describe('getEventTimeRange', () => {
+  it('prefers start_time and end_time', () => {
+    expect(getEventTimeRange({ start_time: '1400', end_time: '1445', schedule_name: '10:00-10:30' })).toEqual({
+      start: 840,
+      end: 885
+    });
+  });
+
+  it('falls back to schedule_name and a default length', () => {
+    expect(getEventTimeRange({ schedule_name: '14:00-14:30' })).toEqual({ start: 840, end: 870 });
+    expect(getEventTimeRange({ schedule_name: '14:00' })).toEqual({ start: 840, end: 870 });
+    expect(getEventTimeRange({})).toBeNull();
+  });
+});
+
+describe('getEventSlotRange', () => {
+  it('prefers schedule_name over the wider start_time and end_time', () => {
+    expect(getEventSlotRange({ schedule_name: '14:10-14:20', start_time: '1355', end_time: '1430' })).toEqual({
+      start: 850,
+      end: 860
+    });
+  });
+
+  it('falls back to start_time when schedule_name has no time', () => {
+    expect(getEventSlotRange({ schedule_name: '', start_time: '1400', end_time: '1445' })).toEqual({ start: 840, end: 885 });
+  });
+});
+
+describe('getEntranceStart', () => {
+  it('uses the booked slot before the start time', () => {
+    expect(getEntranceStart({ schedule_name: '11:00-', start_time: '0900' })).toBe(660);
+    expect(getEntranceStart({ start_time: '0900' })).toBe(540);
+  });
+});
+
+describe('classifyRanges', () => {
+  it('detects overlaps and back-to-back slots', () => {
+    expect(classifyRanges({ start: 600, end: 630 }, { start: 620, end: 650 })).toBe('overlap');
+    expect(classifyRanges({ start: 600, end: 630 }, { start: 640, end: 670 })).toBe('backToBack');
+    expect(classifyRanges({ start: 640, end: 670 }, { start: 600, end: 630 })).toBe('backToBack');
+    expect(classifyRanges({ start: 600, end: 630 }, { start: 700, end: 730 })).toBeNull();
+  });
+});
+
+describe('buildDayTimeline', () => {
+  it('marks overlaps within the same ticket and ignores cancelled reservations', () => {
+    const day: DailyReservations = {
+      date: '20250601',
+      entrances: [],
+      events: [
+        eventEntry('a1', 'A', { schedule_name: '10:00-10:30', use_state: 0 }),
+        eventEntry('a2', 'A', { schedule_name: '10:15-10:45', use_state: 0 }),
+        eventEntry('a3', 'A', { schedule_name: '10:50-11:20', use_state: 0 }),
+        eventEntry('a4', 'A', { schedule_name: '10:20-10:40', use_state: 2 }),
+        eventEntry('b1', 'B', { schedule_name: '10:00-10:30', use_state: 0 })
+      ]
+    };
+    const layout = buildDayTimeline(day);
+    expect(layout.rows.map((row) => row.ticketKey)).toEqual(['A', 'B']);
+
+    const [a1, a2, a3, a4] = layout.rows[0].events;
+    expect(a1.overlapsWith).toEqual(['a2']);
+    expect(a2.overlapsWith).toEqual(['a1']);
+    expect(a2.backToBackWith).toEqual(['a3']);
+    expect(a3.overlapsWith).toEqual([]);
+    expect(a4.overlapsWith).toEqual([]);
+    expect(layout.rows[1].events[0].overlapsWith).toEqual([]);
+  });
+
+  it('judges relations by the booked slot while drawing the start_time window', () => {
+    const day: DailyReservations = {
+      date: '20250601',
+      entrances: [],
+      events: [
+        eventEntry('a1', 'A', { schedule_name: '14:00-14:30', start_time: '1345', end_time: '1430', use_state: 0 }),
+        eventEntry('a2', 'A', { schedule_name: '14:30-15:00', start_time: '1415', end_time: '1500', use_state: 0 })
+      ]
+    };
+    const [a1, a2] = buildDayTimeline(day).rows[0].events;
+    expect(a1.range).toEqual({ start: 825, end: 870 });
+    expect(a1.overlapsWith).toEqual([]);
+    expect(a1.backToBackWith).toEqual(['a2']);
+    expect(a2.overlapsWith).toEqual([]);
+  });
+
+  it('keeps the axis between 9 and 22 for the sample', () => {
+    const days = groupReservationsByDate(sample.list);
+    const layout = buildDayTimeline(days[0]);
+    expect(layout.date).toBe('20250510');
+    expect(layout.startHour).toBeLessThanOrEqual(9);
+    expect(layout.endHour).toBeGreaterThanOrEqual(22);
+    expect(layout.rows[0].ticketLabel).toBe('A');
+  });
+});
@@ -0,0 +1,175 @@
+import { isCancelledUseState } from './labels';
+import type { DailyReservation, DailyReservations } from './daily';
+import type { EntranceSchedule, EventSchedule } from './types';
+
+/** この分数以内に次の予約が始まる場合は「連続」とみなす */
+export const BACK_TO_BACK_MINUTES = 15;
+
+const DEFAULT_EVENT_MINUTES = 30;
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export type TimelineRelation = 'overlap' | 'backToBack';
+
+export interface TimelineEventBlock {
+  entry: DailyReservation<EventSchedule>;
+  /** バーの描画に使う範囲（`start_time`/`end_time` 優先） */
+  range: TimeRange | null;
+  /** 重なり・連続の判定に使う予約枠 */
+  slotRange: TimeRange | null;
+  overlapsWith: string[];
+  backToBackWith: string[];
+}
+
+export interface TimelineTicketRow {
+  ticketKey: string;
+  ticketLabel: string;
+  ticketName: string;
+  entrances: { entry: DailyReservation<EntranceSchedule>; start: number | null }[];
+  events: TimelineEventBlock[];
+}
+
+export interface DayTimelineLayout {
+  date: string;
+  rows: TimelineTicketRow[];
+  /** 時間軸の範囲（時） */
+  startHour: number;
+  endHour: number;
+}
+
+/**
+ * `HHMM`・`HHMMSS`・`HH:MM` 形式の時刻を 0 時からの分数に変換する。
+ */
+export function parseClock(value?: string | null): number | null {
+  if (!value) return null;
+  const match = value.match(/^(\d{1,2}):?(\d{2})/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 29 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+export function formatClock(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * パビリオン予約の時間帯。`start_time`/`end_time` を優先し、なければ `schedule_name`（例: `14:00-14:30`）から求める。
+ */
+export function getEventTimeRange(event: EventSchedule): TimeRange | null {
+  const [nameStart, nameEnd] = (event.schedule_name ?? '').split(/[-~～]/);
+  const start = parseClock(event.start_time) ?? parseClock(nameStart?.trim());
+  if (start === null) {
+    return null;
+  }
+  const end = parseClock(event.end_time) ?? parseClock(nameEnd?.trim()) ?? start + DEFAULT_EVENT_MINUTES;
+  return { start, end: Math.max(end, start) };
+}
+
+/**
+ * パビリオン予約の予約枠（`schedule_name`、例: `14:10-14:20`）。`start_time`/`end_time` は集合時刻などを含めて
+ * 前後に広がっていることが多いため、重なりや連続の判定にはこちらを使う。`schedule_name` から読めなければ
+ * `getEventTimeRange` と同じ範囲を返す。
+ */
+export function getEventSlotRange(event: EventSchedule): TimeRange | null {
+  const [nameStart, nameEnd] = (event.schedule_name ?? '').split(/[-~～]/);
+  const start = parseClock(nameStart?.trim());
+  if (start === null) {
+    return getEventTimeRange(event);
+  }
+  const end = parseClock(nameEnd?.trim()) ?? start + DEFAULT_EVENT_MINUTES;
+  return { start, end: Math.max(end, start) };
+}
+
+/**
+ * 入場予約の時間枠の開始時刻。`schedule_name`（例: `11:00-`）が実際の入場枠なので先に見る。
+ */
+export function getEntranceStart(entrance: EntranceSchedule): number | null {
+  return parseClock(entrance.schedule_name?.trim()) ?? parseClock(entrance.start_time);
+}
+
+export function classifyRanges(a: TimeRange, b: TimeRange): TimelineRelation | null {
+  if (a.start < b.end && b.start < a.end) {
+    return 'overlap';
+  }
+  const gap = a.start < b.start ? b.start - a.end : a.start - b.end;
+  return gap >= 0 && gap <= BACK_TO_BACK_MINUTES ? 'backToBack' : null;
+}
+
+/**
+ * 1日分の予約をチケットごとの行にまとめ、同じチケット内で予約枠が重なる・間が詰まっている
+ * パビリオン予約に印を付ける。キャンセル済みの予約は判定から除く。
+ */
+export function buildDayTimeline(day: DailyReservations): DayTimelineLayout {
+  const rowMap = new Map<string, TimelineTicketRow>();
+  const getRow = (entry: DailyReservation<EntranceSchedule | EventSchedule>) => {
+    const existing = rowMap.get(entry.ticketKey);
+    if (existing) return existing;
+    const created: TimelineTicketRow = {
+      ticketKey: entry.ticketKey,
+      ticketLabel: entry.ticketLabel,
+      ticketName: entry.ticketName,
+      entrances: [],
+      events: []
+    };
+    rowMap.set(entry.ticketKey, created);
+    return created;
+  };
+
+  day.entrances.forEach((entry) => {
+    getRow(entry).entrances.push({ entry, start: getEntranceStart(entry.schedule) });
+  });
+  day.events.forEach((entry) => {
+    getRow(entry).events.push({
+      entry,
+      range: getEventTimeRange(entry.schedule),
+      slotRange: getEventSlotRange(entry.schedule),
+      overlapsWith: [],
+      backToBackWith: []
+    });
+  });
+
+  const minutes: number[] = [];
+  rowMap.forEach((row) => {
+    row.entrances.forEach(({ start }) => {
+      if (start !== null) minutes.push(start);
+    });
+    row.events.forEach((block, index) => {
+      if (block.range) {
+        minutes.push(block.range.start, block.range.end);
+      }
+      const blockSlot = block.slotRange;
+      if (!blockSlot || isCancelledUseState(block.entry.schedule.use_state)) {
+        return;
+      }
+      for (let otherIndex = index + 1; otherIndex < row.events.length; otherIndex += 1) {
+        const other = row.events[otherIndex];
+        if (!other.slotRange || isCancelledUseState(other.entry.schedule.use_state)) {
+          continue;
+        }
+        const relation = classifyRanges(blockSlot, other.slotRange);
+        if (relation === 'overlap') {
+          block.overlapsWith.push(other.entry.key);
+          other.overlapsWith.push(block.entry.key);
+        } else if (relation === 'backToBack') {
+          block.backToBackWith.push(other.entry.key);
+          other.backToBackWith.push(block.entry.key);
+        }
+      }
+    });
+  });
+
+  const startHour = Math.min(9, ...minutes.map((value) => Math.floor(value / 60)));
+  const endHour = Math.max(22, ...minutes.map((value) => Math.ceil(value / 60)));
+
+  return {
+    date: day.date,
+    rows: Array.from(rowMap.values()).sort((a, b) => a.ticketLabel.length - b.ticketLabel.length || a.ticketLabel.localeCompare(b.ticketLabel)),
+    startHour,
+    endHour
+  };
+}
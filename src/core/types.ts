@@ -0,0 +1,93 @@
+export type GateType = 1 | 2;
+
+export type UseStateType = 0 | 1 | 2 | 3 | 4 | 9;
+
+/**
+ * 抽選の申込履歴。要素の形は公開されていないため、`buildLotteryHistory` で分かる項目だけを読み取る。
+ */
+export type LotteryEntries = unknown[];
+
+export interface TicketLotteries {
+  fast?: LotteryEntries;
+}
+
+export interface EntranceLotteries {
+  month?: LotteryEntries;
+  day?: LotteryEntries;
+}
+
+export interface BaseSchedule {
+  id?: number;
+  schedule_name?: string;
+  entrance_date?: string;
+  start_time?: string;
+  end_time?: string;
+  use_state?: UseStateType;
+  admission_time?: string;
+  on_the_day?: boolean;
+  proxy_reserve?: boolean;
+  group_ticket_qr_divi?: number;
+  admission_buf_during?: boolean;
+}
+
+export interface EntranceSchedule extends BaseSchedule {
+  user_visiting_reservation_id?: number;
+  gate_type?: GateType;
+  empty_frame?: boolean;
+  month_lottery?: boolean;
+  day_lottery?: boolean;
+  lotteries?: EntranceLotteries;
+}
+
+export interface EventSchedule extends BaseSchedule {
+  schedule_code?: string;
+  schedule_no?: string;
+  program_code?: string;
+  event_code?: string;
+  event_name?: string;
+  event_summary?: string;
+  virtual_url?: string;
+  virtual_url_desc?: string;
+  portal_url?: string;
+  portal_url_desc?: string;
+  ticket_id?: string;
+  registered_channel?: number;
+  suspend_divi?: number;
+  program_ticket_state?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface Ticket {
+  id?: number;
+  is_sample?: boolean;
+  ticket_id?: string;
+  simple_ticket_id?: string;
+  agent_code?: string;
+  item_group_code?: string;
+  item_code?: string;
+  item_group_order?: number;
+  item_order?: number;
+  item_name?: string;
+  item_abb_name?: string;
+  item_group_name?: string;
+  item_summary?: string | null;
+  image_large_path?: string | null;
+  order_number?: string;
+  receive_type?: number;
+  received_at?: string;
+  disp_status?: number;
+  disp_bid_status?: number | null;
+  adult_type?: boolean;
+  change_reservation?: number;
+  fast_lottery?: boolean;
+  lotteries?: TicketLotteries;
+  schedules?: EntranceSchedule[] | null;
+  event_schedules?: EventSchedule[] | null;
+  ticket_type_id?: string;
+}
+
+export interface TicketPayload {
+  list: Ticket[];
+  is_sample?: boolean;
+}
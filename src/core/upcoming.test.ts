@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import sampleTicketPayload from '../../sample/sample.json';
+import { countdownTo, findNextVisit, getScheduleEnd, splitSchedulesByTime, splitVisitDaysByTime } from './upcoming';
+import type { EventSchedule, TicketPayload } from './types';
+
+const sample = sampleTicketPayload as TicketPayload;
+
+/** 日本時間の日時。実行環境のタイムゾーンに左右されない */
+function jst(value: string): Date {
+  return new Date(`${value}:00+09:00`);
+}
+
+describe('getScheduleEnd', () => {
+  it('treats entrance reservations as lasting the whole day', () => {
+    expect(getScheduleEnd({ entrance_date: '20250510', schedule_name: '17:00-' }, 'entrance')).toEqual(
+      jst('2025-05-11T00:00')
+    );
+  });
+
+  it('ends pavilion reservations at the end of their slot', () => {
+    const event: EventSchedule = { entrance_date: '20250510', start_time: '1400', end_time: '1430' };
+    expect(getScheduleEnd(event, 'event')).toEqual(jst('2025-05-10T14:30'));
+    expect(getScheduleEnd({}, 'event')).toBeNull();
+  });
+
+  it('reads slot times as Japan time', () => {
+    const event: EventSchedule = { entrance_date: '20250510', start_time: '1400', end_time: '1430' };
+    expect(getScheduleEnd(event, 'event')?.toISOString()).toBe('2025-05-10T05:30:00.000Z');
+    expect(getScheduleEnd({ entrance_date: '20250510' }, 'entrance')?.toISOString()).toBe('2025-05-10T15:00:00.000Z');
+  });
+});
+
+describe('splitSchedulesByTime', () => {
+  const events: EventSchedule[] = [
+    { id: 1, entrance_date: '20250510', start_time: '1000', end_time: '1030' },
+    { id: 2, entrance_date: '20250510', start_time: '1400', end_time: '1430' },
+    { id: 3, entrance_date: '20250601', start_time: '1000' },
+    { id: 4 }
+  ];
+
+  it('compares with the current clock and keeps undated reservations upcoming', () => {
+    const { upcoming, past } = splitSchedulesByTime(events, 'event', jst('2025-05-10T12:00'));
+    expect(upcoming.map((event) => event.id)).toEqual([2, 3, 4]);
+    expect(past.map((event) => event.id)).toEqual([1]);
+  });
+
+  it('lists past reservations newest first', () => {
+    const { past } = splitSchedulesByTime(events, 'event', jst('2025-10-01T00:00'));
+    expect(past.map((event) => event.id)).toEqual([3, 2, 1]);
+  });
+});
+
+describe('splitVisitDaysByTime / findNextVisit', () => {
+  it('finds the next visit day and its first entrance slot', () => {
+    const next = findNextVisit(sample.list, jst('2025-05-01T00:00'));
+    expect(next?.date).toBe('20250510');
+    expect(next?.startsAt).toEqual(jst('2025-05-10T17:00'));
+  });
+
+  it('keeps the current day as the next visit until it is over', () => {
+    const duringVisit = jst('2025-05-10T20:00');
+    expect(findNextVisit(sample.list, duringVisit)?.date).toBe('20250510');
+    const { upcoming, past } = splitVisitDaysByTime(sample.list, jst('2025-05-11T00:00'));
+    expect(upcoming.every((day) => day.date > '20250510')).toBe(true);
+    expect(past[0].date).toBe('20250510');
+  });
+
+  it('returns null after the last visit', () => {
+    expect(findNextVisit(sample.list, jst('2026-01-01T00:00'))).toBeNull();
+  });
+});
+
+describe('countdownTo', () => {
+  it('splits the remaining time into days, hours and minutes', () => {
+    expect(countdownTo(jst('2025-05-10T17:00'), jst('2025-05-08T15:30'))).toEqual({ days: 2, hours: 1, minutes: 30 });
+    expect(countdownTo(jst('2025-05-10T00:00'), jst('2025-05-10T00:01'))).toBeNull();
+  });
+});
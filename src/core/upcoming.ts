@@ -0,0 +1,108 @@
+import { groupReservationsByDate } from './daily';
+import type { DailyReservations } from './daily';
+import { isCancelledUseState } from './labels';
+import { toSlotDate } from './leadTime';
+import type { Locale } from './locale';
+import { getEntranceStart, getEventTimeRange } from './timeline';
+import type { EntranceSchedule, EventSchedule, Ticket } from './types';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface ScheduleSplit<T> {
+  /** 終わっていない予約（古い順） */
+  upcoming: T[];
+  /** 終わった予約（新しい順） */
+  past: T[];
+}
+
+export interface NextVisit extends DailyReservations {
+  /** 最も早い入場枠の開始日時（日本時間）。時間枠が分からない場合はその日の 0 時 */
+  startsAt: Date;
+}
+
+export interface Countdown {
+  days: number;
+  hours: number;
+  minutes: number;
+}
+
+/**
+ * 予約が終わる日時（時刻は日本時間として扱う）。入場予約はその日いっぱい、パビリオン予約は時間枠の終わり（分からなければその日の終わり）とする。
+ * 日付がない予約は null。
+ */
+export function getScheduleEnd(schedule: EntranceSchedule | EventSchedule, type: 'entrance' | 'event'): Date | null {
+  const end = type === 'event' ? getEventTimeRange(schedule as EventSchedule)?.end ?? MINUTES_PER_DAY : MINUTES_PER_DAY;
+  return toSlotDate(schedule.entrance_date, end);
+}
+
+/**
+ * 予約を現在時刻 `now` で「これから」と「過去」に分ける。日付のない予約は「これから」の末尾に置く。
+ */
+export function splitSchedulesByTime<T extends EntranceSchedule | EventSchedule>(
+  schedules: T[],
+  type: 'entrance' | 'event',
+  now: Date
+): ScheduleSplit<T> {
+  const upcoming: T[] = [];
+  const past: T[] = [];
+  schedules.forEach((schedule) => {
+    const end = getScheduleEnd(schedule, type);
+    if (end && end.getTime() <= now.getTime()) {
+      past.push(schedule);
+    } else {
+      upcoming.push(schedule);
+    }
+  });
+  return { upcoming, past: past.reverse() };
+}
+
+/**
+ * 全チケットの予約を来場日ごとにまとめ、その日が終わったかどうかで分ける。キャンセル済みの予約は含めない。
+ */
+export function splitVisitDaysByTime(tickets: Ticket[], now: Date, locale: Locale = 'ja'): ScheduleSplit<DailyReservations> {
+  const days = groupReservationsByDate(tickets, locale)
+    .map((day) => ({
+      ...day,
+      entrances: day.entrances.filter((entry) => !isCancelledUseState(entry.schedule.use_state)),
+      events: day.events.filter((entry) => !isCancelledUseState(entry.schedule.use_state))
+    }))
+    .filter((day) => day.entrances.length > 0 || day.events.length > 0);
+
+  const upcoming: DailyReservations[] = [];
+  const past: DailyReservations[] = [];
+  days.forEach((day) => {
+    const end = toSlotDate(day.date, MINUTES_PER_DAY);
+    (end && end.getTime() <= now.getTime() ? past : upcoming).push(day);
+  });
+  return { upcoming, past: past.reverse() };
+}
+
+/**
+ * 次の来場（まだ終わっていない、入場予約のある最も早い日）。来場中の日も含む。
+ */
+export function findNextVisit(tickets: Ticket[], now: Date, locale: Locale = 'ja'): NextVisit | null {
+  const day = splitVisitDaysByTime(tickets, now, locale).upcoming.find((candidate) => candidate.entrances.length > 0);
+  if (!day) {
+    return null;
+  }
+  const starts = day.entrances
+    .map((entry) => getEntranceStart(entry.schedule))
+    .filter((value): value is number => value !== null);
+  const startsAt = toSlotDate(day.date, starts.length > 0 ? Math.min(...starts) : 0) as Date;
+  return { ...day, startsAt };
+}
+
+/**
+ * `target` までの残り時間。すでに過ぎている場合は null。
+ */
+export function countdownTo(target: Date, now: Date): Countdown | null {
+  const totalMinutes = Math.ceil((target.getTime() - now.getTime()) / 60000);
+  if (totalMinutes <= 0) {
+    return null;
+  }
+  return {
+    days: Math.floor(totalMinutes / MINUTES_PER_DAY),
+    hours: Math.floor((totalMinutes % MINUTES_PER_DAY) / 60),
+    minutes: totalMinutes % 60
+  };
+}
@@ -0,0 +1,22 @@
+const DEFAULT_BASE_NAME = 'expo-history';
+
+/**
+ * 読み込んだファイル名（拡張子を除く）と日時から書き出し用のファイル名を作る。
+ */
+export function buildExportFileName(sourceFileName: string | null | undefined, extension: string, now = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const timestamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+  const baseName = sourceFileName ? sourceFileName.replace(/\.[^.]+$/, '') : DEFAULT_BASE_NAME;
+  return `${baseName || DEFAULT_BASE_NAME}-${timestamp}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
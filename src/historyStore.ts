@@ -0,0 +1,151 @@
+import type { HistorySnapshot, TicketPayload } from './core';
+
+const DB_NAME = 'expo-history-viewer';
+const DB_VERSION = 2;
+const STATE_STORE = 'state';
+const SNAPSHOT_STORE = 'snapshots';
+const CURRENT_KEY = 'current';
+const PERSIST_FLAG_KEY = 'expo-history-viewer:persist';
+
+export interface StoredHistory {
+  payload: TicketPayload;
+  includedTicketMap: Record<string, boolean>;
+  fileNames: string[];
+  savedAt: string;
+}
+
+function getIndexedDb(): IDBFactory | null {
+  if (typeof indexedDB === 'undefined') {
+    return null;
+  }
+  return indexedDB;
+}
+
+export function isHistoryStoreAvailable(): boolean {
+  return getIndexedDb() !== null;
+}
+
+export function isPersistenceEnabled(): boolean {
+  try {
+    return typeof localStorage !== 'undefined' && localStorage.getItem(PERSIST_FLAG_KEY) === '1';
+  } catch {
+    return false;
+  }
+}
+
+export function setPersistenceEnabled(enabled: boolean): void {
+  try {
+    if (enabled) {
+      localStorage.setItem(PERSIST_FLAG_KEY, '1');
+    } else {
+      localStorage.removeItem(PERSIST_FLAG_KEY);
+    }
+  } catch {
+    // プライベートブラウズ等で localStorage が使えない場合は保存しない
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDBの操作に失敗しました。'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const factory = getIndexedDb();
+  if (!factory) {
+    return Promise.reject(new Error('このブラウザはIndexedDBに対応していません。'));
+  }
+  const request = factory.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(STATE_STORE)) {
+      db.createObjectStore(STATE_STORE);
+    }
+    if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+      db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+    }
+  };
+  return requestToPromise(request);
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(storeName, mode);
+    const completed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDBの操作に失敗しました。'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDBの操作が中断されました。'));
+    });
+    // 要求が失敗するとトランザクションも中断されるため、両方を同時に待って拒否を取りこぼさない
+    const [result] = await Promise.all([requestToPromise(action(transaction.objectStore(storeName))), completed]);
+    return result;
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadStoredHistory(): Promise<StoredHistory | null> {
+  const record = await withStore<StoredHistory | undefined>(STATE_STORE, 'readonly', (store) => store.get(CURRENT_KEY));
+  if (!record || !record.payload || !Array.isArray(record.payload.list)) {
+    return null;
+  }
+  return {
+    payload: record.payload,
+    includedTicketMap: record.includedTicketMap ?? {},
+    fileNames: Array.isArray(record.fileNames) ? record.fileNames : [],
+    savedAt: record.savedAt
+  };
+}
+
+export async function saveStoredHistory(history: Omit<StoredHistory, 'savedAt'>): Promise<StoredHistory> {
+  const record: StoredHistory = { ...history, savedAt: new Date().toISOString() };
+  await withStore(STATE_STORE, 'readwrite', (store) => store.put(record, CURRENT_KEY));
+  return record;
+}
+
+export async function removeStoredHistory(): Promise<void> {
+  await withStore(STATE_STORE, 'readwrite', (store) => store.delete(CURRENT_KEY));
+  await withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.clear());
+}
+
+export async function loadStoredSnapshots(): Promise<HistorySnapshot[]> {
+  const records = await withStore<HistorySnapshot[]>(SNAPSHOT_STORE, 'readonly', (store) => store.getAll());
+  return records
+    .filter((record) => record && record.payload && Array.isArray(record.payload.list))
+    .sort((a, b) => a.importedAt.localeCompare(b.importedAt));
+}
+
+/**
+ * 保存済みのスナップショットを `snapshots` の内容で置き換える。
+ */
+export async function saveStoredSnapshots(snapshots: HistorySnapshot[]): Promise<void> {
+  await withStore(SNAPSHOT_STORE, 'readwrite', (store) => {
+    store.clear();
+    snapshots.forEach((snapshot) => store.put(snapshot));
+    return store.count();
+  });
+}
+
+/**
+ * 保存済みのデータベースを丸ごと削除し、保存設定もオフに戻す。
+ */
+export async function deleteAllStoredData(): Promise<void> {
+  setPersistenceEnabled(false);
+  const factory = getIndexedDb();
+  if (!factory) {
+    return;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const request = factory.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error ?? new Error('保存データの削除に失敗しました。'));
+    request.onblocked = () => resolve();
+  });
+}
@@ -0,0 +1,541 @@
+import type { Messages } from './ja';
+
+export const en: Messages = {
+  languageName: 'English',
+  dateLocale: 'en-US',
+  common: {
+    close: 'Close',
+    delete: 'Delete',
+    none: 'None',
+    yes: 'Yes',
+    no: 'No',
+    count: (count: number) => `${count}`
+  },
+  language: {
+    label: 'Language'
+  },
+  header: {
+    title: 'Expo 2025 Reservation & Entry History Viewer',
+    description:
+      'Load the JSON from the My Ticket ticket list API to see your entry reservations and pavilion bookings in a clear layout. Handy for checking past visits. Your data is processed only in this browser and is never sent anywhere.',
+    credit: 'This tool was built from scratch by Codex; the author only gave instructions, requested fixes and edited minor parts.',
+    firstPublished: 'First published: Oct 4, 2024',
+    lastUpdated: 'Last updated: Nov 20, 2024',
+    localOnly: 'Processed locally only',
+    inputMethods: 'Paste JSON or load a file'
+  },
+  notices: {
+    serviceEndTitle: 'Available until the end of November!',
+    serviceEndBody:
+      'My Ticket closes at the end of November 2025, and this tool will stop working at the same time. Please use it soon if you have not yet.',
+    cautionTitle: 'Before you use this tool',
+    cautionBody:
+      'This is an unofficial tool made by an individual, provided without any warranty. Never contact the official Expo support about this tool or the information shown by it.',
+    sampleHint: 'Press "Load sample" in the "Paste JSON" box below to see an example. It is the author’s own history.'
+  },
+  usage: {
+    heading: 'How to use',
+    intro: 'Choose how to get your history data for your device. If it does not work, try another method.',
+    onePoint: 'Tips',
+    bookmarkletCode: 'Bookmarklet code',
+    copyCode: 'Copy code',
+    copied: 'Copied. Paste it into your bookmark.',
+    copyFailed: 'Could not copy. Please select the text and copy it manually.',
+    commonHintsHeading: 'General tips',
+    inAppBrowserHint: 'If this page is open in an in-app browser, open it in your regular browser instead.',
+    unauthorizedHint: 'If only this short JSON appears, you have been logged out of My Ticket. Log in again and reopen the page.',
+    shareImageHint: 'A single summary image for saving or sharing on social media is generated at the bottom.',
+    includeHint: 'If the data includes other people’s tickets, uncheck "Include" to leave them out of the totals.',
+    multipleIdsHint:
+      'If you have several Expo IDs (for example with a pass), log in and out and load the data once per ID. Each load is merged with the existing data automatically.',
+    apiChangeHint: 'Changes to My Ticket or the ticket list API may break the display or some features.',
+    openMyTicket: 'Open My Ticket',
+    openTicketApi: 'Open the ticket list API'
+  },
+  shortcuts: {
+    generic: 'Shortcuts',
+    mac: 'Mac shortcuts',
+    other: 'Windows / others',
+    selectAll: 'Select all',
+    copy: 'Copy',
+    save: 'Save',
+    note: 'Shortcuts may differ depending on your browser and device.'
+  },
+  bookmarklet: {
+    sent: 'Data sent. Please check the viewer.',
+    openFailed: 'Could not open the viewer. Please allow pop-ups.',
+    sendFailed: 'Could not send the data. Please check that the viewer is open.',
+    fetchFailed: 'Failed to fetch the data. Please check that you are logged in.'
+  },
+  input: {
+    pasteLabel: 'Paste JSON',
+    loadSample: 'Load sample',
+    clearInput: 'Clear',
+    placeholder: 'Paste the JSON from the ticket list API here',
+    parse: 'Analyze this JSON',
+    clearData: 'Clear data',
+    fileLabel: 'Load from a file (JSON / HTML / WEBARCHIVE)',
+    click: 'Click',
+    fileHint: 'Load a saved JSON file or an iPhone Web Archive file.',
+    selectedFile: (name: string) => `Selected: ${name}`,
+    loading: 'Loading...',
+    saveJsonLabel: 'Save JSON',
+    saveJsonBody: 'Download the data shown now as a JSON file and load it again later with "Load from a file".',
+    saveJsonRecommendation:
+      'A saved JSON file can be loaded any time, even after My Ticket closes, so we recommend saving one.',
+    saveJson: 'Save current data',
+    noDataToSave: 'No data to save'
+  },
+  persist: {
+    label: 'Save in this browser',
+    toggle: 'Keep loaded data in this browser',
+    description:
+      'When on, the merged data, your "Include" choices, loaded file names and load history are stored in this browser (IndexedDB) and restored next time. Nothing is sent anywhere. Do not turn this on for shared devices.',
+    lastSaved: (date: string) => `Last saved: ${date}`,
+    autoSave: 'Data is saved automatically once loaded.',
+    files: (names: string) => ` ｜ Files: ${names}`,
+    deleteAll: 'Delete all saved data',
+    deleteConfirm: 'All data saved in this browser will be deleted. Continue?',
+    deleted: 'All saved data was deleted. The data on screen disappears when you close this tab.',
+    deleteFailed: 'Failed to delete the saved data.',
+    restoreFailed: 'Failed to load the saved data. Auto-save is paused until the page is reopened so the saved data is not overwritten.',
+    saveFailed: 'Failed to save in this browser. Check the free space and private browsing settings.',
+    snapshotSaveFailed: 'Failed to save the load history.'
+  },
+  errors: {
+    parse: {
+      empty: 'The JSON is empty.',
+      unauthorized: 'You are not logged in to My Ticket. Log in and get the code (JSON) again.',
+      loginPage: 'A login page was loaded. Log in to My Ticket and get the code (JSON) again.',
+      html: 'A web page was loaded, but no ticket JSON was found in it.',
+      truncated: 'The JSON is cut off.',
+      syntax: 'The JSON has a syntax error.',
+      eventCatalogue: 'This looks like the event list JSON, not the ticket list.',
+      invalid: 'Could not parse the JSON. Please check the file format.'
+    },
+    location: (line: number, column: number) => `Line ${line}, column ${column}`,
+    hints: {
+      loginPage: 'Stay logged in to My Ticket in your browser, open the ticket list API page and copy the JSON shown there.',
+      html: 'Paste the JSON shown on the ticket list API page, not the My Ticket page itself.',
+      truncated:
+        'The copy may have been cut off. Phones sometimes copy only part of a long text, so select all again or save the page as a file and load it.',
+      syntax: 'Check that nothing was edited after pasting and that no extra text was added before or after the JSON.',
+      eventCatalogue: 'The event list is already bundled as the pavilion master. Load the JSON from the ticket list API instead.',
+      invalid: 'Check that this is the JSON from the ticket list API (shaped like `{"list": [...]}`).'
+    },
+    repairedHeading: 'The JSON was repaired automatically',
+    repairs: {
+      wrappedSingleTicket: 'The data was a single ticket, so it was loaded as a ticket list.',
+      wrappedTicketArray: 'The data was an array of tickets, so it was loaded as a ticket list.',
+      removedTrailingCommas: 'Extra commas before closing brackets were removed.'
+    },
+    unknown: 'An unknown error occurred.',
+    webArchiveRead: 'Failed to read the Web Archive file.',
+    webArchiveNoJson: 'No ticket JSON was found in the Web Archive.',
+    webArchiveUnknown: 'An unknown error occurred while reading the Web Archive.',
+    fileRead: 'Failed to read the file. Please try another file.'
+  },
+  overview: {
+    tickets: 'Tickets',
+    entrances: 'Entry reservations',
+    events: 'Pavilion reservations'
+  },
+  views: {
+    label: 'Switch view',
+    cards: 'By ticket',
+    calendar: 'Calendar',
+    timeline: 'Daily timeline',
+    stats: 'Statistics',
+    parties: 'Parties',
+    lotteries: 'Lotteries',
+    print: 'Print sheet'
+  },
+  emptyStates: {
+    noIncludedTickets: 'No tickets are included. Check "Include" on a ticket card.',
+    noMatches: 'No reservations match the filter.',
+    beforeParse: 'Your tickets will appear here once the JSON is analyzed.'
+  },
+  footer: {
+    heading: 'About the author',
+    author: 'Author: Nakayuki',
+    contact: 'Contact:',
+    x: 'X:'
+  },
+  card: {
+    noSummary: 'No description.',
+    ticketId: (id: string) => `Ticket ID: ${id}`,
+    ticketIdHidden: 'Ticket ID: tap to show',
+    unregistered: 'Not registered',
+    group: (name: string) => `Type: ${name}`,
+    entranceCount: (count: number) => `Entry reservations: ${count}`,
+    eventCount: (count: number) => `Pavilion reservations: ${count}`,
+    sample: 'Sample data',
+    include: 'Include',
+    imageAlt: 'Ticket image',
+    entrances: 'Entry reservations',
+    events: 'Pavilion reservations',
+    excluded: 'This ticket is excluded from the totals. Check the box to show its reservations again.'
+  },
+  schedules: {
+    notFound: (title: string) => `No ${title.toLowerCase()} found.`,
+    noDate: 'No date',
+    gateType: (gate: number) => `Gate type: ${gate}`,
+    onTheDay: 'Same-day',
+    programCode: (code: string) => `Program code: ${code}`,
+    showSummary: 'Show description',
+    admissionTime: 'Admission time',
+    registeredChannel: 'Booked via',
+    startTime: 'Start',
+    endTime: 'End',
+    portal: 'Details',
+    portalFallback: 'See details',
+    virtual: 'Virtual Expo',
+    virtualFallback: 'View in Virtual Expo',
+    upcoming: (count: number) => `Upcoming (${count})`,
+    past: (count: number) => `Past (${count})`
+  },
+  warnings: {
+    heading: 'Reservation checks',
+    intro: 'Checks pavilion reservations for overlapping times and mismatches with entry reservations (cancelled reservations are left out).',
+    none: 'No problems found.',
+    kinds: {
+      overlap: 'Overlapping times',
+      beforeEntrance: 'Before entry',
+      noEntrance: 'No entry reservation'
+    },
+    count: (count: number) => `${count}`,
+    overlap: (name: string, time: string, otherName: string, otherTime: string) =>
+      `${name} (${time}) overlaps with ${otherName} (${otherTime}). You may only be able to attend one of them.`,
+    beforeEntrance: (name: string, time: string, slot: string) =>
+      `${name} (${time}) starts before the entry slot (${slot}). You may not get in on time.`,
+    noEntrance: (name: string, time: string) =>
+      `${name} (${time}) is on a day without an entry reservation for this ticket.`,
+    cardHeading: (count: number) => `${count} reservation${count === 1 ? '' : 's'} need attention`
+  },
+  nextVisit: {
+    heading: 'Next visit',
+    none: 'No upcoming entry reservations.',
+    countdown: (days: number, hours: number, minutes: number) =>
+      days > 0 ? `in ${days}d ${hours}h` : hours > 0 ? `in ${hours}h ${minutes}m` : `in ${minutes}m`,
+    inProgress: 'Visit day today',
+    entrances: 'Entry reservations',
+    events: 'Pavilion reservations on this day',
+    noEvents: 'No pavilion reservations on this day.',
+    upcomingDays: (count: number) => `Upcoming visits (${count} days)`,
+    pastDays: (count: number) => `Past visits (${count} days)`,
+    dayCounts: (entrances: number, events: number) => `Entries ${entrances} · Pavilions ${events}`
+  },
+  canvas: {
+    heading: 'Image for saving and sharing',
+    intro: (canShare: boolean) => `Use the buttons below to save${canShare ? ' or share' : ''} the image.`,
+    templateLabel: 'Format',
+    templates: {
+      long: 'Tall (everything)',
+      square: 'Square 1080×1080',
+      ogp: 'Card 1200×630',
+      story: 'Story 1080×1920'
+    },
+    themeLabel: 'Theme',
+    themes: { light: 'Light', dark: 'Dark' },
+    sectionsLabel: 'Sections',
+    sections: {
+      tickets: 'Tickets',
+      entrances: 'Visit schedule',
+      hourChart: 'Entries by hour',
+      monthlyChart: 'Visits per month',
+      gateTable: 'Entries by time slot'
+    },
+    privacyLabel: 'Hide',
+    hideDates: 'Dates (month only)',
+    hideAdmissionTimes: 'Admission times',
+    hideTicketTypes: 'Ticket types',
+    nicknamesLabel: 'Ticket nicknames',
+    privacyNote: 'Hidden details are left out of both the image and the share text. Tickets without a nickname keep their A, B, … labels.',
+    fixedSizeNote: 'Fixed-size formats shrink the whole image to fit and cut off the end of lists that still do not fit.',
+    save: 'Save image',
+    saving: 'Saving…',
+    share: 'Share',
+    sharing: 'Preparing…',
+    iphoneHint: 'On iPhone, use the Share button to save the image.',
+    notGenerated: 'The image has not been generated.',
+    generateFailed: 'Failed to generate the image.',
+    saved: 'Image downloaded.',
+    saveFailed: 'Failed to save the image.',
+    pdfLabel: 'PDF paper',
+    pageSizes: { a4: 'A4', letter: 'Letter' },
+    savePdf: 'Save PDF',
+    savingPdf: 'Creating PDF…',
+    pdfSaved: (pages: number) => `Downloaded a ${pages}-page PDF.`,
+    pdfFailed: 'Failed to create the PDF.',
+    pdfNote: 'Tall images are fitted to the paper width and split into pages between sections and rows.',
+    shareUnsupported: 'Sharing is not supported in this browser.',
+    shareFilesUnsupported: 'This device cannot share images.',
+    shared: 'Opened the share menu.',
+    shareFailed: 'Failed to share.',
+    shareTitle: 'My Expo 2025 reservation & entry history',
+    shareText: (entranceCount: number, eventCount: number, period: string) =>
+      `My Expo 2025 reservation & entry history\nEntries ${entranceCount} ｜ Pavilions ${eventCount}${
+        period ? `\nVisits: ${period}` : ''
+      }`,
+    imageTitle: 'My Expo 2025 Visits',
+    imageCounts: (entranceCount: number, eventCount: number) =>
+      `Entry reservations ${entranceCount} ｜ Pavilion reservations ${eventCount}`,
+    imageLeftovers: 'Other pavilion reservations',
+    imageOmitted: (count: number) => `…and ${count} more`,
+    imageTimeColumn: 'Time',
+    imageFooter: 'Made with Expo 2025 Reservation & Entry History Viewer (unofficial)'
+  },
+  filter: {
+    heading: 'Filter',
+    matched: (total: number, matched: number) => `Showing ${matched} of ${total} reservations`,
+    total: (total: number) => `${total} reservations`,
+    clear: 'Clear filters',
+    text: 'Pavilion name or code',
+    textPlaceholder: 'e.g. Gundam / HSH0',
+    dateFrom: 'From',
+    dateTo: 'To',
+    gates: 'Gate',
+    useStates: 'Status',
+    registeredChannels: 'Channel',
+    ticketTypes: 'Ticket type',
+    note: 'Filtering by pavilion or channel hides entry reservations, and filtering by gate hides pavilion reservations. Counts, the calendar and the share image use the filtered reservations.'
+  },
+  exportPanel: {
+    heading: 'Export reservations',
+    scope: 'Only reservations of tickets checked as "Include" are exported.',
+    ics: 'Add to calendar (.ics)',
+    table: (format: string) => `Spreadsheet (.${format})`,
+    icsDone: 'Downloaded the calendar (.ics) file.',
+    tableDone: (format: string) => `Downloaded the ${format} file.`,
+    note: 'Calendar apps on phones and PCs can import .ics files (cancelled reservations are left out, and importing again never creates duplicates). CSV/TSV has one row per reservation, including cancelled ones with their status.'
+  },
+  calendar: {
+    heading: 'Reservation calendar',
+    month: (month: number) => ['Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct'][month - 4] ?? String(month),
+    entrance: 'Entry',
+    more: (count: number) => `+${count} more`,
+    note: 'Entry reservations use the gate colour (East: red / West: blue). Tap a date to see that day’s plan.'
+  },
+  timeline: {
+    title: (date: string) => `Plan for ${date}`,
+    empty: 'No reservations on this day.',
+    overlapCount: (count: number) => `Overlapping reservations: ${count}`,
+    backToBackCount: (count: number) => `Tight connections: ${count}`,
+    entrance: 'Entry',
+    overlap: 'Overlap',
+    backToBack: 'Back-to-back',
+    admission: (time: string) => ` ｜ Entered ${time}`
+  },
+  daily: {
+    heading: 'Daily timeline',
+    previous: 'Previous day',
+    next: 'Next day',
+    dateSelect: 'Date to show',
+    option: (date: string, count: number) => `${date} (${count})`,
+    empty: 'No reservations to show.',
+    note: (minutes: number) =>
+      `Pavilion reservations of the same ticket that overlap are red, and those within ${minutes} minutes of each other are orange. Vertical bars mark entry slots.`
+  },
+  stats: {
+    heading: 'Statistics',
+    used: 'Used',
+    unused: 'Not used',
+    cancelled: 'Cancelled',
+    other: 'Other',
+    rateFormula: 'Used ÷ (used + not used)',
+    entranceRate: 'Entry reservation usage',
+    eventRate: 'Pavilion reservation usage',
+    topPavilions: 'Most booked pavilions',
+    noEvents: 'No pavilion reservations.',
+    pavilionCounts: (reservations: number, visits: number) => `Booked ${reservations} ｜ Visited ${visits}`,
+    showTop: 'Show top only',
+    showAll: (count: number) => `Show all (${count})`,
+    repeatPavilions: 'Pavilions visited more than once',
+    noRepeats: 'None.',
+    channels: 'Booking channels',
+    channelCount: (count: number, percent: string) => `${count} (${percent})`,
+    weekdays: 'Reservations by weekday',
+    weekdayEntrances: (count: number) => `Entries: ${count}`,
+    weekdayEvents: (count: number) => `Pavilions: ${count}`,
+    weekdayLegend: 'Red: entry reservations / Blue: pavilion reservations (excluding cancelled)'
+  },
+  leadTime: {
+    heading: 'Booking timing',
+    intro: 'How far ahead of each slot the pavilion reservations were booked, by booking channel (cancellations excluded).',
+    none: 'No pavilion reservations with a booking date.',
+    byChannel: 'Lead time by channel',
+    channel: 'Channel',
+    count: 'Count',
+    average: 'Average',
+    median: 'Median',
+    range: 'Shortest – longest',
+    duration: (days: number, hours: number) => (days > 0 ? `${days}d ${hours}h ahead` : `${hours}h ahead`),
+    skipped: (count: number) => `${count} ${count === 1 ? 'reservation is' : 'reservations are'} excluded because the booking or slot time is unknown.`,
+    unavailable:
+      'This data has no booking times, so booking timing cannot be shown (created_at / updated_at fall before the ticket was received or after the slot, so they appear to be when the pavilion details were created or updated).',
+    notBookingTime: (count: number) =>
+      `${count} ${count === 1 ? 'reservation is' : 'reservations are'} excluded because the recorded date is after the slot or before the ticket was received, so it is not the booking time.`,
+    estimated: 'Reservations without a booking date (created_at) use the update date (updated_at) instead.',
+    activity: 'When we booked',
+    activityCount: (count: number) => `${count} ${count === 1 ? 'booking' : 'bookings'}`,
+    granularities: {
+      day: 'Daily',
+      week: 'Weekly'
+    }
+  },
+  lotteries: {
+    heading: 'Lottery history',
+    intro: 'Lottery entries of the loaded tickets (super early-bird, 2-month and 7-day lotteries) with their outcomes and win rates.',
+    cardHeading: 'Lotteries',
+    kinds: {
+      fast: 'Super early-bird lottery',
+      month: '2-month lottery',
+      day: '7-day lottery'
+    },
+    outcomes: {
+      won: 'Won',
+      lost: 'Lost',
+      pending: 'Pending',
+      unknown: 'Unknown'
+    },
+    inferred: ' (inferred from reservations)',
+    rateFormula: 'Won ÷ (won + lost)',
+    flagged: (count: number) => `Applied: ${count}`,
+    reservations: (count: number) => `Reservations won: ${count}`,
+    kindSummary: (won: number, lost: number, reservations: number) => `Won ${won} / lost ${lost} | reservations won: ${reservations}`,
+    entries: (count: number) => `Entries (${count})`,
+    none: 'No lottery entries.',
+    choice: (order: number) => `Choice ${order}`,
+    choiceWon: 'Won',
+    noChoices: 'No choices recorded.',
+    note: 'The entry format is not published, so only recognizable fields are shown. Entries without a recorded outcome are counted as won when a reservation for one of their pavilions from the same lottery exists on that day (each reservation backs only one entry).'
+  },
+  parties: {
+    heading: 'Parties',
+    intro: 'Tickets with entry reservations on the same date, slot and gate are grouped as a party that visited together.',
+    none: 'No tickets visited together.',
+    summary: (visits: number, sharedEvents: number) => `Visits together ${visits} ｜ Shared pavilion reservations ${sharedEvents}`,
+    sharedEvents: 'Pavilions booked together',
+    noSharedEvents: 'No pavilions booked together.',
+    collapse: 'Count party reservations once',
+    collapseNote: 'Entry reservations with the same date, slot and gate, and pavilion reservations with the same date, pavilion and time, count as one in the totals and the share image.'
+  },
+  printSheet: {
+    heading: 'Print sheet',
+    intro: 'One page per upcoming visit day, listing each ticket’s entry reservation (date, time, gate) with a link to its QR code print page.',
+    print: 'Print',
+    note: 'Only this sheet is printed. Open the links on the official site to show or print the QR codes (login required).',
+    noUpcoming: 'No upcoming entry reservations.',
+    dayTitle: (date: string) => `Visit on ${date}`,
+    ticket: 'Ticket',
+    time: 'Time',
+    gate: 'Gate',
+    qrCode: 'QR code',
+    qrLink: 'Open print page',
+    events: 'Pavilion reservations on this day',
+    past: (count: number) => `Past visits (${count} days)`,
+    pastTickets: (labels: string) => `Tickets ${labels}`,
+    printedAt: (date: string) => `Reservations as of ${date}`
+  },
+  snapshots: {
+    heading: 'Load history',
+    intro: 'Each load keeps a snapshot of the data at that time. Pick two to see reservations added, cancelled or changed in between.',
+    describe: (ticketCount: number, entranceCount: number, eventCount: number) =>
+      `${ticketCount} tickets, ${entranceCount} entries, ${eventCount} pavilions`,
+    added: 'Added reservations',
+    cancelled: 'Cancelled reservations',
+    changed: 'Changed reservations',
+    sectionCount: (heading: string, count: number) => `${heading} (${count})`,
+    noChanges: 'None.',
+    entrance: 'Entry',
+    event: 'Pavilion',
+    before: 'Compare from (older)',
+    after: 'Compare to (newer)',
+    selectDifferent: 'Please pick two different snapshots.',
+    needMore: 'Load the data again to see what changed since the last time.'
+  },
+  merge: {
+    heading: 'Merged with the existing data',
+    addedTickets: (count: number) => `New tickets: ${count}`,
+    mergedTickets: (count: number) => `Merged into existing tickets: ${count}`,
+    addedReservations: (count: number) => `Added reservations: ${count}`,
+    updatedReservations: (count: number) => `Updated to a newer state: ${count}`,
+    conflicts: (count: number) =>
+      `${count} reservations could not be ordered by age (the data loaded later was used)`,
+    entrance: 'Entry reservation',
+    event: 'Pavilion reservation'
+  },
+  fields: {
+    entrance_date: 'Date',
+    schedule_name: 'Slot',
+    start_time: 'Start',
+    end_time: 'End',
+    gate_type: 'Gate',
+    use_state: 'Status',
+    admission_time: 'Admission time',
+    registered_channel: 'Booked via',
+    order_number: 'Order number',
+    received_at: 'Received at',
+    receive_type: 'Receive type',
+    adult_type: 'Adult / child',
+    disp_status: 'Display status',
+    disp_bid_status: 'Lottery display status',
+    change_reservation: 'Change status',
+    fast_lottery: 'Early lottery',
+    lotteries: 'Lottery entries',
+    item_abb_name: 'Ticket type short name',
+    on_the_day: 'Same-day booking',
+    proxy_reserve: 'Booked by proxy',
+    empty_frame: 'Open slot booking',
+    month_lottery: '2-month lottery',
+    day_lottery: '7-day lottery',
+    admission_buf_during: 'In admission grace period',
+    group_ticket_qr_divi: 'Group QR type',
+    schedule_code: 'Schedule code',
+    suspend_divi: 'Suspension type',
+    program_ticket_state: 'Program ticket status',
+    created_at: 'Booked at',
+    updated_at: 'Updated at'
+  },
+  ticketDetails: {
+    show: 'Show all fields',
+    hide: 'Hide fields',
+    ticket: 'Ticket',
+    entrances: 'Entry reservations',
+    events: 'Pavilion reservations',
+    adult: 'Adult',
+    child: 'Child',
+    lotteryCount: (count: number) => `${count}`,
+    note: 'Shown as returned by the API. Codes without a published meaning are shown as numbers.'
+  },
+  diagnostics: {
+    heading: (count: number) => `Diagnostics for the loaded JSON: ${count} ${count === 1 ? 'finding' : 'findings'}`,
+    description: 'The viewer still works, but codes missing from the dictionaries and unexpected fields are shown as "Unknown". The API may have changed or a dictionary may need updating.',
+    codes: {
+      unknownTicketType: 'Ticket type not in dictionary',
+      unknownProgramCode: 'Pavilion not in dictionary',
+      unknownUseState: 'Unknown status',
+      unknownRegisteredChannel: 'Unknown channel',
+      unknownGateType: 'Unknown gate',
+      unexpectedValue: 'Unexpected value',
+      missingField: 'Missing field',
+      typeMismatch: 'Type mismatch',
+      unknownField: 'Unknown field'
+    },
+    unknownCodes: 'Candidates to add to the dictionaries',
+    unknownCodeGroups: {
+      ticketTypes: 'Ticket type IDs (src/ticketTypes.ts)',
+      programCodes: 'Program codes (src/pavilions.ts)',
+      useStates: 'Statuses',
+      registeredChannels: 'Channels',
+      gateTypes: 'Gates'
+    },
+    codeCount: (count: number) => `${count}`,
+    more: (count: number) => `Show ${count} more`,
+    expected: (expected: string) => `expected: ${expected}`,
+    actual: (actual: string) => `actual: ${actual}`,
+    ticket: (label: string, name: string) => `Ticket ${label}${name ? ` (${name})` : ''}`,
+    export: 'Save diagnostics as JSON',
+    exported: 'Diagnostics saved.'
+  }
+};
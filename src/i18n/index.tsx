@@ -0,0 +1,73 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { DEFAULT_LOCALE, isLocale, resolveLocaleFromLanguage } from '../core';
+import type { Locale } from '../core';
+import { en } from './en';
+import { ja } from './ja';
+import type { Messages } from './ja';
+
+export type { Messages };
+
+export const LOCALE_QUERY_PARAM = 'lang';
+
+export const messagesByLocale: Record<Locale, Messages> = { ja, en };
+
+interface I18nContextValue {
+  locale: Locale;
+  m: Messages;
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  m: ja,
+  setLocale: () => undefined
+});
+
+/**
+ * URL の `?lang=` を優先し、指定がなければブラウザの言語設定から表示言語を決める。
+ */
+export function readInitialLocale(): Locale {
+  if (typeof window === 'undefined') {
+    return DEFAULT_LOCALE;
+  }
+  const fromUrl = new URLSearchParams(window.location.search).get(LOCALE_QUERY_PARAM);
+  if (isLocale(fromUrl)) {
+    return fromUrl;
+  }
+  return resolveLocaleFromLanguage(typeof navigator === 'undefined' ? null : navigator.language);
+}
+
+/**
+ * 選んだ言語を `?lang=` に書き込む。共有した URL でも同じ言語で開けるよう、既定の日本語でも省略しない。
+ */
+function writeLocaleToUrl(locale: Locale) {
+  const url = new URL(window.location.href);
+  if (url.searchParams.get(LOCALE_QUERY_PARAM) === locale) {
+    return;
+  }
+  url.searchParams.set(LOCALE_QUERY_PARAM, locale);
+  window.history.replaceState(window.history.state, '', url.toString());
+}
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(readInitialLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = messagesByLocale[locale].header.title;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    writeLocaleToUrl(next);
+  }, []);
+
+  const value = useMemo(() => ({ locale, m: messagesByLocale[locale], setLocale }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,545 @@
+import type { ShareSectionId, ShareTemplateId, TicketParseErrorCode, TicketParseRepair } from '../core';
+import type { ShareThemeId } from '../theme';
+
+export const ja = {
+  languageName: '日本語',
+  /** `toLocaleString` などに渡すロケール */
+  dateLocale: 'ja-JP',
+  common: {
+    close: '閉じる',
+    delete: '削除',
+    none: 'なし',
+    yes: 'はい',
+    no: 'いいえ',
+    count: (count: number) => `${count}件`
+  },
+  language: {
+    label: '表示言語'
+  },
+  header: {
+    title: '万博予約入場履歴ビューアー',
+    description:
+      'マイチケットのチケット一覧APIから取得したJSONを読み込み、入場予約やパビリオン予約を見やすく整理して表示します。過去の入場履歴の確認に便利です。データはブラウザ内でのみ処理され、外部に送信されることはありません。',
+    credit: '本ツールはCodexが一から実装し、Codexへの指示・修正依頼と主要な機能以外の修正のみ製作者が行いました。',
+    firstPublished: '初回公開: 2024年10月04日',
+    lastUpdated: '最終更新: 2024年11月20日',
+    localOnly: 'データはローカル処理のみ',
+    inputMethods: 'JSON貼り付けとファイル読み込みに対応'
+  },
+  notices: {
+    serviceEndTitle: '利用可能なのは11月末までです！',
+    serviceEndBody:
+      '2025年11月末をもってマイチケットがサービス終了するため、本ツールも同時に利用できなくなります。まだの方はお早めにご利用ください。',
+    cautionTitle: 'ご利用にあたっての注意',
+    cautionBody:
+      'このツールは非公式に個人が作成したものです。ご利用に際していかなる責任も負いかねます。また、このツールおよびこのツールで得た情報について公式窓口への問い合わせは絶対に行わないでください。',
+    sampleHint: '下の方の「JSON貼り付け」欄にある「サンプルを読み込む」ボタンを押すとサンプル表示できます。ちなみに製作者個人の履歴です。'
+  },
+  usage: {
+    heading: '使い方',
+    intro: 'ご自身の端末に合わせて、履歴データの取得方法を選んでください。もしうまくできなかったら、他の方法も試してみてください。',
+    onePoint: 'ワンポイント',
+    bookmarkletCode: 'ブックマークレットコード',
+    copyCode: 'コードをコピー',
+    copied: 'コピーしました。ブックマークに貼り付けてください。',
+    copyFailed: 'コピーできませんでした。テキストを選択して手動でコピーしてください。',
+    commonHintsHeading: '共通のヒント',
+    inAppBrowserHint: 'アプリ内ブラウザで開いているときは、外部ブラウザで開いてください。',
+    unauthorizedHint: 'という短いJSONが表示された場合、マイチケットからログアウトしていますので再度ログインして開き直してください。',
+    shareImageHint: '保存やSNSの共有に便利な1枚にまとめた画像も一番下に自動生成されます。',
+    includeHint: '自分以外のチケットが含まれている場合は「集計する」チェックボックスを外して集計対象外にできます。',
+    multipleIdsHint:
+      'パスの併用等で複数の万博IDをお持ちの場合は、ログインとログアウトを繰り返してIDの分だけデータの読み込みを繰り返してください。読み込むたびに既存データと自動で統合されます。',
+    apiChangeHint: 'マイチケットやチケット一覧APIの仕様変更により、正しく表示されなかったり機能が利用できなくなる場合があります。',
+    openMyTicket: 'マイチケットを開く',
+    openTicketApi: 'チケット一覧APIを開く'
+  },
+  shortcuts: {
+    generic: 'ショートカット',
+    mac: 'Macショートカット',
+    other: 'Windows / その他',
+    selectAll: '全選択',
+    copy: 'コピー',
+    save: '保存',
+    note: 'ブラウザや端末によってショートカットが異なる場合があります。'
+  },
+  bookmarklet: {
+    sent: 'データを送信しました。ビューアーをご確認ください。',
+    openFailed: 'ビューアーを開けませんでした。ポップアップを許可してください。',
+    sendFailed: 'データを送信できませんでした。ビューアーが開いているか確認してください。',
+    fetchFailed: 'データの取得に失敗しました。ログイン状態を確認してください。'
+  },
+  input: {
+    pasteLabel: 'JSONを貼り付け',
+    loadSample: 'サンプルを読み込む',
+    clearInput: '貼り付け欄をクリア',
+    placeholder: 'チケット一覧APIのJSONをここに貼り付けてください',
+    parse: 'この内容で解析する',
+    clearData: 'データをクリアする',
+    fileLabel: 'ファイルから読み込む（JSON / HTML / WEBARCHIVE）',
+    click: 'クリック',
+    fileHint: '保存したJSONファイル、またはiPhoneのWeb Archiveファイルを読み込めます。',
+    selectedFile: (name: string) => `選択中: ${name}`,
+    loading: '読み込み中...',
+    saveJsonLabel: 'JSONを保存',
+    saveJsonBody: '今表示しているデータをJSONファイルとしてダウンロードし、あとで「ファイルから読み込む」から再利用できます。',
+    saveJsonRecommendation:
+      'JSONファイルに保存すればマイチケットのサービス終了後もいつでも読み込むことができますので、ついでに保存をおすすめします。',
+    saveJson: '現在のデータを保存する',
+    noDataToSave: '保存できるデータがありません'
+  },
+  persist: {
+    label: 'ブラウザに保存',
+    toggle: '読み込んだデータをこのブラウザに保存する',
+    description:
+      'オンにすると、統合済みのデータ・「集計する」の選択・読み込んだファイル名・読み込み履歴をこの端末のブラウザ内（IndexedDB）に保存し、次回開いたときに自動で復元します。外部には送信されません。共用の端末ではオンにしないでください。',
+    lastSaved: (date: string) => `最終保存: ${date}`,
+    autoSave: 'データを読み込むと自動で保存されます。',
+    files: (names: string) => ` ｜ ファイル: ${names}`,
+    deleteAll: '保存データをすべて削除する',
+    deleteConfirm: 'このブラウザに保存したデータをすべて削除します。よろしいですか？',
+    deleted: '保存データをすべて削除しました。表示中のデータはこのタブを閉じると消去されます。',
+    deleteFailed: '保存データの削除に失敗しました。',
+    restoreFailed: '保存データの読み込みに失敗しました。保存データを上書きしないよう、ページを開き直すまで自動保存を止めています。',
+    saveFailed: 'ブラウザへの保存に失敗しました。空き容量やプライベートブラウズの設定を確認してください。',
+    snapshotSaveFailed: '読み込み履歴の保存に失敗しました。'
+  },
+  errors: {
+    parse: {
+      empty: 'JSONが空です。',
+      unauthorized: 'マイチケットにログインできていません。ログインしてからコード(JSON)の取得をやり直してください。',
+      loginPage: 'ログイン画面のページが読み込まれました。マイチケットにログインしてからコード(JSON)の取得をやり直してください。',
+      html: 'Webページの HTML が読み込まれましたが、チケットの JSON が見つかりませんでした。',
+      truncated: 'JSONが途中で切れています。',
+      syntax: 'JSONの書式に誤りがあります。',
+      eventCatalogue: 'チケット一覧ではなく、イベント一覧の JSON のようです。',
+      invalid: 'JSONの解析に失敗しました。ファイルの形式を確認してください。'
+    } as Record<TicketParseErrorCode, string>,
+    location: (line: number, column: number) => `${line}行目 ${column}文字目`,
+    hints: {
+      loginPage: 'ブラウザでマイチケットにログインしたまま、チケット一覧 API のページを開いて表示された JSON をコピーしてください。',
+      html: 'マイチケットのページそのものではなく、チケット一覧 API のページに表示される JSON を貼り付けてください。',
+      truncated:
+        'コピーの途中で切れた可能性があります。スマートフォンでは長い文字列が途中までしかコピーされないことがあるため、全選択し直すか、ページをファイルとして保存して読み込んでください。',
+      syntax: '貼り付けたあとに文字を書き換えていないか、前後に余計な文字が入っていないか確認してください。',
+      eventCatalogue: 'イベント一覧の JSON はパビリオンマスターとして同梱しています。チケット一覧 API の JSON を読み込んでください。',
+      invalid: 'チケット一覧 API の JSON（`{"list": [...]}` の形）か確認してください。'
+    } as Partial<Record<TicketParseErrorCode, string>>,
+    repairedHeading: 'JSON を自動で直して読み込みました',
+    repairs: {
+      wrappedSingleTicket: 'チケット 1 枚分のデータだったため、チケット一覧として読み込みました。',
+      wrappedTicketArray: 'チケットの配列だったため、チケット一覧として読み込みました。',
+      removedTrailingCommas: '閉じ括弧の直前にあった余分なカンマを取り除きました。'
+    } as Record<TicketParseRepair, string>,
+    unknown: '未知のエラーが発生しました。',
+    webArchiveRead: 'WebArchiveファイルの読み込みに失敗しました。',
+    webArchiveNoJson: 'WebArchive内にチケットJSONが見つかりませんでした。',
+    webArchiveUnknown: 'WebArchiveの解析中に未知のエラーが発生しました。',
+    fileRead: 'ファイルの読み込みに失敗しました。別のファイルでお試しください。'
+  },
+  overview: {
+    tickets: 'チケット数',
+    entrances: '入場予約',
+    events: 'パビリオン予約'
+  },
+  views: {
+    label: '表示切り替え',
+    cards: 'チケット別',
+    calendar: 'カレンダー',
+    timeline: '日別タイムライン',
+    stats: '統計',
+    parties: '同行グループ',
+    lotteries: '抽選',
+    print: '印刷用シート'
+  },
+  emptyStates: {
+    noIncludedTickets: '現在、集計対象のチケットがありません。カードの「集計する」にチェックを入れてください。',
+    noMatches: '絞り込み条件に一致する予約がありません。',
+    beforeParse: 'JSONを解析するとここにチケットの一覧が表示されます。'
+  },
+  footer: {
+    heading: '製作者情報',
+    author: '製作者: Nakayuki',
+    contact: '連絡先:',
+    x: 'X:'
+  },
+  card: {
+    noSummary: '説明がありません。',
+    ticketId: (id: string) => `チケットID: ${id}`,
+    ticketIdHidden: 'チケットID: タップで表示',
+    unregistered: '未登録',
+    group: (name: string) => `種別: ${name}`,
+    entranceCount: (count: number) => `予約回数: ${count}`,
+    eventCount: (count: number) => `パビリオン予約: ${count}`,
+    sample: 'サンプルデータ',
+    include: '集計する',
+    imageAlt: 'チケット画像',
+    entrances: '入場予約',
+    events: 'パビリオン予約',
+    excluded: 'このチケットは集計対象外です。チェックを入れると一覧が再表示されます。'
+  },
+  schedules: {
+    notFound: (title: string) => `${title}は見つかりませんでした。`,
+    noDate: '日付未設定',
+    gateType: (gate: number) => `ゲート種別: ${gate}`,
+    onTheDay: '当日予約',
+    programCode: (code: string) => `プログラムコード: ${code}`,
+    showSummary: '説明を表示',
+    admissionTime: '入場時刻',
+    registeredChannel: '予約方法',
+    startTime: '開始時刻',
+    endTime: '終了時刻',
+    portal: '詳細ページ',
+    portalFallback: '詳細を確認',
+    virtual: 'バーチャル万博',
+    virtualFallback: 'バーチャル万博で見る',
+    upcoming: (count: number) => `これからの予約（${count}件）`,
+    past: (count: number) => `過去の予約（${count}件）`
+  },
+  warnings: {
+    heading: '予約の注意点',
+    intro: 'パビリオン予約の時間の重なりや、入場予約との食い違いを確認します（キャンセル済みの予約は除きます）。',
+    none: '気になる予約は見つかりませんでした。',
+    kinds: {
+      overlap: '時間の重なり',
+      beforeEntrance: '入場前の予約',
+      noEntrance: '入場予約のない日'
+    },
+    count: (count: number) => `${count}件`,
+    overlap: (name: string, time: string, otherName: string, otherTime: string) =>
+      `${name}（${time}）と${otherName}（${otherTime}）の時間が重なっています。どちらかにしか参加できない可能性があります。`,
+    beforeEntrance: (name: string, time: string, slot: string) =>
+      `${name}（${time}）は入場予約の時間枠（${slot}）より前に始まります。入場が間に合わない可能性があります。`,
+    noEntrance: (name: string, time: string) =>
+      `${name}（${time}）の日に、このチケットの入場予約がありません。`,
+    cardHeading: (count: number) => `注意が必要な予約 ${count}件`
+  },
+  nextVisit: {
+    heading: '次の来場',
+    none: 'これからの入場予約はありません。',
+    countdown: (days: number, hours: number, minutes: number) =>
+      days > 0 ? `あと${days}日${hours}時間` : hours > 0 ? `あと${hours}時間${minutes}分` : `あと${minutes}分`,
+    inProgress: '本日来場日です',
+    entrances: '入場予約',
+    events: 'この日のパビリオン予約',
+    noEvents: 'この日のパビリオン予約はありません。',
+    upcomingDays: (count: number) => `これからの来場（${count}日）`,
+    pastDays: (count: number) => `過去の来場（${count}日）`,
+    dayCounts: (entrances: number, events: number) => `入場 ${entrances}件・パビリオン ${events}件`
+  },
+  canvas: {
+    heading: '保存・SNS共有用画像',
+    intro: (canShare: boolean) => `画像の保存${canShare ? 'や共有' : ''}は下のボタンから実行できます。`,
+    templateLabel: '形式',
+    templates: {
+      long: '縦長（すべて表示）',
+      square: '正方形 1080×1080',
+      ogp: 'カード 1200×630',
+      story: 'ストーリー 1080×1920'
+    } as Record<ShareTemplateId, string>,
+    themeLabel: 'テーマ',
+    themes: { light: 'ライト', dark: 'ダーク' } as Record<ShareThemeId, string>,
+    sectionsLabel: '表示する項目',
+    sections: {
+      tickets: 'チケット一覧',
+      entrances: '来場スケジュール',
+      hourChart: '時間帯別入場回数',
+      monthlyChart: '月別来場回数',
+      gateTable: '入場予約集計表'
+    } as Record<ShareSectionId, string>,
+    privacyLabel: '伏せる項目',
+    hideDates: '日付（月だけ表示）',
+    hideAdmissionTimes: '入場時刻',
+    hideTicketTypes: '券種',
+    nicknamesLabel: 'チケットの呼び名',
+    privacyNote: '伏せた項目は画像と共有テキストの両方から外します。呼び名を空欄にしたチケットは A, B, … のまま表示します。',
+    fixedSizeNote: 'サイズが決まっている形式では全体を縮小して収め、入りきらない一覧は末尾を省略します。',
+    save: '画像を保存',
+    saving: '保存中…',
+    share: '共有する',
+    sharing: '共有準備中…',
+    iphoneHint: 'iPhoneに画像を保存する場合、共有ボタンから保存できます。',
+    notGenerated: '画像が生成されていません。',
+    generateFailed: '画像の生成に失敗しました。',
+    saved: '画像をダウンロードしました。',
+    saveFailed: '画像の保存に失敗しました。',
+    pdfLabel: 'PDF の用紙',
+    pageSizes: { a4: 'A4', letter: 'レター' },
+    savePdf: 'PDFを保存',
+    savingPdf: 'PDF作成中…',
+    pdfSaved: (pages: number) => `${pages}ページの PDF をダウンロードしました。`,
+    pdfFailed: 'PDF の作成に失敗しました。',
+    pdfNote: '縦長の画像は用紙の幅に合わせ、セクションや行の境目でページを分けます。',
+    shareUnsupported: 'このブラウザでは共有に対応していません。',
+    shareFilesUnsupported: 'このデバイスは画像共有に対応していません。',
+    shared: '共有メニューを開きました。',
+    shareFailed: '共有に失敗しました。',
+    shareTitle: 'Expo 2025 万博予約入場履歴まとめ',
+    shareText: (entranceCount: number, eventCount: number, period: string) =>
+      `Expo 2025 万博予約入場履歴まとめ\n入場予約 ${entranceCount}回 ｜ パビリオン予約 ${eventCount}回${
+        period ? `\n来場期間: ${period}` : ''
+      }`,
+    imageTitle: 'Expo 2025 来場まとめ',
+    imageCounts: (entranceCount: number, eventCount: number) =>
+      `入場予約 ${entranceCount}回 ｜ パビリオン予約 ${eventCount}回`,
+    imageLeftovers: 'その他パビリオン予約',
+    imageOmitted: (count: number) => `…ほか${count}件`,
+    imageTimeColumn: '時間',
+    imageFooter: '作成: 万博予約入場履歴ビューアー（非公式）'
+  },
+  filter: {
+    heading: '絞り込み',
+    matched: (total: number, matched: number) => `${total}件中 ${matched}件の予約を表示中`,
+    total: (total: number) => `${total}件の予約`,
+    clear: '条件をクリア',
+    text: 'パビリオン名・コード',
+    textPlaceholder: '例: ガンダム / HSH0',
+    dateFrom: '開始日',
+    dateTo: '終了日',
+    gates: 'ゲート',
+    useStates: '利用状況',
+    registeredChannels: '登録経路',
+    ticketTypes: '券種',
+    note: 'パビリオン名・登録経路で絞り込むと入場予約は、ゲートで絞り込むとパビリオン予約は表示されません。件数・カレンダー・共有画像も絞り込んだ予約で集計します。'
+  },
+  exportPanel: {
+    heading: '予約を書き出す',
+    scope: '「集計する」にチェックが入っているチケットの予約だけを書き出します。',
+    ics: 'カレンダーに追加（.ics）',
+    table: (format: string) => `表計算用（.${format}）`,
+    icsDone: 'カレンダー（.ics）ファイルをダウンロードしました。',
+    tableDone: (format: string) => `${format}ファイルをダウンロードしました。`,
+    note: '.ics はスマートフォンやPCのカレンダーアプリで読み込めます（キャンセル済みは除きます。同じ予約は何度読み込んでも重複しません）。CSV/TSV は 1 予約 1 行の表で、キャンセル済みの予約も利用状況付きで含みます。'
+  },
+  calendar: {
+    heading: '予約カレンダー',
+    month: (month: number) => `${month}月`,
+    entrance: '入場',
+    more: (count: number) => `他${count}件`,
+    note: '入場予約はゲートの色（東: 赤 / 西: 青）で表示しています。日付を押すとその日の予定を確認できます。'
+  },
+  timeline: {
+    title: (date: string) => `${date} の予定`,
+    empty: 'この日の予約はありません。',
+    overlapCount: (count: number) => `時間が重なる予約 ${count}件`,
+    backToBackCount: (count: number) => `間隔が詰まっている予約 ${count}件`,
+    entrance: '入場',
+    overlap: '時間が重複',
+    backToBack: '連続',
+    admission: (time: string) => ` ｜ 入場 ${time}`
+  },
+  daily: {
+    heading: '日別タイムライン',
+    previous: '前の日',
+    next: '次の日',
+    dateSelect: '表示する日付',
+    option: (date: string, count: number) => `${date}（${count}件）`,
+    empty: '表示できる予約がありません。',
+    note: (minutes: number) =>
+      `同じチケットで時間が重なるパビリオン予約は赤、間が${minutes}分以内の予約はオレンジで表示しています。縦線は入場予約の時間枠です。`
+  },
+  stats: {
+    heading: '統計',
+    used: '利用済み',
+    unused: '未使用',
+    cancelled: 'キャンセル',
+    other: 'その他',
+    rateFormula: '利用済み ÷（利用済み + 未使用）',
+    entranceRate: '入場予約の利用率',
+    eventRate: 'パビリオン予約の利用率',
+    topPavilions: 'よく予約したパビリオン',
+    noEvents: 'パビリオン予約がありません。',
+    pavilionCounts: (reservations: number, visits: number) => `予約 ${reservations}回 ｜ 利用 ${visits}回`,
+    showTop: '上位のみ表示',
+    showAll: (count: number) => `すべて表示（${count}件）`,
+    repeatPavilions: '2回以上利用したパビリオン',
+    noRepeats: 'ありません。',
+    channels: '登録経路の内訳',
+    channelCount: (count: number, percent: string) => `${count}件（${percent}）`,
+    weekdays: '曜日別の予約数',
+    weekdayEntrances: (count: number) => `入場 ${count}件`,
+    weekdayEvents: (count: number) => `パビリオン ${count}件`,
+    weekdayLegend: '赤: 入場予約 ／ 青: パビリオン予約（キャンセルを除く）'
+  },
+  leadTime: {
+    heading: '予約のタイミング',
+    intro: 'パビリオン予約の予約日時から、枠の何日前に予約できたかを登録経路ごとに集計します（キャンセルを除く）。',
+    none: '予約日時の分かるパビリオン予約がありません。',
+    byChannel: '登録経路別のリードタイム',
+    channel: '登録経路',
+    count: '件数',
+    average: '平均',
+    median: '中央値',
+    range: '最短 〜 最長',
+    duration: (days: number, hours: number) => (days > 0 ? `${days}日${hours}時間前` : `${hours}時間前`),
+    skipped: (count: number) => `予約日時か枠の日時が分からない ${count}件は除いています。`,
+    unavailable:
+      'このデータには予約した日時が含まれていないため、予約のタイミングを集計できません（created_at / updated_at はチケットの受け取り前や枠の後の日時で、パビリオン情報の作成・更新日時と考えられます）。',
+    notBookingTime: (count: number) =>
+      `日時が枠の開始より後か、チケットの受け取りより前の ${count}件は、予約した日時ではないとみなして除いています。`,
+    estimated: '予約日時（created_at）がない予約は更新日時（updated_at）で代用しています。',
+    activity: '予約した時期',
+    activityCount: (count: number) => `${count}件`,
+    granularities: {
+      day: '日ごと',
+      week: '週ごと'
+    } as Record<string, string>
+  },
+  lotteries: {
+    heading: '抽選の履歴',
+    intro: '読み込んだチケットの抽選の申込（超早割特別抽選・2ヶ月前抽選・7日前抽選）と、その結果・当選率をまとめます。',
+    cardHeading: '抽選',
+    kinds: {
+      fast: '超早割特別抽選',
+      month: '2ヶ月前抽選',
+      day: '7日前抽選'
+    } as Record<string, string>,
+    outcomes: {
+      won: '当選',
+      lost: '落選',
+      pending: '抽選待ち',
+      unknown: '結果不明'
+    } as Record<string, string>,
+    inferred: '（予約から推定）',
+    rateFormula: '当選 ÷（当選 + 落選）',
+    flagged: (count: number) => `申込あり ${count}件`,
+    reservations: (count: number) => `抽選で取れた予約 ${count}件`,
+    kindSummary: (won: number, lost: number, reservations: number) => `当選 ${won} ／ 落選 ${lost} ｜ 抽選で取れた予約 ${reservations}件`,
+    entries: (count: number) => `申込の一覧（${count}件）`,
+    none: '抽選の申込履歴はありません。',
+    choice: (order: number) => `第${order}希望`,
+    choiceWon: '当選',
+    noChoices: '希望の内容は記録されていません。',
+    note: '申込履歴の形式は公開されていないため、読み取れる項目だけを表示しています。結果が記録されていない申込は、同じ日に抽選の経路で取れた希望のパビリオンの予約があれば当選と推定します（1 件の予約で推定するのは 1 件の申込だけです）。'
+  },
+  parties: {
+    heading: '同行グループ',
+    intro: '同じ日付・時間枠・ゲートの入場予約を持つチケットを、一緒に来場したグループとしてまとめます。',
+    none: '一緒に来場したチケットは見つかりませんでした。',
+    summary: (visits: number, sharedEvents: number) => `一緒に来場 ${visits}回 ｜ 同じパビリオン予約 ${sharedEvents}件`,
+    sharedEvents: '一緒に予約したパビリオン',
+    noSharedEvents: '一緒に予約したパビリオンはありません。',
+    collapse: '同行分をまとめて数える',
+    collapseNote: '同じ日付・時間枠・ゲートの入場予約と、同じ日付・パビリオン・時刻の予約を 1 件として、件数と共有画像を集計します。'
+  },
+  printSheet: {
+    heading: '印刷用シート',
+    intro: 'これからの来場日ごとに、チケット別の入場予約（日時・ゲート）と QR コード印刷ページへのリンクを 1 日 1 ページにまとめます。',
+    print: '印刷する',
+    note: '印刷するとこのシートだけが出力されます。QR コードはリンク先の公式サイトで表示・印刷してください（ログインが必要です）。',
+    noUpcoming: 'これからの入場予約はありません。',
+    dayTitle: (date: string) => `${date} の来場`,
+    ticket: 'チケット',
+    time: '時間',
+    gate: 'ゲート',
+    qrCode: 'QRコード',
+    qrLink: '印刷ページを開く',
+    events: 'この日のパビリオン予約',
+    past: (count: number) => `過去の来場（${count}日）`,
+    pastTickets: (labels: string) => `チケット ${labels}`,
+    printedAt: (date: string) => `${date} 時点の予約`
+  },
+  snapshots: {
+    heading: '読み込み履歴',
+    intro: '読み込むたびにその時点のデータをスナップショットとして残します。2つを選ぶと、その間に追加・取消・変更された予約を確認できます。',
+    describe: (ticketCount: number, entranceCount: number, eventCount: number) =>
+      `チケット${ticketCount}枚・入場${entranceCount}件・パビリオン${eventCount}件`,
+    added: '追加された予約',
+    cancelled: '取消された予約',
+    changed: '状態などが変わった予約',
+    sectionCount: (heading: string, count: number) => `${heading}（${count}件）`,
+    noChanges: '該当する予約はありません。',
+    entrance: '入場',
+    event: 'パビリオン',
+    before: '比較元（古い方）',
+    after: '比較先（新しい方）',
+    selectDifferent: '異なる2つのスナップショットを選んでください。',
+    needMore: 'もう一度データを読み込むと、前回との差分を表示できます。'
+  },
+  merge: {
+    heading: '既存データと統合しました',
+    addedTickets: (count: number) => `新しいチケット ${count}枚`,
+    mergedTickets: (count: number) => `既存チケットとの統合 ${count}枚`,
+    addedReservations: (count: number) => `追加された予約 ${count}件`,
+    updatedReservations: (count: number) => `新しい状態に更新 ${count}件`,
+    conflicts: (count: number) =>
+      `どちらが新しいか判断できない予約が${count}件あります（後から読み込んだ内容を採用しました）`,
+    entrance: '入場予約',
+    event: 'パビリオン予約'
+  },
+  fields: {
+    entrance_date: '日付',
+    schedule_name: '時間帯',
+    start_time: '開始時刻',
+    end_time: '終了時刻',
+    gate_type: 'ゲート',
+    use_state: '利用状況',
+    admission_time: '入場時刻',
+    registered_channel: '予約方法',
+    order_number: '注文番号',
+    received_at: '受け取り日時',
+    receive_type: '受け取り方法',
+    adult_type: '大人 / こども',
+    disp_status: '表示状態',
+    disp_bid_status: '抽選の表示状態',
+    change_reservation: '予約変更の状態',
+    fast_lottery: '早期抽選',
+    lotteries: '抽選の申込',
+    item_abb_name: '券種の略称',
+    on_the_day: '当日予約',
+    proxy_reserve: '代理予約',
+    empty_frame: '空き枠予約',
+    month_lottery: '2か月前抽選',
+    day_lottery: '7日前抽選',
+    admission_buf_during: '入場猶予時間中',
+    group_ticket_qr_divi: 'グループQR区分',
+    schedule_code: 'スケジュールコード',
+    suspend_divi: '休止区分',
+    program_ticket_state: 'プログラム券の状態',
+    created_at: '予約日時',
+    updated_at: '更新日時'
+  } as Record<string, string>,
+  ticketDetails: {
+    show: '詳細項目を表示',
+    hide: '詳細項目を隠す',
+    ticket: 'チケット',
+    entrances: '入場予約',
+    events: 'パビリオン予約',
+    adult: '大人',
+    child: 'こども',
+    lotteryCount: (count: number) => `${count}件`,
+    note: 'API から取得したまま表示しています。意味が公開されていないコードは数値で表示します。'
+  },
+  diagnostics: {
+    heading: (count: number) => `読み込んだ JSON の診断結果: 気になる点が ${count} 件あります`,
+    description: '表示は続けられますが、辞書にないコードや想定と違う項目は「不明」などで表示しています。API の仕様変更や辞書の更新漏れの可能性があります。',
+    codes: {
+      unknownTicketType: '辞書にない券種 ID',
+      unknownProgramCode: '辞書にないパビリオン',
+      unknownUseState: '未知の利用状況',
+      unknownRegisteredChannel: '未知の登録経路',
+      unknownGateType: '未知のゲート',
+      unexpectedValue: '想定外の値',
+      missingField: '必須項目の欠け',
+      typeMismatch: '型の違い',
+      unknownField: '未知の項目'
+    } as Record<string, string>,
+    unknownCodes: '辞書に追加する候補',
+    unknownCodeGroups: {
+      ticketTypes: '券種 ID（src/ticketTypes.ts）',
+      programCodes: 'プログラムコード（src/pavilions.ts）',
+      useStates: '利用状況',
+      registeredChannels: '登録経路',
+      gateTypes: 'ゲート'
+    } as Record<string, string>,
+    codeCount: (count: number) => `${count}件`,
+    more: (count: number) => `残り ${count}件を表示`,
+    expected: (expected: string) => `想定: ${expected}`,
+    actual: (actual: string) => `実際: ${actual}`,
+    ticket: (label: string, name: string) => `チケット ${label}${name ? `（${name}）` : ''}`,
+    export: '診断結果を JSON で保存',
+    exported: '診断結果を保存しました。'
+  }
+};
+
+export type Messages = typeof ja;
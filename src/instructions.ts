@@ -0,0 +1,278 @@
+import type { Locale } from './core';
+
+export const MY_TICKET_URL = 'https://ticket.expo2025.or.jp/myticket/';
+export const TICKET_API_URL = 'https://ticket.expo2025.or.jp/api/d/my/tickets/';
+
+export type InstructionMethod = 'bookmarklet' | 'file' | 'copy';
+
+export interface InstructionAction {
+  label: string;
+  href: string;
+  target: string;
+}
+
+export interface InstructionStep {
+  heading: string;
+  body?: string;
+  actions?: InstructionAction[];
+  showBookmarkletCode?: boolean;
+  showCopyShortcutBadges?: boolean;
+  showSaveShortcutBadges?: boolean;
+}
+
+export interface InstructionDefinition {
+  label: string;
+  description: string;
+  steps: InstructionStep[];
+  notes?: string[];
+}
+
+const jaInstructions: Record<InstructionMethod, InstructionDefinition> = {
+  bookmarklet: {
+    label: 'ブックマークレット',
+    description: 'Android・PC向け(Safari不可)',
+    steps: [
+      {
+        heading: 'ブックマークレットをブラウザに登録',
+        body: 'このページをブラウザ(Chrome等)のブックマーク(お気に入り)に登録します。\n次に下のコードをコピーします。\nそして、ブックマーク一覧から先ほど登録したブックマークを編集し、名前を適当なもの(例えば「履歴読み込み」)に変え、URL欄に元のURLを消してコピーしたコードを貼り付けて保存します。\n一度保存したら次回からはこのステップは不要です\nAndroidの方は変更したブックマークの名前を覚えておいてください。',
+        showBookmarkletCode: true
+      },
+      {
+        heading: 'マイチケットにログイン',
+        body: '下の「マイチケットを開く」ボタンからページを開き、普段どおりログインします。',
+        actions: [
+          {
+            label: 'マイチケットを開く',
+            href: MY_TICKET_URL,
+            target: 'myticket'
+          }
+        ]
+      },
+      {
+        heading: 'ブックマークレットを実行',
+        body: 'ログイン後のマイチケットの画面で先ほど編集したブックマークを開くと、自動でこのビューアーに履歴データが読み込まれますので、このビューアーのタブに戻ってきてください。\nAndroidの場合はブックマーク一覧から開いても実行できません。マイチケットの画面でアドレスバーに編集時に変えたブックマークの名前を打ち込んで、候補に先ほど登録したブックマークが出てきたら開いてください。(閲覧履歴に基づくURLの候補と紛らわしい場合がありますので注意してください。ブックマーク名を変えていないと紛らわしいです。)',
+      }
+    ],
+    notes: [
+      'ブックマークレットは大きな JSON でもコピーせずに送信できます。',
+      'ポップアップがブロックされた場合は、ポップアップを許可してから再度ブックマークを実行してください。',
+      'Safari では動作しません。iPhone の方はファイルを読み込む方法をお試しください。',
+    ]
+  },
+  file: {
+    label: 'ファイルを読み込む',
+    description: '一度ファイルに保存する方法です。iPhoneもOK',
+    steps: [
+      {
+        heading: 'マイチケットにログイン',
+        body: '下の「マイチケットを開く」ボタンからログインページを開きます。',
+        actions: [
+          {
+            label: 'マイチケットを開く',
+            href: MY_TICKET_URL,
+            target: 'myticket'
+          }
+        ]
+      },
+      {
+        heading: 'チケット一覧APIを開く',
+        body: '下の「チケット一覧APIを開く」ボタンからページを表示し、画面いっぱいに文字の羅列によるコード(JSON)が表示されていることを確認します。',
+        actions: [
+          {
+            label: 'チケット一覧APIを開く',
+            href: TICKET_API_URL,
+            target: '_blank'
+          }
+        ]
+      },
+      {
+        heading: 'ファイルに保存',
+        body: 'コード(JSON)が表示されている画面をファイルに保存します。(PDFで保存は不可)\niPhone の場合はSafariの共有メニューを開き、オプションで「Webアーカイブ」を選択して完了を押します。そして、「"ファイル"に保存」を押して任意の場所に保存します。\nPCの場合は、下のショートカットキーを参考にしてください。',
+        showSaveShortcutBadges: true
+      },
+      {
+        heading: 'このページでファイルを選択',
+        body: '「ファイルから読み込む」エリアをクリックし、先ほど保存したファイルを選びます。'
+      },
+      {
+        heading: '解析完了を待つ',
+        body: '読み込みが終わるとデータが自動で解析され、一覧に追加されます。'
+      }
+    ],
+    notes: [
+      'PCでファイル名に拡張子が付いていない場合は .json を付けると読み込みやすくなります。',
+      'この方法では公式API側の仕様で言語指定ができないため、一部の情報は英語表記になります。',
+    ]
+  },
+  copy: {
+    label: 'JSONをコピペ',
+    description: 'PCなら手軽',
+    steps: [
+      {
+        heading: 'マイチケットにログイン',
+        body: '下の「マイチケットを開く」ボタンからログインページを開きます。',
+        actions: [
+          {
+            label: 'マイチケットを開く',
+            href: MY_TICKET_URL,
+            target: 'myticket'
+          }
+        ]
+      },
+      {
+        heading: 'チケット一覧APIを開く',
+        body: '下の「チケット一覧APIを開く」ボタンからページを表示し、画面いっぱいに文字の羅列によるコード(JSON)が表示されていることを確認します。',
+        actions: [
+          {
+            label: 'チケット一覧APIを開く',
+            href: TICKET_API_URL,
+            target: '_blank'
+          }
+        ]
+      },
+      {
+        heading: '全選択してコピー',
+        body: 'コード(JSON)を全選択してまるごとコピーします。下のショートカットキーを参考にしてください。',
+        showCopyShortcutBadges: true
+      },
+      {
+        heading: 'ビューアーに貼り付けて解析',
+        body: 'このページの「JSONを貼り付け」欄にペーストし、「この内容で解析する」を押します。'
+      }
+    ],
+    notes: [
+      'Android では JSON が長いと途中でコピーが途切れることがあります。うまくいかない場合はブックマークレットやファイル保存を利用してください。',
+      '貼り付け前に余計な文字が混ざっていないか確認してください。',
+      'この方法では公式API側の仕様で言語指定ができないため、一部の情報は英語表記になります。',
+    ]
+  }
+};
+
+
+const enInstructions: Record<InstructionMethod, InstructionDefinition> = {
+  bookmarklet: {
+    label: 'Bookmarklet',
+    description: 'For Android and PC (not Safari)',
+    steps: [
+      {
+        heading: 'Register the bookmarklet in your browser',
+        body: 'Bookmark this page in your browser (Chrome etc.).\nNext, copy the code below.\nThen edit the bookmark you just added: change its name to something simple (for example "Load history"), replace the URL with the copied code and save it.\nYou only need to do this step once.\nOn Android, remember the new name of the bookmark.',
+        showBookmarkletCode: true
+      },
+      {
+        heading: 'Log in to My Ticket',
+        body: 'Open My Ticket with the "Open My Ticket" button below and log in as usual.',
+        actions: [
+          {
+            label: 'Open My Ticket',
+            href: MY_TICKET_URL,
+            target: 'myticket'
+          }
+        ]
+      },
+      {
+        heading: 'Run the bookmarklet',
+        body: 'On the My Ticket page after logging in, open the bookmark you edited. Your history is loaded into this viewer automatically, so come back to this tab.\nOn Android, opening it from the bookmark list does not work. Type the bookmark name into the address bar on the My Ticket page and pick the bookmark from the suggestions. (Suggestions from your browsing history can look similar, so be careful. Renaming the bookmark makes it easier to find.)'
+      }
+    ],
+    notes: [
+      'The bookmarklet sends even large JSON without copying.',
+      'If a pop-up is blocked, allow pop-ups and run the bookmarklet again.',
+      'It does not work in Safari. On iPhone, try loading a file instead.'
+    ]
+  },
+  file: {
+    label: 'Load a file',
+    description: 'Save the data to a file first. Works on iPhone',
+    steps: [
+      {
+        heading: 'Log in to My Ticket',
+        body: 'Open the login page with the "Open My Ticket" button below.',
+        actions: [
+          {
+            label: 'Open My Ticket',
+            href: MY_TICKET_URL,
+            target: 'myticket'
+          }
+        ]
+      },
+      {
+        heading: 'Open the ticket list API',
+        body: 'Open the page with the "Open the ticket list API" button below and check that the screen is filled with code (JSON).',
+        actions: [
+          {
+            label: 'Open the ticket list API',
+            href: TICKET_API_URL,
+            target: '_blank'
+          }
+        ]
+      },
+      {
+        heading: 'Save it to a file',
+        body: 'Save the page showing the code (JSON) to a file. (Saving as PDF does not work.)\nOn iPhone, open the Safari share menu, choose "Web Archive" under Options and tap Done. Then tap "Save to Files" and save it anywhere.\nOn a PC, use the shortcut below.',
+        showSaveShortcutBadges: true
+      },
+      {
+        heading: 'Choose the file on this page',
+        body: 'Click the "Load from a file" area and pick the file you saved.'
+      },
+      {
+        heading: 'Wait for the analysis',
+        body: 'Once loaded, the data is analyzed automatically and added to the list.'
+      }
+    ],
+    notes: [
+      'On a PC, adding .json to a file name without an extension makes it easier to load.',
+      'With this method the official API answers in English regardless of the language setting.'
+    ]
+  },
+  copy: {
+    label: 'Copy & paste JSON',
+    description: 'Easy on a PC',
+    steps: [
+      {
+        heading: 'Log in to My Ticket',
+        body: 'Open the login page with the "Open My Ticket" button below.',
+        actions: [
+          {
+            label: 'Open My Ticket',
+            href: MY_TICKET_URL,
+            target: 'myticket'
+          }
+        ]
+      },
+      {
+        heading: 'Open the ticket list API',
+        body: 'Open the page with the "Open the ticket list API" button below and check that the screen is filled with code (JSON).',
+        actions: [
+          {
+            label: 'Open the ticket list API',
+            href: TICKET_API_URL,
+            target: '_blank'
+          }
+        ]
+      },
+      {
+        heading: 'Select all and copy',
+        body: 'Select the whole code (JSON) and copy it. See the shortcuts below.',
+        showCopyShortcutBadges: true
+      },
+      {
+        heading: 'Paste it into the viewer and analyze',
+        body: 'Paste it into the "Paste JSON" box on this page and press "Analyze this JSON".'
+      }
+    ],
+    notes: [
+      'On Android, long JSON may be cut off while copying. If that happens, use the bookmarklet or save a file instead.',
+      'Make sure no extra characters are mixed in before pasting.',
+      'With this method the official API answers in English regardless of the language setting.'
+    ]
+  }
+};
+
+export const instructionDefinitions: Record<Locale, Record<InstructionMethod, InstructionDefinition>> = {
+  ja: jaInstructions,
+  en: enInstructions
+};
+
+export const instructionOrder: InstructionMethod[] = ['file', 'bookmarklet', 'copy'];
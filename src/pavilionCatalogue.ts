@@ -0,0 +1,26 @@
+import { buildPavilionMaster } from './core';
+import type { CatalogueEvent, Locale, PavilionMaster } from './core';
+
+const masterPromises: Partial<Record<Locale, Promise<PavilionMaster>>> = {};
+
+function importCatalogue(locale: Locale): Promise<{ default: unknown }> {
+  return locale === 'en' ? import('../sample/events_en.json') : import('../sample/events_ja.json');
+}
+
+/**
+ * 同梱のイベントカタログ（約1MB）は最初に必要になったときに別チャンクとして読み込む。
+ * 表示言語ごとに対応するカタログを読み込み、結果は言語別にキャッシュする。
+ */
+export function loadPavilionMaster(locale: Locale = 'ja'): Promise<PavilionMaster> {
+  let masterPromise = masterPromises[locale];
+  if (!masterPromise) {
+    masterPromise = importCatalogue(locale)
+      .then((module) => buildPavilionMaster(module.default as CatalogueEvent[], locale))
+      .catch((error) => {
+        delete masterPromises[locale];
+        throw error;
+      });
+    masterPromises[locale] = masterPromise;
+  }
+  return masterPromise;
+}
@@ -0,0 +1,75 @@
+import { isKnownUseState, resolveUseStateLabel } from './core';
+import type { GateType, Locale, UseStateType } from './core';
+
+export const gateBadgeClasses: Record<GateType, string> = {
+  1: 'bg-[#E60012]/10 text-[#E60012]',
+  2: 'bg-[#0068B7]/10 text-[#0068B7]'
+};
+
+export const useStateBadgeClasses: Record<UseStateType, string> = {
+  0: 'bg-[#D2D7DA] text-[#0B1F3B]',
+  1: 'bg-[#0068B7]/10 text-[#0068B7]',
+  2: 'bg-[#E60012]/10 text-[#E60012]',
+  3: 'bg-[#E60012]/20 text-[#E60012]',
+  4: 'bg-[#0068B7]/20 text-[#0068B7]',
+  9: 'bg-[#D2D7DA] text-[#0B1F3B]'
+};
+
+export const themeColors = {
+  red: '#E60012',
+  blue: '#0068B7',
+  gray: '#D2D7DA',
+  darkBlue: '#0B1F3B',
+  textGray: '#4B5563'
+};
+
+export function resolveUseState(value?: number, locale: Locale = 'ja'): { label: string; className: string } {
+  const label = resolveUseStateLabel(value, locale);
+  const className = isKnownUseState(value) ? useStateBadgeClasses[value] : 'bg-[#D2D7DA] text-[#0B1F3B]';
+  return { label, className };
+}
+
+export type ShareThemeId = 'light' | 'dark';
+
+export interface ShareTheme {
+  background: string;
+  card: string;
+  title: string;
+  heading: string;
+  text: string;
+  subText: string;
+  accent: string;
+  east: string;
+  west: string;
+  bar: string;
+  grid: string;
+}
+
+export const shareThemes: Record<ShareThemeId, ShareTheme> = {
+  light: {
+    background: themeColors.gray,
+    card: '#ffffff',
+    title: themeColors.blue,
+    heading: themeColors.blue,
+    text: themeColors.darkBlue,
+    subText: themeColors.textGray,
+    accent: themeColors.red,
+    east: themeColors.red,
+    west: themeColors.blue,
+    bar: themeColors.blue,
+    grid: themeColors.gray
+  },
+  dark: {
+    background: '#060F1E',
+    card: themeColors.darkBlue,
+    title: '#FFFFFF',
+    heading: '#5AAEFF',
+    text: '#F1F5F9',
+    subText: '#C5CCD0',
+    accent: '#FF5C6A',
+    east: '#FF5C6A',
+    west: '#5AAEFF',
+    bar: '#5AAEFF',
+    grid: '#334766'
+  }
+};
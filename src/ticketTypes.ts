@@ -1 +1,2 @@
-export const ticketTypes: Record<string,string> = {"11":"開幕券","12":"前期券","13":"一日券（超早期購入割引）","14":"一日券（早期購入割引）","21":"通期パス","22":"夏パス","31":"特別割引券","41":"一日券","42":"平日券","43":"夜間券","51":"一般団体割引券","52":"前期学校団体割引券","53":"後期学校団体割引券","54":"一般団体無料券（無料扱）","55":"学校団体無料券（引率用）","56":"団体3歳以下無料券","57":"一般団体割引券 ※インバウンド","58":"前期学校団体 割引券 ※インバウンド","59":"後期学校団体 割引券 ※インバウンド","61":"開幕券 ※インバウンド","62":"前期券 ※インバウンド","63":"一日券（超早期購入割引） ※インバウンド","64":"一日券（早期購入割引） ※インバウンド","71":"通期パス ※インバウンド","72":"夏パス ※インバウンド","81":"特別割引券 ※インバウンド","91":"一日券 ※インバウンド","92":"平日券 ※インバウンド","93":"夜間券 ※インバウンド","101":"３歳以下無料券","111":"開幕券　※日付指定用","112":"前期券　※日付指定用","113":"一日券　～早期購入割引～　※日付指定用","114":"一日券　※日付指定用","115":"平日券　※日付指定用","116":"夜間券　※日付指定用","117":"特別割引券　※日付指定用","121":"こども招待一日券","122":"おとな招待一日券","123":"招待夏パス","131":"開幕券 ※インバウンド委託先予約用","132":"前期券 ※インバウンド委託先予約用","133":"一日券 ※インバウンド委託先予約用","134":"一日券(早割) ※インバウンド委託先予約用","135":"平日券 ※インバウンド委託先予約用","136":"夜間券 ※インバウンド委託先予約用","137":"特別割引券 ※インバウンド委託先予約用","200":"無料券（一日券）※来場日時予約可","201":"無料券（夜間券）※来場日時予約可","202":"無料券（一日券）※来場日時変更不可","203":"無料券（夜間券）※来場日時変更不可","204":"テストラン専用券"}
\ No newline at end of file
+export const ticketTypes: Record<string,string> = {"11":"開幕券","12":"前期券","13":"一日券（超早期購入割引）","14":"一日券（早期購入割引）","21":"通期パス","22":"夏パス","31":"特別割引券","41":"一日券","42":"平日券","43":"夜間券","51":"一般団体割引券","52":"前期学校団体割引券","53":"後期学校団体割引券","54":"一般団体無料券（無料扱）","55":"学校団体無料券（引率用）","56":"団体3歳以下無料券","57":"一般団体割引券 ※インバウンド","58":"前期学校団体 割引券 ※インバウンド","59":"後期学校団体 割引券 ※インバウンド","61":"開幕券 ※インバウンド","62":"前期券 ※インバウンド","63":"一日券（超早期購入割引） ※インバウンド","64":"一日券（早期購入割引） ※インバウンド","71":"通期パス ※インバウンド","72":"夏パス ※インバウンド","81":"特別割引券 ※インバウンド","91":"一日券 ※インバウンド","92":"平日券 ※インバウンド","93":"夜間券 ※インバウンド","101":"３歳以下無料券","111":"開幕券　※日付指定用","112":"前期券　※日付指定用","113":"一日券　～早期購入割引～　※日付指定用","114":"一日券　※日付指定用","115":"平日券　※日付指定用","116":"夜間券　※日付指定用","117":"特別割引券　※日付指定用","121":"こども招待一日券","122":"おとな招待一日券","123":"招待夏パス","131":"開幕券 ※インバウンド委託先予約用","132":"前期券 ※インバウンド委託先予約用","133":"一日券 ※インバウンド委託先予約用","134":"一日券(早割) ※インバウンド委託先予約用","135":"平日券 ※インバウンド委託先予約用","136":"夜間券 ※インバウンド委託先予約用","137":"特別割引券 ※インバウンド委託先予約用","200":"無料券（一日券）※来場日時予約可","201":"無料券（夜間券）※来場日時予約可","202":"無料券（一日券）※来場日時変更不可","203":"無料券（夜間券）※来場日時変更不可","204":"テストラン専用券"}
+export const ticketTypesEn: Record<string,string> = {"11":"Opening Ticket","12":"Early Period Ticket","13":"One-day Ticket (Super Early Bird Discount)","14":"One-day Ticket (Early Bird Discount)","21":"Season Pass","22":"Summer Pass","31":"Special Discount Ticket","41":"One-day Ticket","42":"Weekday Ticket","43":"Night Ticket","51":"Group Discount Ticket","52":"School Group Discount Ticket (Early Period)","53":"School Group Discount Ticket (Late Period)","54":"Group Free Ticket","55":"School Group Free Ticket (Chaperone)","56":"Group Free Ticket (Age 3 and Under)","57":"Group Discount Ticket (Inbound)","58":"School Group Discount Ticket (Early Period, Inbound)","59":"School Group Discount Ticket (Late Period, Inbound)","61":"Opening Ticket (Inbound)","62":"Early Period Ticket (Inbound)","63":"One-day Ticket (Super Early Bird Discount, Inbound)","64":"One-day Ticket (Early Bird Discount, Inbound)","71":"Season Pass (Inbound)","72":"Summer Pass (Inbound)","81":"Special Discount Ticket (Inbound)","91":"One-day Ticket (Inbound)","92":"Weekday Ticket (Inbound)","93":"Night Ticket (Inbound)","101":"Free Ticket (Age 3 and Under)","111":"Opening Ticket (Date-specified)","112":"Early Period Ticket (Date-specified)","113":"One-day Ticket (Early Bird Discount, Date-specified)","114":"One-day Ticket (Date-specified)","115":"Weekday Ticket (Date-specified)","116":"Night Ticket (Date-specified)","117":"Special Discount Ticket (Date-specified)","121":"Children's Invitation One-day Ticket","122":"Adult Invitation One-day Ticket","123":"Invitation Summer Pass","131":"Opening Ticket (Inbound, Agent Booking)","132":"Early Period Ticket (Inbound, Agent Booking)","133":"One-day Ticket (Inbound, Agent Booking)","134":"One-day Ticket (Early Bird, Inbound, Agent Booking)","135":"Weekday Ticket (Inbound, Agent Booking)","136":"Night Ticket (Inbound, Agent Booking)","137":"Special Discount Ticket (Inbound, Agent Booking)","200":"Free Ticket (One-day, Visit Date Bookable)","201":"Free Ticket (Night, Visit Date Bookable)","202":"Free Ticket (One-day, Visit Date Fixed)","203":"Free Ticket (Night, Visit Date Fixed)","204":"Test Run Ticket"}